@@ -0,0 +1,134 @@
+// ./src/graphql/resolvers/beneficiary.resolvers.ts
+
+import User from "../../models/user.model.js";
+import { BeneficiaryService } from "../../services/beneficiary.services.js";
+import { toISOString } from "../../utils/format.js";
+
+const beneficiaryService = new BeneficiaryService();
+
+const beneficiaryResolvers = {
+  Beneficiary: {
+    recipientUser: async (parent) =>
+      parent.recipientUser ? User.findById(parent.recipientUser) : null,
+    confirmedAt: (parent) => toISOString(parent.confirmedAt),
+    coolingOffUntil: (parent) => toISOString(parent.coolingOffUntil),
+    lastUsedAt: (parent) => toISOString(parent.lastUsedAt),
+  },
+  Query: {
+    /**
+     * Get the authenticated user's beneficiaries
+     */
+    beneficiaries: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await beneficiaryService.getBeneficiaries(userId, args);
+      } catch (error) {
+        console.log("Query.beneficiaries error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Get a beneficiary of the authenticated user
+     */
+    beneficiary: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await beneficiaryService.getBeneficiary(userId, args.id);
+      } catch (error) {
+        console.log("Query.beneficiary error", error);
+        throw error;
+      }
+    },
+  },
+  Mutation: {
+    /**
+     * Add a beneficiary, external addresses are confirmed with an emailed OTP
+     */
+    addBeneficiary: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await beneficiaryService.addBeneficiary(userId, args.input);
+      } catch (error) {
+        console.log("Mutation.addBeneficiary error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Confirm an external beneficiary with the emailed OTP
+     */
+    confirmBeneficiary: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await beneficiaryService.confirmBeneficiary(
+          userId,
+          args.id,
+          args.otp
+        );
+      } catch (error) {
+        console.log("Mutation.confirmBeneficiary error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Send a new OTP to confirm a pending beneficiary
+     */
+    resendBeneficiaryConfirmation: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await beneficiaryService.resendConfirmation(userId, args.id);
+      } catch (error) {
+        console.log("Mutation.resendBeneficiaryConfirmation error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Update the label or favourite flag of a beneficiary
+     */
+    updateBeneficiary: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await beneficiaryService.updateBeneficiary(
+          userId,
+          args.id,
+          args.input
+        );
+      } catch (error) {
+        console.log("Mutation.updateBeneficiary error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Remove a beneficiary
+     */
+    removeBeneficiary: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await beneficiaryService.removeBeneficiary(userId, args.id);
+      } catch (error) {
+        console.log("Mutation.removeBeneficiary error", error);
+        throw error;
+      }
+    },
+  },
+};
+
+export default beneficiaryResolvers;
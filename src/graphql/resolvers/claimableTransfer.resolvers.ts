@@ -0,0 +1,114 @@
+// ./src/graphql/resolvers/claimableTransfer.resolvers.ts
+
+import User from "../../models/user.model.js";
+import { ClaimableTransferService } from "../../services/claimableTransfer.services.js";
+import { toDecimal, toISOString } from "../../utils/format.js";
+import { requireAdmin } from "../../utils/user.js";
+
+// Initialize the claimable transfer service with your 100Pay API keys
+const claimableTransferService = new ClaimableTransferService(
+  process.env.PAY100_PUBLIC_KEY || "",
+  process.env.PAY100_SECRET_KEY || ""
+);
+
+const claimableTransferResolvers = {
+  ClaimableTransfer: {
+    id: (parent) => (parent.id || parent._id)?.toString(),
+    amount: (parent) => toDecimal(parent.amount),
+    senderName: async (parent) => {
+      const sender = await User.findById(parent.sender);
+      return sender
+        ? [sender.firstName, sender.lastName].filter(Boolean).join(" ") ||
+            sender.email
+        : null;
+    },
+    expiresAt: (parent) => toISOString(parent.expiresAt),
+    claimedAt: (parent) => toISOString(parent.claimedAt),
+    refundedAt: (parent) => toISOString(parent.refundedAt),
+    createdAt: (parent) => toISOString(parent.createdAt),
+  },
+  Query: {
+    /**
+     * Get a claimable transfer from its claim link
+     */
+    claimableTransfer: async (parent, args, context, info) => {
+      try {
+        return await claimableTransferService.getByToken(args.id, args.token);
+      } catch (error) {
+        console.log("Query.claimableTransfer error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Get the claimable transfers the authenticated user sent
+     */
+    mySentClaimableTransfers: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await claimableTransferService.getSentClaims(
+          userId,
+          args.status
+        );
+      } catch (error) {
+        console.log("Query.mySentClaimableTransfers error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Get the claims whose transfer has an unknown outcome (admin only)
+     */
+    claimableTransfersToReconcile: async (parent, args, context, info) => {
+      try {
+        await requireAdmin(context);
+
+        return await claimableTransferService.getReconcilingClaims();
+      } catch (error) {
+        console.log("Query.claimableTransfersToReconcile error", error);
+        throw error;
+      }
+    },
+  },
+  Mutation: {
+    /**
+     * Claim a transfer into the authenticated user's wallet
+     */
+    claimTransfer: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await claimableTransferService.claim(
+          userId,
+          args.id,
+          args.token
+        );
+      } catch (error) {
+        console.log("Mutation.claimTransfer error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Settle a claim whose transfer had an unknown outcome (admin only)
+     */
+    reconcileClaimableTransfer: async (parent, args, context, info) => {
+      try {
+        await requireAdmin(context);
+
+        return await claimableTransferService.reconcile(args.id, {
+          transferred: args.transferred,
+          transactionId: args.transactionId,
+        });
+      } catch (error) {
+        console.log("Mutation.reconcileClaimableTransfer error", error);
+        throw error;
+      }
+    },
+  },
+};
+
+export default claimableTransferResolvers;
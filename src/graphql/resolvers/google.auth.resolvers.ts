@@ -8,6 +8,9 @@ import {
   createAccessToken,
   createRefreshToken,
 } from "../../utils/token.js";
+import { TwoFactorService } from "../../services/twoFactor.services.js";
+
+const twoFactorService = new TwoFactorService();
 
 const googleAuthResolvers = {
   Mutation: {
@@ -37,6 +40,10 @@ const googleAuthResolvers = {
           verified_email: googleUser.verified_email,
         });
 
+        if (user.twoFactorEnabled) {
+          return twoFactorService.createChallenge(user);
+        }
+
         const accessToken = createAccessToken(accessTokenData(user));
         const refreshToken = createRefreshToken({ id: user._id });
 
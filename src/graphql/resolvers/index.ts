@@ -1,12 +1,31 @@
 import ApiKeyResolvers from "./apiKey.resolvers.js";
+import beneficiaryResolvers from "./beneficiary.resolvers.js";
+import claimableTransferResolvers from "./claimableTransfer.resolvers.js";
+import spendingLimitResolvers from "./spendingLimit.resolvers.js";
+import transferApprovalResolvers from "./transferApproval.resolvers.js";
+import transactionExportResolvers from "./transactionExport.resolvers.js";
+import transactionAnnotationResolvers from "./transactionAnnotation.resolvers.js";
+import portfolioResolvers from "./portfolio.resolvers.js";
+import notificationResolvers from "./notification.resolvers.js";
+import priceAlertResolvers from "./priceAlert.resolvers.js";
+import priceHistoryResolvers from "./priceHistory.resolvers.js";
+import scalarResolvers from "./scalars.resolvers.js";
 import googleAuthResolvers from "./google.auth.resolvers.js";
 import OTPResolvers from "./otp.resolvers.js";
 import passwordResetResolvers from "./passwordReset.resolvers.js";
+import paymentRequestResolvers from "./paymentRequest.resolvers.js";
 import ratesResolvers from "./rates.resolvers.js";
 import roleResolvers from "./role.resolvers.js";
+import scheduledTransferResolvers from "./scheduledTransfer.resolvers.js";
+import transactionPinResolvers from "./transactionPin.resolvers.js";
+import transactionReceiptResolvers from "./transactionReceipt.resolvers.js";
+import { swapResolvers } from "./swap.resolvers.js";
 import { transferResolvers } from "./transfer.resolvers.js";
+import twoFactorResolvers from "./twoFactor.resolvers.js";
 import userResolvers from "./user.resolvers.js";
 import { userWalletResolvers } from "./userWallet.resolvers.js";
+import { webhookEndpointResolvers } from "./webhookEndpoint.resolvers.js";
+import webhookEventResolvers from "./webhookEvent.resolvers.js";
 
 export interface PaginationInput {
   page?: number;
@@ -23,8 +42,10 @@ export interface Pagination {
 }
 
 const resolvers = {
+  Decimal: scalarResolvers.Decimal,
   User: {
     ...userResolvers.User,
+    ...transactionPinResolvers.User,
   },
   UserWallet: {
     ...userWalletResolvers.UserWallet,
@@ -32,9 +53,57 @@ const resolvers = {
   SupportedWallet: {
     ...userWalletResolvers.SupportedWallet,
   },
+  BalanceResult: {
+    ...userWalletResolvers.BalanceResult,
+  },
+  FeeCalculationData: {
+    ...transferResolvers.FeeCalculationData,
+  },
   TransferHistoryItem: {
     ...transferResolvers.TransferHistoryItem,
   },
+  Swap: {
+    ...swapResolvers.Swap,
+  },
+  FiatValue: {
+    ...transactionReceiptResolvers.FiatValue,
+  },
+  ScheduledTransfer: {
+    ...scheduledTransferResolvers.ScheduledTransfer,
+  },
+  ScheduledTransferRun: {
+    ...scheduledTransferResolvers.ScheduledTransferRun,
+  },
+  PaymentRequest: {
+    ...paymentRequestResolvers.PaymentRequest,
+  },
+  Beneficiary: {
+    ...beneficiaryResolvers.Beneficiary,
+  },
+  SpendingLimit: {
+    ...spendingLimitResolvers.SpendingLimit,
+  },
+  TransferApproval: {
+    ...transferApprovalResolvers.TransferApproval,
+  },
+  TransferApprovalDecision: {
+    ...transferApprovalResolvers.TransferApprovalDecision,
+  },
+  TransactionExport: {
+    ...transactionExportResolvers.TransactionExport,
+  },
+  Notification: {
+    ...notificationResolvers.Notification,
+  },
+  PriceAlert: {
+    ...priceAlertResolvers.PriceAlert,
+  },
+  ClaimableTransfer: {
+    ...claimableTransferResolvers.ClaimableTransfer,
+  },
+  WebhookDelivery: {
+    ...webhookEndpointResolvers.WebhookDelivery,
+  },
   Query: {
     ...userResolvers.Query,
     ...roleResolvers.Query,
@@ -43,6 +112,22 @@ const resolvers = {
     ...userWalletResolvers.Query,
     ...transferResolvers.Query,
     ...ratesResolvers.Query,
+    ...swapResolvers.Query,
+    ...webhookEventResolvers.Query,
+    ...webhookEndpointResolvers.Query,
+    ...transactionReceiptResolvers.Query,
+    ...scheduledTransferResolvers.Query,
+    ...paymentRequestResolvers.Query,
+    ...beneficiaryResolvers.Query,
+    ...spendingLimitResolvers.Query,
+    ...transferApprovalResolvers.Query,
+    ...transactionExportResolvers.Query,
+    ...transactionAnnotationResolvers.Query,
+    ...portfolioResolvers.Query,
+    ...notificationResolvers.Query,
+    ...priceAlertResolvers.Query,
+    ...priceHistoryResolvers.Query,
+    ...claimableTransferResolvers.Query,
   },
   Mutation: {
     ...userResolvers.Mutation,
@@ -53,6 +138,21 @@ const resolvers = {
     ...passwordResetResolvers.Mutation,
     ...userWalletResolvers.Mutation,
     ...transferResolvers.Mutation,
+    ...transactionPinResolvers.Mutation,
+    ...twoFactorResolvers.Mutation,
+    ...swapResolvers.Mutation,
+    ...webhookEventResolvers.Mutation,
+    ...webhookEndpointResolvers.Mutation,
+    ...scheduledTransferResolvers.Mutation,
+    ...paymentRequestResolvers.Mutation,
+    ...beneficiaryResolvers.Mutation,
+    ...spendingLimitResolvers.Mutation,
+    ...transferApprovalResolvers.Mutation,
+    ...transactionExportResolvers.Mutation,
+    ...transactionAnnotationResolvers.Mutation,
+    ...notificationResolvers.Mutation,
+    ...priceAlertResolvers.Mutation,
+    ...claimableTransferResolvers.Mutation,
   },
 };
 
@@ -0,0 +1,68 @@
+// ./src/graphql/resolvers/notification.resolvers.ts
+
+import { NotificationService } from "../../services/notification.services.js";
+import { toISOString } from "../../utils/format.js";
+
+const notificationService = new NotificationService();
+
+const notificationResolvers = {
+  Notification: {
+    readAt: (parent) => toISOString(parent.readAt),
+  },
+  Query: {
+    /**
+     * Get the authenticated user's notifications
+     */
+    notifications: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await notificationService.getNotifications(
+          userId,
+          args.pagination || {},
+          Boolean(args.unreadOnly)
+        );
+      } catch (error) {
+        console.log("Query.notifications error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Count the authenticated user's unread notifications
+     */
+    unreadNotificationCount: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await notificationService.getUnreadCount(userId);
+      } catch (error) {
+        console.log("Query.unreadNotificationCount error", error);
+        throw error;
+      }
+    },
+  },
+  Mutation: {
+    /**
+     * Mark the authenticated user's notifications as read
+     */
+    markNotificationsRead: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await notificationService.markRead(
+          userId,
+          args.ids ?? undefined
+        );
+      } catch (error) {
+        console.log("Mutation.markNotificationsRead error", error);
+        throw error;
+      }
+    },
+  },
+};
+
+export default notificationResolvers;
@@ -6,6 +6,9 @@ import { assignRoleToUser } from "../../services/user.services.js";
 import OTP from "../../models/otp.model.js";
 import User from "../../models/user.model.js";
 import { initOTPGeneration } from "../../services/otp.services.js";
+import { OutgoingWebhookService } from "../../services/outgoingWebhook.services.js";
+
+const outgoingWebhookService = new OutgoingWebhookService();
 
 const OTPResolvers = {
   Query: {
@@ -52,7 +55,11 @@ const OTPResolvers = {
 
         const email = args.input?.email;
         const otp = args.input?.otp;
-        const otpDoc = await OTP.findOne({ email, otp });
+        const otpDoc = await OTP.findOne({
+          email,
+          otp,
+          purpose: "email_verification",
+        });
         console.log({ otpDoc });
 
         if (!otpDoc) {
@@ -64,9 +71,17 @@ const OTPResolvers = {
           throw new Error("User not found");
         }
         // set user as verified
+        const wasVerified = user.emailVerified;
         user.emailVerified = true;
         const updatedUser = await user.save();
 
+        if (!wasVerified) {
+          await outgoingWebhookService.dispatch("user.verified", {
+            userId: user._id.toString(),
+            email: user.email,
+          });
+        }
+
         console.log({ updatedUser });
 
         // await OTP.deleteOne({ email, otp });
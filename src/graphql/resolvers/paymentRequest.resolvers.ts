@@ -0,0 +1,130 @@
+// ./src/graphql/resolvers/paymentRequest.resolvers.ts
+
+import User from "../../models/user.model.js";
+import { PaymentRequestService } from "../../services/paymentRequest.services.js";
+import { TransactionPinService } from "../../services/transactionPin.services.js";
+import { TwoFactorService } from "../../services/twoFactor.services.js";
+import { toDecimal, toISOString } from "../../utils/format.js";
+import { requireAmount, toNumber } from "../../utils/money.js";
+
+// Initialize the payment request service with your 100Pay API keys
+const paymentRequestService = new PaymentRequestService(
+  process.env.PAY100_PUBLIC_KEY || "",
+  process.env.PAY100_SECRET_KEY || ""
+);
+
+const transactionPinService = new TransactionPinService();
+const twoFactorService = new TwoFactorService();
+
+const paymentRequestResolvers = {
+  PaymentRequest: {
+    requester: async (parent) => User.findById(parent.requester),
+    paidBy: async (parent) =>
+      parent.paidBy ? User.findById(parent.paidBy) : null,
+    amount: (parent) => toNumber(toDecimal(parent.amount)),
+    amountDecimal: (parent) => toDecimal(parent.amount),
+    url: (parent) => paymentRequestService.getUrl(parent),
+    paymentUri: (parent) => paymentRequestService.getPaymentUri(parent),
+    expiresAt: (parent) => toISOString(parent.expiresAt),
+    paidAt: (parent) => toISOString(parent.paidAt),
+  },
+  Query: {
+    /**
+     * Get a payment request by ID or reference
+     */
+    paymentRequest: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await paymentRequestService.getPaymentRequest(args.id);
+      } catch (error) {
+        console.log("Query.paymentRequest error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Get the payment requests the authenticated user created
+     */
+    paymentRequests: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await paymentRequestService.getPaymentRequests(userId, {
+          status: args.status,
+          pagination: args.pagination || {},
+        });
+      } catch (error) {
+        console.log("Query.paymentRequests error", error);
+        throw error;
+      }
+    },
+  },
+  Mutation: {
+    /**
+     * Request a payment to one of the authenticated user's wallets
+     */
+    createPaymentRequest: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        const { amountDecimal, ...input } = args;
+        return await paymentRequestService.createPaymentRequest(userId, {
+          ...input,
+          amount: requireAmount(amountDecimal, args.amount),
+        });
+      } catch (error) {
+        console.log("Mutation.createPaymentRequest error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Cancel an open payment request
+     */
+    cancelPaymentRequest: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await paymentRequestService.cancelPaymentRequest(
+          userId,
+          args.id
+        );
+      } catch (error) {
+        console.log("Mutation.cancelPaymentRequest error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Pay a payment request from the authenticated user's wallet
+     */
+    payPaymentRequest: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        await transactionPinService.verifyPin(userId, args.transactionPin);
+
+        const request = await paymentRequestService.getPaymentRequest(args.id);
+        await twoFactorService.requireTransferStepUp({
+          userId,
+          symbol: request.symbol,
+          amount: toNumber(request.amount),
+          code: args.totpCode,
+        });
+
+        return await paymentRequestService.payPaymentRequest(userId, args.id);
+      } catch (error) {
+        console.log("Mutation.payPaymentRequest error", error);
+        throw error;
+      }
+    },
+  },
+};
+
+export default paymentRequestResolvers;
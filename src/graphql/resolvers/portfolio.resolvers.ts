@@ -0,0 +1,30 @@
+// ./src/graphql/resolvers/portfolio.resolvers.ts
+
+import { PortfolioService } from "../../services/portfolio.services.js";
+
+const portfolioService = new PortfolioService();
+
+const portfolioResolvers = {
+  Query: {
+    /**
+     * Get the value history of the authenticated user's wallets
+     */
+    portfolioHistory: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await portfolioService.getHistory(userId, {
+          range: args.range,
+          interval: args.interval,
+          currency: args.currency || undefined,
+        });
+      } catch (error) {
+        console.log("Query.portfolioHistory error", error);
+        throw error;
+      }
+    },
+  },
+};
+
+export default portfolioResolvers;
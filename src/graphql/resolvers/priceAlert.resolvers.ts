@@ -0,0 +1,92 @@
+// ./src/graphql/resolvers/priceAlert.resolvers.ts
+
+import { PriceAlertService } from "../../services/priceAlert.services.js";
+import { toISOString } from "../../utils/format.js";
+
+const priceAlertService = new PriceAlertService();
+
+const priceAlertResolvers = {
+  PriceAlert: {
+    lastCheckedAt: (parent) => toISOString(parent.lastCheckedAt),
+    lastTriggeredAt: (parent) => toISOString(parent.lastTriggeredAt),
+  },
+  Query: {
+    /**
+     * Get the authenticated user's price alerts
+     */
+    priceAlerts: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await priceAlertService.getAlerts(userId, args);
+      } catch (error) {
+        console.log("Query.priceAlerts error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Get a price alert of the authenticated user
+     */
+    priceAlert: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await priceAlertService.getAlert(userId, args.id);
+      } catch (error) {
+        console.log("Query.priceAlert error", error);
+        throw error;
+      }
+    },
+  },
+  Mutation: {
+    /**
+     * Create a price alert for the authenticated user
+     */
+    createPriceAlert: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await priceAlertService.createAlert(userId, args.input);
+      } catch (error) {
+        console.log("Mutation.createPriceAlert error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Update a price alert of the authenticated user
+     */
+    updatePriceAlert: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await priceAlertService.updateAlert(userId, args.id, args.input);
+      } catch (error) {
+        console.log("Mutation.updatePriceAlert error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Delete a price alert of the authenticated user
+     */
+    deletePriceAlert: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await priceAlertService.deleteAlert(userId, args.id);
+      } catch (error) {
+        console.log("Mutation.deletePriceAlert error", error);
+        throw error;
+      }
+    },
+  },
+};
+
+export default priceAlertResolvers;
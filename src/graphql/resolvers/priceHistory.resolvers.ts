@@ -0,0 +1,43 @@
+// ./src/graphql/resolvers/priceHistory.resolvers.ts
+
+import { PriceHistoryService } from "../../services/priceHistory.services.js";
+
+const priceHistoryService = new PriceHistoryService();
+
+const priceHistoryResolvers = {
+  Query: {
+    /**
+     * Get the price of a symbol at a past time
+     */
+    getHistoricalPrice: async (parent, args, context, info) => {
+      try {
+        return await priceHistoryService.getHistoricalPrice(
+          args.symbol,
+          args.at,
+          args.currency || undefined
+        );
+      } catch (error) {
+        console.log("Query.getHistoricalPrice error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Get price chart candles of a symbol
+     */
+    priceCandles: async (parent, args, context, info) => {
+      try {
+        return await priceHistoryService.getCandles(args.symbol, {
+          range: args.range,
+          interval: args.interval,
+          currency: args.currency || undefined,
+        });
+      } catch (error) {
+        console.log("Query.priceCandles error", error);
+        throw error;
+      }
+    },
+  },
+};
+
+export default priceHistoryResolvers;
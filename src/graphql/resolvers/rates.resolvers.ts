@@ -1,5 +1,6 @@
 import { logger } from "@untools/logger";
 import { RatesService } from "../../services/rates.services.js";
+import { requireAmount } from "../../utils/money.js";
 
 const ratesService = new RatesService();
 
@@ -70,7 +71,9 @@ const ratesResolvers = {
         const convertedAmount = await ratesService.convertCurrency({
           fromSymbol: args.fromSymbol,
           toSymbol: args.toSymbol,
-          amount: args.amount,
+          amount: requireAmount(args.amountDecimal, args.amount),
+          applyMargin: Boolean(args.applyMargin),
+          decimals: args.decimals ?? undefined,
         });
         return convertedAmount;
       } catch (error) {
@@ -78,6 +81,14 @@ const ratesResolvers = {
         throw error;
       }
     },
+    ratesStatus: async (parent, args, context, info) => {
+      try {
+        return ratesService.getCacheStatus();
+      } catch (error) {
+        console.log("Query.ratesStatus error", error);
+        throw error;
+      }
+    },
   },
 };
 
@@ -0,0 +1,50 @@
+// ./src/graphql/resolvers/scalars.resolvers.ts
+
+import { GraphQLError, GraphQLScalarType, Kind } from "graphql";
+import { roundAmount } from "../../utils/money.js";
+
+/**
+ * Parses a Decimal as a plain decimal string, keeping every digit
+ */
+const parseDecimal = (value: unknown) => {
+  if (typeof value !== "string" && typeof value !== "number") {
+    throw new GraphQLError("Decimal must be a string or a number");
+  }
+
+  try {
+    return roundAmount(value);
+  } catch (error) {
+    throw new GraphQLError(`Decimal is not a decimal number: ${value}`);
+  }
+};
+
+const scalarResolvers = {
+  /**
+   * Exact decimal number, sent as a string so no digits are lost to
+   * floating point. Inputs also accept numbers, and number literals keep
+   * the digits as written.
+   */
+  Decimal: new GraphQLScalarType({
+    name: "Decimal",
+    description: "Exact decimal number, serialized as a string",
+    serialize: (value) =>
+      parseDecimal(
+        typeof value === "object" && value !== null ? String(value) : value
+      ),
+    parseValue: parseDecimal,
+    parseLiteral: (ast) => {
+      if (
+        ast.kind !== Kind.STRING &&
+        ast.kind !== Kind.INT &&
+        ast.kind !== Kind.FLOAT
+      ) {
+        throw new GraphQLError("Decimal must be a string or a number", {
+          nodes: ast,
+        });
+      }
+      return parseDecimal(ast.value);
+    },
+  }),
+};
+
+export default scalarResolvers;
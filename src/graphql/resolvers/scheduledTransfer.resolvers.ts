@@ -0,0 +1,160 @@
+// ./src/graphql/resolvers/scheduledTransfer.resolvers.ts
+
+import {
+  ScheduledTransferInput,
+  ScheduledTransferService,
+} from "../../services/scheduledTransfer.services.js";
+import { TransactionPinService } from "../../services/transactionPin.services.js";
+import { TwoFactorService } from "../../services/twoFactor.services.js";
+import { toDecimal, toISOString } from "../../utils/format.js";
+import { requireAmount, toNumber } from "../../utils/money.js";
+
+// Initialize the scheduled transfer service with your 100Pay API keys
+const scheduledTransferService = new ScheduledTransferService(
+  process.env.PAY100_PUBLIC_KEY || "",
+  process.env.PAY100_SECRET_KEY || ""
+);
+
+const transactionPinService = new TransactionPinService();
+const twoFactorService = new TwoFactorService();
+
+const scheduledTransferResolvers = {
+  ScheduledTransfer: {
+    amount: (parent) => toNumber(toDecimal(parent.amount)),
+    amountDecimal: (parent) => toDecimal(parent.amount),
+    startAt: (parent) => toISOString(parent.startAt),
+    nextRunAt: (parent) => toISOString(parent.nextRunAt),
+    endAt: (parent) => toISOString(parent.endAt),
+    lastRunAt: (parent) => toISOString(parent.lastRunAt),
+  },
+  ScheduledTransferRun: {
+    runAt: (parent) => toISOString(parent.runAt),
+  },
+  Query: {
+    /**
+     * Get the authenticated user's scheduled transfers
+     */
+    scheduledTransfers: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await scheduledTransferService.getSchedules(userId, {
+          status: args.status,
+          pagination: args.pagination || {},
+        });
+      } catch (error) {
+        console.log("Query.scheduledTransfers error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Get a scheduled transfer of the authenticated user
+     */
+    scheduledTransfer: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await scheduledTransferService.getSchedule(userId, args.id);
+      } catch (error) {
+        console.log("Query.scheduledTransfer error", error);
+        throw error;
+      }
+    },
+  },
+  Mutation: {
+    /**
+     * Schedule a one-off or recurring transfer
+     */
+    scheduleTransfer: async (
+      parent,
+      {
+        input,
+        transactionPin,
+        totpCode,
+      }: {
+        input: Omit<ScheduledTransferInput, "amount"> & {
+          amount?: number;
+          amountDecimal?: string;
+        };
+        transactionPin: string;
+        totpCode?: string;
+      },
+      context,
+      info
+    ) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        await transactionPinService.verifyPin(userId, transactionPin);
+
+        const { amountDecimal, ...schedule } = input;
+        const amount = requireAmount(amountDecimal, input.amount);
+        await twoFactorService.requireTransferStepUp({
+          userId,
+          symbol: input.symbol,
+          amount: toNumber(amount),
+          code: totpCode,
+        });
+
+        return await scheduledTransferService.createSchedule(userId, {
+          ...schedule,
+          amount,
+        });
+      } catch (error) {
+        console.log("Mutation.scheduleTransfer error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Pause a scheduled transfer
+     */
+    pauseScheduledTransfer: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await scheduledTransferService.pause(userId, args.id);
+      } catch (error) {
+        console.log("Mutation.pauseScheduledTransfer error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Resume a paused scheduled transfer
+     */
+    resumeScheduledTransfer: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await scheduledTransferService.resume(userId, args.id);
+      } catch (error) {
+        console.log("Mutation.resumeScheduledTransfer error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Cancel a scheduled transfer
+     */
+    cancelScheduledTransfer: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await scheduledTransferService.cancel(userId, args.id);
+      } catch (error) {
+        console.log("Mutation.cancelScheduledTransfer error", error);
+        throw error;
+      }
+    },
+  },
+};
+
+export default scheduledTransferResolvers;
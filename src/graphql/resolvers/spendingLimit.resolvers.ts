@@ -0,0 +1,76 @@
+// ./src/graphql/resolvers/spendingLimit.resolvers.ts
+
+import Role from "../../models/role.model.js";
+import User from "../../models/user.model.js";
+import { SpendingLimitService } from "../../services/spendingLimit.services.js";
+import { requireAdmin } from "../../utils/user.js";
+
+const spendingLimitService = new SpendingLimitService();
+
+const spendingLimitResolvers = {
+  SpendingLimit: {
+    role: async (parent) => (parent.role ? Role.findById(parent.role) : null),
+    user: async (parent) => (parent.user ? User.findById(parent.user) : null),
+  },
+  Query: {
+    /**
+     * Get the authenticated user's spending limits and remaining headroom
+     */
+    myLimits: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await spendingLimitService.getMyLimits(userId, args.symbol);
+      } catch (error) {
+        console.log("Query.myLimits error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * List configured spending limits (admin only)
+     */
+    spendingLimits: async (parent, args, context, info) => {
+      try {
+        await requireAdmin(context);
+
+        return await spendingLimitService.getLimits(args);
+      } catch (error) {
+        console.log("Query.spendingLimits error", error);
+        throw error;
+      }
+    },
+  },
+  Mutation: {
+    /**
+     * Set global, role or user spending limits (admin only)
+     */
+    setSpendingLimit: async (parent, args, context, info) => {
+      try {
+        const adminId = await requireAdmin(context);
+
+        return await spendingLimitService.setLimit(adminId, args.input);
+      } catch (error) {
+        console.log("Mutation.setSpendingLimit error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Remove a spending limit so its scope inherits again (admin only)
+     */
+    removeSpendingLimit: async (parent, args, context, info) => {
+      try {
+        await requireAdmin(context);
+
+        return await spendingLimitService.removeLimit(args.id);
+      } catch (error) {
+        console.log("Mutation.removeSpendingLimit error", error);
+        throw error;
+      }
+    },
+  },
+};
+
+export default spendingLimitResolvers;
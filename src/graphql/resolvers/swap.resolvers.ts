@@ -0,0 +1,103 @@
+// ./src/graphql/resolvers/swap.resolvers.ts
+
+import UserWallet from "../../models/userWallet.model.js";
+import { SwapService } from "../../services/swap.services.js";
+import { toDecimal } from "../../utils/format.js";
+import { requireAmount } from "../../utils/money.js";
+
+interface InternalTransferInput {
+  fromSymbol: string;
+  toSymbol: string;
+  amount?: number;
+  amountDecimal?: string;
+  fromNetwork?: string;
+  toNetwork?: string;
+}
+
+// Stored Decimal128 values for the deprecated Float fields
+const toFloat = (value) => {
+  const decimal = toDecimal(value);
+  return decimal === null ? null : Number(decimal);
+};
+
+// Initialize the swap service with your 100Pay API keys
+const swapService = new SwapService(
+  process.env.PAY100_PUBLIC_KEY || "",
+  process.env.PAY100_SECRET_KEY || ""
+);
+
+export const swapResolvers = {
+  Swap: {
+    fromWallet: async (parent) => UserWallet.findById(parent.fromWallet),
+    toWallet: async (parent) => UserWallet.findById(parent.toWallet),
+    fromAmount: (parent) => toFloat(parent.fromAmount),
+    toAmount: (parent) => toFloat(parent.toAmount),
+    rate: (parent) => toFloat(parent.rate),
+    fee: (parent) => toFloat(parent.fee),
+    quotedToAmount: (parent) => toFloat(parent.quotedToAmount),
+    quotedRate: (parent) => toFloat(parent.quotedRate),
+    fromAmountDecimal: (parent) => toDecimal(parent.fromAmount),
+    toAmountDecimal: (parent) => toDecimal(parent.toAmount),
+    rateDecimal: (parent) => toDecimal(parent.rate),
+    feeDecimal: (parent) => toDecimal(parent.fee),
+    quotedToAmountDecimal: (parent) => toDecimal(parent.quotedToAmount),
+    quotedRateDecimal: (parent) => toDecimal(parent.quotedRate),
+  },
+  Query: {
+    /**
+     * Preview a swap and lock its rate for a short window
+     */
+    previewSwap: async (
+      parent,
+      { input }: { input: InternalTransferInput },
+      context,
+      info
+    ) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        const { amountDecimal, amount, ...rest } = input;
+        return await swapService.previewSwap({
+          userId,
+          ...rest,
+          amount: requireAmount(amountDecimal, amount),
+        });
+      } catch (error) {
+        console.log("Query.previewSwap error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Get the authenticated user's swaps
+     */
+    swaps: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await swapService.getSwaps(userId, args.pagination || {});
+      } catch (error) {
+        console.log("Query.swaps error", error);
+        throw error;
+      }
+    },
+  },
+  Mutation: {
+    /**
+     * Execute a previewed swap
+     */
+    swapAssets: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await swapService.executeSwap(userId, args.quoteId);
+      } catch (error) {
+        console.log("Mutation.swapAssets error", error);
+        throw error;
+      }
+    },
+  },
+};
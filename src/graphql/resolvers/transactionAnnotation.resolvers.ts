@@ -0,0 +1,110 @@
+// ./src/graphql/resolvers/transactionAnnotation.resolvers.ts
+
+import { TransactionAnnotationService } from "../../services/transactionAnnotation.services.js";
+import { TRANSACTION_CATEGORIES } from "../../types/transactionAnnotation.js";
+
+// Initialize the annotation service with your 100Pay API keys
+const transactionAnnotationService = new TransactionAnnotationService(
+  process.env.PAY100_PUBLIC_KEY || "",
+  process.env.PAY100_SECRET_KEY || ""
+);
+
+const transactionAnnotationResolvers = {
+  Query: {
+    /**
+     * Get the authenticated user's annotation of a transaction
+     */
+    transactionAnnotation: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await transactionAnnotationService.getAnnotation(
+          userId,
+          args.transactionId
+        );
+      } catch (error) {
+        console.log("Query.transactionAnnotation error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Get the tags the authenticated user has used
+     */
+    transactionTags: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await transactionAnnotationService.getTags(userId);
+      } catch (error) {
+        console.log("Query.transactionTags error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Get the categories a transaction can be given
+     */
+    transactionCategories: () => TRANSACTION_CATEGORIES,
+
+    /**
+     * Get the authenticated user's spending by category
+     */
+    spendingByCategory: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await transactionAnnotationService.getSpendingByCategory(
+          userId,
+          args.period
+        );
+      } catch (error) {
+        console.log("Query.spendingByCategory error", error);
+        throw error;
+      }
+    },
+  },
+  Mutation: {
+    /**
+     * Set the note, tags and category of a transaction
+     */
+    annotateTransaction: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await transactionAnnotationService.setAnnotation(
+          userId,
+          args.transactionId,
+          args.input
+        );
+      } catch (error) {
+        console.log("Mutation.annotateTransaction error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Remove the note, tags and category of a transaction
+     */
+    removeTransactionAnnotation: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await transactionAnnotationService.removeAnnotation(
+          userId,
+          args.transactionId
+        );
+      } catch (error) {
+        console.log("Mutation.removeTransactionAnnotation error", error);
+        throw error;
+      }
+    },
+  },
+};
+
+export default transactionAnnotationResolvers;
@@ -0,0 +1,80 @@
+// ./src/graphql/resolvers/transactionExport.resolvers.ts
+
+import { TransactionExportService } from "../../services/transactionExport.services.js";
+import { toISOString } from "../../utils/format.js";
+
+// Initialize the export service with your 100Pay API keys
+const transactionExportService = new TransactionExportService(
+  process.env.PAY100_PUBLIC_KEY || "",
+  process.env.PAY100_SECRET_KEY || ""
+);
+
+const transactionExportResolvers = {
+  TransactionExport: {
+    from: (parent) => toISOString(parent.from),
+    to: (parent) => toISOString(parent.to),
+    downloadUrl: async (parent) =>
+      parent.status === "completed"
+        ? transactionExportService.getDownloadUrl(parent._id)
+        : null,
+    expiresAt: (parent) => toISOString(parent.expiresAt),
+    completedAt: (parent) => toISOString(parent.completedAt),
+  },
+  Query: {
+    /**
+     * Get the authenticated user's transaction exports
+     */
+    transactionExports: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await transactionExportService.getExports(
+          userId,
+          args.pagination || {}
+        );
+      } catch (error) {
+        console.log("Query.transactionExports error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Get a transaction export of the authenticated user
+     */
+    transactionExport: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await transactionExportService.getExport(userId, args.id);
+      } catch (error) {
+        console.log("Query.transactionExport error", error);
+        throw error;
+      }
+    },
+  },
+  Mutation: {
+    /**
+     * Export the authenticated user's transactions between two dates
+     */
+    exportTransactions: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await transactionExportService.createExport(userId, {
+          from: args.from,
+          to: args.to,
+          symbols: args.symbols || [],
+          format: args.format,
+        });
+      } catch (error) {
+        console.log("Mutation.exportTransactions error", error);
+        throw error;
+      }
+    },
+  },
+};
+
+export default transactionExportResolvers;
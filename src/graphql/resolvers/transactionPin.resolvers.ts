@@ -0,0 +1,59 @@
+import { TransactionPinService } from "../../services/transactionPin.services.js";
+import { ErrorHandler } from "../../services/error.services.js";
+
+const transactionPinService = new TransactionPinService();
+
+const transactionPinResolvers = {
+  User: {
+    hasTransactionPin: (parent) => !!parent.transactionPinUpdatedAt,
+  },
+  Mutation: {
+    setTransactionPin: async (parent, args, context, info) => {
+      try {
+        return await transactionPinService.setPin(
+          context?.user?.data?.id,
+          args.pin
+        );
+      } catch (error) {
+        console.log("Mutation.setTransactionPin error", error);
+        throw ErrorHandler.handleError(error);
+      }
+    },
+    changeTransactionPin: async (parent, args, context, info) => {
+      try {
+        return await transactionPinService.changePin(
+          context?.user?.data?.id,
+          args.currentPin,
+          args.newPin
+        );
+      } catch (error) {
+        console.log("Mutation.changeTransactionPin error", error);
+        throw ErrorHandler.handleError(error);
+      }
+    },
+    requestTransactionPinReset: async (parent, args, context, info) => {
+      try {
+        return await transactionPinService.requestPinReset(
+          context?.user?.data?.id
+        );
+      } catch (error) {
+        console.log("Mutation.requestTransactionPinReset error", error);
+        throw ErrorHandler.handleError(error);
+      }
+    },
+    resetTransactionPin: async (parent, args, context, info) => {
+      try {
+        return await transactionPinService.resetPin(
+          context?.user?.data?.id,
+          args.otp,
+          args.newPin
+        );
+      } catch (error) {
+        console.log("Mutation.resetTransactionPin error", error);
+        throw ErrorHandler.handleError(error);
+      }
+    },
+  },
+};
+
+export default transactionPinResolvers;
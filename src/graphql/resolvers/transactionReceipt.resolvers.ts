@@ -0,0 +1,40 @@
+// ./src/graphql/resolvers/transactionReceipt.resolvers.ts
+
+import { TransactionReceiptService } from "../../services/transactionReceipt.services.js";
+import { FIAT_DECIMALS, roundAmount } from "../../utils/money.js";
+import { toDecimal, toISOString } from "../../utils/format.js";
+
+// Initialize the receipt service with your 100Pay API keys
+const transactionReceiptService = new TransactionReceiptService(
+  process.env.PAY100_PUBLIC_KEY || "",
+  process.env.PAY100_SECRET_KEY || ""
+);
+
+const transactionReceiptResolvers = {
+  FiatValue: {
+    amountDecimal: (parent) => toDecimal(parent.amount, FIAT_DECIMALS),
+    rateDecimal: (parent) =>
+      parent.rate === undefined || parent.rate === null
+        ? null
+        : roundAmount(parent.rate),
+    capturedAt: (parent) => toISOString(parent.capturedAt),
+  },
+  Query: {
+    /**
+     * Get the verified receipt of a transfer
+     */
+    transaction: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await transactionReceiptService.getReceipt(userId, args.id);
+      } catch (error) {
+        console.log("Query.transaction error", error);
+        throw error;
+      }
+    },
+  },
+};
+
+export default transactionReceiptResolvers;
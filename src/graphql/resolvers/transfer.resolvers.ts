@@ -2,24 +2,42 @@
 
 import { TransferService } from "../../services/transfer.services.js";
 import { WalletService } from "../../services/userWallet.services.js";
+import { IdempotencyService } from "../../services/idempotency.services.js";
+import { TransactionPinService } from "../../services/transactionPin.services.js";
+import { TwoFactorService } from "../../services/twoFactor.services.js";
+import { BeneficiaryService } from "../../services/beneficiary.services.js";
+import { RecipientService } from "../../services/recipient.services.js";
+import { ClaimableTransferService } from "../../services/claimableTransfer.services.js";
+import { TransactionAnnotationService } from "../../services/transactionAnnotation.services.js";
+import { ValidationError } from "../../services/error.services.js";
+import { validateAddress } from "../../utils/addressValidation.js";
+import { getDecimals, requireAmount, toNumber } from "../../utils/money.js";
+import { toDecimal } from "../../utils/format.js";
 
 interface TransferAssetsInput {
   toAddress?: string;
   toUserId?: string;
+  beneficiaryId?: string;
+  recipient?: string;
   network: string;
-  amount: number;
+  amount?: number;
+  amountDecimal?: string;
   symbol: string;
   description?: string;
+  idempotencyKey?: string;
 }
 
 interface TransferHistoryArgs {
   pagination: { page?: number; limit?: number };
   symbols?: string[];
+  tags?: string[];
+  category?: string;
 }
 
 interface TransferFeeArgs {
   symbol: string;
-  amount: number;
+  amount?: number;
+  amountDecimal?: string;
   network: string;
 }
 
@@ -35,7 +53,34 @@ const walletService = new WalletService(
   process.env.PAY100_SECRET_KEY || ""
 );
 
+const idempotencyService = new IdempotencyService();
+
+const transactionPinService = new TransactionPinService();
+
+const twoFactorService = new TwoFactorService();
+
+const beneficiaryService = new BeneficiaryService();
+
+const recipientService = new RecipientService();
+
+const claimableTransferService = new ClaimableTransferService(
+  process.env.PAY100_PUBLIC_KEY || "",
+  process.env.PAY100_SECRET_KEY || ""
+);
+
+const transactionAnnotationService = new TransactionAnnotationService(
+  process.env.PAY100_PUBLIC_KEY || "",
+  process.env.PAY100_SECRET_KEY || ""
+);
+
 export const transferResolvers = {
+  FeeCalculationData: {
+    feeDecimal: (parent) => toDecimal(parent.fee, getDecimals(parent.decimals)),
+    minTransferDecimal: (parent) =>
+      toDecimal(parent.minTransfer, getDecimals(parent.decimals)),
+    maxTransferDecimal: (parent) =>
+      toDecimal(parent.maxTransfer, getDecimals(parent.decimals)),
+  },
   TransferHistoryItem: {
     wallet: async (parent, args, context, info) => {
       try {
@@ -66,13 +111,28 @@ export const transferResolvers = {
         const pagination = args.pagination || {};
         const symbols = args.symbols || [];
 
-        const history = await transferService.getTransferHistory(userId, {
+        const params = {
           page: pagination?.page || 1,
           limit: pagination?.limit || 10,
           symbols,
-        });
+        };
+
+        // Tags and categories are stored locally, 100Pay can't filter on them
+        const history =
+          args.tags?.length || args.category
+            ? await transactionAnnotationService.getFilteredHistory(userId, {
+                ...params,
+                tags: args.tags,
+                category: args.category,
+              })
+            : await transferService.getTransferHistory(userId, params);
 
-        return { data: history.data, meta: history.meta };
+        const data = await transactionAnnotationService.attachAnnotations(
+          userId,
+          history.data || []
+        );
+
+        return { data, meta: history.meta };
       } catch (error) {
         console.log("Query.getTransferHistory error", error);
         throw error;
@@ -90,7 +150,7 @@ export const transferResolvers = {
         const input: TransferFeeArgs = args?.input || {};
 
         const feeResult = await transferService.calculateTransferFee({
-          amount: input.amount,
+          amount: requireAmount(input.amountDecimal, input.amount),
           symbol: input.symbol,
           network: input.network,
           userId,
@@ -102,6 +162,36 @@ export const transferResolvers = {
         throw error;
       }
     },
+
+    /**
+     * Check that an address is well formed for a network
+     */
+    validateAddress: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return validateAddress(args.network, args.address, args.symbol);
+      } catch (error) {
+        console.log("Query.validateAddress error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Look up who a recipient is before sending to them
+     */
+    resolveRecipient: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await recipientService.resolveRecipient(userId, args.recipient);
+      } catch (error) {
+        console.log("Query.resolveRecipient error", error);
+        throw error;
+      }
+    },
   },
   Mutation: {
     /**
@@ -109,7 +199,15 @@ export const transferResolvers = {
      */
     transferAssets: async (
       parent,
-      { input }: { input: TransferAssetsInput },
+      {
+        input,
+        transactionPin,
+        totpCode,
+      }: {
+        input: TransferAssetsInput;
+        transactionPin: string;
+        totpCode?: string;
+      },
       context,
       info
     ) => {
@@ -117,20 +215,99 @@ export const transferResolvers = {
         const userId = context?.user?.data?.id;
         if (!userId) throw new Error("User not found");
 
-        const { toAddress, toUserId, amount, network, symbol, description } =
-          input;
-
-        const transferResult = await transferService.transferAssets({
-          fromUserId: userId,
-          toAddress,
-          toUserId,
-          amount,
-          symbol,
-          network,
-          description,
-        });
+        await transactionPinService.verifyPin(userId, transactionPin);
+
+        const { idempotencyKey, ...transferInput } = input;
+        const { beneficiaryId, recipient, network, symbol, description } =
+          transferInput;
+        const value = requireAmount(
+          transferInput.amountDecimal,
+          transferInput.amount
+        );
+        const amount = toNumber(value);
+
+        const recipientFields = [
+          beneficiaryId,
+          recipient,
+          transferInput.toAddress || transferInput.toUserId,
+        ].filter(Boolean);
+        if (recipientFields.length > 1) {
+          throw new ValidationError(
+            "Send to one of a beneficiary, a recipient, or a user or address",
+            undefined,
+            "TRANSFER_RECIPIENT_CONFLICT"
+          );
+        }
+
+        // Replays with the same key return the original result instead of sending again
+        return await idempotencyService.execute({
+          key: idempotencyKey,
+          userId,
+          operation: "transferAssets",
+          payload: transferInput,
+          handler: async () => {
+            // Checked inside the handler so a replay doesn't need a new code
+            await twoFactorService.requireTransferStepUp({
+              userId,
+              symbol,
+              amount,
+              code: totpCode,
+            });
+
+            const destination: {
+              toUserId?: string;
+              toAddress?: string;
+              email?: string;
+            } = beneficiaryId
+              ? await beneficiaryService.resolveForTransfer(
+                  userId,
+                  beneficiaryId,
+                  { symbol, network, amount }
+                )
+              : recipient
+                ? await recipientService.resolveForTransfer(userId, recipient)
+                : transferInput;
 
-        return transferResult.data;
+            // Emails without an account get the funds through a claim link
+            if (destination.email) {
+              const { claim, result } = await claimableTransferService.send(
+                userId,
+                {
+                  email: destination.email,
+                  amount: value,
+                  symbol,
+                  network,
+                  description,
+                }
+              );
+
+              return {
+                status: "pending_claim",
+                message: "Transfer is waiting to be claimed by its recipient",
+                data: result.data,
+                fromWallet: result.fromWallet,
+                claim,
+              };
+            }
+
+            const { toAddress, toUserId } = destination;
+
+            const transferResult = await transferService.transferAssets({
+              fromUserId: userId,
+              toAddress,
+              toUserId,
+              amount: value,
+              symbol,
+              network,
+              description,
+            });
+
+            // Held for admin approval, nothing was sent yet
+            if ("approval" in transferResult) return transferResult;
+
+            return transferResult.data;
+          },
+        });
       } catch (error) {
         console.log("Mutation.transferAssets error", error);
         throw error;
@@ -0,0 +1,141 @@
+// ./src/graphql/resolvers/transferApproval.resolvers.ts
+
+import User from "../../models/user.model.js";
+import { TransferApprovalService } from "../../services/transferApproval.services.js";
+import { checkUserIsAdmin, requireAdmin } from "../../utils/user.js";
+import { toDecimal, toISOString } from "../../utils/format.js";
+import { toNumber } from "../../utils/money.js";
+
+// Initialize the transfer approval service with your 100Pay API keys
+const transferApprovalService = new TransferApprovalService(
+  process.env.PAY100_PUBLIC_KEY || "",
+  process.env.PAY100_SECRET_KEY || ""
+);
+
+const transferApprovalResolvers = {
+  TransferApproval: {
+    id: (parent) => (parent.id || parent._id)?.toString(),
+    requester: async (parent) => User.findById(parent.requester),
+    amount: (parent) => toNumber(toDecimal(parent.amount)),
+    amountDecimal: (parent) => toDecimal(parent.amount),
+    expiresAt: (parent) => toISOString(parent.expiresAt),
+    executedAt: (parent) => toISOString(parent.executedAt),
+    createdAt: (parent) => toISOString(parent.createdAt),
+    updatedAt: (parent) => toISOString(parent.updatedAt),
+  },
+  TransferApprovalDecision: {
+    admin: async (parent) => User.findById(parent.admin),
+    decidedAt: (parent) => toISOString(parent.decidedAt),
+  },
+  Query: {
+    /**
+     * Get the authenticated user's held transfers
+     */
+    myTransferApprovals: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await transferApprovalService.getApprovals({
+          status: args.status,
+          requesterId: userId,
+          pagination: args.pagination || {},
+        });
+      } catch (error) {
+        console.log("Query.myTransferApprovals error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Get held transfers of all users (admin only)
+     */
+    transferApprovals: async (parent, args, context, info) => {
+      try {
+        await requireAdmin(context);
+
+        return await transferApprovalService.getApprovals({
+          status: args.status,
+          requesterId: args.requesterId,
+          pagination: args.pagination || {},
+        });
+      } catch (error) {
+        console.log("Query.transferApprovals error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Get a held transfer, users see their own and admins any
+     */
+    transferApproval: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        const userIsAdmin = await checkUserIsAdmin(userId);
+        return await transferApprovalService.getApproval(
+          args.id,
+          userIsAdmin ? undefined : userId
+        );
+      } catch (error) {
+        console.log("Query.transferApproval error", error);
+        throw error;
+      }
+    },
+  },
+  Mutation: {
+    /**
+     * Approve a held transfer, it is sent once enough admins approved (admin only)
+     */
+    approveTransfer: async (parent, args, context, info) => {
+      try {
+        const adminId = await requireAdmin(context);
+
+        return await transferApprovalService.approve(
+          adminId,
+          args.id,
+          args.comment
+        );
+      } catch (error) {
+        console.log("Mutation.approveTransfer error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Reject a held transfer (admin only)
+     */
+    rejectTransfer: async (parent, args, context, info) => {
+      try {
+        const adminId = await requireAdmin(context);
+
+        return await transferApprovalService.reject(
+          adminId,
+          args.id,
+          args.reason
+        );
+      } catch (error) {
+        console.log("Mutation.rejectTransfer error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Cancel one of the authenticated user's held transfers
+     */
+    cancelTransferApproval: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await transferApprovalService.cancel(userId, args.id);
+      } catch (error) {
+        console.log("Mutation.cancelTransferApproval error", error);
+        throw error;
+      }
+    },
+  },
+};
+
+export default transferApprovalResolvers;
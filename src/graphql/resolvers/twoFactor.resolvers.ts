@@ -0,0 +1,72 @@
+import { TwoFactorService } from "../../services/twoFactor.services.js";
+import { ErrorHandler } from "../../services/error.services.js";
+import {
+  accessTokenData,
+  createAccessToken,
+  createRefreshToken,
+} from "../../utils/token.js";
+
+const twoFactorService = new TwoFactorService();
+
+const twoFactorResolvers = {
+  Mutation: {
+    enableTwoFactor: async (parent, args, context, info) => {
+      try {
+        return await twoFactorService.startEnrollment(context?.user?.data?.id);
+      } catch (error) {
+        console.log("Mutation.enableTwoFactor error", error);
+        throw ErrorHandler.handleError(error);
+      }
+    },
+    confirmTwoFactor: async (parent, args, context, info) => {
+      try {
+        return await twoFactorService.confirmEnrollment(
+          context?.user?.data?.id,
+          args.code
+        );
+      } catch (error) {
+        console.log("Mutation.confirmTwoFactor error", error);
+        throw ErrorHandler.handleError(error);
+      }
+    },
+    disableTwoFactor: async (parent, args, context, info) => {
+      try {
+        return await twoFactorService.disable(
+          context?.user?.data?.id,
+          args.code
+        );
+      } catch (error) {
+        console.log("Mutation.disableTwoFactor error", error);
+        throw ErrorHandler.handleError(error);
+      }
+    },
+    regenerateTwoFactorRecoveryCodes: async (parent, args, context, info) => {
+      try {
+        return await twoFactorService.regenerateRecoveryCodes(
+          context?.user?.data?.id,
+          args.code
+        );
+      } catch (error) {
+        console.log("Mutation.regenerateTwoFactorRecoveryCodes error", error);
+        throw ErrorHandler.handleError(error);
+      }
+    },
+    verifyTwoFactorLogin: async (parent, args, context, info) => {
+      try {
+        const user = await twoFactorService.completeChallenge(
+          args.challengeToken,
+          args.code
+        );
+
+        const accessToken = createAccessToken(accessTokenData(user));
+        const refreshToken = createRefreshToken({ id: user._id });
+        return { accessToken, refreshToken, user };
+      } catch (error) {
+        console.log("Mutation.verifyTwoFactorLogin error", error);
+        throw ErrorHandler.handleError(error);
+      }
+    },
+  },
+};
+
+export default twoFactorResolvers;
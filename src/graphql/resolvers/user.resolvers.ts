@@ -20,6 +20,8 @@ import {
 import roleModel from "../../models/role.model.js";
 import { logger } from "@untools/logger";
 import { WalletService } from "../../services/userWallet.services.js";
+import { TwoFactorService } from "../../services/twoFactor.services.js";
+import { RecipientService } from "../../services/recipient.services.js";
 
 const { sign } = pkg;
 config();
@@ -30,6 +32,10 @@ const walletService = new WalletService(
   process.env.PAY100_SECRET_KEY || ""
 );
 
+const twoFactorService = new TwoFactorService();
+
+const recipientService = new RecipientService();
+
 const userResolvers = {
   User: {
     roles: async (parent, args, context, info) => {
@@ -145,6 +151,14 @@ const userResolvers = {
         throw ErrorHandler.handleError(error);
       }
     },
+    payTagAvailable: async (parent, args, context, info) => {
+      try {
+        return await recipientService.isPayTagAvailable(args.payTag);
+      } catch (error) {
+        console.log("Query.payTagAvailable error", error);
+        throw ErrorHandler.handleError(error);
+      }
+    },
   },
   Mutation: {
     register: async (parent, args, context, info) => {
@@ -154,7 +168,17 @@ const userResolvers = {
           throw new ValidationError("Email and password are required");
         }
 
-        const user = (await User.registerUser(args.input)).populate("roles");
+        const input =
+          args.input.payTag !== undefined && args.input.payTag !== null
+            ? {
+                ...args.input,
+                payTag: await recipientService.validatePayTag(
+                  args.input.payTag
+                ),
+              }
+            : args.input;
+
+        const user = (await User.registerUser(input)).populate("roles");
         return { user };
       } catch (error) {
         console.log("Mutation.register error", error);
@@ -174,6 +198,11 @@ const userResolvers = {
         }
 
         const user = await User.loginUser(args.input);
+
+        if (user.twoFactorEnabled) {
+          return twoFactorService.createChallenge(user);
+        }
+
         const accessToken = createAccessToken(accessTokenData(user));
         const refreshToken = createRefreshToken({ id: user._id });
         return { accessToken, refreshToken, user };
@@ -234,14 +263,29 @@ const userResolvers = {
           checkUserIsAdmin(userId);
         }
 
-        const updatedUser = await User.findByIdAndUpdate(
-          providedId ? providedId : user.id,
-          args.input,
-          {
-            new: true,
-            runValidators: true,
+        const targetId = providedId ? providedId : user.id;
+        const update = { ...args.input };
+
+        // A null payTag removes it
+        if (update.payTag !== undefined && update.payTag !== null) {
+          update.payTag = await recipientService.validatePayTag(
+            update.payTag,
+            targetId
+          );
+        }
+
+        // A new phone number has to be verified again before it receives transfers
+        if (update.phone !== undefined) {
+          const target = providedId ? await User.findById(providedId) : user;
+          if (target && update.phone !== target.phone) {
+            update.phoneVerified = false;
           }
-        );
+        }
+
+        const updatedUser = await User.findByIdAndUpdate(targetId, update, {
+          new: true,
+          runValidators: true,
+        });
 
         if (!updatedUser) {
           throw new NotFoundError("User not found");
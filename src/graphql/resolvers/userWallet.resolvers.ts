@@ -2,12 +2,16 @@
 
 import { logger } from "@untools/logger";
 import User from "../../models/user.model.js";
+import UserWallet from "../../models/userWallet.model.js";
 import { WalletService } from "../../services/userWallet.services.js";
 import { Filters } from "../../utils/filters/index.js";
 import { PaginationInput } from "./index.js";
 import { RatesService } from "../../services/rates.services.js";
 import { checkUserIsAdmin } from "../../utils/user.js";
 import { ErrorHandler } from "../../services/error.services.js";
+import { IdempotencyService } from "../../services/idempotency.services.js";
+import { AmountLike, getDecimals, isZeroAmount } from "../../utils/money.js";
+import { toDecimal } from "../../utils/format.js";
 
 interface WalletQueryArgs {
   filter?: Filters.UserWalletFilterOptions;
@@ -27,7 +31,9 @@ const walletService = new WalletService(
 
 const ratesService = new RatesService();
 
-const getAmountInUsd = async (value: number, symbol: string) => {
+const idempotencyService = new IdempotencyService();
+
+const getAmountInUsd = async (value: AmountLike, symbol: string) => {
   return await ratesService.convertCurrency({
     fromSymbol: symbol,
     toSymbol: "USD",
@@ -36,6 +42,60 @@ const getAmountInUsd = async (value: number, symbol: string) => {
 };
 
 export const userWalletResolvers = {
+  BalanceResult: {
+    /**
+     * Convert the available balance to a crypto or fiat currency
+     */
+    availableBalanceInCurrency: async (parent, args, context, info) => {
+      if (!parent.availableBalance) return 0;
+      if (!parent.symbol) return null;
+
+      const { convertedAmount } = await ratesService.convertCurrency({
+        fromSymbol: parent.symbol,
+        toSymbol: args.currency,
+        amount: parent.availableBalanceDecimal ?? parent.availableBalance,
+      });
+      return convertedAmount;
+    },
+
+    /**
+     * Convert the available balance to a crypto or fiat currency exactly
+     */
+    availableBalanceInCurrencyDecimal: async (parent, args, context, info) => {
+      const available =
+        parent.availableBalanceDecimal ?? parent.availableBalance;
+      if (!available || isZeroAmount(available)) return "0";
+      if (!parent.symbol) return null;
+
+      const { convertedAmountDecimal } = await ratesService.convertCurrency({
+        fromSymbol: parent.symbol,
+        toSymbol: args.currency,
+        amount: available,
+      });
+      return convertedAmountDecimal;
+    },
+
+    totalBalanceDecimal: (parent) =>
+      toDecimal(
+        parent.totalBalanceDecimal ?? parent.totalBalance,
+        getDecimals(parent.decimals)
+      ),
+    availableBalanceDecimal: (parent) =>
+      toDecimal(
+        parent.availableBalanceDecimal ?? parent.availableBalance,
+        getDecimals(parent.decimals)
+      ),
+    pendingCreditsDecimal: (parent) =>
+      toDecimal(
+        parent.pendingCreditsDecimal ?? parent.pendingCredits,
+        getDecimals(parent.decimals)
+      ),
+    pendingDebitsDecimal: (parent) =>
+      toDecimal(
+        parent.pendingDebitsDecimal ?? parent.pendingDebits,
+        getDecimals(parent.decimals)
+      ),
+  },
   UserWallet: {
     /**
      * Get the balance of a wallet
@@ -52,11 +112,13 @@ export const userWalletResolvers = {
         //   amount: balance.availableBalance,
         // });
         const balanceInUsd = await getAmountInUsd(
-          balance.availableBalance,
+          balance.availableBalanceDecimal,
           parent.symbol
         );
         return {
           ...balance,
+          symbol: parent.symbol,
+          decimals: parent.decimals,
           availableBalanceInUsd: balanceInUsd.convertedAmount,
         };
       } catch (error) {
@@ -97,11 +159,13 @@ export const userWalletResolvers = {
           parent.symbol
         );
         const balanceInUsd = await getAmountInUsd(
-          balance.availableBalance,
+          balance.availableBalanceDecimal,
           parent.symbol
         );
         return {
           ...balance,
+          symbol: parent.symbol,
+          decimals: parent.decimals,
           availableBalanceInUsd: balanceInUsd.convertedAmount,
         };
       } catch (error) {
@@ -241,17 +305,31 @@ export const userWalletResolvers = {
     createUserWallets: async (parent, args, context, info) => {
       try {
         const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
         const user = await User.findById(userId);
-        const { symbols, networks, metadata } = args.input;
+        const { idempotencyKey, ...input } = args.input || {};
+        const { symbols, networks, metadata } = input;
 
-        const wallets = await walletService.createUserWallets({
+        const wallets = await idempotencyService.execute({
+          key: idempotencyKey,
           userId,
-          email: user.email,
-          name: user.firstName + " " + user.lastName,
-          phone: "000000000",
-          symbols,
-          networks,
-          metadata: { ...metadata, userId },
+          operation: "createUserWallets",
+          payload: input,
+          handler: () =>
+            walletService.createUserWallets({
+              userId,
+              email: user.email,
+              name: user.firstName + " " + user.lastName,
+              phone: "000000000",
+              symbols,
+              networks,
+              metadata: { ...metadata, userId },
+            }),
+          // Store wallet ids and load the wallets again on replay
+          serialize: (created) => created.map((wallet) => wallet.id),
+          deserialize: (ids: string[]) =>
+            UserWallet.find({ _id: { $in: ids } }).populate("user"),
         });
 
         return wallets;
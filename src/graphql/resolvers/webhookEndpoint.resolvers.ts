@@ -0,0 +1,111 @@
+// ./src/graphql/resolvers/webhookEndpoint.resolvers.ts
+
+import WebhookEndpoint from "../../models/webhookEndpoint.model.js";
+import { OutgoingWebhookService } from "../../services/outgoingWebhook.services.js";
+
+const outgoingWebhookService = new OutgoingWebhookService();
+
+export const webhookEndpointResolvers = {
+  WebhookDelivery: {
+    endpoint: async (parent) => WebhookEndpoint.findById(parent.endpoint),
+  },
+  Query: {
+    /**
+     * Get the authenticated user's webhook endpoints
+     */
+    webhookEndpoints: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await outgoingWebhookService.getEndpoints(userId);
+      } catch (error) {
+        console.log("Query.webhookEndpoints error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Get delivery attempts to the authenticated user's webhook endpoints
+     */
+    webhookDeliveries: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await outgoingWebhookService.getDeliveries(userId, {
+          filters: args.filters || {},
+          pagination: args.pagination || {},
+        });
+      } catch (error) {
+        console.log("Query.webhookDeliveries error", error);
+        throw error;
+      }
+    },
+  },
+  Mutation: {
+    /**
+     * Register a webhook endpoint, the signing secret is only returned here
+     */
+    createWebhookEndpoint: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await outgoingWebhookService.createEndpoint(userId, args.input);
+      } catch (error) {
+        console.log("Mutation.createWebhookEndpoint error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Update a webhook endpoint
+     */
+    updateWebhookEndpoint: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await outgoingWebhookService.updateEndpoint(
+          userId,
+          args.id,
+          args.input
+        );
+      } catch (error) {
+        console.log("Mutation.updateWebhookEndpoint error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Delete a webhook endpoint
+     */
+    deleteWebhookEndpoint: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await outgoingWebhookService.deleteEndpoint(userId, args.id);
+      } catch (error) {
+        console.log("Mutation.deleteWebhookEndpoint error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Deliver a failed webhook again
+     */
+    replayWebhookDelivery: async (parent, args, context, info) => {
+      try {
+        const userId = context?.user?.data?.id;
+        if (!userId) throw new Error("User not found");
+
+        return await outgoingWebhookService.replayDelivery(userId, args.id);
+      } catch (error) {
+        console.log("Mutation.replayWebhookDelivery error", error);
+        throw error;
+      }
+    },
+  },
+};
@@ -0,0 +1,63 @@
+// ./src/graphql/resolvers/webhookEvent.resolvers.ts
+
+import WebhookEvent from "../../models/webhookEvent.model.js";
+import { InboundWebhookService } from "../../services/inboundWebhook.services.js";
+import { requireAdmin } from "../../utils/user.js";
+
+// Initialize the inbound webhook service with your 100Pay API keys
+const inboundWebhookService = new InboundWebhookService(
+  process.env.PAY100_PUBLIC_KEY || "",
+  process.env.PAY100_SECRET_KEY || ""
+);
+
+const webhookEventResolvers = {
+  Query: {
+    /**
+     * List received webhook events (admin only)
+     */
+    webhookEvents: async (parent, args, context, info) => {
+      try {
+        await requireAdmin(context);
+
+        return await inboundWebhookService.getEvents({
+          filters: args.filters || {},
+          pagination: args.pagination || {},
+        });
+      } catch (error) {
+        console.log("Query.webhookEvents error", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Get a received webhook event by ID (admin only)
+     */
+    webhookEvent: async (parent, args, context, info) => {
+      try {
+        await requireAdmin(context);
+
+        return await WebhookEvent.findById(args.id);
+      } catch (error) {
+        console.log("Query.webhookEvent error", error);
+        throw error;
+      }
+    },
+  },
+  Mutation: {
+    /**
+     * Process a stored webhook event again (admin only)
+     */
+    reprocessWebhookEvent: async (parent, args, context, info) => {
+      try {
+        await requireAdmin(context);
+
+        return await inboundWebhookService.reprocess(args.id);
+      } catch (error) {
+        console.log("Mutation.reprocessWebhookEvent error", error);
+        throw error;
+      }
+    },
+  },
+};
+
+export default webhookEventResolvers;
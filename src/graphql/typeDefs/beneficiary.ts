@@ -0,0 +1,54 @@
+const beneficiaryTypeDefs = `#graphql
+  # Saved transfer recipient: another user (internal) or an address (external)
+  type Beneficiary {
+    id: ID
+    label: String
+    type: String
+    recipientUser: User
+    address: String
+    symbol: String
+    network: String
+    favourite: Boolean
+    # External beneficiaries are pending until confirmed with an OTP
+    status: String
+    confirmedAt: String
+    # Large transfers to the beneficiary are blocked until then
+    coolingOffUntil: String
+    lastUsedAt: String
+    createdAt: String
+    updatedAt: String
+  }
+
+  input AddBeneficiaryInput {
+    label: String!
+    symbol: String!
+    network: String!
+    toUserId: ID
+    address: String
+    favourite: Boolean
+  }
+
+  input UpdateBeneficiaryInput {
+    label: String
+    favourite: Boolean
+  }
+
+  type Query {
+    beneficiaries(
+      symbol: String
+      network: String
+      favourite: Boolean
+    ): [Beneficiary]
+    beneficiary(id: ID!): Beneficiary
+  }
+
+  type Mutation {
+    addBeneficiary(input: AddBeneficiaryInput!): Beneficiary
+    confirmBeneficiary(id: ID!, otp: String!): Beneficiary
+    resendBeneficiaryConfirmation(id: ID!): Boolean
+    updateBeneficiary(id: ID!, input: UpdateBeneficiaryInput!): Beneficiary
+    removeBeneficiary(id: ID!): Boolean
+  }
+`;
+
+export default beneficiaryTypeDefs;
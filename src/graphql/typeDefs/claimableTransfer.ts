@@ -0,0 +1,59 @@
+const claimableTransferTypeDefs = `#graphql
+  enum ClaimableTransferStatus {
+    pending
+    claimed
+    refunded
+    # A transfer into, out of or back from escrow has an unknown outcome
+    reconciling
+    # Reconciled as never funded
+    failed
+  }
+
+  # Transfer to an email without an account, held in escrow until the owner
+  # of the email registers and claims it
+  type ClaimableTransfer {
+    id: ID
+    email: String
+    amount: Decimal
+    symbol: String
+    network: String
+    description: String
+    status: ClaimableTransferStatus
+    senderName: String
+    # Unclaimed funds go back to the sender after this
+    expiresAt: String
+    fundingTransactionId: String
+    # Transaction that paid out or refunded the claim
+    transactionId: String
+    claimedAt: String
+    refundedAt: String
+    error: String
+    # funding, payout or refund, for a reconciling claim
+    reconcileStep: String
+    createdAt: String
+  }
+
+  type Query {
+    # A claimable transfer, with the token from its claim link
+    claimableTransfer(id: ID!, token: String!): ClaimableTransfer
+    # Claimable transfers the authenticated user sent
+    mySentClaimableTransfers(status: ClaimableTransferStatus): [ClaimableTransfer]
+    # Claims whose transfer has an unknown outcome (admin only)
+    claimableTransfersToReconcile: [ClaimableTransfer]
+  }
+
+  type Mutation {
+    # Claim a transfer into the authenticated user's wallet. Their email must
+    # be verified and match the email the claim link was sent to.
+    claimTransfer(id: ID!, token: String!): ClaimableTransfer
+    # Settle a reconciling claim once its transfer was checked in 100Pay
+    # (admin only). transferred says whether the funds moved.
+    reconcileClaimableTransfer(
+      id: ID!
+      transferred: Boolean!
+      transactionId: String
+    ): ClaimableTransfer
+  }
+`;
+
+export default claimableTransferTypeDefs;
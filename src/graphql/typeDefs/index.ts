@@ -1,15 +1,35 @@
 import apiKeyTypeDefs from "./apiKey.js";
+import beneficiaryTypeDefs from "./beneficiary.js";
+import spendingLimitTypeDefs from "./spendingLimit.js";
+import transferApprovalTypeDefs from "./transferApproval.js";
+import transactionExportTypeDefs from "./transactionExport.js";
+import transactionAnnotationTypeDefs from "./transactionAnnotation.js";
+import portfolioTypeDefs from "./portfolio.js";
+import notificationTypeDefs from "./notification.js";
+import priceAlertTypeDefs from "./priceAlert.js";
+import priceHistoryTypeDefs from "./priceHistory.js";
+import claimableTransferTypeDefs from "./claimableTransfer.js";
 import googleAuthTypeDefs from "./google.auth.js";
 import otpTypeDefs from "./otp.js";
 import passwordResetTypeDefs from "./passwordReset.js";
+import paymentRequestTypeDefs from "./paymentRequest.js";
 import ratesTypeDefs from "./rates.js";
 import roleTypeDefs from "./role.js";
+import scheduledTransferTypeDefs from "./scheduledTransfer.js";
+import transactionPinTypeDefs from "./transactionPin.js";
+import transactionReceiptTypeDefs from "./transactionReceipt.js";
+import swapTypeDefs from "./swap.js";
 import { transferTypeDefs } from "./transfer.js";
+import twoFactorTypeDefs from "./twoFactor.js";
 import userTypeDefs from "./user.js";
 import userWalletTypeDefs from "./userWallet.js";
+import webhookEndpointTypeDefs from "./webhookEndpoint.js";
+import webhookEventTypeDefs from "./webhookEvent.js";
 
 const globalTypeDefs = `#graphql
   scalar JSON
+  # Exact decimal number, serialized as a string
+  scalar Decimal
 
   input Pagination {
     page: Int
@@ -47,7 +67,25 @@ const typeDefs = `
   ${passwordResetTypeDefs}
   ${userWalletTypeDefs}
   ${transferTypeDefs}
+  ${transactionPinTypeDefs}
+  ${twoFactorTypeDefs}
   ${ratesTypeDefs}
+  ${swapTypeDefs}
+  ${webhookEventTypeDefs}
+  ${webhookEndpointTypeDefs}
+  ${transactionReceiptTypeDefs}
+  ${scheduledTransferTypeDefs}
+  ${paymentRequestTypeDefs}
+  ${beneficiaryTypeDefs}
+  ${spendingLimitTypeDefs}
+  ${transferApprovalTypeDefs}
+  ${transactionExportTypeDefs}
+  ${transactionAnnotationTypeDefs}
+  ${portfolioTypeDefs}
+  ${notificationTypeDefs}
+  ${priceAlertTypeDefs}
+  ${priceHistoryTypeDefs}
+  ${claimableTransferTypeDefs}
 `;
 
 export default typeDefs;
@@ -0,0 +1,31 @@
+const notificationTypeDefs = `#graphql
+  # In-app notification
+  type Notification {
+    id: ID
+    # price_alert
+    type: String
+    title: String
+    body: String
+    data: JSON
+    readAt: String
+    createdAt: String
+  }
+
+  type NotificationsData {
+    data: [Notification]
+    meta: Meta
+  }
+
+  type Query {
+    notifications(pagination: Pagination, unreadOnly: Boolean): NotificationsData
+    unreadNotificationCount: Int
+  }
+
+  type Mutation {
+    # Marks the given notifications as read, or all of them without ids.
+    # Returns how many were marked.
+    markNotificationsRead(ids: [ID!]): Int
+  }
+`;
+
+export default notificationTypeDefs;
@@ -0,0 +1,59 @@
+const paymentRequestTypeDefs = `#graphql
+  # Request for funds, shared with the payer by link or QR code
+  type PaymentRequest {
+    id: ID
+    reference: String
+    requester: User
+    symbol: String
+    network: String
+    amount: Float @deprecated(reason: "Use amountDecimal")
+    amountDecimal: Decimal
+    memo: String
+    # open, paid, reconciling, expired or cancelled. A reconciling request
+    # was paid but the outcome of the transfer isn't known yet.
+    status: String
+    address: String
+    # Shareable link built from APP_URL
+    url: String
+    # Payment URI for QR codes, null for networks without a known URI scheme
+    paymentUri: String
+    expiresAt: String
+    paidBy: User
+    paidAt: String
+    transactionId: String
+    error: String
+    createdAt: String
+    updatedAt: String
+  }
+
+  type PaymentRequestsData {
+    data: [PaymentRequest]
+    meta: Meta
+  }
+
+  type Query {
+    # Look up a payment request by its ID or reference
+    paymentRequest(id: ID!): PaymentRequest
+    paymentRequests(status: String, pagination: Pagination): PaymentRequestsData
+  }
+
+  type Mutation {
+    createPaymentRequest(
+      symbol: String!
+      network: String!
+      amount: Float @deprecated(reason: "Use amountDecimal")
+      amountDecimal: Decimal
+      memo: String
+      expiresAt: String
+    ): PaymentRequest
+    cancelPaymentRequest(id: ID!): PaymentRequest
+    # Authorized like transferAssets
+    payPaymentRequest(
+      id: ID!
+      transactionPin: String!
+      totpCode: String
+    ): PaymentRequest
+  }
+`;
+
+export default paymentRequestTypeDefs;
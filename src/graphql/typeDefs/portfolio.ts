@@ -0,0 +1,78 @@
+const portfolioTypeDefs = `#graphql
+  # Rolling ranges of 1, 7, 30, 90 and 365 days. all covers every snapshot kept.
+  enum PortfolioRange {
+    day
+    week
+    month
+    quarter
+    year
+    all
+  }
+
+  enum PortfolioInterval {
+    hour
+    day
+    week
+  }
+
+  type PortfolioAssetValue {
+    symbol: String
+    balance: Float
+    price: Float
+    value: Float
+    # Fraction of the portfolio value, 0 to 1
+    share: Float
+  }
+
+  type PortfolioAssetChange {
+    symbol: String
+    balance: Float
+    price: Float
+    value: Float
+    share: Float
+    startValue: Float
+    change: Float
+    changePercent: Float
+  }
+
+  type PortfolioPoint {
+    # Start of the interval
+    timestamp: String
+    # When the snapshot used for the point was taken
+    takenAt: String
+    value: Float
+    # Change since the previous point
+    change: Float
+    changePercent: Float
+    assets: [PortfolioAssetValue]
+  }
+
+  type PortfolioHistory {
+    range: PortfolioRange
+    interval: PortfolioInterval
+    currency: String
+    from: String
+    to: String
+    startValue: Float
+    endValue: Float
+    change: Float
+    # Null when the portfolio started the range empty
+    changePercent: Float
+    high: Float
+    low: Float
+    assets: [PortfolioAssetChange]
+    points: [PortfolioPoint]
+  }
+
+  type Query {
+    # Value of the authenticated user's wallets over time. The interval
+    # defaults to one that suits the range, and the currency to USD.
+    portfolioHistory(
+      range: PortfolioRange!
+      interval: PortfolioInterval
+      currency: String
+    ): PortfolioHistory
+  }
+`;
+
+export default portfolioTypeDefs;
@@ -0,0 +1,76 @@
+const priceAlertTypeDefs = `#graphql
+  enum PriceAlertCondition {
+    above
+    below
+    # Move up or down by percentChange over 24 hours
+    percent_change
+  }
+
+  enum PriceAlertChannel {
+    email
+    in_app
+  }
+
+  # Rule to be told when a symbol's price crosses a level or moves sharply
+  type PriceAlert {
+    id: ID
+    symbol: String
+    # Fiat currency of targetPrice and lastPrice
+    currency: String
+    condition: PriceAlertCondition
+    targetPrice: Float
+    percentChange: Float
+    channels: [PriceAlertChannel]
+    enabled: Boolean
+    # Non-recurring alerts turn off after firing once
+    recurring: Boolean
+    cooldownMinutes: Int
+    # False after firing, until the condition stops holding
+    armed: Boolean
+    note: String
+    lastPrice: Float
+    lastCheckedAt: String
+    lastTriggeredAt: String
+    lastTriggeredPrice: Float
+    triggerCount: Int
+    createdAt: String
+  }
+
+  input CreatePriceAlertInput {
+    symbol: String!
+    # Defaults to USD
+    currency: String
+    condition: PriceAlertCondition!
+    targetPrice: Float
+    percentChange: Float
+    # Defaults to email and in_app
+    channels: [PriceAlertChannel!]
+    recurring: Boolean
+    cooldownMinutes: Int
+    note: String
+  }
+
+  input UpdatePriceAlertInput {
+    condition: PriceAlertCondition
+    targetPrice: Float
+    percentChange: Float
+    channels: [PriceAlertChannel!]
+    enabled: Boolean
+    recurring: Boolean
+    cooldownMinutes: Int
+    note: String
+  }
+
+  type Query {
+    priceAlerts(symbol: String, enabled: Boolean): [PriceAlert]
+    priceAlert(id: ID!): PriceAlert
+  }
+
+  type Mutation {
+    createPriceAlert(input: CreatePriceAlertInput!): PriceAlert
+    updatePriceAlert(id: ID!, input: UpdatePriceAlertInput!): PriceAlert
+    deletePriceAlert(id: ID!): Boolean
+  }
+`;
+
+export default priceAlertTypeDefs;
@@ -0,0 +1,76 @@
+const priceHistoryTypeDefs = `#graphql
+  enum PriceCandleInterval {
+    fifteen_minutes
+    hour
+    four_hours
+    day
+    week
+  }
+
+  # Rolling ranges of 1, 7, 30, 90 and 365 days
+  enum PriceRange {
+    day
+    week
+    month
+    quarter
+    year
+  }
+
+  type HistoricalPrice {
+    symbol: String
+    currency: String
+    # Time the price was asked for
+    at: String
+    price: Float
+    usdRate: Float
+    currencyUsdRate: Float
+    # When the stored price used was recorded
+    recordedAt: String
+    provider: String
+  }
+
+  type PriceCandle {
+    # Start of the interval
+    time: String
+    open: Float
+    high: Float
+    low: Float
+    close: Float
+    # Number of stored prices in the interval
+    samples: Int
+  }
+
+  type PriceCandles {
+    symbol: String
+    currency: String
+    range: PriceRange
+    interval: PriceCandleInterval
+    from: String
+    to: String
+    open: Float
+    close: Float
+    change: Float
+    changePercent: Float
+    candles: [PriceCandle]
+  }
+
+  type Query {
+    # Price of a crypto symbol or fiat currency at a past ISO date, from the
+    # last price stored before it. The currency defaults to USD.
+    getHistoricalPrice(
+      symbol: String!
+      at: String!
+      currency: String
+    ): HistoricalPrice
+    # Price chart candles. The interval defaults to one that suits the range,
+    # and the currency to USD.
+    priceCandles(
+      symbol: String!
+      range: PriceRange!
+      interval: PriceCandleInterval
+      currency: String
+    ): PriceCandles
+  }
+`;
+
+export default priceHistoryTypeDefs;
@@ -23,11 +23,51 @@ const ratesTypeDefs = `#graphql
     price: CryptoPrice
   }
 
+  # USD rate of one side of a conversion and where it came from
+  type ConversionRate {
+    symbol: String
+    # crypto or fiat
+    type: String
+    usdRate: Float
+    marginApplied: Boolean
+    # When the price source last updated the rate
+    lastUpdated: String
+    # Null for USD itself
+    provider: String
+    fetchedAt: String
+  }
+
   type SimpleConversionResult {
-    convertedAmount: Float
+    convertedAmount: Float @deprecated(reason: "Use convertedAmountDecimal")
+    # Computed exactly and rounded to the target's decimals
+    convertedAmountDecimal: Decimal
+    # USD rates of the source and target currencies
     fromRate: Float
     toRate: Float
+    # Target units per source unit
+    rate: Float
     intermediateUSDAmount: Float
+    marginApplied: Boolean
+    rates: [ConversionRate]
+    # When the prices used were fetched, and whether they are past the cache
+    # TTL because the rates API couldn't be reached
+    pricesFetchedAt: String
+    pricesAgeSeconds: Int
+    stale: Boolean
+  }
+
+  # How old a cached price list is
+  type RatesMeta {
+    fetchedAt: String
+    ageSeconds: Int
+    stale: Boolean
+    # Rates provider the prices came from
+    provider: String
+  }
+
+  type RatesStatus {
+    prices: RatesMeta
+    fiatPrices: RatesMeta
   }
 
   type Query {
@@ -37,7 +77,19 @@ const ratesTypeDefs = `#graphql
     updateCoinPrice(coin: String): UpdateSpecificCoinResponse
     getAllFiatPrices: [FiatPrice]
     getFiatPrice(symbol: String, currency: String): FiatPrice
-    convertCurrency(amount: Float, fromSymbol: String, toSymbol: String): SimpleConversionResult
+    # Converts between crypto and fiat currencies in any direction through
+    # USD. applyMargin uses crypto prices with the margin applied. decimals
+    # defaults to 2 for fiat targets and 18 for crypto.
+    convertCurrency(
+      amount: Float @deprecated(reason: "Use amountDecimal")
+      amountDecimal: Decimal
+      decimals: Int
+      fromSymbol: String
+      toSymbol: String
+      applyMargin: Boolean
+    ): SimpleConversionResult
+    # Age of the cached price lists, null until first fetched
+    ratesStatus: RatesStatus
   }
 `;
 
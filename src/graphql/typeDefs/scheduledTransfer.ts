@@ -0,0 +1,84 @@
+const scheduledTransferTypeDefs = `#graphql
+  enum ScheduleFrequency {
+    once
+    daily
+    weekly
+    monthly
+  }
+
+  type ScheduledTransferRun {
+    runAt: String
+    status: String
+    transactionId: String
+    error: String
+  }
+
+  # Transfer sent at a future time, once or on a recurrence
+  type ScheduledTransfer {
+    id: ID
+    toUserId: ID
+    toAddress: String
+    amount: Float @deprecated(reason: "Use amountDecimal")
+    amountDecimal: Decimal
+    symbol: String
+    network: String
+    description: String
+    frequency: ScheduleFrequency
+    startAt: String
+    nextRunAt: String
+    endAt: String
+    maxOccurrences: Int
+    occurrences: Int
+    consecutiveFailures: Int
+    status: String
+    runs: [ScheduledTransferRun]
+    lastRunAt: String
+    createdAt: String
+    updatedAt: String
+  }
+
+  type ScheduledTransfersData {
+    data: [ScheduledTransfer]
+    meta: Meta
+  }
+
+  input ScheduleTransferInput {
+    toUserId: ID
+    toAddress: String
+    amount: Float @deprecated(reason: "Use amountDecimal")
+    amountDecimal: Decimal
+    symbol: String!
+    network: String!
+    description: String
+    frequency: ScheduleFrequency
+    # ISO date of the first run
+    startAt: String!
+    # No runs after this date
+    endAt: String
+    # No runs after this many
+    maxOccurrences: Int
+  }
+
+  type Query {
+    scheduledTransfers(
+      status: String
+      pagination: Pagination
+    ): ScheduledTransfersData
+    scheduledTransfer(id: ID!): ScheduledTransfer
+  }
+
+  type Mutation {
+    # Authorized once with the transaction PIN (and a two-factor code above
+    # the step-up threshold), each run is sent without asking again
+    scheduleTransfer(
+      input: ScheduleTransferInput!
+      transactionPin: String!
+      totpCode: String
+    ): ScheduledTransfer
+    pauseScheduledTransfer(id: ID!): ScheduledTransfer
+    resumeScheduledTransfer(id: ID!): ScheduledTransfer
+    cancelScheduledTransfer(id: ID!): ScheduledTransfer
+  }
+`;
+
+export default scheduledTransferTypeDefs;
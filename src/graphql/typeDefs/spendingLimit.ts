@@ -0,0 +1,80 @@
+const spendingLimitTypeDefs = `#graphql
+  enum SpendingLimitScope {
+    global
+    role
+    user
+  }
+
+  # USD limits on outgoing transfers. Unset limits inherit from the next
+  # broader scope: user, then role, then global.
+  type SpendingLimit {
+    id: ID
+    scope: SpendingLimitScope
+    role: Role
+    user: User
+    # Limits only transfers of this symbol when set
+    symbol: String
+    perTransactionUsd: Float
+    dailyUsd: Float
+    weeklyUsd: Float
+    # Transfers above this value wait for admin approval
+    approvalThresholdUsd: Float
+    createdAt: String
+    updatedAt: String
+  }
+
+  input SpendingLimitInput {
+    scope: SpendingLimitScope!
+    # Role name, for role limits
+    role: String
+    # User ID, for user limits
+    userId: ID
+    symbol: String
+    # Null clears a limit so it is inherited again
+    perTransactionUsd: Float
+    dailyUsd: Float
+    weeklyUsd: Float
+    approvalThresholdUsd: Float
+  }
+
+  # Usage of a rolling limit, limitUsd and remainingUsd are null when unlimited
+  type SpendingPeriod {
+    limitUsd: Float
+    usedUsd: Float
+    remainingUsd: Float
+  }
+
+  type SymbolSpendingLimits {
+    symbol: String
+    perTransactionUsd: Float
+    daily: SpendingPeriod
+    weekly: SpendingPeriod
+  }
+
+  type MyLimits {
+    currency: String
+    perTransactionUsd: Float
+    # Rolling 24 hours
+    daily: SpendingPeriod
+    # Rolling 7 days
+    weekly: SpendingPeriod
+    # Limits on the symbol asked for, if any are set
+    symbol: SymbolSpendingLimits
+  }
+
+  type Query {
+    myLimits(symbol: String): MyLimits
+    spendingLimits(
+      scope: SpendingLimitScope
+      userId: ID
+      symbol: String
+    ): [SpendingLimit]
+  }
+
+  type Mutation {
+    setSpendingLimit(input: SpendingLimitInput!): SpendingLimit
+    removeSpendingLimit(id: ID!): Boolean
+  }
+`;
+
+export default spendingLimitTypeDefs;
@@ -0,0 +1,48 @@
+const swapTypeDefs = `#graphql
+  # Swap between two of the user's own wallets. A preview is a quote whose
+  # rate is held until quoteExpiresAt.
+  type Swap {
+    id: ID
+    fromSymbol: String
+    toSymbol: String
+    fromAmount: Float @deprecated(reason: "Use fromAmountDecimal")
+    toAmount: Float @deprecated(reason: "Use toAmountDecimal")
+    rate: Float @deprecated(reason: "Use rateDecimal")
+    fee: Float @deprecated(reason: "Use feeDecimal")
+    quotedToAmount: Float @deprecated(reason: "Use quotedToAmountDecimal")
+    quotedRate: Float @deprecated(reason: "Use quotedRateDecimal")
+    fromAmountDecimal: Decimal
+    # What the swap received and its rate. Until it completes these are the quote.
+    toAmountDecimal: Decimal
+    rateDecimal: Decimal
+    feeDecimal: Decimal
+    # Quoted toAmount and rate of a completed swap
+    quotedToAmountDecimal: Decimal
+    quotedRateDecimal: Decimal
+    status: String
+    quoteExpiresAt: String
+    transactionId: String
+    failureReason: String
+    fromWallet: UserWallet
+    toWallet: UserWallet
+    completedAt: String
+    createdAt: String
+    updatedAt: String
+  }
+
+  type SwapsData {
+    data: [Swap]
+    meta: Meta
+  }
+
+  type Query {
+    previewSwap(input: InternalTransferInput!): Swap
+    swaps(pagination: Pagination): SwapsData
+  }
+
+  type Mutation {
+    swapAssets(quoteId: ID!): Swap
+  }
+`;
+
+export default swapTypeDefs;
@@ -0,0 +1,72 @@
+const transactionAnnotationTypeDefs = `#graphql
+  # Private note, tags and category a user keeps on a transaction
+  type TransactionAnnotation {
+    id: ID
+    transactionId: String
+    note: String
+    tags: [String]
+    category: String
+    createdAt: String
+    updatedAt: String
+  }
+
+  # Fields left out are kept, null clears them
+  input TransactionAnnotationInput {
+    note: String
+    tags: [String]
+    category: String
+  }
+
+  type TransactionTag {
+    tag: String
+    count: Int
+  }
+
+  # Rolling periods of 7, 30, 90 and 365 days
+  enum SpendingReportPeriod {
+    week
+    month
+    quarter
+    year
+  }
+
+  type CategorySpending {
+    # Null for transactions without a category
+    category: String
+    amount: Float @deprecated(reason: "Use amountDecimal")
+    amountDecimal: Decimal
+    # Fraction of the total, 0 to 1
+    share: Float
+    transactionCount: Int
+    # Transactions without a captured USD value, not in amount
+    unvaluedCount: Int
+  }
+
+  type SpendingByCategory {
+    period: SpendingReportPeriod
+    from: String
+    to: String
+    currency: String
+    total: Float @deprecated(reason: "Use totalDecimal")
+    totalDecimal: Decimal
+    categories: [CategorySpending]
+  }
+
+  type Query {
+    transactionAnnotation(transactionId: String!): TransactionAnnotation
+    transactionTags: [TransactionTag]
+    transactionCategories: [String]
+    # Outgoing transactions totalled by category
+    spendingByCategory(period: SpendingReportPeriod!): SpendingByCategory
+  }
+
+  type Mutation {
+    annotateTransaction(
+      transactionId: String!
+      input: TransactionAnnotationInput!
+    ): TransactionAnnotation
+    removeTransactionAnnotation(transactionId: String!): Boolean
+  }
+`;
+
+export default transactionAnnotationTypeDefs;
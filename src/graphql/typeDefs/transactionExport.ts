@@ -0,0 +1,52 @@
+const transactionExportTypeDefs = `#graphql
+  enum ExportFormat {
+    csv
+    jsonl
+    pdf
+  }
+
+  # Export of transaction history. Small exports complete right away, larger
+  # ones are built in the background and the download link is emailed.
+  type TransactionExport {
+    id: ID
+    format: ExportFormat
+    from: String
+    to: String
+    symbols: [String]
+    # pending, processing, completed, failed or expired
+    status: String
+    background: Boolean
+    rowCount: Int
+    fileName: String
+    size: Int
+    # Set once completed, works until expiresAt
+    downloadUrl: String
+    expiresAt: String
+    error: String
+    completedAt: String
+    createdAt: String
+  }
+
+  type TransactionExportsData {
+    data: [TransactionExport]
+    meta: Meta
+  }
+
+  type Query {
+    transactionExports(pagination: Pagination): TransactionExportsData
+    transactionExport(id: ID!): TransactionExport
+  }
+
+  type Mutation {
+    # CSV, JSON lines or a PDF account statement of transactions between two
+    # ISO dates, optionally for some symbols only
+    exportTransactions(
+      from: String!
+      to: String!
+      symbols: [String]
+      format: ExportFormat!
+    ): TransactionExport
+  }
+`;
+
+export default transactionExportTypeDefs;
@@ -0,0 +1,15 @@
+const transactionPinTypeDefs = `#graphql
+  extend type User {
+    hasTransactionPin: Boolean
+  }
+
+  type Mutation {
+    setTransactionPin(pin: String!): Boolean
+    changeTransactionPin(currentPin: String!, newPin: String!): Boolean
+    # Sends an OTP to the user's email for resetTransactionPin
+    requestTransactionPinReset: Boolean
+    resetTransactionPin(otp: String!, newPin: String!): Boolean
+  }
+`;
+
+export default transactionPinTypeDefs;
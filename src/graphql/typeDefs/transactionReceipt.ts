@@ -0,0 +1,43 @@
+const transactionReceiptTypeDefs = `#graphql
+  type FiatValue {
+    currency: String
+    amount: Float @deprecated(reason: "Use amountDecimal")
+    rate: Float @deprecated(reason: "Use rateDecimal")
+    # Rounded to cents
+    amountDecimal: Decimal
+    rateDecimal: Decimal
+    capturedAt: String
+  }
+
+  # Receipt of a transfer, verified with 100Pay
+  type TransactionReceipt {
+    id: ID
+    verified: Boolean
+    status: String
+    type: String
+    amount: String
+    symbol: String
+    fee: String
+    description: String
+    from: String
+    to: String
+    fromWallet: UserWallet
+    toWallet: UserWallet
+    network: String
+    transactionHash: String
+    explorerUrl: String
+    # Value when the transfer was made, or when the receipt was first viewed
+    fiatValue: FiatValue
+    # Admin approval the transfer was sent under, with its decision trail
+    approval: TransferApproval
+    createdAt: String
+    verifiedAt: String
+  }
+
+  type Query {
+    # Receipt of a transfer the user sent or received (any transfer for admins)
+    transaction(id: ID!): TransactionReceipt
+  }
+`;
+
+export default transactionReceiptTypeDefs;
@@ -5,23 +5,36 @@ export const transferTypeDefs = `#graphql
   input TransferAssetsInput {
     toUserId: ID
     toAddress: String
-    amount: Float!
+    # Saved beneficiary to send to, instead of toUserId or toAddress
+    beneficiaryId: ID
+    # Email, verified phone number or payTag of the user to send to, instead of toUserId or toAddress.
+    # An email without an account gets a claimable transfer.
+    recipient: String
+    amount: Float @deprecated(reason: "Use amountDecimal")
+    # At most as many decimal places as the wallet has
+    amountDecimal: Decimal
     symbol: String!
     network: String!
     description: String
+    # Retries with the same key return the original result instead of sending again
+    idempotencyKey: String
   }
 
   # Input type for internal wallet-to-wallet transfers
   input InternalTransferInput {
     fromSymbol: String!
     toSymbol: String!
-    amount: Float!
+    amount: Float @deprecated(reason: "Use amountDecimal")
+    amountDecimal: Decimal
+    fromNetwork: String
+    toNetwork: String
   }
 
   # Input type for transfer fee calculation
   input TransferFeeInput {
     symbol: String!
-    amount: Float!
+    amount: Float @deprecated(reason: "Use amountDecimal")
+    amountDecimal: Decimal
     network: String!
   }
 
@@ -71,6 +84,10 @@ export const transferTypeDefs = `#graphql
     type: String
     recipient: TransferRecipient
     wallet: UserWallet
+    # The user's own note, tags and category
+    note: String
+    tags: [String]
+    category: String
     createdAt: String
     updatedAt: String
   }
@@ -98,11 +115,14 @@ export const transferTypeDefs = `#graphql
 
   # Fee calculation response data
   type FeeCalculationData {
-    fee: Float,
+    fee: Float @deprecated(reason: "Use feeDecimal"),
     symbol: String,
     transferType: String,
-    minTransfer: Float,
-    maxTransfer: Float
+    minTransfer: Float @deprecated(reason: "Use minTransferDecimal"),
+    maxTransfer: Float @deprecated(reason: "Use maxTransferDecimal"),
+    feeDecimal: Decimal,
+    minTransferDecimal: Decimal,
+    maxTransferDecimal: Decimal
   }
 
   # Fee calculation response
@@ -135,18 +155,65 @@ export const transferTypeDefs = `#graphql
     data: TransferAssetData
     fromWallet: UserWallet
     toWallet: String
+    # Set when the transfer is held for admin approval (status pending_approval)
+    approval: TransferApproval
+    # Set when sent to an email without an account (status pending_claim)
+    claim: ClaimableTransfer
+  }
+
+  # Result of checking a destination address for a network
+  type AddressValidation {
+    valid: Boolean
+    # False when the network is unknown and the address wasn't checked
+    supported: Boolean
+    family: String
+    # ADDRESS_REQUIRED, ADDRESS_INVALID_FORMAT or ADDRESS_INVALID_CHECKSUM
+    code: String
+    message: String
+    # Canonical form of a valid address, e.g. EIP-55 checksummed for EVM
+    normalizedAddress: String
+  }
+
+  # A user found by email, verified phone number or payTag, with only
+  # enough detail for the sender to confirm who they are paying
+  type ResolvedRecipient {
+    # email, phone or payTag
+    type: String
+    # False for an email without an account, which can still receive a claimable transfer
+    registered: Boolean
+    payTag: String
+    # Masked name, e.g. "Jo** D."
+    displayName: String
+    avatar: String
   }
 
   extend type Query {
-    # Get transfer history for the authenticated user
-    getTransferHistory(pagination: Pagination, symbols: [String]): TransferHistoryData
+    # Get transfer history for the authenticated user. With tags, only
+    # transactions that have all of them are returned.
+    getTransferHistory(
+      pagination: Pagination
+      symbols: [String]
+      tags: [String]
+      category: String
+    ): TransferHistoryData
 
     # Calculate transfer fee for a transaction
     calculateTransferFee(input: TransferFeeInput!): FeeCalculationResponse
+
+    # Check that an address is well formed for a network before sending to it
+    validateAddress(symbol: String!, network: String!, address: String!): AddressValidation
+
+    # Look up who an email, verified phone number or payTag belongs to before sending
+    resolveRecipient(recipient: String!): ResolvedRecipient
   }
 
   extend type Mutation {
-    # Transfer assets to another user
-    transferAssets(input: TransferAssetsInput!): TransferAssetResponse
+    # Transfer assets to another user, authorized with the user's transaction PIN.
+    # Transfers above the step-up threshold also need a fresh two-factor code.
+    transferAssets(
+      input: TransferAssetsInput!
+      transactionPin: String!
+      totpCode: String
+    ): TransferAssetResponse
   }
 `;
@@ -0,0 +1,74 @@
+const transferApprovalTypeDefs = `#graphql
+  enum TransferApprovalStatus {
+    pending
+    approved
+    rejected
+    expired
+    cancelled
+    executed
+    failed
+  }
+
+  type TransferApprovalDecision {
+    admin: User
+    decision: String
+    comment: String
+    decidedAt: String
+  }
+
+  # Transfer above the approval threshold, held until admins approve it
+  type TransferApproval {
+    id: ID
+    requester: User
+    toUserId: ID
+    toAddress: String
+    amount: Float @deprecated(reason: "Use amountDecimal")
+    amountDecimal: Decimal
+    symbol: String
+    network: String
+    description: String
+    # USD value when requested, null if it couldn't be valued
+    usdAmount: Float
+    thresholdUsd: Float
+    status: TransferApprovalStatus
+    requiredApprovals: Int
+    # Trail of admin decisions
+    decisions: [TransferApprovalDecision]
+    expiresAt: String
+    transactionId: String
+    executedAt: String
+    error: String
+    createdAt: String
+    updatedAt: String
+  }
+
+  type TransferApprovalsData {
+    data: [TransferApproval]
+    meta: Meta
+  }
+
+  type Query {
+    # The authenticated user's held transfers
+    myTransferApprovals(
+      status: TransferApprovalStatus
+      pagination: Pagination
+    ): TransferApprovalsData
+    # Held transfers of all users (admin only)
+    transferApprovals(
+      status: TransferApprovalStatus
+      requesterId: ID
+      pagination: Pagination
+    ): TransferApprovalsData
+    transferApproval(id: ID!): TransferApproval
+  }
+
+  type Mutation {
+    # Admin only, the requester can't approve their own transfer
+    approveTransfer(id: ID!, comment: String): TransferApproval
+    # Admin only
+    rejectTransfer(id: ID!, reason: String): TransferApproval
+    cancelTransferApproval(id: ID!): TransferApproval
+  }
+`;
+
+export default transferApprovalTypeDefs;
@@ -0,0 +1,23 @@
+const twoFactorTypeDefs = `#graphql
+  type TwoFactorEnrollment {
+    secret: String
+    otpauthUri: String
+  }
+
+  extend type User {
+    twoFactorEnabled: Boolean
+  }
+
+  type Mutation {
+    # Starts enrollment, confirm it with a code from the authenticator app
+    enableTwoFactor: TwoFactorEnrollment
+    # Returns one-time recovery codes
+    confirmTwoFactor(code: String!): [String]
+    disableTwoFactor(code: String!): Boolean
+    regenerateTwoFactorRecoveryCodes(code: String!): [String]
+    # Exchanges the challenge token from login or googleAuth for access tokens
+    verifyTwoFactorLogin(challengeToken: String!, code: String!): AuthData
+  }
+`;
+
+export default twoFactorTypeDefs;
@@ -5,6 +5,8 @@ const userTypeDefs = `#graphql
     lastName: String
     picture: String
     email: String
+    # Unique handle others can send transfers to
+    payTag: String
     emailVerified: Boolean
     phone: String
     phoneVerified: Boolean
@@ -21,6 +23,9 @@ const userTypeDefs = `#graphql
     accessToken: String
     refreshToken: String
     user: User
+    # Set when the user has two-factor enabled, exchange challengeToken with verifyTwoFactorLogin
+    twoFactorRequired: Boolean
+    challengeToken: String
   }
 
   type RegisterData {
@@ -32,6 +37,8 @@ const userTypeDefs = `#graphql
     lastName: String!
     email: String!
     phone: String
+    # 3 to 20 letters, numbers or underscores, starting with a letter
+    payTag: String
     password: String!
   }
 
@@ -46,6 +53,7 @@ const userTypeDefs = `#graphql
     lastName: String
     email: String
     phone: String
+    payTag: String
   }
 
   type RefreshPayload {
@@ -64,6 +72,8 @@ const userTypeDefs = `#graphql
     users(pagination: Pagination, filters: UserFiltersInput, sort: SortInput): UserData
     user(id: ID!): User
     me: User
+    # False if the payTag is malformed, reserved or taken
+    payTagAvailable(payTag: String!): Boolean!
   }
 
   type Mutation {
@@ -1,10 +1,20 @@
 const userWalletTypeDefs = `#graphql
+  # Decimal balances are exact and rounded to the wallet's decimals
   type BalanceResult {
-    totalBalance: Float
-    availableBalance: Float
-    pendingCredits: Float
-    pendingDebits: Float
+    totalBalance: Float @deprecated(reason: "Use totalBalanceDecimal")
+    availableBalance: Float @deprecated(reason: "Use availableBalanceDecimal")
+    pendingCredits: Float @deprecated(reason: "Use pendingCreditsDecimal")
+    pendingDebits: Float @deprecated(reason: "Use pendingDebitsDecimal")
     availableBalanceInUsd: Float
+      @deprecated(reason: "Use availableBalanceInCurrencyDecimal with USD")
+    availableBalanceInCurrency(currency: String!): Float
+      @deprecated(reason: "Use availableBalanceInCurrencyDecimal")
+    totalBalanceDecimal: Decimal
+    availableBalanceDecimal: Decimal
+    pendingCreditsDecimal: Decimal
+    pendingDebitsDecimal: Decimal
+    # Available balance converted to a crypto or fiat currency
+    availableBalanceInCurrencyDecimal(currency: String!): Decimal
   }
 
   type Fee {
@@ -76,6 +86,8 @@ const userWalletTypeDefs = `#graphql
     symbols: [String]
     networks: [String]
     metadata: JSON
+    # Retries with the same key return the original wallets instead of creating new ones
+    idempotencyKey: String
   }
 
   type UserWalletsData {
@@ -0,0 +1,83 @@
+const webhookEndpointTypeDefs = `#graphql
+  # Endpoint an API key owner receives events on. Event types:
+  # wallet.created, transfer.sent, transfer.received, user.verified
+  type WebhookEndpoint {
+    id: ID
+    url: String
+    events: [String]
+    description: String
+    active: Boolean
+    # Only returned by createWebhookEndpoint
+    secret: String
+    createdAt: String
+    updatedAt: String
+  }
+
+  type WebhookDeliveryAttempt {
+    attemptedAt: String
+    responseStatus: Int
+    error: String
+    durationMs: Int
+  }
+
+  type WebhookDelivery {
+    id: ID
+    endpoint: WebhookEndpoint
+    eventId: String
+    event: String
+    payload: JSON
+    status: String
+    attempts: Int
+    attemptLog: [WebhookDeliveryAttempt]
+    nextAttemptAt: String
+    lastAttemptAt: String
+    deliveredAt: String
+    lastError: String
+    createdAt: String
+    updatedAt: String
+  }
+
+  type WebhookDeliveriesData {
+    data: [WebhookDelivery]
+    meta: Meta
+  }
+
+  input WebhookEndpointInput {
+    url: String!
+    events: [String!]!
+    description: String
+  }
+
+  input UpdateWebhookEndpointInput {
+    url: String
+    events: [String!]
+    description: String
+    active: Boolean
+  }
+
+  input WebhookDeliveryFilters {
+    endpointId: ID
+    event: String
+    status: String
+  }
+
+  type Query {
+    webhookEndpoints: [WebhookEndpoint]
+    webhookDeliveries(
+      pagination: Pagination
+      filters: WebhookDeliveryFilters
+    ): WebhookDeliveriesData
+  }
+
+  type Mutation {
+    createWebhookEndpoint(input: WebhookEndpointInput!): WebhookEndpoint
+    updateWebhookEndpoint(
+      id: ID!
+      input: UpdateWebhookEndpointInput!
+    ): WebhookEndpoint
+    deleteWebhookEndpoint(id: ID!): Boolean
+    replayWebhookDelivery(id: ID!): WebhookDelivery
+  }
+`;
+
+export default webhookEndpointTypeDefs;
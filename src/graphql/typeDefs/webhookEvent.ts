@@ -0,0 +1,40 @@
+const webhookEventTypeDefs = `#graphql
+  # Event received on the 100Pay webhook endpoint
+  type WebhookEvent {
+    id: ID
+    eventId: String
+    provider: String
+    type: String
+    payload: JSON
+    status: String
+    attempts: Int
+    error: String
+    processedAt: String
+    createdAt: String
+    updatedAt: String
+  }
+
+  type WebhookEventsData {
+    data: [WebhookEvent]
+    meta: Meta
+  }
+
+  input WebhookEventFilters {
+    type: String
+    status: String
+  }
+
+  type Query {
+    webhookEvents(
+      pagination: Pagination
+      filters: WebhookEventFilters
+    ): WebhookEventsData
+    webhookEvent(id: ID!): WebhookEvent
+  }
+
+  type Mutation {
+    reprocessWebhookEvent(id: ID!): WebhookEvent
+  }
+`;
+
+export default webhookEventTypeDefs;
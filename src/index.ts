@@ -2,6 +2,7 @@
 
 import { Request, RequestHandler, Response, NextFunction } from "express";
 import { ApolloServer } from "@apollo/server";
+import { unwrapResolverError } from "@apollo/server/errors";
 import { expressMiddleware } from "@apollo/server/express4";
 import { ApolloServerPluginDrainHttpServer } from "@apollo/server/plugin/drainHttpServer";
 import express from "express";
@@ -23,6 +24,9 @@ import {
   notFoundMiddleware,
 } from "./middlewares/error.middleware.js";
 import { ApiError } from "./services/error.services.js";
+import { startJobs } from "./jobs/index.js";
+import webhookRoutes from "./routes/webhook.routes.js";
+import exportRoutes from "./routes/export.routes.js";
 interface MyContext {
   token?: string;
   user?: any;
@@ -47,6 +51,21 @@ const server = new ApolloServer<MyContext>({
   resolvers,
   plugins: [ApolloServerPluginDrainHttpServer({ httpServer })],
   introspection: true,
+  // Expose ApiError codes so clients can tell error cases apart
+  formatError: (formattedError, error) => {
+    const originalError = unwrapResolverError(error);
+    if (!(originalError instanceof ApiError)) return formattedError;
+
+    return {
+      ...formattedError,
+      extensions: {
+        ...formattedError.extensions,
+        ...(originalError.errorCode && { code: originalError.errorCode }),
+        statusCode: originalError.statusCode,
+        ...(originalError.errors && { errors: originalError.errors }),
+      },
+    };
+  },
 });
 // Ensure we wait for our server to start
 await server.start();
@@ -54,6 +73,12 @@ await server.start();
 // our loggerMiddleware.
 app.use(loggerMiddleware);
 
+// 100Pay webhooks are signed with WEBHOOK_SECRET instead of an API key
+app.use("/webhooks", webhookRoutes);
+
+// Export downloads are authorized by the token in the emailed link
+app.use("/exports", exportRoutes);
+
 // validate API Key middleware
 app.use(validateApiKey as RequestHandler);
 
@@ -120,6 +145,9 @@ app.use(
 // connect database
 connectDB();
 
+// start background jobs
+startJobs();
+
 // Modified server startup
 await new Promise<void>((resolve) =>
   httpServer.listen({ port: PORT }, resolve)
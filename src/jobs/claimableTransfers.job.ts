@@ -0,0 +1,25 @@
+// ./src/jobs/claimableTransfers.job.ts
+
+import { ClaimableTransferService } from "../services/claimableTransfer.services.js";
+import type { Job } from "./index.js";
+
+const claimableTransferService = new ClaimableTransferService(
+  process.env.PAY100_PUBLIC_KEY || "",
+  process.env.PAY100_SECRET_KEY || ""
+);
+
+/**
+ * Returns transfers to emails without an account to their senders once the
+ * claim expires, and flags claims whose funding never finished
+ */
+const claimableTransfersJob: Job = {
+  name: "claimableTransfers",
+  intervalMs:
+    Number(process.env.CLAIMABLE_TRANSFER_INTERVAL_MS) || 15 * 60 * 1000,
+  run: async () => {
+    await claimableTransferService.refundExpired();
+    await claimableTransferService.flagStuckFunding();
+  },
+};
+
+export default claimableTransfersJob;
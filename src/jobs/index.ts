@@ -0,0 +1,78 @@
+// ./src/jobs/index.ts
+
+import { config } from "dotenv";
+import claimableTransfersJob from "./claimableTransfers.job.js";
+import ledgerSyncJob from "./ledgerSync.job.js";
+import portfolioSnapshotsJob from "./portfolioSnapshots.job.js";
+import priceAlertsJob from "./priceAlerts.job.js";
+import priceHistoryJob from "./priceHistory.job.js";
+import scheduledTransfersJob from "./scheduledTransfers.job.js";
+import transferApprovalsJob from "./transferApprovals.job.js";
+import transactionExportsJob from "./transactionExports.job.js";
+import webhookDeliveryJob from "./webhookDelivery.job.js";
+
+config();
+
+/**
+ * A background job that runs on an interval inside the API process
+ */
+export interface Job {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+}
+
+const jobs: Job[] = [
+  ledgerSyncJob,
+  webhookDeliveryJob,
+  scheduledTransfersJob,
+  transferApprovalsJob,
+  transactionExportsJob,
+  portfolioSnapshotsJob,
+  priceHistoryJob,
+  priceAlertsJob,
+  claimableTransfersJob,
+];
+
+const timers: NodeJS.Timeout[] = [];
+
+/**
+ * Runs a job, skipping the tick if its previous run hasn't finished yet
+ */
+const scheduleJob = (job: Job) => {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await job.run();
+    } catch (error) {
+      console.error(`Job ${job.name} failed:`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  timers.push(setInterval(tick, job.intervalMs));
+  console.log(`⏱️ Job ${job.name} scheduled every ${job.intervalMs}ms`);
+};
+
+/**
+ * Starts all background jobs unless disabled with JOBS_ENABLED=false
+ */
+export const startJobs = () => {
+  if (process.env.JOBS_ENABLED === "false") {
+    console.log("Background jobs are disabled");
+    return;
+  }
+
+  jobs.forEach(scheduleJob);
+};
+
+/**
+ * Stops all background jobs
+ */
+export const stopJobs = () => {
+  timers.splice(0).forEach((timer) => clearInterval(timer));
+};
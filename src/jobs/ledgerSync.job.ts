@@ -0,0 +1,20 @@
+// ./src/jobs/ledgerSync.job.ts
+
+import { LedgerService } from "../services/ledger.services.js";
+import type { Job } from "./index.js";
+
+const ledgerService = new LedgerService(
+  process.env.PAY100_PUBLIC_KEY || "",
+  process.env.PAY100_SECRET_KEY || ""
+);
+
+/**
+ * Pulls new and updated 100Pay transfers into the local ledger
+ */
+const ledgerSyncJob: Job = {
+  name: "ledgerSync",
+  intervalMs: Number(process.env.LEDGER_SYNC_INTERVAL_MS) || 5 * 60 * 1000,
+  run: () => ledgerService.syncAllWallets(),
+};
+
+export default ledgerSyncJob;
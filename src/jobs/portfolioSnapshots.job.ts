@@ -0,0 +1,22 @@
+// ./src/jobs/portfolioSnapshots.job.ts
+
+import { PortfolioService } from "../services/portfolio.services.js";
+import type { Job } from "./index.js";
+
+const portfolioService = new PortfolioService();
+
+const intervalMs =
+  Number(process.env.PORTFOLIO_SNAPSHOT_INTERVAL_MS) || 60 * 60 * 1000;
+
+/**
+ * Snapshots every user's wallet balances and their USD value
+ */
+const portfolioSnapshotsJob: Job = {
+  name: "portfolioSnapshots",
+  intervalMs,
+  run: async () => {
+    await portfolioService.snapshotAll(intervalMs);
+  },
+};
+
+export default portfolioSnapshotsJob;
@@ -0,0 +1,19 @@
+// ./src/jobs/priceAlerts.job.ts
+
+import { PriceAlertService } from "../services/priceAlert.services.js";
+import type { Job } from "./index.js";
+
+const priceAlertService = new PriceAlertService();
+
+/**
+ * Checks price alerts against current prices and tells users when they fire
+ */
+const priceAlertsJob: Job = {
+  name: "priceAlerts",
+  intervalMs: Number(process.env.PRICE_ALERT_INTERVAL_MS) || 60 * 1000,
+  run: async () => {
+    await priceAlertService.evaluateAlerts();
+  },
+};
+
+export default priceAlertsJob;
@@ -0,0 +1,22 @@
+// ./src/jobs/priceHistory.job.ts
+
+import {
+  PRICE_HISTORY_INTERVAL_MS,
+  PriceHistoryService,
+} from "../services/priceHistory.services.js";
+import type { Job } from "./index.js";
+
+const priceHistoryService = new PriceHistoryService();
+
+/**
+ * Stores current crypto and fiat prices in the price history
+ */
+const priceHistoryJob: Job = {
+  name: "priceHistory",
+  intervalMs: PRICE_HISTORY_INTERVAL_MS,
+  run: async () => {
+    await priceHistoryService.recordPrices();
+  },
+};
+
+export default priceHistoryJob;
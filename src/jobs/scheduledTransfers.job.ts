@@ -0,0 +1,22 @@
+// ./src/jobs/scheduledTransfers.job.ts
+
+import { ScheduledTransferService } from "../services/scheduledTransfer.services.js";
+import type { Job } from "./index.js";
+
+const scheduledTransferService = new ScheduledTransferService(
+  process.env.PAY100_PUBLIC_KEY || "",
+  process.env.PAY100_SECRET_KEY || ""
+);
+
+/**
+ * Sends scheduled and recurring transfers that are due
+ */
+const scheduledTransfersJob: Job = {
+  name: "scheduledTransfers",
+  intervalMs: Number(process.env.SCHEDULED_TRANSFER_INTERVAL_MS) || 60 * 1000,
+  run: async () => {
+    await scheduledTransferService.runDueSchedules();
+  },
+};
+
+export default scheduledTransfersJob;
@@ -0,0 +1,25 @@
+// ./src/jobs/transactionExports.job.ts
+
+import { TransactionExportService } from "../services/transactionExport.services.js";
+import type { Job } from "./index.js";
+
+const transactionExportService = new TransactionExportService(
+  process.env.PAY100_PUBLIC_KEY || "",
+  process.env.PAY100_SECRET_KEY || ""
+);
+
+/**
+ * Builds large transaction exports, fails builds that never finished and
+ * removes files whose links expired
+ */
+const transactionExportsJob: Job = {
+  name: "transactionExports",
+  intervalMs: Number(process.env.EXPORT_INTERVAL_MS) || 60 * 1000,
+  run: async () => {
+    await transactionExportService.processPendingExports();
+    await transactionExportService.failStuckExports();
+    await transactionExportService.expireOldExports();
+  },
+};
+
+export default transactionExportsJob;
@@ -0,0 +1,23 @@
+// ./src/jobs/transferApprovals.job.ts
+
+import { TransferApprovalService } from "../services/transferApproval.services.js";
+import type { Job } from "./index.js";
+
+const transferApprovalService = new TransferApprovalService(
+  process.env.PAY100_PUBLIC_KEY || "",
+  process.env.PAY100_SECRET_KEY || ""
+);
+
+/**
+ * Expires held transfers that weren't approved before their deadline
+ */
+const transferApprovalsJob: Job = {
+  name: "transferApprovals",
+  intervalMs:
+    Number(process.env.TRANSFER_APPROVAL_INTERVAL_MS) || 5 * 60 * 1000,
+  run: async () => {
+    await transferApprovalService.expireDue();
+  },
+};
+
+export default transferApprovalsJob;
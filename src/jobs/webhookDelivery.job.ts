@@ -0,0 +1,19 @@
+// ./src/jobs/webhookDelivery.job.ts
+
+import { OutgoingWebhookService } from "../services/outgoingWebhook.services.js";
+import type { Job } from "./index.js";
+
+const outgoingWebhookService = new OutgoingWebhookService();
+
+/**
+ * Retries outgoing webhook deliveries whose backoff has elapsed
+ */
+const webhookDeliveryJob: Job = {
+  name: "webhookDelivery",
+  intervalMs: Number(process.env.WEBHOOK_DELIVERY_INTERVAL_MS) || 30 * 1000,
+  run: async () => {
+    await outgoingWebhookService.processDueDeliveries();
+  },
+};
+
+export default webhookDeliveryJob;
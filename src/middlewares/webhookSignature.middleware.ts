@@ -0,0 +1,34 @@
+import { Request, Response, NextFunction } from "express";
+import { verifyWebhookSignature } from "../utils/webhookSignature.js";
+
+const SIGNATURE_HEADERS = ["x-100pay-signature", "x-webhook-signature"];
+
+/**
+ * Rejects webhook requests whose raw body isn't signed with WEBHOOK_SECRET.
+ * Must run after express.raw() so req.body is the unparsed Buffer.
+ */
+export const verifyWebhook = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const secret = process.env.WEBHOOK_SECRET;
+  if (!secret) {
+    console.log("🚨🚨🚨🚨🚨 ~ WEBHOOK_SECRET is not set");
+    return res.status(500).json({ error: "Webhook secret is not configured" });
+  }
+
+  const header = SIGNATURE_HEADERS.map((name) => req.headers[name]).find(
+    Boolean
+  ) as string | undefined;
+
+  if (!Buffer.isBuffer(req.body)) {
+    return res.status(400).json({ error: "Webhook body is required" });
+  }
+
+  if (!verifyWebhookSignature(req.body, header, secret)) {
+    return res.status(401).json({ error: "Invalid webhook signature" });
+  }
+
+  next();
+};
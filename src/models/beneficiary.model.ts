@@ -0,0 +1,61 @@
+// ./src/models/beneficiary.model.ts
+
+import { model, Schema } from "mongoose";
+import { BeneficiaryDocument, BeneficiaryModel } from "../types/beneficiary.js";
+
+const beneficiarySchema = new Schema<BeneficiaryDocument, BeneficiaryModel>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    label: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    type: {
+      type: String,
+      enum: ["internal", "external"],
+      required: true,
+    },
+    recipientUser: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    address: String,
+    symbol: {
+      type: String,
+      required: true,
+    },
+    network: {
+      type: String,
+      required: true,
+    },
+    favourite: {
+      type: Boolean,
+      default: false,
+    },
+    status: {
+      type: String,
+      enum: ["pending", "active"],
+      default: "pending",
+    },
+    confirmedAt: Date,
+    coolingOffUntil: Date,
+    lastUsedAt: Date,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+beneficiarySchema.index({ user: 1, favourite: -1, label: 1 });
+
+const Beneficiary = model<BeneficiaryDocument, BeneficiaryModel>(
+  "Beneficiary",
+  beneficiarySchema
+);
+
+export default Beneficiary;
@@ -0,0 +1,88 @@
+// ./src/models/claimableTransfer.model.ts
+
+import { model, Schema } from "mongoose";
+import {
+  ClaimableTransferDocument,
+  ClaimableTransferModel,
+} from "../types/claimableTransfer.js";
+
+const claimableTransferSchema = new Schema<
+  ClaimableTransferDocument,
+  ClaimableTransferModel
+>(
+  {
+    sender: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    email: {
+      type: String,
+      required: true,
+      trim: true,
+      lowercase: true,
+    },
+    amount: {
+      type: Schema.Types.Decimal128,
+      required: true,
+    },
+    symbol: {
+      type: String,
+      required: true,
+    },
+    network: {
+      type: String,
+      required: true,
+    },
+    description: String,
+    status: {
+      type: String,
+      enum: [
+        "funding",
+        "pending",
+        "claimed",
+        "refunded",
+        "reconciling",
+        "failed",
+      ],
+      default: "funding",
+    },
+    claimToken: {
+      type: String,
+      required: true,
+      select: false,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    fundingTransactionId: String,
+    transactionId: String,
+    claimedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    claimedAt: Date,
+    refundedAt: Date,
+    error: String,
+    reconcileStep: {
+      type: String,
+      enum: ["funding", "payout", "refund"],
+    },
+    lockedUntil: Date,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+claimableTransferSchema.index({ email: 1, status: 1 });
+claimableTransferSchema.index({ status: 1, expiresAt: 1 });
+claimableTransferSchema.index({ sender: 1, createdAt: -1 });
+
+const ClaimableTransfer = model<
+  ClaimableTransferDocument,
+  ClaimableTransferModel
+>("ClaimableTransfer", claimableTransferSchema);
+
+export default ClaimableTransfer;
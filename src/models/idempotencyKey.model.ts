@@ -0,0 +1,57 @@
+// ./src/models/idempotencyKey.model.ts
+
+import { model, Schema } from "mongoose";
+import {
+  IdempotencyKeyDocument,
+  IdempotencyKeyModel,
+} from "../types/idempotency.js";
+
+const idempotencyKeySchema = new Schema<
+  IdempotencyKeyDocument,
+  IdempotencyKeyModel
+>(
+  {
+    key: {
+      type: String,
+      required: true,
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    operation: {
+      type: String,
+      required: true,
+    },
+    fingerprint: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["processing", "completed", "failed"],
+      default: "processing",
+    },
+    response: Schema.Types.Mixed,
+    error: String,
+    completedAt: Date,
+    expiresAt: {
+      type: Date,
+      required: true,
+      expires: 0, // removed by MongoDB once expiresAt passes
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+idempotencyKeySchema.index({ user: 1, operation: 1, key: 1 }, { unique: true });
+
+const IdempotencyKey = model<IdempotencyKeyDocument, IdempotencyKeyModel>(
+  "IdempotencyKey",
+  idempotencyKeySchema
+);
+
+export default IdempotencyKey;
@@ -0,0 +1,57 @@
+// ./src/models/ledgerBalance.model.ts
+
+import { model, Schema } from "mongoose";
+import {
+  LedgerBalanceDocument,
+  LedgerBalanceModel,
+} from "../types/ledger.js";
+
+const ledgerBalanceSchema = new Schema<
+  LedgerBalanceDocument,
+  LedgerBalanceModel
+>(
+  {
+    accountId: {
+      type: String,
+      required: true,
+    },
+    wallet: {
+      type: Schema.Types.ObjectId,
+      ref: "UserWallet",
+    },
+    symbol: {
+      type: String,
+      required: true,
+    },
+    totalBalance: {
+      type: Schema.Types.Decimal128,
+      default: 0,
+    },
+    availableBalance: {
+      type: Schema.Types.Decimal128,
+      default: 0,
+    },
+    pendingCredits: {
+      type: Schema.Types.Decimal128,
+      default: 0,
+    },
+    pendingDebits: {
+      type: Schema.Types.Decimal128,
+      default: 0,
+    },
+    lastSyncedAt: Date,
+    lastTransactionAt: Date,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+ledgerBalanceSchema.index({ accountId: 1, symbol: 1 }, { unique: true });
+
+const LedgerBalance = model<LedgerBalanceDocument, LedgerBalanceModel>(
+  "LedgerBalance",
+  ledgerBalanceSchema
+);
+
+export default LedgerBalance;
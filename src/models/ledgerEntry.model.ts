@@ -0,0 +1,86 @@
+// ./src/models/ledgerEntry.model.ts
+
+import { model, Schema } from "mongoose";
+import { LedgerEntryDocument, LedgerEntryModel } from "../types/ledger.js";
+
+const ledgerPostingSchema = new Schema(
+  {
+    accountId: {
+      type: String,
+      required: true,
+    },
+    wallet: {
+      type: Schema.Types.ObjectId,
+      ref: "UserWallet",
+    },
+    symbol: String,
+    direction: {
+      type: String,
+      enum: ["credit", "debit"],
+      required: true,
+    },
+    amount: {
+      type: Schema.Types.Decimal128,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["successful", "pending", "failed"],
+      required: true,
+    },
+    postedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    applied: Boolean,
+  },
+  { _id: false }
+);
+
+const ledgerEntrySchema = new Schema<LedgerEntryDocument, LedgerEntryModel>(
+  {
+    transactionId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    symbol: {
+      type: String,
+      required: true,
+    },
+    description: String,
+    from: String,
+    to: String,
+    fee: Number,
+    source: {
+      type: String,
+      enum: ["transfer", "sync"],
+      default: "sync",
+    },
+    postings: [ledgerPostingSchema],
+    fiatValue: {
+      currency: String,
+      amount: Number,
+      rate: Number,
+      capturedAt: Date,
+    },
+    approval: {
+      type: Schema.Types.ObjectId,
+      ref: "TransferApproval",
+    },
+    occurredAt: Date,
+  },
+  {
+    timestamps: true,
+    optimisticConcurrency: true,
+  }
+);
+
+ledgerEntrySchema.index({ "postings.accountId": 1, symbol: 1 });
+
+const LedgerEntry = model<LedgerEntryDocument, LedgerEntryModel>(
+  "LedgerEntry",
+  ledgerEntrySchema
+);
+
+export default LedgerEntry;
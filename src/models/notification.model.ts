@@ -0,0 +1,44 @@
+// ./src/models/notification.model.ts
+
+import { model, Schema } from "mongoose";
+import {
+  NotificationDocument,
+  NotificationModel,
+} from "../types/notification.js";
+
+const notificationSchema = new Schema<NotificationDocument, NotificationModel>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: ["price_alert"],
+      required: true,
+    },
+    title: {
+      type: String,
+      required: true,
+    },
+    body: {
+      type: String,
+      required: true,
+    },
+    data: Schema.Types.Mixed,
+    readAt: Date,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+notificationSchema.index({ user: 1, readAt: 1, createdAt: -1 });
+
+const Notification = model<NotificationDocument, NotificationModel>(
+  "Notification",
+  notificationSchema
+);
+
+export default Notification;
@@ -11,6 +11,19 @@ const OTPSchema = new Schema(
       type: String,
       required: true,
     },
+    purpose: {
+      type: String,
+      enum: ["email_verification", "pin_reset", "beneficiary"],
+      default: "email_verification",
+    },
+    // What the OTP confirms, e.g. the beneficiary being added
+    reference: String,
+    // Wrong codes entered since the OTP was issued
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    expiresAt: Date,
     createdAt: {
       type: Date,
       expires: 600, // expires in 10 minutes
@@ -23,7 +36,10 @@ const OTPSchema = new Schema(
 
 OTPSchema.pre("save", async function (next) {
   if (this.isNew) {
-    const existingOTP = await this.model("OTP").findOne({ email: this.email });
+    const existingOTP = await this.model("OTP").findOne({
+      email: this.email,
+      purpose: this.purpose,
+    });
     if (existingOTP) {
       await existingOTP.deleteOne();
     }
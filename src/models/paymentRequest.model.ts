@@ -0,0 +1,75 @@
+// ./src/models/paymentRequest.model.ts
+
+import { model, Schema } from "mongoose";
+import {
+  PaymentRequestDocument,
+  PaymentRequestModel,
+} from "../types/paymentRequest.js";
+
+const paymentRequestSchema = new Schema<
+  PaymentRequestDocument,
+  PaymentRequestModel
+>(
+  {
+    reference: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    requester: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    wallet: {
+      type: Schema.Types.ObjectId,
+      ref: "UserWallet",
+      required: true,
+    },
+    address: {
+      type: String,
+      required: true,
+    },
+    symbol: {
+      type: String,
+      required: true,
+    },
+    network: {
+      type: String,
+      required: true,
+    },
+    amount: {
+      type: Schema.Types.Decimal128,
+      required: true,
+    },
+    memo: String,
+    status: {
+      type: String,
+      enum: ["open", "paid", "reconciling", "expired", "cancelled"],
+      default: "open",
+    },
+    expiresAt: Date,
+    paidBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    paidAt: Date,
+    transactionId: String,
+    cancelledAt: Date,
+    error: String,
+    lockedUntil: Date,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+paymentRequestSchema.index({ requester: 1, createdAt: -1 });
+paymentRequestSchema.index({ status: 1, expiresAt: 1 });
+
+const PaymentRequest = model<PaymentRequestDocument, PaymentRequestModel>(
+  "PaymentRequest",
+  paymentRequestSchema
+);
+
+export default PaymentRequest;
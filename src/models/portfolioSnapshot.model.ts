@@ -0,0 +1,73 @@
+// ./src/models/portfolioSnapshot.model.ts
+
+import { model, Schema } from "mongoose";
+import {
+  PortfolioSnapshotDocument,
+  PortfolioSnapshotModel,
+} from "../types/portfolioSnapshot.js";
+
+const portfolioSnapshotAssetSchema = new Schema(
+  {
+    wallet: {
+      type: Schema.Types.ObjectId,
+      ref: "UserWallet",
+    },
+    symbol: {
+      type: String,
+      required: true,
+    },
+    network: String,
+    balance: {
+      type: Number,
+      default: 0,
+    },
+    priceUsd: {
+      type: Number,
+      default: 0,
+    },
+    valueUsd: {
+      type: Number,
+      default: 0,
+    },
+  },
+  { _id: false }
+);
+
+const portfolioSnapshotSchema = new Schema<
+  PortfolioSnapshotDocument,
+  PortfolioSnapshotModel
+>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    takenAt: {
+      type: Date,
+      required: true,
+    },
+    totalUsd: {
+      type: Number,
+      default: 0,
+    },
+    assets: [portfolioSnapshotAssetSchema],
+    expiresAt: {
+      type: Date,
+      required: true,
+      expires: 0, // removed by MongoDB once expiresAt passes
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+portfolioSnapshotSchema.index({ user: 1, takenAt: 1 }, { unique: true });
+
+const PortfolioSnapshot = model<
+  PortfolioSnapshotDocument,
+  PortfolioSnapshotModel
+>("PortfolioSnapshot", portfolioSnapshotSchema);
+
+export default PortfolioSnapshot;
@@ -0,0 +1,77 @@
+// ./src/models/priceAlert.model.ts
+
+import { model, Schema } from "mongoose";
+import { PriceAlertDocument, PriceAlertModel } from "../types/priceAlert.js";
+
+const priceAlertSchema = new Schema<PriceAlertDocument, PriceAlertModel>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    symbol: {
+      type: String,
+      required: true,
+      uppercase: true,
+    },
+    currency: {
+      type: String,
+      default: "USD",
+      uppercase: true,
+    },
+    condition: {
+      type: String,
+      enum: ["above", "below", "percent_change"],
+      required: true,
+    },
+    targetPrice: Number,
+    percentChange: Number,
+    channels: {
+      type: [String],
+      enum: ["email", "in_app"],
+      default: ["email", "in_app"],
+    },
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+    recurring: {
+      type: Boolean,
+      default: true,
+    },
+    cooldownMinutes: {
+      type: Number,
+      required: true,
+    },
+    armed: {
+      type: Boolean,
+      default: true,
+    },
+    note: {
+      type: String,
+      trim: true,
+    },
+    lastPrice: Number,
+    lastCheckedAt: Date,
+    lastTriggeredAt: Date,
+    lastTriggeredPrice: Number,
+    triggerCount: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+priceAlertSchema.index({ user: 1, createdAt: -1 });
+priceAlertSchema.index({ enabled: 1, symbol: 1 });
+
+const PriceAlert = model<PriceAlertDocument, PriceAlertModel>(
+  "PriceAlert",
+  priceAlertSchema
+);
+
+export default PriceAlert;
@@ -0,0 +1,47 @@
+// ./src/models/priceHistory.model.ts
+
+import { model, Schema } from "mongoose";
+import {
+  PriceHistoryDocument,
+  PriceHistoryModel,
+} from "../types/priceHistory.js";
+
+const priceHistorySchema = new Schema<PriceHistoryDocument, PriceHistoryModel>(
+  {
+    symbol: {
+      type: String,
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: ["crypto", "fiat"],
+      required: true,
+    },
+    usdRate: {
+      type: Number,
+      required: true,
+    },
+    recordedAt: {
+      type: Date,
+      required: true,
+    },
+    provider: String,
+    expiresAt: {
+      type: Date,
+      expires: 0, // removed by MongoDB once expiresAt passes
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+priceHistorySchema.index({ symbol: 1, recordedAt: -1 }, { unique: true });
+priceHistorySchema.index({ recordedAt: -1 });
+
+const PriceHistory = model<PriceHistoryDocument, PriceHistoryModel>(
+  "PriceHistory",
+  priceHistorySchema
+);
+
+export default PriceHistory;
@@ -0,0 +1,90 @@
+// ./src/models/scheduledTransfer.model.ts
+
+import { model, Schema } from "mongoose";
+import {
+  ScheduledTransferDocument,
+  ScheduledTransferModel,
+} from "../types/scheduledTransfer.js";
+
+const scheduledTransferSchema = new Schema<
+  ScheduledTransferDocument,
+  ScheduledTransferModel
+>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    toUserId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    toAddress: String,
+    amount: {
+      type: Schema.Types.Decimal128,
+      required: true,
+    },
+    symbol: {
+      type: String,
+      required: true,
+    },
+    network: {
+      type: String,
+      required: true,
+    },
+    description: String,
+    frequency: {
+      type: String,
+      enum: ["once", "daily", "weekly", "monthly"],
+      default: "once",
+    },
+    startAt: {
+      type: Date,
+      required: true,
+    },
+    nextRunAt: Date,
+    endAt: Date,
+    maxOccurrences: Number,
+    occurrences: {
+      type: Number,
+      default: 0,
+    },
+    consecutiveFailures: {
+      type: Number,
+      default: 0,
+    },
+    status: {
+      type: String,
+      enum: ["active", "paused", "completed", "cancelled", "failed"],
+      default: "active",
+    },
+    runs: [
+      {
+        _id: false,
+        runAt: Date,
+        status: {
+          type: String,
+          enum: ["succeeded", "failed"],
+        },
+        transactionId: String,
+        error: String,
+      },
+    ],
+    lastRunAt: Date,
+    lockedUntil: Date,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+scheduledTransferSchema.index({ status: 1, nextRunAt: 1 });
+scheduledTransferSchema.index({ user: 1, createdAt: -1 });
+
+const ScheduledTransfer = model<
+  ScheduledTransferDocument,
+  ScheduledTransferModel
+>("ScheduledTransfer", scheduledTransferSchema);
+
+export default ScheduledTransfer;
@@ -0,0 +1,64 @@
+// ./src/models/spendingLimit.model.ts
+
+import { model, Schema } from "mongoose";
+import {
+  SpendingLimitDocument,
+  SpendingLimitModel,
+} from "../types/spendingLimit.js";
+
+const spendingLimitSchema = new Schema<
+  SpendingLimitDocument,
+  SpendingLimitModel
+>(
+  {
+    scope: {
+      type: String,
+      enum: ["global", "role", "user"],
+      required: true,
+    },
+    role: {
+      type: Schema.Types.ObjectId,
+      ref: "Role",
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    symbol: String,
+    perTransactionUsd: {
+      type: Number,
+      min: 0,
+    },
+    dailyUsd: {
+      type: Number,
+      min: 0,
+    },
+    weeklyUsd: {
+      type: Number,
+      min: 0,
+    },
+    approvalThresholdUsd: {
+      type: Number,
+      min: 0,
+    },
+    updatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+spendingLimitSchema.index(
+  { scope: 1, role: 1, user: 1, symbol: 1 },
+  { unique: true }
+);
+
+const SpendingLimit = model<SpendingLimitDocument, SpendingLimitModel>(
+  "SpendingLimit",
+  spendingLimitSchema
+);
+
+export default SpendingLimit;
@@ -0,0 +1,56 @@
+// ./src/models/spendingUsage.model.ts
+
+import { model, Schema } from "mongoose";
+import {
+  SpendingUsageDocument,
+  SpendingUsageModel,
+} from "../types/spendingLimit.js";
+
+const spendingUsageSchema = new Schema<
+  SpendingUsageDocument,
+  SpendingUsageModel
+>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    symbol: {
+      type: String,
+      required: true,
+    },
+    network: String,
+    amount: {
+      type: Number,
+      required: true,
+    },
+    usdAmount: {
+      type: Number,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["reserved", "committed"],
+      default: "reserved",
+    },
+    transactionId: String,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+spendingUsageSchema.index({ user: 1, createdAt: -1 });
+// Usage only matters for the longest rolling window
+spendingUsageSchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: 8 * 24 * 60 * 60 }
+);
+
+const SpendingUsage = model<SpendingUsageDocument, SpendingUsageModel>(
+  "SpendingUsage",
+  spendingUsageSchema
+);
+
+export default SpendingUsage;
@@ -0,0 +1,67 @@
+// ./src/models/swap.model.ts
+
+import { model, Schema } from "mongoose";
+import { SwapDocument, SwapModel } from "../types/swap.js";
+
+const swapSchema = new Schema<SwapDocument, SwapModel>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    fromWallet: {
+      type: Schema.Types.ObjectId,
+      ref: "UserWallet",
+      required: true,
+    },
+    toWallet: {
+      type: Schema.Types.ObjectId,
+      ref: "UserWallet",
+      required: true,
+    },
+    fromSymbol: {
+      type: String,
+      required: true,
+    },
+    toSymbol: {
+      type: String,
+      required: true,
+    },
+    fromAmount: {
+      type: Schema.Types.Decimal128,
+      required: true,
+    },
+    toAmount: Schema.Types.Decimal128,
+    rate: Schema.Types.Decimal128,
+    fee: {
+      type: Schema.Types.Decimal128,
+      default: 0,
+    },
+    quotedToAmount: Schema.Types.Decimal128,
+    quotedRate: Schema.Types.Decimal128,
+    status: {
+      type: String,
+      enum: ["quoted", "processing", "completed", "failed", "expired"],
+      default: "quoted",
+    },
+    quoteExpiresAt: {
+      type: Date,
+      required: true,
+    },
+    preview: Schema.Types.Mixed,
+    result: Schema.Types.Mixed,
+    transactionId: String,
+    failureReason: String,
+    completedAt: Date,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+swapSchema.index({ user: 1, createdAt: -1 });
+
+const Swap = model<SwapDocument, SwapModel>("Swap", swapSchema);
+
+export default Swap;
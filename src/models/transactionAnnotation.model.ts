@@ -0,0 +1,54 @@
+// ./src/models/transactionAnnotation.model.ts
+
+import { model, Schema } from "mongoose";
+import {
+  TRANSACTION_CATEGORIES,
+  TransactionAnnotationDocument,
+  TransactionAnnotationModel,
+} from "../types/transactionAnnotation.js";
+
+const transactionAnnotationSchema = new Schema<
+  TransactionAnnotationDocument,
+  TransactionAnnotationModel
+>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    transactionId: {
+      type: String,
+      required: true,
+    },
+    note: {
+      type: String,
+      trim: true,
+    },
+    tags: {
+      type: [String],
+      default: [],
+    },
+    category: {
+      type: String,
+      enum: TRANSACTION_CATEGORIES,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+transactionAnnotationSchema.index(
+  { user: 1, transactionId: 1 },
+  { unique: true }
+);
+transactionAnnotationSchema.index({ user: 1, tags: 1 });
+transactionAnnotationSchema.index({ user: 1, category: 1 });
+
+const TransactionAnnotation = model<
+  TransactionAnnotationDocument,
+  TransactionAnnotationModel
+>("TransactionAnnotation", transactionAnnotationSchema);
+
+export default TransactionAnnotation;
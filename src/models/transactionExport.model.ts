@@ -0,0 +1,77 @@
+// ./src/models/transactionExport.model.ts
+
+import { model, Schema } from "mongoose";
+import {
+  TransactionExportDocument,
+  TransactionExportModel,
+} from "../types/transactionExport.js";
+
+const transactionExportSchema = new Schema<
+  TransactionExportDocument,
+  TransactionExportModel
+>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    format: {
+      type: String,
+      enum: ["csv", "jsonl", "pdf"],
+      required: true,
+    },
+    from: {
+      type: Date,
+      required: true,
+    },
+    to: {
+      type: Date,
+      required: true,
+    },
+    symbols: {
+      type: [String],
+      default: [],
+    },
+    status: {
+      type: String,
+      enum: ["pending", "processing", "completed", "failed", "expired"],
+      default: "pending",
+    },
+    background: {
+      type: Boolean,
+      default: false,
+    },
+    rowCount: Number,
+    fileId: Schema.Types.ObjectId,
+    fileName: String,
+    contentType: String,
+    size: Number,
+    downloadToken: {
+      type: String,
+      required: true,
+      select: false,
+    },
+    expiresAt: Date,
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    error: String,
+    lockedUntil: Date,
+    completedAt: Date,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+transactionExportSchema.index({ user: 1, createdAt: -1 });
+transactionExportSchema.index({ status: 1, createdAt: 1 });
+
+const TransactionExport = model<
+  TransactionExportDocument,
+  TransactionExportModel
+>("TransactionExport", transactionExportSchema);
+
+export default TransactionExport;
@@ -0,0 +1,105 @@
+// ./src/models/transferApproval.model.ts
+
+import { model, Schema } from "mongoose";
+import {
+  TransferApprovalDocument,
+  TransferApprovalModel,
+} from "../types/transferApproval.js";
+
+const decisionSchema = new Schema(
+  {
+    admin: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    decision: {
+      type: String,
+      enum: ["approved", "rejected"],
+      required: true,
+    },
+    comment: String,
+    decidedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+const transferApprovalSchema = new Schema<
+  TransferApprovalDocument,
+  TransferApprovalModel
+>(
+  {
+    requester: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    toUserId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    toAddress: String,
+    amount: {
+      type: Schema.Types.Decimal128,
+      required: true,
+    },
+    symbol: {
+      type: String,
+      required: true,
+    },
+    network: {
+      type: String,
+      required: true,
+    },
+    description: String,
+    usdAmount: Number,
+    thresholdUsd: {
+      type: Number,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: [
+        "pending",
+        "approved",
+        "rejected",
+        "expired",
+        "cancelled",
+        "executed",
+        "failed",
+      ],
+      default: "pending",
+    },
+    requiredApprovals: {
+      type: Number,
+      default: 1,
+    },
+    decisions: {
+      type: [decisionSchema],
+      default: [],
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    transactionId: String,
+    executedAt: Date,
+    error: String,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+transferApprovalSchema.index({ status: 1, expiresAt: 1 });
+transferApprovalSchema.index({ requester: 1, createdAt: -1 });
+
+const TransferApproval = model<TransferApprovalDocument, TransferApprovalModel>(
+  "TransferApproval",
+  transferApprovalSchema
+);
+
+export default TransferApproval;
@@ -20,6 +20,7 @@ const registerUserSchema = object({
   email: string().email().required(),
   password: string().min(6).required(),
   phone: string().min(10).optional(),
+  payTag: string().trim().optional(),
 });
 
 const loginUserSchema = object({
@@ -49,6 +50,11 @@ const userSchema = new mongoose.Schema<UserDocument, UserModel>(
       type: String,
       required: true,
     },
+    payTag: {
+      type: String,
+      trim: true,
+      lowercase: true,
+    },
     phone: String,
     phoneVerified: {
       type: Boolean,
@@ -76,12 +82,56 @@ const userSchema = new mongoose.Schema<UserDocument, UserModel>(
         default: [],
       },
     ],
+    transactionPin: {
+      type: String,
+      select: false,
+    },
+    transactionPinAttempts: {
+      type: Number,
+      default: 0,
+    },
+    transactionPinLockedUntil: Date,
+    transactionPinUpdatedAt: Date,
+    twoFactorEnabled: {
+      type: Boolean,
+      default: false,
+    },
+    twoFactorSecret: {
+      type: String,
+      select: false,
+    },
+    twoFactorPendingSecret: {
+      type: String,
+      select: false,
+    },
+    twoFactorRecoveryCodes: {
+      type: [String],
+      select: false,
+    },
+    twoFactorLastUsedStep: Number,
+    twoFactorEnabledAt: Date,
+    twoFactorAttempts: {
+      type: Number,
+      default: 0,
+    },
+    twoFactorLockedUntil: Date,
+    recipientLookups: {
+      type: Number,
+      default: 0,
+    },
+    recipientLookupWindowStart: Date,
   },
   {
     timestamps: true,
   }
 );
 
+// Only users who chose a payTag are indexed
+userSchema.index(
+  { payTag: 1 },
+  { unique: true, partialFilterExpression: { payTag: { $type: "string" } } }
+);
+
 userSchema.statics.registerUser = async function (data: RegisterUserInput) {
   try {
     // validate user input
@@ -0,0 +1,75 @@
+// ./src/models/webhookDelivery.model.ts
+
+import { model, Schema } from "mongoose";
+import {
+  WEBHOOK_EVENT_TYPES,
+  WebhookDeliveryDocument,
+  WebhookDeliveryModel,
+} from "../types/webhookEndpoint.js";
+
+const webhookDeliverySchema = new Schema<
+  WebhookDeliveryDocument,
+  WebhookDeliveryModel
+>(
+  {
+    endpoint: {
+      type: Schema.Types.ObjectId,
+      ref: "WebhookEndpoint",
+      required: true,
+    },
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    eventId: {
+      type: String,
+      required: true,
+    },
+    event: {
+      type: String,
+      enum: WEBHOOK_EVENT_TYPES,
+      required: true,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["pending", "succeeded", "failed"],
+      default: "pending",
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    attemptLog: [
+      {
+        _id: false,
+        attemptedAt: Date,
+        responseStatus: Number,
+        error: String,
+        durationMs: Number,
+      },
+    ],
+    nextAttemptAt: Date,
+    lastAttemptAt: Date,
+    deliveredAt: Date,
+    lastError: String,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+webhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+webhookDeliverySchema.index({ owner: 1, createdAt: -1 });
+webhookDeliverySchema.index({ endpoint: 1, eventId: 1 }, { unique: true });
+
+const WebhookDelivery = model<WebhookDeliveryDocument, WebhookDeliveryModel>(
+  "WebhookDelivery",
+  webhookDeliverySchema
+);
+
+export default WebhookDelivery;
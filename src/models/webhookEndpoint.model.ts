@@ -0,0 +1,53 @@
+// ./src/models/webhookEndpoint.model.ts
+
+import { model, Schema } from "mongoose";
+import {
+  WEBHOOK_EVENT_TYPES,
+  WebhookEndpointDocument,
+  WebhookEndpointModel,
+} from "../types/webhookEndpoint.js";
+
+const webhookEndpointSchema = new Schema<
+  WebhookEndpointDocument,
+  WebhookEndpointModel
+>(
+  {
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    url: {
+      type: String,
+      required: true,
+    },
+    secret: {
+      type: String,
+      required: true,
+      select: false,
+    },
+    events: {
+      type: [String],
+      enum: WEBHOOK_EVENT_TYPES,
+      default: [],
+    },
+    description: String,
+    active: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+webhookEndpointSchema.index({ owner: 1 });
+webhookEndpointSchema.index({ owner: 1, events: 1, active: 1 });
+
+const WebhookEndpoint = model<WebhookEndpointDocument, WebhookEndpointModel>(
+  "WebhookEndpoint",
+  webhookEndpointSchema
+);
+
+export default WebhookEndpoint;
@@ -0,0 +1,52 @@
+// ./src/models/webhookEvent.model.ts
+
+import { model, Schema } from "mongoose";
+import {
+  WebhookEventDocument,
+  WebhookEventModel,
+} from "../types/webhookEvent.js";
+
+const webhookEventSchema = new Schema<WebhookEventDocument, WebhookEventModel>(
+  {
+    eventId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    provider: {
+      type: String,
+      default: "100pay",
+    },
+    type: {
+      type: String,
+      required: true,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["received", "processed", "ignored", "failed"],
+      default: "received",
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    error: String,
+    processedAt: Date,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+webhookEventSchema.index({ type: 1, status: 1, createdAt: -1 });
+
+const WebhookEvent = model<WebhookEventDocument, WebhookEventModel>(
+  "WebhookEvent",
+  webhookEventSchema
+);
+
+export default WebhookEvent;
@@ -0,0 +1,46 @@
+// ./src/routes/export.routes.ts
+
+import { Request, Response, Router } from "express";
+import { TransactionExportService } from "../services/transactionExport.services.js";
+import { ApiError } from "../services/error.services.js";
+
+const transactionExportService = new TransactionExportService(
+  process.env.PAY100_PUBLIC_KEY || "",
+  process.env.PAY100_SECRET_KEY || ""
+);
+
+const router = Router();
+
+// Download links are emailed, so the token in the link authorizes the download
+router.get("/:id/download", async (req: Request, res: Response) => {
+  try {
+    const { stream, fileName, contentType, size } =
+      await transactionExportService.openDownload(
+        String(req.params.id),
+        String(req.query.token || "")
+      );
+
+    res.setHeader("Content-Type", contentType);
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    res.setHeader("Cache-Control", "private, no-store");
+    if (size !== undefined) res.setHeader("Content-Length", size);
+
+    stream.once("error", (error) => {
+      console.log("🚨🚨🚨🚨🚨 ~ export download error", error);
+      if (!res.headersSent) res.status(500);
+      res.end();
+    });
+    stream.pipe(res);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return res
+        .status(error.statusCode)
+        .json({ error: error.message, code: error.errorCode });
+    }
+
+    console.log("🚨🚨🚨🚨🚨 ~ export download error", error);
+    res.status(500).json({ error: "Failed to download export" });
+  }
+});
+
+export default router;
@@ -0,0 +1,46 @@
+// ./src/routes/webhook.routes.ts
+
+import express, { Request, Response, Router } from "express";
+import { verifyWebhook } from "../middlewares/webhookSignature.middleware.js";
+import { InboundWebhookService } from "../services/inboundWebhook.services.js";
+
+const inboundWebhookService = new InboundWebhookService(
+  process.env.PAY100_PUBLIC_KEY || "",
+  process.env.PAY100_SECRET_KEY || ""
+);
+
+const router = Router();
+
+// 100Pay signs the raw body, so it must not be parsed before verification
+router.post(
+  "/100pay",
+  express.raw({ type: "*/*" }),
+  verifyWebhook,
+  async (req: Request, res: Response) => {
+    let payload: Record<string, any>;
+    try {
+      payload = JSON.parse(req.body.toString("utf8"));
+    } catch (error) {
+      return res.status(400).json({ error: "Invalid JSON body" });
+    }
+
+    try {
+      const { event, duplicate } = await inboundWebhookService.receive(
+        payload,
+        req.body
+      );
+
+      // Failed events are retried when 100Pay delivers them again
+      res.status(event.status === "failed" ? 500 : 200).json({
+        received: true,
+        duplicate,
+        status: event.status,
+      });
+    } catch (error) {
+      console.log("🚨🚨🚨🚨🚨 ~ webhook error", error);
+      res.status(500).json({ error: "Failed to store webhook event" });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,422 @@
+// ./src/services/beneficiary.services.ts
+
+import { Types } from "mongoose";
+import Beneficiary from "../models/beneficiary.model.js";
+import User from "../models/user.model.js";
+import { consumeOTP, initOTPGeneration } from "./otp.services.js";
+import { RatesService } from "./rates.services.js";
+import { assertValidAddress } from "../utils/addressValidation.js";
+import {
+  BadRequestError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from "./error.services.js";
+
+const COOLING_OFF_HOURS =
+  Number(process.env.BENEFICIARY_COOLING_OFF_HOURS) || 24;
+const COOLING_OFF_LIMIT_USD =
+  Number(process.env.BENEFICIARY_COOLING_OFF_LIMIT_USD) || 500;
+
+/**
+ * Service for a user's address book of saved transfer recipients.
+ * External addresses must be confirmed with an OTP, and large transfers to
+ * them are held back for a cooling-off period after confirmation.
+ */
+export class BeneficiaryService {
+  private ratesService?: RatesService;
+
+  /**
+   * Adds a beneficiary. Internal users are active right away, external
+   * addresses need confirmBeneficiary with the OTP sent by email.
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param input - Beneficiary details, with either toUserId or address
+   */
+  async addBeneficiary(
+    userId: string | Types.ObjectId,
+    {
+      label,
+      symbol,
+      network,
+      toUserId,
+      address,
+      favourite = false,
+    }: {
+      label: string;
+      symbol: string;
+      network: string;
+      toUserId?: string;
+      address?: string;
+      favourite?: boolean;
+    }
+  ) {
+    if (!label?.trim()) {
+      throw new ValidationError(
+        "Beneficiary label is required",
+        undefined,
+        "BENEFICIARY_LABEL_REQUIRED"
+      );
+    }
+
+    if (!toUserId === !address) {
+      throw new ValidationError(
+        "Provide either a user or an address",
+        undefined,
+        "BENEFICIARY_RECIPIENT_INVALID"
+      );
+    }
+
+    if (address) assertValidAddress(network, address, symbol);
+
+    const user = await User.findById(userId);
+    if (!user) throw new NotFoundError("User not found");
+
+    if (toUserId) {
+      if (toUserId === userId.toString()) {
+        throw new BadRequestError(
+          "You can't add yourself as a beneficiary",
+          undefined,
+          "BENEFICIARY_SELF"
+        );
+      }
+
+      const recipient = await User.findById(toUserId);
+      if (!recipient) throw new NotFoundError("Recipient not found");
+
+      return Beneficiary.create({
+        user: user._id,
+        label: label.trim(),
+        type: "internal",
+        recipientUser: recipient._id,
+        symbol: symbol.toUpperCase(),
+        network,
+        favourite,
+        status: "active",
+        confirmedAt: new Date(),
+      });
+    }
+
+    const beneficiary = await Beneficiary.create({
+      user: user._id,
+      label: label.trim(),
+      type: "external",
+      address: address.trim(),
+      symbol: symbol.toUpperCase(),
+      network,
+      favourite,
+      status: "pending",
+    });
+
+    const response = await initOTPGeneration(
+      user.email,
+      "beneficiary",
+      beneficiary._id.toString()
+    );
+    if (!response.success) {
+      throw new BadRequestError(response.message);
+    }
+
+    return beneficiary;
+  }
+
+  /**
+   * Confirms an external beneficiary with the OTP sent when it was added,
+   * which starts its cooling-off period. Wrong OTPs count towards locking the
+   * OTP.
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param id - ID of the beneficiary
+   * @param otp - OTP received by email
+   */
+  async confirmBeneficiary(
+    userId: string | Types.ObjectId,
+    id: string,
+    otp: string
+  ) {
+    const beneficiary = await this.getBeneficiary(userId, id);
+    if (beneficiary.status === "active") {
+      throw new BadRequestError(
+        "Beneficiary is already confirmed",
+        undefined,
+        "BENEFICIARY_ALREADY_CONFIRMED"
+      );
+    }
+
+    // The OTP must have been sent for this beneficiary, and wrong codes lock it
+    const user = await User.findById(userId);
+    await consumeOTP(
+      user?.email,
+      otp,
+      "beneficiary",
+      beneficiary._id.toString()
+    );
+
+    const now = new Date();
+    beneficiary.status = "active";
+    beneficiary.confirmedAt = now;
+    beneficiary.coolingOffUntil = new Date(
+      now.getTime() + COOLING_OFF_HOURS * 60 * 60 * 1000
+    );
+    await beneficiary.save();
+
+    return beneficiary;
+  }
+
+  /**
+   * Sends a new OTP to confirm a pending beneficiary
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param id - ID of the beneficiary
+   */
+  async resendConfirmation(userId: string | Types.ObjectId, id: string) {
+    const beneficiary = await this.getBeneficiary(userId, id);
+    if (beneficiary.status === "active") {
+      throw new BadRequestError(
+        "Beneficiary is already confirmed",
+        undefined,
+        "BENEFICIARY_ALREADY_CONFIRMED"
+      );
+    }
+
+    const user = await User.findById(userId);
+    const response = await initOTPGeneration(
+      user.email,
+      "beneficiary",
+      beneficiary._id.toString()
+    );
+    if (!response.success) {
+      throw new BadRequestError(response.message);
+    }
+
+    return true;
+  }
+
+  /**
+   * Updates the label or favourite flag of a beneficiary. Recipients can't
+   * be changed, add a new beneficiary instead.
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param id - ID of the beneficiary
+   */
+  async updateBeneficiary(
+    userId: string | Types.ObjectId,
+    id: string,
+    { label, favourite }: { label?: string; favourite?: boolean }
+  ) {
+    const beneficiary = await this.getBeneficiary(userId, id);
+
+    if (label !== undefined) {
+      if (!label.trim()) {
+        throw new ValidationError(
+          "Beneficiary label is required",
+          undefined,
+          "BENEFICIARY_LABEL_REQUIRED"
+        );
+      }
+      beneficiary.label = label.trim();
+    }
+    if (favourite !== undefined) beneficiary.favourite = favourite;
+
+    return beneficiary.save();
+  }
+
+  /**
+   * Removes a beneficiary
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param id - ID of the beneficiary
+   */
+  async removeBeneficiary(userId: string | Types.ObjectId, id: string) {
+    const beneficiary = await this.getBeneficiary(userId, id);
+    await beneficiary.deleteOne();
+    return true;
+  }
+
+  /**
+   * Gets a user's beneficiaries, favourites first
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param filters - Optional symbol, network and favourite filters
+   */
+  async getBeneficiaries(
+    userId: string | Types.ObjectId,
+    {
+      symbol,
+      network,
+      favourite,
+    }: { symbol?: string; network?: string; favourite?: boolean } = {}
+  ) {
+    return Beneficiary.find({
+      user: new Types.ObjectId(userId),
+      ...(symbol && { symbol: symbol.toUpperCase() }),
+      ...(network && { network }),
+      ...(favourite !== undefined && { favourite }),
+    }).sort({ favourite: -1, label: 1 });
+  }
+
+  /**
+   * Gets a beneficiary of the user
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param id - ID of the beneficiary
+   */
+  async getBeneficiary(userId: string | Types.ObjectId, id: string) {
+    const beneficiary = await Beneficiary.findOne({
+      _id: id,
+      user: new Types.ObjectId(userId),
+    });
+    if (!beneficiary) throw new NotFoundError("Beneficiary not found");
+
+    return beneficiary;
+  }
+
+  /**
+   * Resolves a beneficiary to the recipient of a transfer, enforcing
+   * confirmation and the cooling-off period
+   *
+   * @param userId - MongoDB ObjectId of the sender
+   * @param id - ID of the beneficiary
+   * @param symbol - Symbol being transferred
+   * @param network - Network of the transfer
+   * @param amount - Amount being transferred
+   * @returns Recipient user or address to pass to transferAssets
+   */
+  async resolveForTransfer(
+    userId: string | Types.ObjectId,
+    id: string,
+    {
+      symbol,
+      network,
+      amount,
+    }: { symbol: string; network: string; amount: number }
+  ): Promise<{ toUserId?: string; toAddress?: string }> {
+    const beneficiary = await this.getBeneficiary(userId, id);
+
+    if (beneficiary.status !== "active") {
+      throw new ForbiddenError(
+        "Confirm the beneficiary before sending to it",
+        undefined,
+        "BENEFICIARY_NOT_CONFIRMED"
+      );
+    }
+
+    if (
+      beneficiary.symbol !== symbol.toUpperCase() ||
+      beneficiary.network.toUpperCase() !== network.toUpperCase()
+    ) {
+      throw new BadRequestError(
+        `Beneficiary receives ${beneficiary.symbol} on ${beneficiary.network}`,
+        undefined,
+        "BENEFICIARY_ASSET_MISMATCH"
+      );
+    }
+
+    if (
+      beneficiary.coolingOffUntil &&
+      beneficiary.coolingOffUntil > new Date()
+    ) {
+      await this.assertBelowCoolingOffLimit(
+        beneficiary.coolingOffUntil,
+        symbol,
+        amount
+      );
+    }
+
+    await Beneficiary.updateOne(
+      { _id: beneficiary._id },
+      { $set: { lastUsedAt: new Date() } }
+    );
+
+    return beneficiary.type === "internal"
+      ? { toUserId: beneficiary.recipientUser.toString() }
+      : { toAddress: beneficiary.address };
+  }
+
+  /**
+   * Applies the cooling-off period to a transfer sent straight to an
+   * address, so a new beneficiary can't be paid without its beneficiaryId.
+   * Saved addresses that aren't confirmed yet count as cooling off.
+   *
+   * @param userId - MongoDB ObjectId of the sender
+   * @param toAddress - Address being sent to
+   * @param symbol - Symbol being transferred
+   * @param network - Network of the transfer
+   * @param amount - Amount being transferred
+   * @throws ForbiddenError with BENEFICIARY_COOLING_OFF for a large transfer to a beneficiary still cooling off
+   */
+  async checkAddressTransfer(
+    userId: string | Types.ObjectId,
+    {
+      toAddress,
+      symbol,
+      network,
+      amount,
+    }: { toAddress: string; symbol: string; network: string; amount: number }
+  ) {
+    const now = new Date();
+    const beneficiaries = await Beneficiary.find({
+      user: new Types.ObjectId(userId),
+      type: "external",
+      address: toAddress,
+      network,
+      $or: [{ status: "pending" }, { coolingOffUntil: { $gt: now } }],
+    }).collation({ locale: "en", strength: 2 });
+    if (!beneficiaries.length) return;
+
+    // The latest end of cooling-off among matches, pending ones having none yet
+    const coolingOffUntil = beneficiaries.some(
+      (beneficiary) => beneficiary.status === "pending"
+    )
+      ? undefined
+      : new Date(
+          Math.max(
+            ...beneficiaries.map((beneficiary) =>
+              beneficiary.coolingOffUntil.getTime()
+            )
+          )
+        );
+
+    await this.assertBelowCoolingOffLimit(coolingOffUntil, symbol, amount);
+  }
+
+  /**
+   * Refuses a transfer to a beneficiary in cooling-off above the limit
+   *
+   * @param coolingOffUntil - End of the cooling-off period, unset while the beneficiary is unconfirmed
+   */
+  private async assertBelowCoolingOffLimit(
+    coolingOffUntil: Date | undefined,
+    symbol: string,
+    amount: number
+  ) {
+    if (!(await this.isAboveCoolingOffLimit(symbol, amount))) return;
+
+    throw new ForbiddenError(
+      `Transfers above ${COOLING_OFF_LIMIT_USD} USD to a new beneficiary are allowed after the cooling-off period`,
+      {
+        coolingOffUntil: coolingOffUntil?.toISOString() || null,
+        limitUsd: COOLING_OFF_LIMIT_USD,
+      },
+      "BENEFICIARY_COOLING_OFF"
+    );
+  }
+
+  /**
+   * Values a transfer in USD. If it can't be valued it counts as large.
+   */
+  private async isAboveCoolingOffLimit(symbol: string, amount: number) {
+    try {
+      this.ratesService = this.ratesService || new RatesService();
+      const { convertedAmount } = await this.ratesService.convertCurrency({
+        fromSymbol: symbol,
+        toSymbol: "USD",
+        amount,
+      });
+      return convertedAmount >= COOLING_OFF_LIMIT_USD;
+    } catch (error) {
+      console.error("Failed to value transfer for cooling-off check:", error);
+      return true;
+    }
+  }
+}
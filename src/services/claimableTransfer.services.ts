@@ -0,0 +1,612 @@
+// ./src/services/claimableTransfer.services.ts
+
+import { randomBytes, timingSafeEqual } from "crypto";
+import { Types } from "mongoose";
+import ClaimableTransfer from "../models/claimableTransfer.model.js";
+import User from "../models/user.model.js";
+import {
+  ClaimableTransferDocument,
+  ClaimableTransferReconcileStep,
+  ClaimableTransferStatus,
+} from "../types/claimableTransfer.js";
+import { UserDocument } from "../types/user.js";
+import { TransferService } from "./transfer.services.js";
+import { WalletService } from "./userWallet.services.js";
+import {
+  ApiError,
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+} from "./error.services.js";
+import { EmailService } from "../utils/emails/index.js";
+import { toDecimal128 } from "../utils/money.js";
+import { escapeHtml } from "../utils/format.js";
+
+const APP_NAME = process.env.APP_NAME || "Application";
+const APP_URL = process.env.APP_URL || "http://localhost:3000";
+// Platform user whose wallets hold claimable transfers until they are claimed
+const ESCROW_USER_ID = process.env.ESCROW_USER_ID || "";
+const CLAIM_TTL_HOURS = Number(process.env.CLAIMABLE_TRANSFER_TTL_HOURS) || 168;
+// How long a payout or refund being sent blocks the other
+const CLAIM_LOCK_MS = 5 * 60 * 1000;
+
+const getTransactionId = (result: { data?: { receipt?: any } }) => {
+  const receipt = result?.data?.receipt;
+  return (receipt?.id || receipt?._id)?.toString();
+};
+
+/**
+ * Service for transfers to emails that don't have an account yet. The funds
+ * move into the escrow wallet and a claim link is emailed. The transfer
+ * completes once the owner of the email registers, verifies it and opens the
+ * link, and goes back to the sender if it isn't claimed in time.
+ */
+export class ClaimableTransferService {
+  private transferService: TransferService;
+  private walletService: WalletService;
+
+  /**
+   * Initialize the claimable transfer service with API credentials
+   *
+   * @param publicKey - 100Pay API public key
+   * @param secretKey - 100Pay API secret key
+   * @param baseUrl - Optional API base URL
+   */
+  constructor(publicKey: string, secretKey: string, baseUrl?: string) {
+    this.transferService = new TransferService(publicKey, secretKey, baseUrl);
+    this.walletService = new WalletService(publicKey, secretKey, baseUrl);
+  }
+
+  /**
+   * Sends a transfer to an email without an account. Transfers that would
+   * need admin approval are refused, since nobody can check the recipient.
+   *
+   * @param senderId - MongoDB ObjectId of the sender
+   * @param email - Email of the recipient
+   * @param amount - Amount to send
+   * @param symbol - Symbol to send
+   * @param network - Network of the sender's wallet
+   * @param description - Optional note shown to the recipient
+   * @returns The claimable transfer and the transfer into escrow
+   */
+  async send(
+    senderId: string | Types.ObjectId,
+    {
+      email,
+      amount,
+      symbol,
+      network,
+      description,
+    }: {
+      email: string;
+      amount: number | string;
+      symbol: string;
+      network: string;
+      description?: string;
+    }
+  ) {
+    if (!ESCROW_USER_ID) {
+      throw new BadRequestError(
+        "Transfers to emails without an account are not available",
+        undefined,
+        "CLAIMABLE_TRANSFERS_DISABLED"
+      );
+    }
+
+    const sender = await User.findById(senderId);
+    if (!sender) throw new NotFoundError("User not found");
+
+    // Recorded before the funds move, so escrowed funds always have a claim
+    const claim = await ClaimableTransfer.create({
+      sender: sender._id,
+      email: email.trim().toLowerCase(),
+      amount: toDecimal128(amount),
+      symbol: symbol.toUpperCase(),
+      network,
+      description,
+      status: "funding",
+      claimToken: randomBytes(24).toString("hex"),
+      expiresAt: new Date(Date.now() + CLAIM_TTL_HOURS * 60 * 60 * 1000),
+    });
+
+    let result: Awaited<ReturnType<TransferService["transferAssets"]>>;
+    try {
+      result = await this.transferService.transferAssets({
+        fromUserId: sender._id,
+        toUserId: ESCROW_USER_ID,
+        amount,
+        symbol,
+        network,
+        description: description || `Claimable transfer to ${claim.email}`,
+        onApprovalRequired: "reject",
+      });
+    } catch (error) {
+      // Refused before anything was sent, so nothing is in escrow
+      if (error instanceof ApiError) {
+        await ClaimableTransfer.deleteOne({ _id: claim._id });
+      } else {
+        await this.markReconciling(claim._id, "funding", error);
+      }
+      throw error;
+    }
+
+    const pending = await ClaimableTransfer.findByIdAndUpdate(
+      claim._id,
+      {
+        $set: {
+          status: "pending",
+          fundingTransactionId: getTransactionId(result),
+        },
+      },
+      { new: true }
+    );
+
+    await this.notifyRecipient(pending, claim.claimToken, sender);
+    return { claim: pending, result };
+  }
+
+  /**
+   * Gets a claimable transfer with the token from its claim link, for the
+   * claim page
+   *
+   * @param id - ID of the claimable transfer
+   * @param token - Token from the claim link
+   */
+  async getByToken(id: string, token: string) {
+    const claim = Types.ObjectId.isValid(id)
+      ? await ClaimableTransfer.findById(id).select("+claimToken")
+      : null;
+    if (!claim || claim.status === "funding") {
+      throw new NotFoundError("Claimable transfer not found");
+    }
+
+    const expected = Buffer.from(claim.claimToken);
+    const given = Buffer.from(token || "");
+    if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+      throw new ForbiddenError(
+        "Invalid claim link",
+        undefined,
+        "CLAIM_LINK_INVALID"
+      );
+    }
+
+    return claim;
+  }
+
+  /**
+   * Gets the claimable transfers a user sent, newest first
+   *
+   * @param userId - MongoDB ObjectId of the sender
+   * @param status - Optional status to filter by
+   */
+  async getSentClaims(
+    userId: string | Types.ObjectId,
+    status?: ClaimableTransferStatus
+  ) {
+    return ClaimableTransfer.find({
+      sender: new Types.ObjectId(userId),
+      ...(status ? { status } : { status: { $ne: "funding" } }),
+    })
+      .sort({ createdAt: -1 })
+      .limit(100);
+  }
+
+  /**
+   * Claims a transfer from its link into the user's wallet. The user's
+   * email must be verified and match the email the link was sent to.
+   *
+   * @param userId - MongoDB ObjectId of the recipient
+   * @param id - ID of the claimable transfer
+   * @param token - Token from the claim link
+   * @returns The claimed transfer
+   */
+  async claim(userId: string | Types.ObjectId, id: string, token: string) {
+    const claim = await this.getByToken(id, token);
+
+    const user = await User.findById(userId);
+    if (!user) throw new NotFoundError("User not found");
+
+    if (!user.emailVerified) {
+      throw new ForbiddenError(
+        "Verify your email before claiming transfers",
+        undefined,
+        "CLAIM_EMAIL_NOT_VERIFIED"
+      );
+    }
+
+    if (user.email.trim().toLowerCase() !== claim.email) {
+      throw new ForbiddenError(
+        "This transfer was sent to a different email",
+        undefined,
+        "CLAIM_EMAIL_MISMATCH"
+      );
+    }
+
+    return this.payOut(claim, user);
+  }
+
+  /**
+   * Gets the claims whose transfer into, out of or back from escrow has an
+   * unknown outcome, oldest first, for admins to reconcile
+   */
+  async getReconcilingClaims() {
+    return ClaimableTransfer.find({ status: "reconciling" })
+      .sort({ updatedAt: 1 })
+      .limit(100);
+  }
+
+  /**
+   * Settles a claim whose transfer had an unknown outcome, once an admin has
+   * checked in 100Pay whether the funds moved. A funding transfer that went
+   * through makes the claim pending and emails the link, one that didn't
+   * fails the claim. A payout or refund that went through completes it, one
+   * that didn't makes the claim pending again.
+   *
+   * @param id - ID of the claimable transfer
+   * @param transferred - Whether the funds moved
+   * @param transactionId - Optional 100Pay transaction that moved them
+   * @returns The reconciled claim
+   */
+  async reconcile(
+    id: string,
+    {
+      transferred,
+      transactionId,
+    }: { transferred: boolean; transactionId?: string }
+  ) {
+    const claim = Types.ObjectId.isValid(id)
+      ? await ClaimableTransfer.findOne({
+          _id: id,
+          status: "reconciling",
+        }).select("+claimToken")
+      : null;
+    if (!claim) {
+      throw new NotFoundError("Claimable transfer to reconcile not found");
+    }
+
+    const step = claim.reconcileStep;
+    const now = new Date();
+    const outcome: Record<string, unknown> =
+      step === "funding"
+        ? transferred
+          ? { status: "pending", fundingTransactionId: transactionId }
+          : { status: "failed" }
+        : !transferred
+          ? { status: "pending" }
+          : step === "payout"
+            ? { status: "claimed", claimedAt: now, transactionId }
+            : { status: "refunded", refundedAt: now, transactionId };
+
+    const reconciled = await ClaimableTransfer.findOneAndUpdate(
+      { _id: claim._id, status: "reconciling" },
+      {
+        $set: Object.fromEntries(
+          Object.entries(outcome).filter(([, value]) => value !== undefined)
+        ),
+        $unset: {
+          reconcileStep: 1,
+          lockedUntil: 1,
+          error: 1,
+          ...(step === "payout" && !transferred && { claimedBy: 1 }),
+        },
+      },
+      { new: true }
+    );
+    if (!reconciled) {
+      throw new ConflictError(
+        "Claimable transfer was already reconciled",
+        undefined,
+        "CLAIM_NOT_RECONCILING"
+      );
+    }
+
+    if (transferred && step === "funding") {
+      const sender = await User.findById(reconciled.sender);
+      if (sender) {
+        await this.notifyRecipient(reconciled, claim.claimToken, sender);
+      }
+    } else if (transferred) {
+      await this.notifySender(reconciled);
+    }
+
+    return reconciled;
+  }
+
+  /**
+   * Moves claims whose funding never finished, e.g. because the server
+   * stopped mid-send, to reconciling so they aren't left in funding
+   *
+   * @returns Number of claims flagged
+   */
+  async flagStuckFunding() {
+    const { modifiedCount } = await ClaimableTransfer.updateMany(
+      {
+        status: "funding",
+        createdAt: { $lte: new Date(Date.now() - CLAIM_LOCK_MS) },
+      },
+      {
+        $set: {
+          status: "reconciling",
+          reconcileStep: "funding",
+          error: "Funding didn't finish",
+        },
+      }
+    );
+
+    return modifiedCount;
+  }
+
+  /**
+   * Sends expired unclaimed transfers back to their senders. Refunds that
+   * are refused stay pending and are retried on the next run. Refunds with
+   * an unknown outcome stay locked and move to reconciling.
+   *
+   * @returns Number of transfers refunded
+   */
+  async refundExpired() {
+    const due = await ClaimableTransfer.find({
+      status: "pending",
+      expiresAt: { $lte: new Date() },
+      $or: [{ lockedUntil: null }, { lockedUntil: { $lte: new Date() } }],
+    }).limit(100);
+
+    let refunded = 0;
+    for (const expired of due) {
+      const claim = await this.lock(expired, { $lte: new Date() });
+      if (!claim) continue;
+
+      try {
+        const result = await this.transferService.transferAssets({
+          fromUserId: ESCROW_USER_ID,
+          toUserId: claim.sender,
+          amount: claim.amount.toString(),
+          symbol: claim.symbol,
+          network: claim.network,
+          description: `Refund of unclaimed transfer to ${claim.email}`,
+          claimId: claim._id.toString(),
+        });
+
+        const updated = await ClaimableTransfer.findByIdAndUpdate(
+          claim._id,
+          {
+            $set: {
+              status: "refunded",
+              refundedAt: new Date(),
+              transactionId: getTransactionId(result),
+            },
+            $unset: { lockedUntil: 1, error: 1 },
+          },
+          { new: true }
+        );
+
+        refunded++;
+        await this.notifySender(updated);
+      } catch (error) {
+        console.error(
+          `Failed to refund claimable transfer ${claim._id}:`,
+          error
+        );
+        // The refund may have gone out, so it must not be sent again
+        if (!(error instanceof ApiError)) {
+          await this.markReconciling(claim._id, "refund", error);
+          continue;
+        }
+        await ClaimableTransfer.updateOne(
+          { _id: claim._id },
+          {
+            $set: { error: error.message },
+            $unset: { lockedUntil: 1 },
+          }
+        );
+      }
+    }
+
+    return refunded;
+  }
+
+  /**
+   * Moves a pending claim from escrow into the recipient's wallet
+   */
+  private async payOut(
+    existing: ClaimableTransferDocument,
+    user: UserDocument
+  ) {
+    const wallet = await this.walletService.getUserWalletBySymbol(
+      user._id as Types.ObjectId,
+      existing.symbol,
+      existing.network
+    );
+    if (!wallet) {
+      throw new BadRequestError(
+        `Create a ${existing.symbol} wallet with network ${existing.network} to claim this transfer`,
+        { symbol: existing.symbol, network: existing.network },
+        "CLAIM_WALLET_REQUIRED"
+      );
+    }
+
+    const claim = await this.lock(existing, { $gt: new Date() });
+    if (!claim) {
+      throw new ConflictError(
+        existing.status === "pending"
+          ? existing.expiresAt <= new Date()
+            ? "Claimable transfer has expired"
+            : "Claimable transfer is already being claimed"
+          : `Claimable transfer is already ${existing.status}`,
+        undefined,
+        "CLAIM_NOT_PENDING"
+      );
+    }
+
+    let transactionId: string | undefined;
+    try {
+      const result = await this.transferService.transferAssets({
+        fromUserId: ESCROW_USER_ID,
+        toUserId: user._id as Types.ObjectId,
+        amount: claim.amount.toString(),
+        symbol: claim.symbol,
+        network: claim.network,
+        description: claim.description || "Claimed transfer",
+        claimId: claim._id.toString(),
+      });
+      transactionId = getTransactionId(result);
+    } catch (error) {
+      // The payout may have gone out, so it must not be sent again
+      if (!(error instanceof ApiError)) {
+        await this.markReconciling(claim._id, "payout", error, {
+          claimedBy: user._id,
+        });
+        throw error;
+      }
+      await ClaimableTransfer.updateOne(
+        { _id: claim._id },
+        {
+          $set: { error: error.message },
+          $unset: { lockedUntil: 1 },
+        }
+      );
+      throw error;
+    }
+
+    const claimed = await ClaimableTransfer.findByIdAndUpdate(
+      claim._id,
+      {
+        $set: {
+          status: "claimed",
+          claimedBy: user._id,
+          claimedAt: new Date(),
+          transactionId,
+        },
+        $unset: { lockedUntil: 1, error: 1 },
+      },
+      { new: true }
+    );
+
+    await this.notifySender(claimed);
+    return claimed;
+  }
+
+  /**
+   * Moves a claim whose transfer had an unknown outcome to reconciling. Its
+   * lock is kept, and only reconcile() makes it pending again.
+   */
+  private async markReconciling(
+    id: Types.ObjectId,
+    step: ClaimableTransferReconcileStep,
+    error: unknown,
+    fields: Record<string, unknown> = {}
+  ) {
+    try {
+      await ClaimableTransfer.updateOne(
+        { _id: id },
+        {
+          $set: {
+            ...fields,
+            status: "reconciling",
+            reconcileStep: step,
+            error: error instanceof Error ? error.message : String(error),
+          },
+        }
+      );
+    } catch (updateError) {
+      console.error(
+        `Failed to flag claimable transfer ${id} for reconciliation:`,
+        updateError
+      );
+    }
+  }
+
+  /**
+   * Locks a pending claim so it is only paid out or refunded once
+   *
+   * @param expiresAt - Condition on the expiry, unexpired for payouts and expired for refunds
+   */
+  private async lock(
+    claim: ClaimableTransferDocument,
+    expiresAt: { $gt: Date } | { $lte: Date }
+  ) {
+    const now = new Date();
+    return ClaimableTransfer.findOneAndUpdate(
+      {
+        _id: claim._id,
+        status: "pending",
+        expiresAt,
+        $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }],
+      },
+      { $set: { lockedUntil: new Date(now.getTime() + CLAIM_LOCK_MS) } },
+      { new: true }
+    );
+  }
+
+  /**
+   * Claim link of a claimable transfer
+   */
+  private getUrl(claim: ClaimableTransferDocument, token: string) {
+    return `${APP_URL}/claim/${claim._id}?token=${token}`;
+  }
+
+  /**
+   * Emails the recipient the claim link
+   */
+  private async notifyRecipient(
+    claim: ClaimableTransferDocument,
+    token: string,
+    sender: UserDocument
+  ) {
+    try {
+      const senderName =
+        [sender.firstName, sender.lastName].filter(Boolean).join(" ") ||
+        sender.email;
+      const expires = claim.expiresAt.toUTCString();
+
+      const emailService = new EmailService();
+      await emailService.sendEmail({
+        subject: `${APP_NAME} - ${senderName} sent you ${claim.amount} ${claim.symbol}`,
+        htmlBody: emailService.generateMinimalistTemplate({
+          title: "You have money waiting",
+          content: `
+            <p>${escapeHtml(senderName)} sent you ${claim.amount} ${claim.symbol}${claim.description ? ` for "${escapeHtml(claim.description)}"` : ""}.</p>
+            <p>Create an account with this email, verify it and open this link to receive the funds. If you don't claim them by ${expires}, they go back to the sender.</p>
+          `,
+          buttonText: "Claim your transfer",
+          buttonUrl: this.getUrl(claim, token),
+        }),
+        to: { email: claim.email, name: claim.email.split("@")[0] },
+      });
+    } catch (error) {
+      console.error("Failed to send claimable transfer email:", error);
+    }
+  }
+
+  /**
+   * Emails the sender that their transfer was claimed or refunded
+   */
+  private async notifySender(claim: ClaimableTransferDocument) {
+    try {
+      const sender = await User.findById(claim.sender);
+      if (!sender?.email) return;
+
+      const name = sender.firstName || sender.email.split("@")[0];
+      const transfer = `${claim.amount} ${claim.symbol} to ${escapeHtml(claim.email)}`;
+      const outcome =
+        claim.status === "claimed"
+          ? {
+              title: "Your transfer was claimed",
+              content: `<p>Hi ${escapeHtml(name)},</p><p>Your transfer of ${transfer} was claimed.</p>`,
+            }
+          : {
+              title: "Your transfer was returned",
+              content: `<p>Hi ${escapeHtml(name)},</p><p>Your transfer of ${transfer} wasn't claimed in time and was returned to your wallet.</p>`,
+            };
+
+      const emailService = new EmailService();
+      await emailService.sendEmail({
+        subject: `${APP_NAME} - ${outcome.title}`,
+        htmlBody: emailService.generateMinimalistTemplate(outcome),
+        to: { email: sender.email, name },
+      });
+    } catch (error) {
+      console.error("Failed to send claimable transfer email:", error);
+    }
+  }
+}
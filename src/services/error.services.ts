@@ -105,6 +105,17 @@ export class ServiceUnavailableError extends ApiError {
   }
 }
 
+/**
+ * Transfer whose outcome isn't known because the request to 100Pay failed
+ * after it was made. Not an ApiError, since the funds may have moved.
+ */
+export class TransferOutcomeUnknownError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = this.constructor.name;
+  }
+}
+
 /**
  * Error handling utility methods
  */
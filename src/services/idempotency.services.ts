@@ -0,0 +1,192 @@
+// ./src/services/idempotency.services.ts
+
+import crypto from "crypto";
+import { Types } from "mongoose";
+import IdempotencyKey from "../models/idempotencyKey.model.js";
+import { ApiError, ConflictError, ValidationError } from "./error.services.js";
+
+const KEY_TTL_HOURS = Number(process.env.IDEMPOTENCY_KEY_TTL_HOURS) || 24;
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Serializes a value with sorted object keys so equal payloads hash the same
+ */
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+/**
+ * Service that makes mutations safe to retry. The first request with a key
+ * runs the operation and stores its response; replays with the same key and
+ * payload get the stored response back instead of running it again.
+ */
+export class IdempotencyService {
+  /**
+   * Hashes a request payload
+   *
+   * @param payload - Request payload
+   * @returns SHA-256 fingerprint of the payload
+   */
+  fingerprint(payload: unknown): string {
+    return crypto
+      .createHash("sha256")
+      .update(stableStringify(payload))
+      .digest("hex");
+  }
+
+  /**
+   * Runs an operation at most once per idempotency key
+   *
+   * @param key - Client supplied idempotency key; the operation runs normally without one
+   * @param userId - User the key belongs to
+   * @param operation - Name of the operation, keys are scoped per operation
+   * @param payload - Request payload, used to detect reuse of a key with a different request
+   * @param handler - Operation to run
+   * @param serialize - Converts the result into what gets stored
+   * @param deserialize - Converts a stored response back into a result
+   * @returns Result of the operation, or the stored result of the original request
+   */
+  async execute<T>({
+    key,
+    userId,
+    operation,
+    payload,
+    handler,
+    serialize = (result: T) => JSON.parse(JSON.stringify(result ?? null)),
+    deserialize = (stored: unknown) => stored as T,
+  }: {
+    key?: string | null;
+    userId: string | Types.ObjectId;
+    operation: string;
+    payload: unknown;
+    handler: () => Promise<T>;
+    serialize?: (result: T) => unknown;
+    deserialize?: (stored: unknown) => T | Promise<T>;
+  }): Promise<T> {
+    if (!key) return handler();
+
+    if (key.length > MAX_KEY_LENGTH) {
+      throw new ValidationError(
+        `Idempotency key must be at most ${MAX_KEY_LENGTH} characters`,
+        undefined,
+        "IDEMPOTENCY_KEY_INVALID"
+      );
+    }
+
+    const fingerprint = this.fingerprint(payload);
+    const user = new Types.ObjectId(userId);
+
+    try {
+      await IdempotencyKey.create({
+        key,
+        user,
+        operation,
+        fingerprint,
+        status: "processing",
+        expiresAt: new Date(Date.now() + KEY_TTL_HOURS * 60 * 60 * 1000),
+      });
+    } catch (error) {
+      if (error?.code !== 11000) throw error;
+      return this.replay({ key, user, operation, fingerprint, deserialize });
+    }
+
+    try {
+      const result = await handler();
+
+      await IdempotencyKey.updateOne(
+        { key, user, operation },
+        {
+          $set: {
+            status: "completed",
+            response: serialize(result),
+            completedAt: new Date(),
+          },
+        }
+      );
+
+      return result;
+    } catch (error) {
+      // API errors are refusals made before anything happened, so the key is
+      // released for a retry. Anything else may have failed halfway, and
+      // running it again could repeat what already went through.
+      if (error instanceof ApiError) {
+        await IdempotencyKey.deleteOne({ key, user, operation });
+      } else {
+        await IdempotencyKey.updateOne(
+          { key, user, operation },
+          {
+            $set: {
+              status: "failed",
+              error: error instanceof Error ? error.message : String(error),
+              completedAt: new Date(),
+            },
+          }
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Resolves a repeated request for a key that has already been used
+   */
+  private async replay<T>({
+    key,
+    user,
+    operation,
+    fingerprint,
+    deserialize,
+  }: {
+    key: string;
+    user: Types.ObjectId;
+    operation: string;
+    fingerprint: string;
+    deserialize: (stored: unknown) => T | Promise<T>;
+  }): Promise<T> {
+    const existing = await IdempotencyKey.findOne({ key, user, operation });
+
+    if (!existing) {
+      throw new ConflictError(
+        "A request with this idempotency key just failed, please retry",
+        undefined,
+        "IDEMPOTENCY_REQUEST_FAILED"
+      );
+    }
+
+    if (existing.fingerprint !== fingerprint) {
+      throw new ConflictError(
+        "Idempotency key has already been used with a different request",
+        undefined,
+        "IDEMPOTENCY_KEY_REUSED"
+      );
+    }
+
+    if (existing.status === "failed") {
+      throw new ConflictError(
+        "A request with this idempotency key failed and may have partly gone through, check its outcome before retrying with a new key",
+        { error: existing.error },
+        "IDEMPOTENCY_OUTCOME_UNKNOWN"
+      );
+    }
+
+    if (existing.status !== "completed") {
+      throw new ConflictError(
+        "A request with this idempotency key is still being processed",
+        undefined,
+        "IDEMPOTENCY_REQUEST_IN_PROGRESS"
+      );
+    }
+
+    return deserialize(existing.response);
+  }
+}
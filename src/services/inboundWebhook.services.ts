@@ -0,0 +1,283 @@
+// ./src/services/inboundWebhook.services.ts
+
+import crypto from "crypto";
+import { Types } from "mongoose";
+import { logger } from "@untools/logger";
+import WebhookEvent from "../models/webhookEvent.model.js";
+import LedgerEntry from "../models/ledgerEntry.model.js";
+import UserWallet from "../models/userWallet.model.js";
+import { LedgerService } from "./ledger.services.js";
+import { OutgoingWebhookService } from "./outgoingWebhook.services.js";
+import { EXTERNAL_CLEARING_ACCOUNT } from "../utils/ledger/index.js";
+import { WebhookEventDocument } from "../types/webhookEvent.js";
+import paginateCollection, { Pagination } from "../utils/paginate.js";
+import { NotFoundError, ValidationError } from "./error.services.js";
+
+const DEPOSIT_EVENTS = ["deposit", "deposit.received", "credit"];
+const TRANSFER_EVENTS = [
+  "transfer",
+  "transfer.updated",
+  "transfer.completed",
+  "transfer.failed",
+  "debit",
+];
+
+/**
+ * Service for webhook events sent by 100Pay. Events are stored once per
+ * event id, then applied to the local ledger.
+ */
+export class InboundWebhookService {
+  private ledger: LedgerService;
+  private webhooks: OutgoingWebhookService;
+
+  /**
+   * Initialize the inbound webhook service with API credentials
+   *
+   * @param publicKey - 100Pay API public key
+   * @param secretKey - 100Pay API secret key
+   * @param baseUrl - Optional API base URL
+   */
+  constructor(publicKey: string, secretKey: string, baseUrl?: string) {
+    this.ledger = new LedgerService(publicKey, secretKey, baseUrl);
+    this.webhooks = new OutgoingWebhookService();
+  }
+
+  /**
+   * Stores and processes an event. Events that were already processed are skipped.
+   *
+   * @param payload - Parsed webhook body
+   * @param rawBody - Raw webhook body, used to derive an id if the event has none
+   * @returns The stored event and whether it was a duplicate
+   */
+  async receive(
+    payload: Record<string, any>,
+    rawBody: Buffer
+  ): Promise<{ event: WebhookEventDocument; duplicate: boolean }> {
+    const eventId = (
+      payload.id ||
+      payload._id ||
+      payload.eventId ||
+      crypto.createHash("sha256").update(rawBody).digest("hex")
+    ).toString();
+    const type = (payload.type || payload.event || "unknown").toString();
+
+    let event: WebhookEventDocument;
+    try {
+      event = await WebhookEvent.create({ eventId, type, payload });
+    } catch (error) {
+      if (error?.code !== 11000) throw error;
+
+      event = await WebhookEvent.findOne({ eventId });
+      // Retry events that failed before, anything else is a duplicate delivery
+      if (event.status !== "failed") {
+        return { event, duplicate: true };
+      }
+    }
+
+    await this.process(event);
+    return { event, duplicate: false };
+  }
+
+  /**
+   * Applies an event to the ledger and records the outcome on the event
+   *
+   * @param event - Stored webhook event
+   */
+  async process(event: WebhookEventDocument) {
+    event.attempts += 1;
+
+    try {
+      const data = event.payload.data ?? event.payload;
+      let handled = false;
+
+      if (DEPOSIT_EVENTS.includes(event.type)) {
+        handled = await this.handleDeposit(data);
+      } else if (TRANSFER_EVENTS.includes(event.type)) {
+        handled = await this.handleTransferStatus(data);
+      }
+
+      event.status = handled ? "processed" : "ignored";
+      event.error = undefined;
+      event.processedAt = new Date();
+    } catch (error) {
+      console.error(`Failed to process webhook event ${event.eventId}:`, error);
+      event.status = "failed";
+      event.error = error instanceof Error ? error.message : String(error);
+    }
+
+    await event.save();
+    logger.debug("Webhook event processed", {
+      eventId: event.eventId,
+      status: event.status,
+    });
+
+    return event;
+  }
+
+  /**
+   * Gets stored webhook events, newest first
+   *
+   * @param filters - Optional type and status filters
+   * @param pagination - Pagination options
+   */
+  async getEvents({
+    filters = {},
+    pagination = {},
+  }: {
+    filters?: { type?: string; status?: string };
+    pagination?: Pagination;
+  }) {
+    return paginateCollection(WebhookEvent, pagination, {
+      filter: {
+        ...(filters.type && { type: filters.type }),
+        ...(filters.status && { status: filters.status }),
+      },
+    });
+  }
+
+  /**
+   * Processes a stored event again
+   *
+   * @param id - MongoDB ObjectId of the event
+   */
+  async reprocess(id: string) {
+    const event = await WebhookEvent.findById(id);
+    if (!event) throw new NotFoundError("Webhook event not found");
+
+    return this.process(event);
+  }
+
+  /**
+   * Credits a deposit to the wallet it was sent to
+   */
+  private async handleDeposit(data: Record<string, any>): Promise<boolean> {
+    const wallet = await this.findWallet(data, data.to || data.address);
+    if (!wallet) return false;
+
+    const transactionId = this.getTransactionId(data);
+    if (!transactionId) {
+      throw new ValidationError(
+        "Deposit event has no transaction id",
+        undefined,
+        "WEBHOOK_EVENT_INVALID"
+      );
+    }
+
+    const changed = await this.ledger.postTransaction({
+      transactionId,
+      accountId: wallet.sourceAccountId,
+      wallet: wallet._id as Types.ObjectId,
+      symbol: data.symbol || wallet.symbol,
+      type: "credit",
+      status: data.status || "successful",
+      amount: data.amount,
+      fee: data.fee,
+      description: data.description,
+      from: data.from,
+      to: data.to,
+      occurredAt: data.createdAt,
+      source: "sync",
+    });
+
+    if (changed) {
+      await this.webhooks.dispatch("transfer.received", {
+        userId: wallet.user.toString(),
+        transactionId,
+        amount: data.amount?.toString(),
+        symbol: data.symbol || wallet.symbol,
+        network: wallet.network,
+        from: data.from,
+        to: data.to || wallet.account?.address,
+        status: data.status || "successful",
+        description: data.description,
+      });
+    }
+
+    return true;
+  }
+
+  /**
+   * Updates the status of a transfer already in the ledger, or posts it if
+   * the event carries enough data
+   */
+  private async handleTransferStatus(
+    data: Record<string, any>
+  ): Promise<boolean> {
+    const transactionId = this.getTransactionId(data);
+    if (!transactionId || !data.status) return false;
+
+    const entry = await LedgerEntry.findOne({ transactionId });
+
+    if (entry) {
+      for (const posting of entry.postings) {
+        if (posting.accountId === EXTERNAL_CLEARING_ACCOUNT) continue;
+
+        await this.ledger.postTransaction({
+          transactionId,
+          accountId: posting.accountId,
+          wallet: posting.wallet,
+          symbol: posting.symbol || entry.symbol,
+          type: posting.direction,
+          status: data.status,
+          amount: posting.amount.toString(),
+          source: entry.source,
+        });
+      }
+      return true;
+    }
+
+    const wallet = await this.findWallet(data, data.from);
+    if (!wallet || !data.amount) return false;
+
+    await this.ledger.postTransaction({
+      transactionId,
+      accountId: wallet.sourceAccountId,
+      wallet: wallet._id as Types.ObjectId,
+      symbol: data.symbol || wallet.symbol,
+      type: data.type || "debit",
+      status: data.status,
+      amount: data.amount,
+      fee: data.fee,
+      description: data.description,
+      from: data.from,
+      to: data.to,
+      occurredAt: data.createdAt,
+      source: "sync",
+    });
+
+    return true;
+  }
+
+  /**
+   * Reads the 100Pay transaction id of an event
+   */
+  private getTransactionId(data: Record<string, any>): string | undefined {
+    return (data._id || data.id || data.transactionId)?.toString();
+  }
+
+  /**
+   * Finds the wallet an event belongs to, by account ID or address. EVM
+   * tokens share an address, so an address only matches the wallet for the
+   * event's symbol and network, or the only wallet there when the event has
+   * no symbol.
+   */
+  private async findWallet(data: Record<string, any>, address?: string) {
+    if (data.accountId) {
+      const wallet = await UserWallet.findOne({
+        sourceAccountId: data.accountId,
+      });
+      if (wallet) return wallet;
+    }
+
+    if (address) {
+      const wallets = await UserWallet.find({
+        "account.address": address,
+        ...(data.symbol && { symbol: String(data.symbol).toUpperCase() }),
+        ...(data.network && { network: data.network }),
+      }).limit(2);
+      return wallets.length === 1 ? wallets[0] : null;
+    }
+
+    return null;
+  }
+}
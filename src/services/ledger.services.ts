@@ -0,0 +1,552 @@
+// ./src/services/ledger.services.ts
+
+import {
+  Pay100,
+  ITransferHistoryItem,
+  ITransferHistoryParams,
+} from "@100pay-hq/100pay.js";
+import { Types } from "mongoose";
+import { logger } from "@untools/logger";
+import LedgerEntry from "../models/ledgerEntry.model.js";
+import LedgerBalance from "../models/ledgerBalance.model.js";
+import UserWallet from "../models/userWallet.model.js";
+import { BalanceResult, UserWalletDocument } from "../types/userWallet/index.js";
+import {
+  LedgerEntryDocument,
+  LedgerPosting,
+  LedgerTransactionInput,
+  PostingDirection,
+} from "../types/ledger.js";
+import {
+  BalanceDelta,
+  EXTERNAL_CLEARING_ACCOUNT,
+  addDelta,
+  balancePostings,
+  emptyDelta,
+  getPostingDelta,
+  isEmptyDelta,
+  subtractDelta,
+  toBalanceResult,
+  toPostingDirection,
+  toPostingStatus,
+} from "../utils/ledger/index.js";
+import {
+  compareAmounts,
+  isZeroAmount,
+  roundAmount,
+  toDecimal128,
+} from "../utils/money.js";
+
+/**
+ * Balances as Decimal128 values for MongoDB to add exactly
+ */
+const toDecimals = (delta: BalanceDelta) =>
+  Object.fromEntries(
+    Object.entries(delta).map(([key, value]) => [key, toDecimal128(value)])
+  );
+
+const SYNC_PAGE_SIZE = Number(process.env.LEDGER_SYNC_PAGE_SIZE) || 100;
+const MAX_POST_ATTEMPTS = 3;
+
+/**
+ * Service for the local double-entry ledger that mirrors 100Pay transfers.
+ * Wallet balances are read from the ledger instead of being recomputed
+ * from the transfer history on every request.
+ */
+export class LedgerService {
+  private client: Pay100;
+
+  /**
+   * Initialize the ledger service with API credentials
+   *
+   * @param publicKey - 100Pay API public key
+   * @param secretKey - 100Pay API secret key
+   * @param baseUrl - Optional API base URL
+   */
+  constructor(publicKey: string, secretKey: string, baseUrl?: string) {
+    this.client = new Pay100({
+      publicKey,
+      secretKey,
+      baseUrl,
+    });
+  }
+
+  /**
+   * Posts a transaction against a wallet account. Posting the same
+   * transaction again is a no-op unless its status or amount changed,
+   * in which case only the difference is applied to the running balance.
+   * The entry and the balance are separate writes, so a posting stays
+   * unapplied until its balance update lands, and an unapplied posting
+   * makes the next post or sync rebuild the balance from the entries.
+   *
+   * @param input - Transaction data for one side of the transfer
+   * @returns true if the running balance changed
+   */
+  async postTransaction(
+    input: LedgerTransactionInput,
+    attempt = 1
+  ): Promise<boolean> {
+    const direction = toPostingDirection(input.type);
+    if (!direction) return false;
+
+    const symbol = input.symbol.toUpperCase();
+    const amount = roundAmount(input.amount);
+    const status = toPostingStatus(input.status);
+    const wallet = input.wallet ? new Types.ObjectId(input.wallet) : undefined;
+
+    try {
+      let entry = await LedgerEntry.findOne({
+        transactionId: input.transactionId,
+      });
+
+      if (!entry) {
+        entry = new LedgerEntry({
+          transactionId: input.transactionId,
+          symbol,
+          description: input.description,
+          from: input.from,
+          to: input.to,
+          fee: input.fee !== undefined ? Number(input.fee) : undefined,
+          source: input.source || "sync",
+          occurredAt: input.occurredAt ? new Date(input.occurredAt) : new Date(),
+          postings: [],
+        });
+      }
+
+      const postings: LedgerPosting[] = entry.postings.map((posting) =>
+        posting.toObject()
+      );
+      const previous = postings.find(
+        (posting) =>
+          posting.accountId === input.accountId &&
+          posting.direction === direction
+      );
+
+      if (
+        previous &&
+        previous.status === status &&
+        compareAmounts(previous.amount, amount) === 0
+      ) {
+        // A balance update that never landed can't be told apart from one
+        // that landed before its flag was set, so count from the entries
+        if (previous.applied === false) {
+          await this.rebuildBalance(input.accountId, symbol);
+          return true;
+        }
+        return false;
+      }
+
+      const delta = subtractDelta(
+        getPostingDelta(direction, status, amount),
+        previous
+          ? getPostingDelta(previous.direction, previous.status, previous.amount)
+          : emptyDelta()
+      );
+
+      const posting: LedgerPosting = {
+        accountId: input.accountId,
+        wallet: wallet || previous?.wallet,
+        symbol,
+        direction,
+        amount: toDecimal128(amount),
+        status,
+        postedAt: new Date(),
+        applied: input.accountId === EXTERNAL_CLEARING_ACCOUNT,
+      };
+
+      entry.set(
+        "postings",
+        balancePostings(
+          [...postings.filter((p) => p !== previous), posting],
+          symbol
+        )
+      );
+      await entry.save();
+
+      // The previous posting is replaced, so if its own update never landed
+      // the delta against it would be wrong
+      if (previous?.applied === false) {
+        await this.rebuildBalance(input.accountId, symbol);
+        return true;
+      }
+
+      try {
+        await this.applyDelta(input.accountId, symbol, delta, {
+          wallet: posting.wallet,
+          occurredAt: entry.occurredAt,
+        });
+      } catch (error) {
+        console.error(
+          `Failed to update balance of ${input.accountId}, rebuilding it:`,
+          error
+        );
+        await this.rebuildBalance(input.accountId, symbol);
+        return true;
+      }
+
+      await this.markApplied(entry._id, input.accountId, direction);
+
+      return !isEmptyDelta(delta);
+    } catch (error) {
+      // Another process posted the same entry concurrently, read it again
+      const isConflict =
+        error?.name === "VersionError" || error?.code === 11000;
+      if (isConflict && attempt < MAX_POST_ATTEMPTS) {
+        return this.postTransaction(input, attempt + 1);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Posts a 100Pay transfer history item for an account
+   *
+   * @param accountId - 100Pay account ID the history was fetched for
+   * @param item - Transfer history item
+   * @returns true if the running balance changed
+   */
+  async postHistoryItem(
+    accountId: string,
+    item: ITransferHistoryItem,
+    wallet?: Types.ObjectId | string
+  ): Promise<boolean> {
+    return this.postTransaction({
+      transactionId: item._id.toString(),
+      accountId: item.accountId || accountId,
+      wallet,
+      symbol: item.symbol,
+      type: item.type,
+      status: item.status,
+      amount: item.amount,
+      fee: item.fee,
+      description: item.description,
+      from: item.from,
+      to: item.to,
+      occurredAt: item.createdAt,
+      source: "sync",
+    });
+  }
+
+  /**
+   * Records a transfer executed through this API so balances reflect it
+   * before the next sync
+   *
+   * @param receipt - Receipt returned by the 100Pay transfer
+   * @param fromWallet - Sender wallet
+   * @param toWallet - Recipient wallet, if it belongs to one of our users
+   */
+  async recordTransfer({
+    receipt,
+    fromWallet,
+    toWallet,
+  }: {
+    receipt: {
+      id?: string;
+      _id?: string;
+      amount: string | number;
+      symbol: string;
+      fee?: string | number;
+      status: string;
+      description?: string;
+      from?: string;
+      to?: string;
+      createdAt?: string;
+    };
+    fromWallet: UserWalletDocument;
+    toWallet?: UserWalletDocument | null;
+  }) {
+    const transactionId = (receipt?.id || receipt?._id)?.toString();
+    if (!transactionId) return;
+
+    const shared = {
+      transactionId,
+      symbol: receipt.symbol || fromWallet.symbol,
+      status: receipt.status,
+      amount: receipt.amount,
+      fee: receipt.fee,
+      description: receipt.description,
+      from: receipt.from,
+      to: receipt.to,
+      occurredAt: receipt.createdAt,
+      source: "transfer" as const,
+    };
+
+    await this.postTransaction({
+      ...shared,
+      accountId: fromWallet.sourceAccountId,
+      wallet: fromWallet._id as Types.ObjectId,
+      type: "debit",
+    });
+
+    if (toWallet?.sourceAccountId) {
+      await this.postTransaction({
+        ...shared,
+        accountId: toWallet.sourceAccountId,
+        wallet: toWallet._id as Types.ObjectId,
+        type: "credit",
+      });
+    }
+  }
+
+  /**
+   * Pulls the 100Pay transfer history of an account into the ledger.
+   * The first sync reads the full history; later syncs stop at the first
+   * page that brings no changes, unless there are pending amounts to settle.
+   *
+   * @param accountId - 100Pay account ID
+   * @param symbol - Cryptocurrency symbol
+   * @returns Number of postings that changed the running balance
+   */
+  async syncAccount(accountId: string, symbol: string): Promise<number> {
+    const existing = await LedgerBalance.findOne({
+      accountId,
+      symbol: symbol.toUpperCase(),
+    });
+    const wallet = existing?.wallet
+      ? existing.wallet
+      : (await UserWallet.findOne({ sourceAccountId: accountId }))?._id;
+
+    const isFullSync = !existing?.lastSyncedAt;
+    const hasPending =
+      !!existing &&
+      (!isZeroAmount(existing.pendingCredits ?? 0) ||
+        !isZeroAmount(existing.pendingDebits ?? 0));
+
+    let page = 1;
+    let changed = 0;
+
+    try {
+      while (true) {
+        const historyParams: ITransferHistoryParams = {
+          accountIds: [accountId],
+          symbol,
+          page,
+          limit: SYNC_PAGE_SIZE,
+        };
+        const historyResult =
+          await this.client.transfer.getHistory(historyParams);
+        const items: ITransferHistoryItem[] = historyResult.data || [];
+
+        let pageChanges = 0;
+        for (const item of items) {
+          if (await this.postHistoryItem(accountId, item, wallet)) {
+            pageChanges++;
+          }
+        }
+        changed += pageChanges;
+
+        const isLastPage =
+          items.length === 0 || page >= (historyResult.meta?.pages || page);
+        if (isLastPage) break;
+        if (!isFullSync && !hasPending && pageChanges === 0) break;
+
+        page++;
+      }
+
+      // Rebuild after a first sync, or when a balance update was lost
+      const hasUnapplied = await LedgerEntry.exists({
+        symbol: symbol.toUpperCase(),
+        postings: { $elemMatch: { accountId, applied: false } },
+      });
+      if (isFullSync || hasUnapplied) {
+        await this.rebuildBalance(accountId, symbol);
+      }
+
+      await LedgerBalance.updateOne(
+        { accountId, symbol: symbol.toUpperCase() },
+        { $set: { lastSyncedAt: new Date(), ...(wallet && { wallet }) } },
+        { upsert: true }
+      );
+
+      logger.debug("Ledger sync completed", { accountId, symbol, changed });
+
+      return changed;
+    } catch (error) {
+      console.error(`Ledger sync failed for account ${accountId}:`, error);
+      throw new Error(
+        `Ledger sync failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Syncs every wallet known to the API
+   */
+  async syncAllWallets() {
+    const wallets = await UserWallet.find(
+      { sourceAccountId: { $exists: true, $ne: null } },
+      { sourceAccountId: 1, symbol: 1 }
+    );
+
+    for (const wallet of wallets) {
+      try {
+        await this.syncAccount(wallet.sourceAccountId, wallet.symbol);
+      } catch (error) {
+        // Don't stop the whole run if one account fails
+        console.error(
+          `Failed to sync ledger for account ${wallet.sourceAccountId}:`,
+          error
+        );
+      }
+    }
+  }
+
+  /**
+   * Recomputes the running balance of an account from its ledger postings
+   *
+   * @param accountId - 100Pay account ID
+   * @param symbol - Cryptocurrency symbol
+   */
+  async rebuildBalance(accountId: string, symbol: string) {
+    const startedAt = new Date();
+    const entries = await LedgerEntry.find({
+      "postings.accountId": accountId,
+      symbol: symbol.toUpperCase(),
+    });
+
+    let balance = emptyDelta();
+    let lastTransactionAt: Date | undefined;
+
+    for (const entry of entries) {
+      for (const posting of entry.postings) {
+        if (posting.accountId !== accountId) continue;
+        balance = addDelta(
+          balance,
+          getPostingDelta(posting.direction, posting.status, posting.amount)
+        );
+      }
+      if (!lastTransactionAt || entry.occurredAt > lastTransactionAt) {
+        lastTransactionAt = entry.occurredAt;
+      }
+    }
+
+    await LedgerBalance.updateOne(
+      { accountId, symbol: symbol.toUpperCase() },
+      { $set: { ...toDecimals(balance), lastTransactionAt } },
+      { upsert: true }
+    );
+
+    // Everything posted before the rebuild read the entries is in the balance now
+    await LedgerEntry.updateMany(
+      {
+        symbol: symbol.toUpperCase(),
+        postings: { $elemMatch: { accountId, applied: false } },
+      },
+      { $set: { "postings.$[posting].applied": true } },
+      {
+        arrayFilters: [
+          {
+            "posting.accountId": accountId,
+            "posting.applied": false,
+            "posting.postedAt": { $lte: startedAt },
+          },
+        ],
+      }
+    );
+  }
+
+  /**
+   * Gets the ledger balance of an account, syncing it first if it has never been synced
+   *
+   * @param accountId - 100Pay account ID
+   * @param symbol - Cryptocurrency symbol
+   * @returns Balance information
+   */
+  async getBalance(accountId: string, symbol: string): Promise<BalanceResult> {
+    let balance = await LedgerBalance.findOne({
+      accountId,
+      symbol: symbol.toUpperCase(),
+    });
+
+    if (!balance?.lastSyncedAt) {
+      await this.syncAccount(accountId, symbol);
+      balance = await LedgerBalance.findOne({
+        accountId,
+        symbol: symbol.toUpperCase(),
+      });
+    }
+
+    return toBalanceResult({
+      totalBalance: roundAmount(balance?.totalBalance ?? 0),
+      availableBalance: roundAmount(balance?.availableBalance ?? 0),
+      pendingCredits: roundAmount(balance?.pendingCredits ?? 0),
+      pendingDebits: roundAmount(balance?.pendingDebits ?? 0),
+    });
+  }
+
+  /**
+   * Gets ledger balances for multiple accounts
+   *
+   * @param walletInfos - Array of wallet account IDs and symbols
+   * @returns Object with account IDs as keys and balance results as values
+   */
+  async getBalances(
+    walletInfos: Array<{ accountId: string; symbol: string }>
+  ): Promise<Record<string, BalanceResult>> {
+    const balances: Record<string, BalanceResult> = {};
+
+    await Promise.all(
+      walletInfos.map(async ({ accountId, symbol }) => {
+        try {
+          balances[accountId] = await this.getBalance(accountId, symbol);
+        } catch (error) {
+          console.error(
+            `Failed to get ledger balance for account ${accountId}:`,
+            error
+          );
+          // Don't fail the entire batch if one fails
+          balances[accountId] = toBalanceResult(emptyDelta());
+        }
+      })
+    );
+
+    return balances;
+  }
+
+  /**
+   * Flags an entry's postings for an account as added to its running balance
+   */
+  private async markApplied(
+    entryId: LedgerEntryDocument["_id"],
+    accountId: string,
+    direction: PostingDirection
+  ) {
+    await LedgerEntry.updateOne(
+      { _id: entryId },
+      { $set: { "postings.$[posting].applied": true } },
+      {
+        arrayFilters: [
+          {
+            "posting.accountId": accountId,
+            "posting.direction": direction,
+          },
+        ],
+      }
+    );
+  }
+
+  /**
+   * Applies a balance delta to the running balance of an account
+   */
+  private async applyDelta(
+    accountId: string,
+    symbol: string,
+    delta: BalanceDelta,
+    {
+      wallet,
+      occurredAt,
+    }: { wallet?: Types.ObjectId; occurredAt?: Date } = {}
+  ) {
+    if (accountId === EXTERNAL_CLEARING_ACCOUNT) return;
+
+    await LedgerBalance.updateOne(
+      { accountId, symbol },
+      {
+        $inc: toDecimals(delta),
+        ...(occurredAt && { $max: { lastTransactionAt: occurredAt } }),
+        ...(wallet && { $set: { wallet } }),
+      },
+      { upsert: true }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+// ./src/services/notification.services.ts
+
+import { Types } from "mongoose";
+import Notification from "../models/notification.model.js";
+import { NotificationType } from "../types/notification.js";
+import paginateCollection, { Pagination } from "../utils/paginate.js";
+
+/**
+ * Service for in-app notifications
+ */
+export class NotificationService {
+  /**
+   * Adds a notification to the user's inbox
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param notification - Type, title, body and optional data
+   */
+  async notify(
+    userId: string | Types.ObjectId,
+    notification: {
+      type: NotificationType;
+      title: string;
+      body: string;
+      data?: Record<string, unknown>;
+    }
+  ) {
+    return Notification.create({ user: userId, ...notification });
+  }
+
+  /**
+   * Gets the user's notifications, newest first
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param pagination - Page and limit
+   * @param unreadOnly - Leave out notifications already read
+   */
+  async getNotifications(
+    userId: string | Types.ObjectId,
+    pagination: Pagination = {},
+    unreadOnly = false
+  ) {
+    return paginateCollection(Notification, pagination, {
+      filter: { user: userId, ...(unreadOnly && { readAt: null }) },
+      sort: { by: "createdAt", direction: "desc" },
+    });
+  }
+
+  /**
+   * Counts the user's unread notifications
+   *
+   * @param userId - MongoDB ObjectId of the user
+   */
+  async getUnreadCount(userId: string | Types.ObjectId) {
+    return Notification.countDocuments({ user: userId, readAt: null });
+  }
+
+  /**
+   * Marks notifications as read, all of the user's if no ids are given
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param ids - Notification ids
+   * @returns Number of notifications marked
+   */
+  async markRead(userId: string | Types.ObjectId, ids?: string[]) {
+    const result = await Notification.updateMany(
+      {
+        user: userId,
+        readAt: null,
+        ...(ids && { _id: { $in: ids } }),
+      },
+      { $set: { readAt: new Date() } }
+    );
+    return result.modifiedCount;
+  }
+}
@@ -2,10 +2,14 @@ import otpGenerator from "otp-generator";
 import { EmailService } from "../utils/emails/index.js";
 import OTP from "../models/otp.model.js";
 import User from "../models/user.model.js";
+import { OTPPurpose } from "../types/otp.js";
+import { ForbiddenError, UnauthorizedError } from "./error.services.js";
 import { config } from "dotenv";
 
 config();
 
+const MAX_ATTEMPTS = Number(process.env.OTP_MAX_ATTEMPTS) || 5;
+
 const sendVerificationMail = async (
   email: string,
   otp: string,
@@ -48,7 +52,11 @@ const sendVerificationMail = async (
   }
 };
 
-const initOTPGeneration = async (email: string) => {
+const initOTPGeneration = async (
+  email: string,
+  purpose: OTPPurpose = "email_verification",
+  reference?: string
+) => {
   console.log({ email });
 
   try {
@@ -61,6 +69,14 @@ const initOTPGeneration = async (email: string) => {
       throw new Error("User with email does not exist");
     }
 
+    // A code locked by wrong guesses can't be swapped for a fresh one until it expires
+    const existing = await OTP.findOne({ email, purpose });
+    if (existing && existing.attempts >= MAX_ATTEMPTS) {
+      throw new Error(
+        "Too many wrong codes, please wait before requesting a new one"
+      );
+    }
+
     // Generate OTP - 6 digits, no lowercase, no special chars
     const otp = otpGenerator.generate(6, {
       lowerCaseAlphabets: false,
@@ -73,10 +89,13 @@ const initOTPGeneration = async (email: string) => {
 
     // Create or update OTP record
     const OTPObject = await OTP.findOneAndUpdate(
-      { email },
+      { email, purpose },
       {
         email,
         otp,
+        purpose,
+        reference,
+        attempts: 0,
         expiresAt,
         verified: false,
       },
@@ -108,4 +127,79 @@ const initOTPGeneration = async (email: string) => {
   }
 };
 
-export { sendVerificationMail, initOTPGeneration };
+/**
+ * Checks an OTP issued for a purpose and uses it up. Wrong codes are counted,
+ * and after OTP_MAX_ATTEMPTS of them the OTP stops working.
+ *
+ * @param email - Email the OTP was sent to
+ * @param otp - OTP entered by the user
+ * @param purpose - What the OTP must have been issued for
+ * @param reference - What the OTP must confirm, for OTPs issued for one record
+ * @throws UnauthorizedError with OTP_INVALID if the code is wrong or expired
+ * @throws ForbiddenError with OTP_LOCKED after too many wrong codes
+ */
+const consumeOTP = async (
+  email: string,
+  otp: string,
+  purpose: OTPPurpose,
+  reference?: string
+) => {
+  const otpDoc = await OTP.findOne({
+    email,
+    purpose,
+    ...(reference && { reference }),
+  });
+
+  if (!otpDoc || (otpDoc.expiresAt && otpDoc.expiresAt <= new Date())) {
+    throw new UnauthorizedError(
+      "Invalid or expired OTP",
+      undefined,
+      "OTP_INVALID"
+    );
+  }
+
+  if (otpDoc.attempts >= MAX_ATTEMPTS) {
+    throw new ForbiddenError(
+      "OTP is locked after too many wrong attempts, request a new one once it expires",
+      undefined,
+      "OTP_LOCKED"
+    );
+  }
+
+  if (!otp || otpDoc.otp !== otp) {
+    const updated = await OTP.findOneAndUpdate(
+      { _id: otpDoc._id },
+      { $inc: { attempts: 1 } },
+      { new: true }
+    );
+    const attempts = updated?.attempts || MAX_ATTEMPTS;
+
+    if (attempts >= MAX_ATTEMPTS) {
+      throw new ForbiddenError(
+        "OTP is locked after too many wrong attempts, request a new one once it expires",
+        undefined,
+        "OTP_LOCKED"
+      );
+    }
+
+    throw new UnauthorizedError(
+      "Invalid or expired OTP",
+      { attemptsRemaining: MAX_ATTEMPTS - attempts },
+      "OTP_INVALID"
+    );
+  }
+
+  // Claim the code so two requests can't both use it
+  const used = await OTP.findOneAndDelete({ _id: otpDoc._id, otp });
+  if (!used) {
+    throw new UnauthorizedError(
+      "Invalid or expired OTP",
+      undefined,
+      "OTP_INVALID"
+    );
+  }
+
+  return true;
+};
+
+export { sendVerificationMail, initOTPGeneration, consumeOTP };
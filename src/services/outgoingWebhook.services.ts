@@ -0,0 +1,490 @@
+// ./src/services/outgoingWebhook.services.ts
+
+import crypto from "crypto";
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+import { Types } from "mongoose";
+import ApiKey from "../models/apiKey.model.js";
+import WebhookEndpoint from "../models/webhookEndpoint.model.js";
+import WebhookDelivery from "../models/webhookDelivery.model.js";
+import {
+  WEBHOOK_EVENT_TYPES,
+  WebhookDeliveryDocument,
+  WebhookEventType,
+} from "../types/webhookEndpoint.js";
+import { signWebhookPayload } from "../utils/webhookSignature.js";
+import paginateCollection, { Pagination } from "../utils/paginate.js";
+import {
+  BadRequestError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from "./error.services.js";
+
+const MAX_ATTEMPTS = Number(process.env.WEBHOOK_DELIVERY_MAX_ATTEMPTS) || 8;
+const BASE_DELAY_SECONDS =
+  Number(process.env.WEBHOOK_DELIVERY_BASE_DELAY_SECONDS) || 30;
+const TIMEOUT_MS = Number(process.env.WEBHOOK_DELIVERY_TIMEOUT_MS) || 10000;
+// How long a claimed delivery is hidden from other workers
+const CLAIM_LEASE_MS = TIMEOUT_MS + 30000;
+
+/**
+ * Delay before the next attempt: base delay doubled for every failed attempt
+ */
+const getBackoffMs = (attempts: number) =>
+  BASE_DELAY_SECONDS * 1000 * 2 ** Math.max(attempts - 1, 0);
+
+// Loopback, private, link-local (including cloud metadata), shared,
+// multicast and reserved ranges
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [address, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(address, prefix, "ipv4");
+}
+for (const [address, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(address, prefix, "ipv6");
+}
+
+const PRIVATE_HOSTNAMES = /(^|\.)(localhost|internal)$/;
+
+const isPrivateAddress = (address: string): boolean => {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return isPrivateAddress(mapped[1]);
+
+  const family = isIP(address);
+  if (family === 4) return PRIVATE_ADDRESSES.check(address, "ipv4");
+  if (family === 6) return PRIVATE_ADDRESSES.check(address, "ipv6");
+  return true;
+};
+
+/**
+ * Checks a webhook URL is http(s) and that its host resolves only to public
+ * addresses, since deliveries are requests made from the server
+ *
+ * @throws ValidationError with WEBHOOK_URL_INVALID or WEBHOOK_URL_NOT_PUBLIC
+ */
+const validateUrl = async (url: string) => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch (error) {
+    // handled below
+  }
+
+  if (parsed?.protocol !== "https:" && parsed?.protocol !== "http:") {
+    throw new ValidationError(
+      "Webhook URL must be a valid http(s) URL",
+      undefined,
+      "WEBHOOK_URL_INVALID"
+    );
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  let addresses: string[] = [];
+  try {
+    addresses = isIP(hostname)
+      ? [hostname]
+      : (await lookup(hostname, { all: true })).map(({ address }) => address);
+  } catch (error) {
+    throw new ValidationError(
+      "Webhook URL host can't be resolved",
+      { host: hostname },
+      "WEBHOOK_URL_INVALID"
+    );
+  }
+
+  if (
+    PRIVATE_HOSTNAMES.test(hostname) ||
+    !addresses.length ||
+    addresses.some(isPrivateAddress)
+  ) {
+    throw new ValidationError(
+      "Webhook URL must point to a public host",
+      { host: hostname },
+      "WEBHOOK_URL_NOT_PUBLIC"
+    );
+  }
+};
+
+const validateEvents = (events: string[]) => {
+  const invalid = (events || []).filter(
+    (event) => !WEBHOOK_EVENT_TYPES.includes(event as WebhookEventType)
+  );
+
+  if (!events?.length || invalid.length) {
+    throw new ValidationError(
+      `Subscribe to at least one of: ${WEBHOOK_EVENT_TYPES.join(", ")}`,
+      { invalid },
+      "WEBHOOK_EVENT_INVALID"
+    );
+  }
+};
+
+/**
+ * Service for webhook endpoints registered by API key owners, and the
+ * signed, retried deliveries of events to them
+ */
+export class OutgoingWebhookService {
+  /**
+   * Registers a webhook endpoint for a user who owns an API key
+   *
+   * @param ownerId - MongoDB ObjectId of the API key owner
+   * @param url - URL to POST events to
+   * @param events - Event types to subscribe to
+   * @param description - Optional description
+   * @returns The endpoint, including its signing secret
+   */
+  async createEndpoint(
+    ownerId: string | Types.ObjectId,
+    {
+      url,
+      events,
+      description,
+    }: { url: string; events: string[]; description?: string }
+  ) {
+    const hasApiKey = await ApiKey.exists({ owner: ownerId });
+    if (!hasApiKey) {
+      throw new ForbiddenError(
+        "Only API key owners can register webhook endpoints",
+        undefined,
+        "API_KEY_REQUIRED"
+      );
+    }
+
+    await validateUrl(url);
+    validateEvents(events);
+
+    const endpoint = await WebhookEndpoint.create({
+      owner: new Types.ObjectId(ownerId),
+      url,
+      events,
+      description,
+      secret: `whsec_${crypto.randomBytes(24).toString("hex")}`,
+    });
+
+    // The secret is only returned here
+    return endpoint.toObject({ virtuals: true });
+  }
+
+  /**
+   * Updates a webhook endpoint of the owner
+   *
+   * @param ownerId - MongoDB ObjectId of the API key owner
+   * @param id - ID of the endpoint
+   * @param updates - Fields to update
+   */
+  async updateEndpoint(
+    ownerId: string | Types.ObjectId,
+    id: string,
+    updates: {
+      url?: string;
+      events?: string[];
+      description?: string;
+      active?: boolean;
+    }
+  ) {
+    const endpoint = await this.getEndpoint(ownerId, id);
+
+    if (updates.url !== undefined) {
+      await validateUrl(updates.url);
+      endpoint.url = updates.url;
+    }
+    if (updates.events !== undefined) {
+      validateEvents(updates.events);
+      endpoint.events = updates.events as WebhookEventType[];
+    }
+    if (updates.description !== undefined) {
+      endpoint.description = updates.description;
+    }
+    if (updates.active !== undefined) {
+      endpoint.active = updates.active;
+    }
+
+    return endpoint.save();
+  }
+
+  /**
+   * Deletes a webhook endpoint of the owner
+   *
+   * @param ownerId - MongoDB ObjectId of the API key owner
+   * @param id - ID of the endpoint
+   */
+  async deleteEndpoint(ownerId: string | Types.ObjectId, id: string) {
+    const endpoint = await this.getEndpoint(ownerId, id);
+    await endpoint.deleteOne();
+    return true;
+  }
+
+  /**
+   * Gets the webhook endpoints of an owner
+   *
+   * @param ownerId - MongoDB ObjectId of the API key owner
+   */
+  async getEndpoints(ownerId: string | Types.ObjectId) {
+    return WebhookEndpoint.find({ owner: new Types.ObjectId(ownerId) }).sort({
+      createdAt: -1,
+    });
+  }
+
+  /**
+   * Queues an event for every active endpoint of the user it belongs to that
+   * is subscribed to it, and attempts the first delivery right away. Never
+   * throws, so callers don't fail because of a webhook.
+   *
+   * @param event - Event type
+   * @param data - Event data, with the userId of the user it belongs to
+   */
+  async dispatch(event: WebhookEventType, data: Record<string, any>) {
+    try {
+      // Events only go to their own user's endpoints
+      if (!data?.userId || !Types.ObjectId.isValid(data.userId)) return;
+
+      const endpoints = await WebhookEndpoint.find({
+        owner: new Types.ObjectId(data.userId),
+        events: event,
+        active: true,
+      });
+      if (!endpoints.length) return;
+
+      const eventId = `evt_${crypto.randomUUID().replace(/-/g, "")}`;
+      const payload = {
+        id: eventId,
+        type: event,
+        createdAt: new Date().toISOString(),
+        data,
+      };
+
+      const deliveries = await WebhookDelivery.insertMany(
+        endpoints.map((endpoint) => ({
+          endpoint: endpoint._id,
+          owner: endpoint.owner,
+          eventId,
+          event,
+          payload,
+          nextAttemptAt: new Date(),
+        }))
+      );
+
+      // Not awaited, the delivery job retries anything that fails here
+      deliveries.forEach((delivery) => {
+        this.attemptDelivery(delivery._id).catch((error) =>
+          console.error(`Failed to deliver webhook ${eventId}:`, error)
+        );
+      });
+    } catch (error) {
+      console.error(`Failed to dispatch webhook event ${event}:`, error);
+    }
+  }
+
+  /**
+   * Attempts every pending delivery that is due
+   *
+   * @param limit - Maximum number of deliveries to attempt
+   * @returns Number of deliveries attempted
+   */
+  async processDueDeliveries(limit = 50) {
+    const due = await WebhookDelivery.find({
+      status: "pending",
+      nextAttemptAt: { $lte: new Date() },
+    })
+      .sort({ nextAttemptAt: 1 })
+      .limit(limit)
+      .select("_id");
+
+    let attempted = 0;
+    for (const { _id } of due) {
+      if (await this.attemptDelivery(_id)) attempted++;
+    }
+
+    return attempted;
+  }
+
+  /**
+   * Gets the deliveries of an owner's endpoints, newest first
+   *
+   * @param ownerId - MongoDB ObjectId of the API key owner
+   * @param filters - Optional endpoint, event and status filters
+   * @param pagination - Pagination options
+   */
+  async getDeliveries(
+    ownerId: string | Types.ObjectId,
+    {
+      filters = {},
+      pagination = {},
+    }: {
+      filters?: { endpointId?: string; event?: string; status?: string };
+      pagination?: Pagination;
+    }
+  ) {
+    return paginateCollection(WebhookDelivery, pagination, {
+      filter: {
+        owner: new Types.ObjectId(ownerId),
+        ...(filters.endpointId && {
+          endpoint: new Types.ObjectId(filters.endpointId),
+        }),
+        ...(filters.event && { event: filters.event }),
+        ...(filters.status && { status: filters.status }),
+      },
+    });
+  }
+
+  /**
+   * Queues a failed delivery again and attempts it right away
+   *
+   * @param ownerId - MongoDB ObjectId of the API key owner
+   * @param id - ID of the delivery
+   * @returns The delivery after the new attempt
+   */
+  async replayDelivery(ownerId: string | Types.ObjectId, id: string) {
+    const delivery = await WebhookDelivery.findOneAndUpdate(
+      { _id: id, owner: new Types.ObjectId(ownerId), status: "failed" },
+      { $set: { status: "pending", attempts: 0, nextAttemptAt: new Date() } },
+      { new: true }
+    );
+
+    if (!delivery) {
+      const exists = await WebhookDelivery.exists({
+        _id: id,
+        owner: new Types.ObjectId(ownerId),
+      });
+      if (!exists) throw new NotFoundError("Webhook delivery not found");
+
+      throw new BadRequestError(
+        "Only failed deliveries can be replayed",
+        undefined,
+        "WEBHOOK_DELIVERY_NOT_FAILED"
+      );
+    }
+
+    await this.attemptDelivery(delivery._id);
+    return WebhookDelivery.findById(delivery._id);
+  }
+
+  /**
+   * Claims a due delivery and POSTs it to its endpoint. Failed attempts are
+   * rescheduled with exponential backoff until MAX_ATTEMPTS is reached.
+   *
+   * @returns false if the delivery wasn't due or another worker claimed it
+   */
+  private async attemptDelivery(id: Types.ObjectId | string) {
+    const now = new Date();
+    const delivery: WebhookDeliveryDocument =
+      await WebhookDelivery.findOneAndUpdate(
+        { _id: id, status: "pending", nextAttemptAt: { $lte: now } },
+        { $set: { nextAttemptAt: new Date(now.getTime() + CLAIM_LEASE_MS) } },
+        { new: true }
+      );
+    if (!delivery) return false;
+
+    const endpoint = await WebhookEndpoint.findById(delivery.endpoint).select(
+      "+secret"
+    );
+
+    let responseStatus: number | undefined;
+    let error: string | undefined;
+    const startedAt = Date.now();
+
+    if (!endpoint || !endpoint.active) {
+      error = "Webhook endpoint is deleted or disabled";
+    } else {
+      const body = JSON.stringify(delivery.payload);
+      try {
+        // Checked again on every attempt, since DNS can change after registration
+        await validateUrl(endpoint.url);
+        const response = await fetch(endpoint.url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "X-Webhook-Id": delivery.eventId,
+            "X-Webhook-Event": delivery.event,
+            "X-Webhook-Signature": `sha256=${signWebhookPayload(body, endpoint.secret)}`,
+          },
+          body,
+          // A redirect could lead to a private host
+          redirect: "manual",
+          signal: AbortSignal.timeout(TIMEOUT_MS),
+        });
+        responseStatus = response.status;
+        if (!response.ok) error = `Endpoint responded with ${response.status}`;
+      } catch (fetchError) {
+        error =
+          fetchError instanceof Error ? fetchError.message : String(fetchError);
+      }
+    }
+
+    const attempts = delivery.attempts + 1;
+    const attempt = {
+      attemptedAt: now,
+      responseStatus,
+      error,
+      durationMs: Date.now() - startedAt,
+    };
+
+    if (!error) {
+      await WebhookDelivery.updateOne(
+        { _id: delivery._id },
+        {
+          $set: {
+            status: "succeeded",
+            attempts,
+            lastAttemptAt: now,
+            deliveredAt: new Date(),
+          },
+          $unset: { nextAttemptAt: 1, lastError: 1 },
+          $push: { attemptLog: attempt },
+        }
+      );
+      return true;
+    }
+
+    const giveUp = attempts >= MAX_ATTEMPTS || !endpoint || !endpoint.active;
+    await WebhookDelivery.updateOne(
+      { _id: delivery._id },
+      {
+        $set: {
+          status: giveUp ? "failed" : "pending",
+          attempts,
+          lastAttemptAt: now,
+          lastError: error,
+          ...(!giveUp && {
+            nextAttemptAt: new Date(Date.now() + getBackoffMs(attempts)),
+          }),
+        },
+        ...(giveUp && { $unset: { nextAttemptAt: 1 } }),
+        $push: { attemptLog: attempt },
+      }
+    );
+
+    return true;
+  }
+
+  /**
+   * Gets an endpoint owned by the user
+   */
+  private async getEndpoint(ownerId: string | Types.ObjectId, id: string) {
+    const endpoint = await WebhookEndpoint.findOne({
+      _id: id,
+      owner: new Types.ObjectId(ownerId),
+    });
+    if (!endpoint) throw new NotFoundError("Webhook endpoint not found");
+
+    return endpoint;
+  }
+}
@@ -0,0 +1,388 @@
+// ./src/services/paymentRequest.services.ts
+
+import { customAlphabet } from "nanoid";
+import { Types } from "mongoose";
+import PaymentRequest from "../models/paymentRequest.model.js";
+import User from "../models/user.model.js";
+import {
+  PaymentRequestDocument,
+  PaymentRequestStatus,
+} from "../types/paymentRequest.js";
+import { TransferService } from "./transfer.services.js";
+import { WalletService } from "./userWallet.services.js";
+import {
+  ApiError,
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from "./error.services.js";
+import { EmailService } from "../utils/emails/index.js";
+import paginateCollection, { Pagination } from "../utils/paginate.js";
+import { buildPaymentUri } from "../utils/paymentUri.js";
+import { escapeHtml } from "../utils/format.js";
+import { toDecimal128 } from "../utils/money.js";
+
+const APP_NAME = process.env.APP_NAME || "Application";
+const APP_URL = process.env.APP_URL || "http://localhost:3000";
+const DEFAULT_TTL_HOURS = Number(process.env.PAYMENT_REQUEST_TTL_HOURS) || 168;
+// How long a payment being sent blocks other payers
+const PAY_LOCK_MS = 5 * 60 * 1000;
+
+const generateReference = customAlphabet(
+  "23456789ABCDEFGHJKLMNPQRSTUVWXYZ",
+  10
+);
+
+/**
+ * Service for payment requests that other users pay through a shareable link
+ */
+export class PaymentRequestService {
+  private transferService: TransferService;
+  private walletService: WalletService;
+
+  /**
+   * Initialize the payment request service with API credentials
+   *
+   * @param publicKey - 100Pay API public key
+   * @param secretKey - 100Pay API secret key
+   * @param baseUrl - Optional API base URL
+   */
+  constructor(publicKey: string, secretKey: string, baseUrl?: string) {
+    this.transferService = new TransferService(publicKey, secretKey, baseUrl);
+    this.walletService = new WalletService(publicKey, secretKey, baseUrl);
+  }
+
+  /**
+   * Creates a payment request to the user's wallet for a symbol and network
+   *
+   * @param userId - MongoDB ObjectId of the requester
+   * @param symbol - Symbol to be paid in
+   * @param network - Network to be paid on
+   * @param amount - Amount requested, a decimal string is stored exactly
+   * @param memo - Optional note shown to the payer
+   * @param expiresAt - Optional expiry, defaults to PAYMENT_REQUEST_TTL_HOURS from now
+   */
+  async createPaymentRequest(
+    userId: string | Types.ObjectId,
+    {
+      symbol,
+      network,
+      amount,
+      memo,
+      expiresAt,
+    }: {
+      symbol: string;
+      network: string;
+      amount: number | string;
+      memo?: string;
+      expiresAt?: string | Date;
+    }
+  ) {
+    if (!(Number(amount) > 0)) {
+      throw new ValidationError(
+        "Requested amount must be greater than zero",
+        undefined,
+        "PAYMENT_REQUEST_AMOUNT_INVALID"
+      );
+    }
+
+    const expiry = expiresAt
+      ? new Date(expiresAt)
+      : new Date(Date.now() + DEFAULT_TTL_HOURS * 60 * 60 * 1000);
+    if (isNaN(expiry.getTime()) || expiry <= new Date()) {
+      throw new ValidationError(
+        "Expiry must be in the future",
+        undefined,
+        "PAYMENT_REQUEST_EXPIRY_INVALID"
+      );
+    }
+
+    const wallet = await this.walletService.getUserWalletBySymbol(
+      userId,
+      symbol,
+      network
+    );
+    if (!wallet) {
+      throw new NotFoundError(
+        `You don't have a ${symbol.toUpperCase()} wallet on ${network}`,
+        undefined,
+        "WALLET_NOT_FOUND"
+      );
+    }
+
+    return PaymentRequest.create({
+      reference: generateReference(),
+      requester: new Types.ObjectId(userId),
+      wallet: wallet._id,
+      address: wallet.account.address,
+      symbol: wallet.symbol,
+      network: wallet.network || network,
+      amount: toDecimal128(amount),
+      memo,
+      expiresAt: expiry,
+    });
+  }
+
+  /**
+   * Gets a payment request by ID or reference. Anyone signed in can view a
+   * request, since it is shared with the payer by link.
+   *
+   * @param idOrReference - MongoDB ObjectId or public reference
+   */
+  async getPaymentRequest(idOrReference: string) {
+    const request = await PaymentRequest.findOne(
+      Types.ObjectId.isValid(idOrReference)
+        ? { _id: idOrReference }
+        : { reference: idOrReference.toUpperCase() }
+    );
+    if (!request) throw new NotFoundError("Payment request not found");
+
+    return this.expireIfDue(request);
+  }
+
+  /**
+   * Gets the payment requests a user created, newest first
+   *
+   * @param userId - MongoDB ObjectId of the requester
+   * @param status - Optional status filter
+   * @param pagination - Pagination options
+   */
+  async getPaymentRequests(
+    userId: string | Types.ObjectId,
+    {
+      status,
+      pagination = {},
+    }: { status?: PaymentRequestStatus; pagination?: Pagination }
+  ) {
+    const requester = new Types.ObjectId(userId);
+    await PaymentRequest.updateMany(
+      { requester, status: "open", expiresAt: { $lte: new Date() } },
+      { $set: { status: "expired" } }
+    );
+
+    return paginateCollection(PaymentRequest, pagination, {
+      filter: { requester, ...(status && { status }) },
+    });
+  }
+
+  /**
+   * Cancels an open payment request
+   *
+   * @param userId - MongoDB ObjectId of the requester
+   * @param id - ID of the payment request
+   */
+  async cancelPaymentRequest(userId: string | Types.ObjectId, id: string) {
+    const request = await PaymentRequest.findOneAndUpdate(
+      {
+        _id: id,
+        requester: new Types.ObjectId(userId),
+        status: "open",
+        $or: [{ lockedUntil: null }, { lockedUntil: { $lte: new Date() } }],
+      },
+      { $set: { status: "cancelled", cancelledAt: new Date() } },
+      { new: true }
+    );
+
+    if (!request) {
+      const existing = await PaymentRequest.findOne({
+        _id: id,
+        requester: new Types.ObjectId(userId),
+      });
+      if (!existing) throw new NotFoundError("Payment request not found");
+
+      throw new BadRequestError(
+        existing.status === "open"
+          ? "Payment request is being paid"
+          : `Payment request is already ${existing.status}`,
+        undefined,
+        "PAYMENT_REQUEST_NOT_OPEN"
+      );
+    }
+
+    return request;
+  }
+
+  /**
+   * Pays an open payment request from the payer's wallet. The caller is
+   * expected to have authorized the payment with the transaction PIN.
+   *
+   * @param payerId - MongoDB ObjectId of the payer
+   * @param idOrReference - MongoDB ObjectId or public reference
+   * @returns The paid request
+   */
+  async payPaymentRequest(
+    payerId: string | Types.ObjectId,
+    idOrReference: string
+  ) {
+    const existing = await this.getPaymentRequest(idOrReference);
+
+    if (existing.requester.toString() === payerId.toString()) {
+      throw new BadRequestError(
+        "You can't pay your own payment request",
+        undefined,
+        "PAYMENT_REQUEST_SELF"
+      );
+    }
+
+    // Claim the request so it can only be paid once
+    const now = new Date();
+    const request = await PaymentRequest.findOneAndUpdate(
+      {
+        _id: existing._id,
+        status: "open",
+        expiresAt: { $gt: now },
+        $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }],
+      },
+      { $set: { lockedUntil: new Date(now.getTime() + PAY_LOCK_MS) } },
+      { new: true }
+    );
+
+    if (!request) {
+      throw new ConflictError(
+        existing.status === "open"
+          ? "Payment request is already being paid"
+          : `Payment request is ${existing.status}`,
+        undefined,
+        "PAYMENT_REQUEST_NOT_OPEN"
+      );
+    }
+
+    let transactionId: string | undefined;
+    try {
+      const result = await this.transferService.transferAssets({
+        fromUserId: payerId,
+        toAddress: request.address,
+        amount: request.amount.toString(),
+        symbol: request.symbol,
+        network: request.network,
+        description: request.memo || `Payment request ${request.reference}`,
+        onApprovalRequired: "reject",
+      });
+
+      const receipt = result?.data?.receipt;
+      transactionId = (receipt?.id || receipt?._id)?.toString();
+    } catch (error) {
+      // Refused before anything was sent, so the request can be paid again
+      if (error instanceof ApiError) {
+        await PaymentRequest.updateOne(
+          { _id: request._id },
+          { $unset: { lockedUntil: 1 } }
+        );
+        throw error;
+      }
+
+      // The payer's funds may have moved, so the request stays locked
+      // until the transfer is reconciled
+      await PaymentRequest.updateOne(
+        { _id: request._id },
+        {
+          $set: {
+            status: "reconciling",
+            paidBy: new Types.ObjectId(payerId),
+            error: error instanceof Error ? error.message : String(error),
+          },
+        }
+      );
+      throw error;
+    }
+
+    const paid = await PaymentRequest.findByIdAndUpdate(
+      request._id,
+      {
+        $set: {
+          status: "paid",
+          paidBy: new Types.ObjectId(payerId),
+          paidAt: new Date(),
+          transactionId,
+        },
+        $unset: { lockedUntil: 1 },
+      },
+      { new: true }
+    );
+
+    await this.notifyPaid(paid);
+    return paid;
+  }
+
+  /**
+   * Shareable link of a payment request
+   */
+  getUrl(request: Pick<PaymentRequestDocument, "reference">) {
+    return `${APP_URL}/pay/${request.reference}`;
+  }
+
+  /**
+   * Payment URI of a payment request, for QR codes
+   */
+  getPaymentUri(
+    request: Pick<
+      PaymentRequestDocument,
+      "network" | "symbol" | "address" | "amount" | "memo"
+    >
+  ) {
+    return buildPaymentUri({
+      network: request.network,
+      symbol: request.symbol,
+      address: request.address,
+      amount: request.amount.toString(),
+      memo: request.memo,
+      label: APP_NAME,
+    });
+  }
+
+  /**
+   * Marks an open request as expired once its expiry has passed
+   */
+  private async expireIfDue(request: PaymentRequestDocument) {
+    if (
+      request.status === "open" &&
+      request.expiresAt &&
+      request.expiresAt <= new Date()
+    ) {
+      request.status = "expired";
+      await PaymentRequest.updateOne(
+        { _id: request._id, status: "open" },
+        { $set: { status: "expired" } }
+      );
+    }
+
+    return request;
+  }
+
+  /**
+   * Emails the requester that their request was paid
+   */
+  private async notifyPaid(request: PaymentRequestDocument) {
+    try {
+      const [requester, payer] = await Promise.all([
+        User.findById(request.requester),
+        User.findById(request.paidBy),
+      ]);
+      if (!requester?.email) return;
+
+      const name = requester.firstName || requester.email.split("@")[0];
+      const payerName = payer
+        ? [payer.firstName, payer.lastName].filter(Boolean).join(" ") ||
+          payer.email
+        : "Someone";
+
+      const emailService = new EmailService();
+      await emailService.sendEmail({
+        subject: `${APP_NAME} - Payment request paid`,
+        htmlBody: emailService.generateMinimalistTemplate({
+          title: "Your payment request was paid",
+          content: `
+            <p>Hi ${escapeHtml(name)},</p>
+            <p>${escapeHtml(payerName)} paid your request of ${request.amount} ${request.symbol}${request.memo ? ` for "${escapeHtml(request.memo)}"` : ""}.</p>
+          `,
+          buttonText: "View payment request",
+          buttonUrl: this.getUrl(request),
+        }),
+        to: { email: requester.email, name },
+      });
+    } catch (error) {
+      console.error("Failed to send payment request paid email:", error);
+    }
+  }
+}
@@ -0,0 +1,325 @@
+// ./src/services/portfolio.services.ts
+
+import { Types } from "mongoose";
+import LedgerBalance from "../models/ledgerBalance.model.js";
+import PortfolioSnapshot from "../models/portfolioSnapshot.model.js";
+import UserWallet from "../models/userWallet.model.js";
+import {
+  PortfolioInterval,
+  PortfolioRange,
+  PortfolioSnapshotAsset,
+} from "../types/portfolioSnapshot.js";
+import { RatesService } from "./rates.services.js";
+import { ValidationError } from "./error.services.js";
+import { toNumber } from "../utils/money.js";
+
+const RETENTION_DAYS =
+  Number(process.env.PORTFOLIO_SNAPSHOT_RETENTION_DAYS) || 400;
+const BASE_CURRENCY = "USD";
+const MAX_POINTS = 1000;
+const USER_BATCH_SIZE = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RANGE_DAYS: Record<PortfolioRange, number> = {
+  day: 1,
+  week: 7,
+  month: 30,
+  quarter: 90,
+  year: 365,
+  all: RETENTION_DAYS,
+};
+
+const INTERVAL_MS: Record<PortfolioInterval, number> = {
+  hour: 60 * 60 * 1000,
+  day: DAY_MS,
+  week: 7 * DAY_MS,
+};
+
+const DEFAULT_INTERVALS: Record<PortfolioRange, PortfolioInterval> = {
+  day: "hour",
+  week: "hour",
+  month: "day",
+  quarter: "day",
+  year: "week",
+  all: "week",
+};
+
+/**
+ * Percentage change from one value to another, null if there is nothing to
+ * compare against
+ */
+const percentChange = (from: number, to: number) =>
+  from ? ((to - from) / from) * 100 : null;
+
+/**
+ * Sums snapshot assets per symbol, since a user can hold a symbol on more
+ * than one network
+ */
+const groupBySymbol = (assets: PortfolioSnapshotAsset[]) => {
+  const bySymbol = new Map<
+    string,
+    { symbol: string; balance: number; valueUsd: number; priceUsd: number }
+  >();
+
+  for (const asset of assets) {
+    const current = bySymbol.get(asset.symbol) ?? {
+      symbol: asset.symbol,
+      balance: 0,
+      valueUsd: 0,
+      priceUsd: asset.priceUsd,
+    };
+    current.balance += asset.balance;
+    current.valueUsd += asset.valueUsd;
+    bySymbol.set(asset.symbol, current);
+  }
+
+  return bySymbol;
+};
+
+/**
+ * Service for the value of users' wallets over time. A background job
+ * snapshots balances from the local ledger, and the history is built from
+ * those snapshots.
+ */
+export class PortfolioService {
+  private ratesService?: RatesService;
+
+  /**
+   * Snapshots the wallet balances and USD values of every user with a
+   * wallet. Snapshots are keyed to the start of the interval, so running
+   * this twice in one interval updates the same snapshot.
+   *
+   * @param intervalMs - Snapshot interval in milliseconds
+   * @returns Number of users snapshotted
+   */
+  async snapshotAll(intervalMs: number) {
+    const takenAt = new Date(Math.floor(Date.now() / intervalMs) * intervalMs);
+    const expiresAt = new Date(takenAt.getTime() + RETENTION_DAYS * DAY_MS);
+
+    this.ratesService = this.ratesService || new RatesService();
+    const prices = new Map(
+      (await this.ratesService.getAllPrices()).map((price) => [
+        price.symbol.toUpperCase(),
+        price.price,
+      ])
+    );
+
+    const userIds: Types.ObjectId[] = await UserWallet.distinct("user");
+    let count = 0;
+
+    for (let i = 0; i < userIds.length; i += USER_BATCH_SIZE) {
+      const batch = userIds.slice(i, i + USER_BATCH_SIZE);
+      const wallets = await UserWallet.find(
+        { user: { $in: batch }, sourceAccountId: { $exists: true, $ne: null } },
+        { user: 1, symbol: 1, network: 1, sourceAccountId: 1 }
+      );
+      const balances = await LedgerBalance.find({
+        accountId: { $in: wallets.map((wallet) => wallet.sourceAccountId) },
+      });
+      const balanceByAccount = new Map(
+        balances.map((balance) => [
+          `${balance.accountId}:${balance.symbol}`,
+          toNumber(balance.availableBalance),
+        ])
+      );
+
+      const assetsByUser = new Map<string, PortfolioSnapshotAsset[]>();
+      for (const wallet of wallets) {
+        const symbol = wallet.symbol.toUpperCase();
+        const balance =
+          balanceByAccount.get(`${wallet.sourceAccountId}:${symbol}`) ?? 0;
+        const priceUsd = prices.get(symbol) ?? 0;
+
+        const assets = assetsByUser.get(wallet.user.toString()) ?? [];
+        assets.push({
+          wallet: wallet._id as Types.ObjectId,
+          symbol,
+          network: wallet.network,
+          balance,
+          priceUsd,
+          valueUsd: balance * priceUsd,
+        });
+        assetsByUser.set(wallet.user.toString(), assets);
+      }
+
+      const operations = [...assetsByUser].map(([user, assets]) => ({
+        updateOne: {
+          filter: { user: new Types.ObjectId(user), takenAt },
+          update: {
+            $set: {
+              assets,
+              totalUsd: assets.reduce((sum, asset) => sum + asset.valueUsd, 0),
+              expiresAt,
+            },
+          },
+          upsert: true,
+        },
+      }));
+
+      if (operations.length) {
+        await PortfolioSnapshot.bulkWrite(operations, { ordered: false });
+        count += operations.length;
+      }
+    }
+
+    return count;
+  }
+
+  /**
+   * Gets the value of the user's wallets over a range, one point per
+   * interval from the last snapshot in it. Values are stored in USD and
+   * converted to other currencies at the current rate.
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param params - Range, interval and currency of the history
+   * @returns Points oldest first, with a per-asset breakdown and changes
+   */
+  async getHistory(
+    userId: string | Types.ObjectId,
+    {
+      range,
+      interval,
+      currency = BASE_CURRENCY,
+    }: {
+      range: PortfolioRange;
+      interval?: PortfolioInterval;
+      currency?: string;
+    }
+  ) {
+    if (!RANGE_DAYS[range]) {
+      throw new ValidationError(
+        `Range must be one of ${Object.keys(RANGE_DAYS).join(", ")}`,
+        { range },
+        "PORTFOLIO_RANGE_INVALID"
+      );
+    }
+
+    const bucket = interval || DEFAULT_INTERVALS[range];
+    if (!INTERVAL_MS[bucket]) {
+      throw new ValidationError(
+        `Interval must be one of ${Object.keys(INTERVAL_MS).join(", ")}`,
+        { interval },
+        "PORTFOLIO_INTERVAL_INVALID"
+      );
+    }
+
+    const rangeMs = RANGE_DAYS[range] * DAY_MS;
+    if (rangeMs / INTERVAL_MS[bucket] > MAX_POINTS) {
+      throw new ValidationError(
+        `A ${range} range with a ${bucket} interval has more than ${MAX_POINTS} points, use a longer interval`,
+        { range, interval: bucket },
+        "PORTFOLIO_TOO_MANY_POINTS"
+      );
+    }
+
+    const code = currency.trim().toUpperCase();
+    const rate = await this.getRateFromUsd(code);
+
+    const to = new Date();
+    const from = new Date(to.getTime() - rangeMs);
+
+    const buckets = await PortfolioSnapshot.aggregate([
+      {
+        $match: {
+          user: new Types.ObjectId(userId.toString()),
+          takenAt: { $gte: from },
+        },
+      },
+      { $sort: { takenAt: 1 } },
+      {
+        $group: {
+          _id: {
+            $dateTrunc: {
+              date: "$takenAt",
+              unit: bucket,
+              ...(bucket === "week" && { startOfWeek: "monday" }),
+            },
+          },
+          snapshot: { $last: "$$ROOT" },
+        },
+      },
+      { $sort: { _id: 1 } },
+    ]);
+
+    const first = buckets[0]?.snapshot;
+    const firstAssets = groupBySymbol(first?.assets ?? []);
+    const startValue = (first?.totalUsd ?? 0) * rate;
+
+    let previousValue: number | null = null;
+    const points = buckets.map(({ _id, snapshot }) => {
+      const value = snapshot.totalUsd * rate;
+      const point = {
+        timestamp: _id.toISOString(),
+        takenAt: snapshot.takenAt.toISOString(),
+        value,
+        change: previousValue === null ? 0 : value - previousValue,
+        changePercent:
+          previousValue === null ? null : percentChange(previousValue, value),
+        assets: [...groupBySymbol(snapshot.assets).values()]
+          .map((asset) => ({
+            symbol: asset.symbol,
+            balance: asset.balance,
+            price: asset.priceUsd * rate,
+            value: asset.valueUsd * rate,
+            share: snapshot.totalUsd ? asset.valueUsd / snapshot.totalUsd : 0,
+          }))
+          .sort((a, b) => b.value - a.value),
+      };
+      previousValue = value;
+      return point;
+    });
+
+    const last = points[points.length - 1];
+    const endValue = last?.value ?? 0;
+    const values = points.map((point) => point.value);
+
+    return {
+      range,
+      interval: bucket,
+      currency: code,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      startValue,
+      endValue,
+      change: endValue - startValue,
+      changePercent: percentChange(startValue, endValue),
+      high: values.length ? Math.max(...values) : 0,
+      low: values.length ? Math.min(...values) : 0,
+      // Change of each asset currently held over the whole range
+      assets: (last?.assets ?? []).map((asset) => {
+        const start = (firstAssets.get(asset.symbol)?.valueUsd ?? 0) * rate;
+        return {
+          ...asset,
+          startValue: start,
+          change: asset.value - start,
+          changePercent: percentChange(start, asset.value),
+        };
+      }),
+      points,
+    };
+  }
+
+  /**
+   * Units of a currency one US dollar buys at the current rate
+   */
+  private async getRateFromUsd(currency: string) {
+    if (currency === BASE_CURRENCY) return 1;
+
+    try {
+      this.ratesService = this.ratesService || new RatesService();
+      const { convertedAmount } = await this.ratesService.convertCurrency({
+        fromSymbol: BASE_CURRENCY,
+        toSymbol: currency,
+        amount: 1,
+      });
+      return convertedAmount;
+    } catch (error) {
+      throw new ValidationError(
+        `No exchange rate found for ${currency}`,
+        { currency },
+        "PORTFOLIO_CURRENCY_UNSUPPORTED"
+      );
+    }
+  }
+}
@@ -0,0 +1,454 @@
+// ./src/services/priceAlert.services.ts
+
+import { Types } from "mongoose";
+import PriceAlert from "../models/priceAlert.model.js";
+import User from "../models/user.model.js";
+import {
+  PriceAlertChannel,
+  PriceAlertCondition,
+  PriceAlertDocument,
+} from "../types/priceAlert.js";
+import { RatesService } from "./rates.services.js";
+import { NotificationService } from "./notification.services.js";
+import { PriceHistoryService } from "./priceHistory.services.js";
+import {
+  BadRequestError,
+  NotFoundError,
+  ValidationError,
+} from "./error.services.js";
+import { EmailService } from "../utils/emails/index.js";
+import { escapeHtml } from "../utils/format.js";
+
+const APP_NAME = process.env.APP_NAME || "Application";
+const DEFAULT_COOLDOWN_MINUTES =
+  Number(process.env.PRICE_ALERT_COOLDOWN_MINUTES) || 60;
+const MAX_ALERTS_PER_USER = Number(process.env.PRICE_ALERT_MAX_PER_USER) || 50;
+const BASE_CURRENCY = "USD";
+const CONDITIONS: PriceAlertCondition[] = ["above", "below", "percent_change"];
+const CHANNELS: PriceAlertChannel[] = ["email", "in_app"];
+
+const HOUR_MS = 60 * 60 * 1000;
+const CHANGE_WINDOW_MS = 24 * HOUR_MS;
+// How far past 24 hours a stored price can be and still count as the 24 hour price
+const REFERENCE_TOLERANCE_MS = HOUR_MS;
+
+export interface PriceAlertInput {
+  symbol?: string;
+  currency?: string;
+  condition?: PriceAlertCondition;
+  targetPrice?: number | null;
+  percentChange?: number | null;
+  channels?: PriceAlertChannel[];
+  enabled?: boolean;
+  recurring?: boolean;
+  cooldownMinutes?: number;
+  note?: string | null;
+}
+
+const formatPrice = (price: number, currency: string) =>
+  `${price.toLocaleString("en-US", { maximumFractionDigits: price < 1 ? 8 : 2 })} ${currency}`;
+
+/**
+ * Service for price alerts. A worker checks enabled alerts against current
+ * prices and tells users by email and in the app. An alert fires once when
+ * its condition starts to hold, and again only after the condition stopped
+ * holding and the cooldown passed.
+ */
+export class PriceAlertService {
+  private ratesService?: RatesService;
+  private priceHistoryService?: PriceHistoryService;
+  private notificationService = new NotificationService();
+
+  /**
+   * Creates a price alert
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param input - Symbol, fiat currency, condition and its level
+   */
+  async createAlert(userId: string | Types.ObjectId, input: PriceAlertInput) {
+    const count = await PriceAlert.countDocuments({ user: userId });
+    if (count >= MAX_ALERTS_PER_USER) {
+      throw new BadRequestError(
+        `You can have at most ${MAX_ALERTS_PER_USER} price alerts`,
+        undefined,
+        "PRICE_ALERT_LIMIT_REACHED"
+      );
+    }
+
+    const symbol = input.symbol?.trim().toUpperCase();
+    const currency = (input.currency || BASE_CURRENCY).trim().toUpperCase();
+    if (!symbol) {
+      throw new ValidationError(
+        "Symbol is required",
+        undefined,
+        "PRICE_ALERT_SYMBOL_REQUIRED"
+      );
+    }
+
+    const prices = await this.getPrices();
+    if (!prices.crypto.has(symbol)) {
+      throw new ValidationError(
+        `No price found for ${symbol}`,
+        { symbol },
+        "PRICE_ALERT_SYMBOL_UNSUPPORTED"
+      );
+    }
+    if (!prices.fiat.has(currency)) {
+      throw new ValidationError(
+        `No exchange rate found for ${currency}`,
+        { currency },
+        "PRICE_ALERT_CURRENCY_UNSUPPORTED"
+      );
+    }
+
+    const values = this.validate({
+      condition: input.condition,
+      targetPrice: input.targetPrice,
+      percentChange: input.percentChange,
+      channels: input.channels || CHANNELS,
+      cooldownMinutes: input.cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES,
+    });
+
+    return PriceAlert.create({
+      user: userId,
+      symbol,
+      currency,
+      ...values,
+      recurring: input.recurring ?? true,
+      note: input.note?.trim() || undefined,
+    });
+  }
+
+  /**
+   * Updates a price alert. Changing its level arms it again.
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param id - Price alert id
+   * @param input - Fields to change, the symbol and currency can't change
+   */
+  async updateAlert(
+    userId: string | Types.ObjectId,
+    id: string,
+    input: PriceAlertInput
+  ) {
+    const alert = await this.getAlert(userId, id);
+
+    const values = this.validate({
+      condition: input.condition ?? alert.condition,
+      targetPrice:
+        input.targetPrice !== undefined ? input.targetPrice : alert.targetPrice,
+      percentChange:
+        input.percentChange !== undefined
+          ? input.percentChange
+          : alert.percentChange,
+      channels: input.channels ?? alert.channels,
+      cooldownMinutes: input.cooldownMinutes ?? alert.cooldownMinutes,
+    });
+
+    const levelChanged =
+      values.condition !== alert.condition ||
+      values.targetPrice !== alert.targetPrice ||
+      values.percentChange !== alert.percentChange;
+
+    alert.set({
+      ...values,
+      ...(input.enabled !== undefined && { enabled: input.enabled }),
+      ...(input.recurring !== undefined && { recurring: input.recurring }),
+      ...(input.note !== undefined && {
+        note: input.note?.trim() || undefined,
+      }),
+      ...((levelChanged || input.enabled) && { armed: true }),
+    });
+
+    return alert.save();
+  }
+
+  /**
+   * Deletes a price alert
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param id - Price alert id
+   */
+  async deleteAlert(userId: string | Types.ObjectId, id: string) {
+    const alert = await this.getAlert(userId, id);
+    await alert.deleteOne();
+    return true;
+  }
+
+  /**
+   * Gets the user's price alerts, newest first
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param filter - Optional symbol and enabled filters
+   */
+  async getAlerts(
+    userId: string | Types.ObjectId,
+    { symbol, enabled }: { symbol?: string; enabled?: boolean } = {}
+  ) {
+    return PriceAlert.find({
+      user: userId,
+      ...(symbol && { symbol: symbol.toUpperCase() }),
+      ...(enabled !== undefined && enabled !== null && { enabled }),
+    }).sort({ createdAt: -1 });
+  }
+
+  /**
+   * Gets a price alert of the user
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param id - Price alert id
+   */
+  async getAlert(userId: string | Types.ObjectId, id: string) {
+    const alert = Types.ObjectId.isValid(id)
+      ? await PriceAlert.findOne({ _id: id, user: userId })
+      : null;
+    if (!alert) throw new NotFoundError("Price alert not found");
+    return alert;
+  }
+
+  /**
+   * Checks every enabled alert against current prices and fires those whose
+   * condition started to hold. The 24 hour change is measured against the
+   * price history.
+   *
+   * @returns Number of alerts fired
+   */
+  async evaluateAlerts() {
+    const hasAlerts = await PriceAlert.exists({ enabled: true });
+    if (!hasAlerts) return 0;
+
+    const now = new Date();
+    const prices = await this.getPrices();
+    this.priceHistoryService =
+      this.priceHistoryService || new PriceHistoryService();
+    const reference = await this.priceHistoryService.getUsdRatesAt(
+      new Date(now.getTime() - CHANGE_WINDOW_MS),
+      REFERENCE_TOLERANCE_MS
+    );
+
+    let fired = 0;
+    const cursor = PriceAlert.find({ enabled: true }).cursor();
+
+    for await (const alert of cursor) {
+      const priceUsd = prices.crypto.get(alert.symbol);
+      const rate = prices.fiat.get(alert.currency);
+      if (!priceUsd || !rate) continue;
+
+      const price = priceUsd / rate;
+      const base = reference.get(alert.symbol);
+      // The 24 hour change is measured on the USD price
+      const change = base ? ((priceUsd - base) / base) * 100 : null;
+
+      const met =
+        (alert.condition === "above" && price >= alert.targetPrice) ||
+        (alert.condition === "below" && price <= alert.targetPrice) ||
+        (alert.condition === "percent_change" &&
+          change !== null &&
+          Math.abs(change) >= alert.percentChange);
+
+      if (!met) {
+        await PriceAlert.updateOne(
+          { _id: alert._id },
+          { $set: { lastPrice: price, lastCheckedAt: now, armed: true } }
+        );
+        continue;
+      }
+
+      const cooldownStart = new Date(
+        now.getTime() - alert.cooldownMinutes * 60 * 1000
+      );
+
+      // Claim the alert so a concurrent run can't fire it too
+      const claimed = await PriceAlert.findOneAndUpdate(
+        {
+          _id: alert._id,
+          enabled: true,
+          armed: true,
+          $or: [
+            { lastTriggeredAt: null },
+            { lastTriggeredAt: { $lte: cooldownStart } },
+          ],
+        },
+        {
+          $set: {
+            armed: false,
+            lastPrice: price,
+            lastCheckedAt: now,
+            lastTriggeredAt: now,
+            lastTriggeredPrice: price,
+            ...(!alert.recurring && { enabled: false }),
+          },
+          $inc: { triggerCount: 1 },
+        },
+        { new: true }
+      );
+
+      if (!claimed) {
+        await PriceAlert.updateOne(
+          { _id: alert._id },
+          { $set: { lastPrice: price, lastCheckedAt: now } }
+        );
+        continue;
+      }
+
+      await this.deliver(claimed, price, change);
+      fired++;
+    }
+
+    return fired;
+  }
+
+  /**
+   * Checks an alert's condition, level, channels and cooldown
+   */
+  private validate({
+    condition,
+    targetPrice,
+    percentChange,
+    channels,
+    cooldownMinutes,
+  }: {
+    condition?: PriceAlertCondition;
+    targetPrice?: number | null;
+    percentChange?: number | null;
+    channels: PriceAlertChannel[];
+    cooldownMinutes: number;
+  }) {
+    if (!CONDITIONS.includes(condition)) {
+      throw new ValidationError(
+        `Condition must be one of ${CONDITIONS.join(", ")}`,
+        { condition },
+        "PRICE_ALERT_CONDITION_INVALID"
+      );
+    }
+
+    if (condition === "percent_change") {
+      if (!(percentChange > 0)) {
+        throw new ValidationError(
+          "Percent change alerts need a percentChange above 0",
+          { percentChange },
+          "PRICE_ALERT_LEVEL_INVALID"
+        );
+      }
+    } else if (!(targetPrice > 0)) {
+      throw new ValidationError(
+        "Above and below alerts need a targetPrice above 0",
+        { targetPrice },
+        "PRICE_ALERT_LEVEL_INVALID"
+      );
+    }
+
+    const uniqueChannels = [...new Set(channels)];
+    if (
+      !uniqueChannels.length ||
+      uniqueChannels.some((channel) => !CHANNELS.includes(channel))
+    ) {
+      throw new ValidationError(
+        `Channels must be one or more of ${CHANNELS.join(", ")}`,
+        { channels },
+        "PRICE_ALERT_CHANNEL_INVALID"
+      );
+    }
+
+    if (!(cooldownMinutes >= 1)) {
+      throw new ValidationError(
+        "Cooldown must be at least 1 minute",
+        { cooldownMinutes },
+        "PRICE_ALERT_COOLDOWN_INVALID"
+      );
+    }
+
+    return {
+      condition,
+      targetPrice: condition === "percent_change" ? undefined : targetPrice,
+      percentChange: condition === "percent_change" ? percentChange : undefined,
+      channels: uniqueChannels,
+      cooldownMinutes,
+    };
+  }
+
+  /**
+   * Gets USD prices of crypto symbols and the USD value of one unit of each
+   * fiat currency
+   */
+  private async getPrices() {
+    this.ratesService = this.ratesService || new RatesService();
+    const [crypto, fiat] = await Promise.all([
+      this.ratesService.getAllPrices(),
+      this.ratesService.getAllFiatPrices(),
+    ]);
+
+    return {
+      crypto: new Map(
+        crypto.map((price) => [price.symbol.toUpperCase(), price.price])
+      ),
+      fiat: new Map([
+        ...fiat.map(
+          (price) => [price.symbol.toUpperCase(), price.rate_to_usd] as const
+        ),
+        [BASE_CURRENCY, 1] as const,
+      ]),
+    };
+  }
+
+  /**
+   * Tells the user an alert fired on each of its channels
+   */
+  private async deliver(
+    alert: PriceAlertDocument,
+    price: number,
+    change: number | null
+  ) {
+    const current = formatPrice(price, alert.currency);
+    const title =
+      alert.condition === "percent_change"
+        ? `${alert.symbol} moved ${change.toFixed(2)}% in 24 hours`
+        : `${alert.symbol} is ${alert.condition} ${formatPrice(alert.targetPrice, alert.currency)}`;
+    const body = `${alert.symbol} is now ${current}.${alert.note ? ` ${alert.note}` : ""}`;
+
+    if (alert.channels.includes("in_app")) {
+      try {
+        await this.notificationService.notify(alert.user, {
+          type: "price_alert",
+          title,
+          body,
+          data: {
+            alertId: alert._id.toString(),
+            symbol: alert.symbol,
+            currency: alert.currency,
+            condition: alert.condition,
+            price,
+            change,
+          },
+        });
+      } catch (error) {
+        console.error("Failed to create price alert notification:", error);
+      }
+    }
+
+    if (alert.channels.includes("email")) {
+      try {
+        const user = await User.findById(alert.user);
+        if (!user?.email) return;
+
+        const name = user.firstName || user.email.split("@")[0];
+
+        const emailService = new EmailService();
+        await emailService.sendEmail({
+          subject: `${APP_NAME} - ${title}`,
+          htmlBody: emailService.generateMinimalistTemplate({
+            title: "Price alert",
+            content: `
+            <p>Hi ${escapeHtml(name)},</p>
+            <p>${escapeHtml(title)}. ${escapeHtml(body)}</p>
+            <p>${alert.recurring ? `This alert fires again once the condition stops holding and starts again, at most every ${alert.cooldownMinutes} minutes.` : "This alert is now turned off."}</p>
+          `,
+          }),
+          to: { email: user.email, name },
+        });
+      } catch (error) {
+        console.error("Failed to send price alert email:", error);
+      }
+    }
+  }
+}
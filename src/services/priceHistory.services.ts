@@ -0,0 +1,366 @@
+// ./src/services/priceHistory.services.ts
+
+import { logger } from "@untools/logger";
+import PriceHistory from "../models/priceHistory.model.js";
+import {
+  PriceCandleInterval,
+  PriceHistoryType,
+  PriceRange,
+} from "../types/priceHistory.js";
+import { RatesService } from "./rates.services.js";
+import { NotFoundError, ValidationError } from "./error.services.js";
+
+const BASE_CURRENCY = "USD";
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const PRICE_HISTORY_INTERVAL_MS =
+  Number(process.env.PRICE_HISTORY_INTERVAL_MS) || 5 * 60 * 1000;
+// A stored price is only used for times up to this long after it was
+// recorded. It always covers two recording intervals, so one missed run
+// doesn't leave a gap.
+const MAX_SAMPLE_AGE_MS = Math.max(
+  Number(process.env.PRICE_HISTORY_MAX_SAMPLE_AGE_MS) || 60 * 60 * 1000,
+  2 * PRICE_HISTORY_INTERVAL_MS
+);
+const RETENTION_DAYS = Number(process.env.PRICE_HISTORY_RETENTION_DAYS) || 400;
+const MAX_CANDLES = 1000;
+
+const RANGE_DAYS: Record<PriceRange, number> = {
+  day: 1,
+  week: 7,
+  month: 30,
+  quarter: 90,
+  year: 365,
+};
+
+const INTERVALS: Record<
+  PriceCandleInterval,
+  { unit: "minute" | "hour" | "day" | "week"; binSize: number; ms: number }
+> = {
+  fifteen_minutes: { unit: "minute", binSize: 15, ms: 15 * 60 * 1000 },
+  hour: { unit: "hour", binSize: 1, ms: 60 * 60 * 1000 },
+  four_hours: { unit: "hour", binSize: 4, ms: 4 * 60 * 60 * 1000 },
+  day: { unit: "day", binSize: 1, ms: DAY_MS },
+  week: { unit: "week", binSize: 1, ms: 7 * DAY_MS },
+};
+
+const DEFAULT_INTERVALS: Record<PriceRange, PriceCandleInterval> = {
+  day: "fifteen_minutes",
+  week: "hour",
+  month: "four_hours",
+  quarter: "day",
+  year: "day",
+};
+
+/**
+ * Service for stored crypto and fiat prices. A background job records the
+ * current prices, so valuations and charts can use the price at any past
+ * time.
+ */
+export class PriceHistoryService {
+  private ratesService?: RatesService;
+
+  /**
+   * Stores the current USD price of every crypto symbol and fiat currency.
+   * Prices are keyed to the start of the interval, so running this twice in
+   * one interval keeps the first prices. Lists served stale during a rates
+   * outage are skipped.
+   *
+   * @param intervalMs - Sampling interval in milliseconds
+   * @returns Number of prices stored
+   */
+  async recordPrices(intervalMs: number = PRICE_HISTORY_INTERVAL_MS) {
+    const recordedAt = new Date(
+      Math.floor(Date.now() / intervalMs) * intervalMs
+    );
+    const expiresAt = new Date(recordedAt.getTime() + RETENTION_DAYS * DAY_MS);
+
+    this.ratesService = this.ratesService || new RatesService();
+    const [crypto, fiat] = await Promise.allSettled([
+      this.ratesService.getAllPricesWithMeta(),
+      this.ratesService.getAllFiatPricesWithMeta(),
+    ]);
+
+    const samples = new Map<
+      string,
+      { type: PriceHistoryType; usdRate: number; provider: string }
+    >();
+
+    if (fiat.status === "fulfilled" && !fiat.value.meta.stale) {
+      for (const price of fiat.value.data) {
+        if (!(price.rate_to_usd > 0)) continue;
+        samples.set(price.symbol.toUpperCase(), {
+          type: "fiat",
+          usdRate: price.rate_to_usd,
+          provider: fiat.value.meta.provider,
+        });
+      }
+    }
+
+    // A symbol in both lists is stored as crypto
+    if (crypto.status === "fulfilled" && !crypto.value.meta.stale) {
+      for (const price of crypto.value.data) {
+        if (!(price.price > 0)) continue;
+        samples.set(price.symbol.toUpperCase(), {
+          type: "crypto",
+          usdRate: price.price,
+          provider: crypto.value.meta.provider,
+        });
+      }
+    }
+
+    if (!samples.size) {
+      if (crypto.status === "rejected") throw crypto.reason;
+      logger.warn("No fresh prices to record in the price history");
+      return 0;
+    }
+
+    await PriceHistory.bulkWrite(
+      [...samples].map(([symbol, sample]) => ({
+        updateOne: {
+          filter: { symbol, recordedAt },
+          update: { $setOnInsert: { ...sample, expiresAt } },
+          upsert: true,
+        },
+      })),
+      { ordered: false }
+    );
+
+    return samples.size;
+  }
+
+  /**
+   * Gets the price of a symbol at a past time, from the last prices stored
+   * at or before it. The currency can be fiat or crypto, and its price from
+   * the same time is used.
+   *
+   * @param symbol - Crypto symbol or fiat currency
+   * @param at - Time of the price, ISO date
+   * @param currency - Currency of the price, USD by default
+   * @throws NotFoundError if no price was stored close enough before the time
+   */
+  async getHistoricalPrice(
+    symbol: string,
+    at: string | Date,
+    currency: string = BASE_CURRENCY
+  ) {
+    const date = new Date(at);
+    if (isNaN(date.getTime()) || date.getTime() > Date.now()) {
+      throw new ValidationError(
+        "Time must be a valid ISO date that is not in the future",
+        { at },
+        "PRICE_HISTORY_DATE_INVALID"
+      );
+    }
+
+    const base = symbol.trim().toUpperCase();
+    const quote = currency.trim().toUpperCase();
+
+    const [baseSample, quoteSample] = await Promise.all([
+      this.findSample(base, date),
+      quote === BASE_CURRENCY ? null : this.findSample(quote, date),
+    ]);
+
+    const missing = !baseSample
+      ? base
+      : quote !== BASE_CURRENCY && !quoteSample
+        ? quote
+        : null;
+    if (missing) {
+      throw new NotFoundError(
+        `No stored price for ${missing} at ${date.toISOString()}`,
+        undefined,
+        "PRICE_HISTORY_NOT_FOUND"
+      );
+    }
+
+    const currencyUsdRate = quoteSample?.usdRate ?? 1;
+
+    return {
+      symbol: base,
+      currency: quote,
+      at: date.toISOString(),
+      price: baseSample.usdRate / currencyUsdRate,
+      usdRate: baseSample.usdRate,
+      currencyUsdRate,
+      recordedAt: baseSample.recordedAt.toISOString(),
+      provider: baseSample.provider,
+    };
+  }
+
+  /**
+   * Gets the USD price of a symbol at a past time, or null if none was
+   * stored close enough before it
+   *
+   * @param symbol - Crypto symbol or fiat currency
+   * @param at - Time of the price
+   */
+  async getUsdRateAt(symbol: string, at: Date): Promise<number | null> {
+    const code = symbol.trim().toUpperCase();
+    if (code === BASE_CURRENCY) return 1;
+
+    const sample = await this.findSample(code, at);
+    return sample?.usdRate ?? null;
+  }
+
+  /**
+   * Gets the USD price of every symbol at a past time
+   *
+   * @param at - Time of the prices
+   * @param maxAgeMs - How long before the time a price can be recorded
+   * @returns USD price per symbol
+   */
+  async getUsdRatesAt(at: Date, maxAgeMs: number = MAX_SAMPLE_AGE_MS) {
+    const samples = await PriceHistory.aggregate([
+      {
+        $match: {
+          recordedAt: { $lte: at, $gte: new Date(at.getTime() - maxAgeMs) },
+        },
+      },
+      { $sort: { recordedAt: -1 } },
+      { $group: { _id: "$symbol", usdRate: { $first: "$usdRate" } } },
+    ]);
+
+    return new Map<string, number>(
+      samples.map((sample) => [sample._id, sample.usdRate])
+    );
+  }
+
+  /**
+   * Builds open, high, low and close candles of a symbol's price from the
+   * stored prices
+   *
+   * @param symbol - Crypto symbol or fiat currency
+   * @param params - Range, interval and currency of the candles
+   * @returns Candles oldest first, and the change over the range
+   */
+  async getCandles(
+    symbol: string,
+    {
+      range,
+      interval,
+      currency = BASE_CURRENCY,
+    }: {
+      range: PriceRange;
+      interval?: PriceCandleInterval;
+      currency?: string;
+    }
+  ) {
+    if (!RANGE_DAYS[range]) {
+      throw new ValidationError(
+        `Range must be one of ${Object.keys(RANGE_DAYS).join(", ")}`,
+        { range },
+        "PRICE_CANDLES_RANGE_INVALID"
+      );
+    }
+
+    const bucket = interval || DEFAULT_INTERVALS[range];
+    const options = INTERVALS[bucket];
+    if (!options) {
+      throw new ValidationError(
+        `Interval must be one of ${Object.keys(INTERVALS).join(", ")}`,
+        { interval },
+        "PRICE_CANDLES_INTERVAL_INVALID"
+      );
+    }
+
+    const rangeMs = RANGE_DAYS[range] * DAY_MS;
+    if (rangeMs / options.ms > MAX_CANDLES) {
+      throw new ValidationError(
+        `A ${range} range with a ${bucket} interval has more than ${MAX_CANDLES} candles, use a longer interval`,
+        { range, interval: bucket },
+        "PRICE_CANDLES_TOO_MANY"
+      );
+    }
+
+    const base = symbol.trim().toUpperCase();
+    const quote = currency.trim().toUpperCase();
+    const to = new Date();
+    const from = new Date(to.getTime() - rangeMs);
+
+    const candles = await PriceHistory.aggregate([
+      { $match: { symbol: base, recordedAt: { $gte: from } } },
+      // Prices from one run share recordedAt, so the currency's price from
+      // the same run converts each sample
+      ...(quote === BASE_CURRENCY
+        ? [{ $set: { price: "$usdRate" } }]
+        : [
+            {
+              $lookup: {
+                from: PriceHistory.collection.name,
+                let: { recordedAt: "$recordedAt" },
+                pipeline: [
+                  {
+                    $match: {
+                      symbol: quote,
+                      $expr: { $eq: ["$recordedAt", "$$recordedAt"] },
+                    },
+                  },
+                  { $project: { usdRate: 1 } },
+                ],
+                as: "quote",
+              },
+            },
+            { $unwind: "$quote" },
+            {
+              $set: { price: { $divide: ["$usdRate", "$quote.usdRate"] } },
+            },
+          ]),
+      { $sort: { recordedAt: 1 } },
+      {
+        $group: {
+          _id: {
+            $dateTrunc: {
+              date: "$recordedAt",
+              unit: options.unit,
+              binSize: options.binSize,
+              ...(options.unit === "week" && { startOfWeek: "monday" }),
+            },
+          },
+          open: { $first: "$price" },
+          high: { $max: "$price" },
+          low: { $min: "$price" },
+          close: { $last: "$price" },
+          samples: { $sum: 1 },
+        },
+      },
+      { $sort: { _id: 1 } },
+    ]);
+
+    const open = candles[0]?.open ?? null;
+    const close = candles[candles.length - 1]?.close ?? null;
+
+    return {
+      symbol: base,
+      currency: quote,
+      range,
+      interval: bucket,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      open,
+      close,
+      change: open !== null ? close - open : null,
+      changePercent: open ? ((close - open) / open) * 100 : null,
+      candles: candles.map((candle) => ({
+        time: candle._id.toISOString(),
+        open: candle.open,
+        high: candle.high,
+        low: candle.low,
+        close: candle.close,
+        samples: candle.samples,
+      })),
+    };
+  }
+
+  /**
+   * Finds the last stored price of a symbol at or before a time
+   */
+  private async findSample(symbol: string, at: Date) {
+    return PriceHistory.findOne({
+      symbol,
+      recordedAt: {
+        $lte: at,
+        $gte: new Date(at.getTime() - MAX_SAMPLE_AGE_MS),
+      },
+    }).sort({ recordedAt: -1 });
+  }
+}
@@ -1,115 +1,232 @@
 /**
  * RatesService
  *
- * A TypeScript service class for interacting with the Cryptocurrency Price API.
+ * A TypeScript service class for cryptocurrency and fiat prices.
  * This service provides methods to retrieve cryptocurrency prices, update margins,
  * trigger manual price updates, and handle fiat currency conversions.
  *
- * Authentication is handled via API key, which should be passed to all requests.
+ * Prices come from an ordered chain of rates providers. When one fails, the
+ * next one is tried.
  *
- * @version 1.0.0
+ * @version 1.1.0
  */
 
 import { logger } from "@untools/logger";
 import {
+  ConversionRate,
   CryptoPrice,
   FiatPrice,
+  RatesMeta,
   SimpleConversionResult,
   UpdatePriceResponse,
   UpdateSpecificCoinResponse,
 } from "../types/rates.js";
+import { CachedResult, StaleCache } from "../utils/cache.js";
+import { createRatesProviders, RatesProvider } from "../utils/rates/index.js";
+import {
+  AmountLike,
+  convertAmount,
+  DEFAULT_DECIMALS,
+  FIAT_DECIMALS,
+  toNumber,
+} from "../utils/money.js";
+
+// Set to 0 to turn off comparing providers
+const DISAGREEMENT_THRESHOLD_PERCENT = Number(
+  process.env.RATES_DISAGREEMENT_THRESHOLD_PERCENT ?? 5
+);
+
+interface ProviderResult<T> {
+  data: T;
+  provider: string;
+}
+
+// Shared by every RatesService instance, so a page of wallet balances
+// fetches the price list once
+const cache = new StaleCache<ProviderResult<unknown>>({
+  ttlMs: Number(process.env.RATES_CACHE_TTL_MS) || 30 * 1000,
+  staleWhileRevalidateMs:
+    Number(process.env.RATES_CACHE_STALE_WHILE_REVALIDATE_MS) || 30 * 1000,
+  staleIfErrorMs:
+    Number(process.env.RATES_CACHE_STALE_IF_ERROR_MS) || 60 * 60 * 1000,
+});
 
-const RATES_API_URL = process.env.RATES_API || "";
-const API_KEY = process.env.RATES_API_KEY || "";
+const toMeta = (result: CachedResult<ProviderResult<unknown>>): RatesMeta => ({
+  fetchedAt: result.fetchedAt.toISOString(),
+  ageSeconds: Math.round(result.ageMs / 1000),
+  stale: result.stale,
+  provider: result.value.provider,
+});
 
 /**
- * RatesService class for interacting with the cryptocurrency price API
+ * RatesService class for cryptocurrency and fiat prices
  */
 export class RatesService {
-  private readonly baseUrl: string;
-  private readonly apiKey: string;
+  private readonly providers: RatesProvider[];
+  private readonly cacheKey: string;
 
   /**
    * Create a new instance of RatesService
    *
-   * @param baseUrl - The base URL of the API
-   * @param apiKey - The API key required for authentication
+   * @param providers - Rates providers in failover order, from RATES_PROVIDERS by default
    */
-  constructor(baseUrl: string = RATES_API_URL, apiKey: string = API_KEY) {
-    this.baseUrl = baseUrl;
-    this.apiKey = apiKey;
-
-    if (!apiKey) {
-      throw new Error("API key is required for RatesService");
+  constructor(providers: RatesProvider[] = createRatesProviders()) {
+    if (!providers.length) {
+      throw new Error("At least one rates provider is required");
     }
+
+    this.providers = providers;
+    this.cacheKey = providers.map((provider) => provider.name).join(",");
   }
 
   /**
-   * Helper method to handle API errors
+   * Calls the providers in order until one succeeds
    *
-   * @param response - The fetch response object
-   * @returns The JSON response if successful
-   * @throws Error with appropriate message if the request fails
-   */
-  private async handleResponse<T>(response: Response): Promise<T> {
-    if (!response.ok) {
-      // Try to parse error response as JSON
-      const errorData = await response.json().catch(() => null);
-      const errorMessage = errorData
-        ? JSON.stringify(errorData)
-        : `HTTP error ${response.status}`;
-
-      // Handle specific error codes
-      if (response.status === 401) {
-        throw new Error("API Error: Unauthorized. Please check your API key.");
-      } else if (response.status === 403) {
-        throw new Error(
-          "API Error: Forbidden. Your API key might not have sufficient permissions."
-        );
-      } else {
-        throw new Error(`API Error: ${errorMessage}`);
+   * @param operation - Name of the call, for logs
+   * @param call - Calls one provider
+   * @returns The result and the name of the provider that gave it
+   * @throws The error of the only provider, or an error listing every failure
+   */
+  private async withFailover<T>(
+    operation: string,
+    call: (provider: RatesProvider) => Promise<T>
+  ): Promise<ProviderResult<T>> {
+    const failures: string[] = [];
+
+    for (const [index, provider] of this.providers.entries()) {
+      try {
+        return { data: await call(provider), provider: provider.name };
+      } catch (error) {
+        if (this.providers.length === 1) throw error;
+
+        const message = error instanceof Error ? error.message : String(error);
+        failures.push(`${provider.name}: ${message}`);
+        if (index < this.providers.length - 1) {
+          logger.warn(
+            `Rates provider ${provider.name} failed for ${operation}, trying the next one`,
+            message
+          );
+        }
       }
     }
 
-    return (await response.json()) as T;
+    throw new Error(
+      `All rates providers failed for ${operation}. ${failures.join("; ")}`
+    );
   }
 
   /**
-   * Helper method to create request options with proper authentication headers
-   *
-   * @param method - The HTTP method to use (default: 'GET')
-   * @param body - Optional request body for POST/PUT requests
-   * @returns Request options object with headers
-   */
-  private createRequestOptions(
-    method: string = "GET",
-    body?: any
-  ): RequestInit {
-    const options: RequestInit = {
-      method,
-      headers: {
-        "x-api-key": `${this.apiKey}`,
-        "Content-Type": "application/json",
-      },
-    };
+   * Fetches a price list with failover, then compares it with the other
+   * providers in the background
+   */
+  private async fetchList<T extends { symbol: string }>(
+    operation: string,
+    call: (provider: RatesProvider) => Promise<T[]>,
+    priceOf: (item: T) => number
+  ): Promise<ProviderResult<T[]>> {
+    const result = await this.withFailover(operation, call);
 
-    if (body) {
-      options.body = JSON.stringify(body);
+    if (this.providers.length > 1 && DISAGREEMENT_THRESHOLD_PERCENT > 0) {
+      this.compareProviders(operation, result, call, priceOf).catch((error) =>
+        logger.warn(`Comparing rates providers for ${operation} failed`, error)
+      );
     }
 
-    return options;
+    return result;
+  }
+
+  /**
+   * Logs the symbols whose price from another provider differs from the
+   * served price by more than RATES_DISAGREEMENT_THRESHOLD_PERCENT
+   */
+  private async compareProviders<T extends { symbol: string }>(
+    operation: string,
+    served: ProviderResult<T[]>,
+    call: (provider: RatesProvider) => Promise<T[]>,
+    priceOf: (item: T) => number
+  ) {
+    const servedPrices = new Map(
+      served.data.map((item) => [item.symbol.toUpperCase(), priceOf(item)])
+    );
+
+    for (const provider of this.providers) {
+      if (provider.name === served.provider) continue;
+
+      // A provider that is down is already reported by the failover
+      const other = await call(provider).catch(() => null);
+      if (!other) continue;
+
+      const disagreements = other
+        .map((item) => {
+          const symbol = item.symbol.toUpperCase();
+          const expected = servedPrices.get(symbol);
+          const price = priceOf(item);
+          if (!(expected > 0) || !(price > 0)) return null;
+
+          const differencePercent =
+            (Math.abs(price - expected) / expected) * 100;
+          return differencePercent > DISAGREEMENT_THRESHOLD_PERCENT
+            ? {
+                symbol,
+                [served.provider]: expected,
+                [provider.name]: price,
+                differencePercent: Number(differencePercent.toFixed(2)),
+              }
+            : null;
+        })
+        .filter(Boolean)
+        .sort((a, b) => b.differencePercent - a.differencePercent);
+
+      if (disagreements.length) {
+        logger.warn(
+          `Rates providers ${served.provider} and ${provider.name} disagree by more than ${DISAGREEMENT_THRESHOLD_PERCENT}% on ${disagreements.length} ${operation}`,
+          disagreements.slice(0, 10)
+        );
+      }
+    }
+  }
+
+  /**
+   * Gets a value from the shared cache, loading it from the providers
+   */
+  private async cached<T>(
+    key: string,
+    load: () => Promise<ProviderResult<T>>
+  ): Promise<CachedResult<ProviderResult<T>>> {
+    return cache.get(`${this.cacheKey}:${key}`, load) as Promise<
+      CachedResult<ProviderResult<T>>
+    >;
   }
 
   /**
    * Get all cryptocurrency prices
    *
    * @returns Promise resolving to an array of cryptocurrency prices
-   * @throws Error if the API request fails
+   * @throws Error if every provider fails
    */
   async getAllPrices(): Promise<CryptoPrice[]> {
-    const options = this.createRequestOptions("GET");
-    const response = await fetch(`${this.baseUrl}/api/prices`, options);
-    return this.handleResponse<CryptoPrice[]>(response);
+    return (await this.getAllPricesWithMeta()).data;
+  }
+
+  /**
+   * Get all cryptocurrency prices and how old they are. Prices come from the
+   * cache, and the last good prices are served while every provider is down.
+   *
+   * @returns Promise resolving to the prices and their age
+   * @throws Error if every provider fails and no recent prices are cached
+   */
+  async getAllPricesWithMeta(): Promise<{
+    data: CryptoPrice[];
+    meta: RatesMeta;
+  }> {
+    const result = await this.cached("prices", () =>
+      this.fetchList(
+        "prices",
+        (provider) => provider.getAllPrices(),
+        (item) => item.price
+      )
+    );
+    return { data: result.value.data, meta: toMeta(result) };
   }
 
   /**
@@ -118,45 +235,51 @@ export class RatesService {
    * @param symbol - The symbol of the cryptocurrency (e.g., 'BTC')
    * @param currency - Optional fiat currency to convert the price to (default: 'USD')
    * @returns Promise resolving to the cryptocurrency price information
-   * @throws Error if the API request fails or the symbol is not found
+   * @throws Error if every provider fails or the symbol is not found
    */
   async getPrice(symbol: string, currency?: string): Promise<CryptoPrice> {
-    const url = new URL(`${this.baseUrl}/api/price/${symbol}`);
-
-    if (currency) {
-      url.searchParams.append("currency", currency);
-    }
-
-    const options = this.createRequestOptions("GET");
-    const response = await fetch(url.toString(), options);
-    return this.handleResponse<CryptoPrice>(response);
+    const result = await this.cached(`price:${symbol}:${currency || ""}`, () =>
+      this.withFailover("price", (provider) =>
+        provider.getPrice(symbol, currency)
+      )
+    );
+    return result.value.data;
   }
 
   /**
-   * Trigger a manual update of all cryptocurrency prices
+   * Trigger a manual update of all cryptocurrency prices, on the first
+   * provider that supports it
    *
    * @returns Promise resolving to the update response
    * @throws Error if the API request fails
    */
   async triggerPriceUpdate(): Promise<UpdatePriceResponse> {
-    const options = this.createRequestOptions("POST");
-    const response = await fetch(`${this.baseUrl}/api/update-prices`, options);
+    const provider = this.providers.find((item) => item.triggerPriceUpdate);
+    if (!provider) {
+      throw new Error("None of the rates providers can update prices");
+    }
 
-    return this.handleResponse<UpdatePriceResponse>(response);
+    const result = await provider.triggerPriceUpdate();
+    cache.invalidate();
+    return result;
   }
 
   /**
-   * Trigger a manual update for a specific cryptocurrency
+   * Trigger a manual update for a specific cryptocurrency, on the first
+   * provider that supports it
    *
    * @param coin - The symbol of the cryptocurrency to update (e.g., 'BTC')
    * @returns Promise resolving to the update response including the updated price
    */
   async updateCoinPrice(coin: string): Promise<UpdateSpecificCoinResponse> {
-    const response = await fetch(`${this.baseUrl}/api/update-price/${coin}`, {
-      method: "POST",
-    });
+    const provider = this.providers.find((item) => item.updateCoinPrice);
+    if (!provider) {
+      throw new Error("None of the rates providers can update prices");
+    }
 
-    return this.handleResponse<UpdateSpecificCoinResponse>(response);
+    const result = await provider.updateCoinPrice(coin);
+    cache.invalidate();
+    return result;
   }
 
   /**
@@ -165,10 +288,26 @@ export class RatesService {
    * @returns Promise resolving to an array of fiat currency prices
    */
   async getAllFiatPrices(): Promise<FiatPrice[]> {
-    const options = this.createRequestOptions("GET");
+    return (await this.getAllFiatPricesWithMeta()).data;
+  }
 
-    const response = await fetch(`${this.baseUrl}/api/fiat-prices`, options);
-    return this.handleResponse<FiatPrice[]>(response);
+  /**
+   * Get all fiat currency prices in USD and how old they are
+   *
+   * @returns Promise resolving to the fiat prices and their age
+   */
+  async getAllFiatPricesWithMeta(): Promise<{
+    data: FiatPrice[];
+    meta: RatesMeta;
+  }> {
+    const result = await this.cached("fiatPrices", () =>
+      this.fetchList(
+        "fiat prices",
+        (provider) => provider.getAllFiatPrices(),
+        (item) => item.rate_to_usd
+      )
+    );
+    return { data: result.value.data, meta: toMeta(result) };
   }
 
   /**
@@ -182,60 +321,158 @@ export class RatesService {
     symbol: string,
     targetCurrency?: string
   ): Promise<FiatPrice> {
-    const url = new URL(`${this.baseUrl}/api/fiat-price/${symbol}`);
-
-    if (targetCurrency) {
-      url.searchParams.append("currency", targetCurrency);
-    }
-    const options = this.createRequestOptions("GET");
-
-    const response = await fetch(url.toString(), options);
-    return this.handleResponse<FiatPrice>(response);
+    const result = await this.cached(
+      `fiatPrice:${symbol}:${targetCurrency || ""}`,
+      () =>
+        this.withFailover("fiat price", (provider) =>
+          provider.getFiatPrice(symbol, targetCurrency)
+        )
+    );
+    return result.value.data;
   }
 
   /**
-   * Converts an amount from one currency to another using provided exchange rates.
-   * No fees or extra logic applied.
+   * Converts an amount from one currency to another through USD cross rates.
+   * Crypto symbols are priced from getAllPrices and fiat currencies from
+   * getAllFiatPrices, so crypto and fiat can be converted either way.
    *
    * @param fromSymbol Source currency (e.g., "BTC", "NGN")
    * @param toSymbol Target currency (e.g., "USD")
-   * @param amount Amount to convert in the source currency
-   * @param rates Array of available exchange rates
-   * @returns Conversion result with rates and converted amount
+   * @param amount Amount to convert in the source currency, a decimal string is used exactly
+   * @param applyMargin Use crypto prices with the provider's margin applied
+   * @param decimals Decimals of convertedAmountDecimal, 2 for fiat and 18 for crypto by default
+   * @returns Conversion result with the rates used and how old they are
    * @throws Error if either rate is missing
    */
   async convertCurrency({
     fromSymbol,
     toSymbol,
     amount,
+    applyMargin = false,
+    decimals,
   }: {
     fromSymbol: string;
     toSymbol: string;
-    amount: number;
+    amount: AmountLike;
+    applyMargin?: boolean;
+    decimals?: number;
   }): Promise<SimpleConversionResult> {
-    const rates = await this.getAllPrices();
-
-    const fromRate = rates.find(
-      (rate) => rate.symbol.toLowerCase() === fromSymbol.toLowerCase().trim()
-    )?.price;
-    const toRate = rates.find(
-      (rate) => rate.symbol.toLowerCase() === toSymbol.toLowerCase().trim()
-    )?.price;
-
-    if (!fromRate || !toRate) {
-      throw new Error(
-        `Exchange rate not found for ${fromSymbol} or ${toSymbol}`
-      );
-    }
+    const { rates, metas } = await this.getConversionRates(
+      [fromSymbol, toSymbol],
+      applyMargin
+    );
+    const [from, to] = rates;
 
-    const intermediateUSDAmount = amount * fromRate;
-    const convertedAmount = intermediateUSDAmount / toRate;
+    const intermediateUSDAmount = toNumber(amount) * from.usdRate;
+    const convertedAmount = intermediateUSDAmount / to.usdRate;
+    const convertedAmountDecimal = convertAmount(
+      amount,
+      from.usdRate,
+      to.usdRate,
+      decimals ?? (to.type === "fiat" ? FIAT_DECIMALS : DEFAULT_DECIMALS)
+    );
+
+    // Report the oldest price list used
+    const oldest = metas.sort((a, b) => b.ageSeconds - a.ageSeconds)[0];
 
     return {
       convertedAmount,
-      fromRate,
-      toRate,
+      convertedAmountDecimal,
+      fromRate: from.usdRate,
+      toRate: to.usdRate,
+      rate: from.usdRate / to.usdRate,
       intermediateUSDAmount,
+      marginApplied: applyMargin,
+      rates,
+      pricesFetchedAt: oldest?.fetchedAt ?? new Date().toISOString(),
+      pricesAgeSeconds: oldest?.ageSeconds ?? 0,
+      stale: metas.some((meta) => meta.stale),
+    };
+  }
+
+  /**
+   * Finds the USD rate of each symbol, in the crypto prices first and then in
+   * the fiat prices. The fiat list is only fetched when needed.
+   *
+   * @param symbols - Crypto or fiat symbols
+   * @param applyMargin - Use crypto prices with the margin applied
+   * @returns The rates, and the metadata of the price lists they came from
+   * @throws Error if a symbol has no rate
+   */
+  private async getConversionRates(symbols: string[], applyMargin: boolean) {
+    const codes = symbols.map((symbol) => symbol.trim().toUpperCase());
+    const crypto = await this.getAllPricesWithMeta();
+    const findCrypto = (code: string) =>
+      crypto.data.find(
+        (price) => price.symbol.toUpperCase() === code && price.price > 0
+      );
+
+    const needsFiat = codes.some((code) => code !== "USD" && !findCrypto(code));
+    const fiat = needsFiat ? await this.getAllFiatPricesWithMeta() : null;
+
+    const metas = new Set<RatesMeta>();
+    const rates = codes.map((code): ConversionRate => {
+      const cryptoPrice = findCrypto(code);
+      if (cryptoPrice) {
+        metas.add(crypto.meta);
+        return {
+          symbol: code,
+          type: "crypto",
+          usdRate: applyMargin
+            ? cryptoPrice.updated_price > 0
+              ? cryptoPrice.updated_price
+              : cryptoPrice.price * (1 + (cryptoPrice.margin || 0) / 100)
+            : cryptoPrice.price,
+          marginApplied: applyMargin,
+          lastUpdated: cryptoPrice.last_updated,
+          provider: crypto.meta.provider,
+          fetchedAt: crypto.meta.fetchedAt,
+        };
+      }
+
+      if (code === "USD") {
+        return {
+          symbol: code,
+          type: "fiat",
+          usdRate: 1,
+          marginApplied: false,
+          provider: null,
+        };
+      }
+
+      const fiatPrice = fiat?.data.find(
+        (price) => price.symbol.toUpperCase() === code && price.rate_to_usd > 0
+      );
+      if (!fiatPrice) {
+        throw new Error(`Exchange rate not found for ${code}`);
+      }
+
+      metas.add(fiat.meta);
+      return {
+        symbol: code,
+        type: "fiat",
+        usdRate: fiatPrice.rate_to_usd,
+        marginApplied: false,
+        lastUpdated: fiatPrice.last_updated,
+        provider: fiat.meta.provider,
+        fetchedAt: fiat.meta.fetchedAt,
+      };
+    });
+
+    return { rates, metas: [...metas] };
+  }
+
+  /**
+   * Get how old the cached price lists are, without fetching them
+   *
+   * @returns Age of the crypto and fiat price lists, null if not cached
+   */
+  getCacheStatus(): { prices: RatesMeta | null; fiatPrices: RatesMeta | null } {
+    const prices = cache.peek(`${this.cacheKey}:prices`);
+    const fiatPrices = cache.peek(`${this.cacheKey}:fiatPrices`);
+    return {
+      prices: prices ? toMeta(prices) : null,
+      fiatPrices: fiatPrices ? toMeta(fiatPrices) : null,
     };
   }
 }
@@ -0,0 +1,283 @@
+// ./src/services/recipient.services.ts
+
+import { Types } from "mongoose";
+import User from "../models/user.model.js";
+import { RecipientType } from "../types/recipient.js";
+import { UserDocument } from "../types/user.js";
+import {
+  BadRequestError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from "./error.services.js";
+
+// Lowercase, starts with a letter, 3 to 20 characters
+const PAY_TAG_PATTERN = /^[a-z][a-z0-9_]{2,19}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s().-]{7,20}$/;
+
+const LOOKUP_LIMIT = Number(process.env.RECIPIENT_LOOKUP_LIMIT) || 20;
+const LOOKUP_WINDOW_MINUTES =
+  Number(process.env.RECIPIENT_LOOKUP_WINDOW_MINUTES) || 60;
+
+// Tags that could pass for the platform itself
+const RESERVED_PAY_TAGS = new Set([
+  "admin",
+  "administrator",
+  "support",
+  "help",
+  "security",
+  "system",
+  "root",
+  "staff",
+  "official",
+  "wallet",
+  "payments",
+  "escrow",
+  "100pay",
+]);
+
+/**
+ * Masks a name for showing to someone who may not know the person, e.g.
+ * "Jo** D."
+ */
+const maskName = (firstName = "", lastName = "") => {
+  const first = firstName.trim();
+  const masked =
+    first.length <= 2
+      ? first
+      : `${first.slice(0, 2)}${"*".repeat(Math.min(first.length - 2, 6))}`;
+  const initial = lastName.trim().charAt(0).toUpperCase();
+
+  return [masked, initial && `${initial}.`].filter(Boolean).join(" ");
+};
+
+/**
+ * Service for finding who a transfer goes to from what a sender knows about
+ * them: a verified email, a verified phone number or a payTag handle
+ */
+export class RecipientService {
+  /**
+   * Normalizes a payTag and checks it is valid and free. A leading @ is
+   * dropped and the tag is lowercased.
+   *
+   * @param payTag - The chosen payTag
+   * @param userId - MongoDB ObjectId of the user choosing it, so keeping their own tag is allowed
+   * @returns The normalized payTag
+   * @throws ValidationError if the tag is malformed or reserved
+   * @throws BadRequestError if another user has it
+   */
+  async validatePayTag(
+    payTag: string,
+    userId?: string | Types.ObjectId
+  ): Promise<string> {
+    const tag = this.normalizePayTag(payTag);
+
+    if (!PAY_TAG_PATTERN.test(tag) || RESERVED_PAY_TAGS.has(tag)) {
+      throw new ValidationError(
+        "payTag must be 3 to 20 letters, numbers or underscores, start with a letter and not be reserved",
+        { payTag },
+        "PAY_TAG_INVALID"
+      );
+    }
+
+    const owner = await User.findOne({ payTag: tag }).select("_id");
+    if (owner && owner._id.toString() !== userId?.toString()) {
+      throw new BadRequestError(
+        "payTag is already taken",
+        { payTag: tag },
+        "PAY_TAG_TAKEN"
+      );
+    }
+
+    return tag;
+  }
+
+  /**
+   * Checks if a payTag can be chosen
+   *
+   * @param payTag - The payTag to check
+   * @returns False if the tag is malformed, reserved or taken
+   */
+  async isPayTagAvailable(payTag: string) {
+    try {
+      await this.validatePayTag(payTag);
+      return true;
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof BadRequestError)
+        return false;
+      throw error;
+    }
+  }
+
+  /**
+   * Looks up a recipient and returns only what the sender needs to confirm
+   * who they are paying
+   *
+   * @param senderId - MongoDB ObjectId of the sender
+   * @param recipient - Email, verified phone number or payTag
+   * @returns The recipient's type, masked name, avatar and payTag. An email
+   * without a verified account resolves with registered false, since a
+   * claimable transfer can be sent to it.
+   * @throws ForbiddenError with RECIPIENT_LOOKUP_LIMITED after too many lookups
+   */
+  async resolveRecipient(senderId: string | Types.ObjectId, recipient: string) {
+    await this.countLookup(senderId);
+    const { user, type } = await this.findRecipient(senderId, recipient);
+
+    if (!user) {
+      return {
+        type,
+        registered: false,
+        payTag: null,
+        displayName: null,
+        avatar: null,
+      };
+    }
+
+    return {
+      type,
+      registered: true,
+      payTag: user.payTag || null,
+      displayName: maskName(user.firstName, user.lastName),
+      avatar: user.picture || null,
+    };
+  }
+
+  /**
+   * Resolves a recipient to the user ID transferAssets sends to
+   *
+   * @param senderId - MongoDB ObjectId of the sender
+   * @param recipient - Email, verified phone number or payTag
+   * @returns The user ID, or the email when no verified account has it
+   */
+  async resolveForTransfer(
+    senderId: string | Types.ObjectId,
+    recipient: string
+  ): Promise<{ toUserId?: string; toAddress?: string; email?: string }> {
+    const { user, email } = await this.findRecipient(senderId, recipient);
+    return user ? { toUserId: user._id.toString() } : { email };
+  }
+
+  /**
+   * Counts a lookup against the sender's allowance for the current window,
+   * so resolveRecipient can't be used to list who has an account
+   *
+   * @throws ForbiddenError with RECIPIENT_LOOKUP_LIMITED once the allowance is used up
+   */
+  private async countLookup(senderId: string | Types.ObjectId) {
+    const now = new Date();
+    const windowMs = LOOKUP_WINDOW_MINUTES * 60 * 1000;
+
+    const sender =
+      (await User.findOneAndUpdate(
+        {
+          _id: senderId,
+          recipientLookupWindowStart: {
+            $gt: new Date(now.getTime() - windowMs),
+          },
+        },
+        { $inc: { recipientLookups: 1 } },
+        { new: true }
+      )) ||
+      (await User.findByIdAndUpdate(
+        senderId,
+        { $set: { recipientLookups: 1, recipientLookupWindowStart: now } },
+        { new: true }
+      ));
+
+    if (!sender) throw new NotFoundError("User not found");
+
+    if ((sender.recipientLookups || 0) > LOOKUP_LIMIT) {
+      const retryAt = new Date(
+        sender.recipientLookupWindowStart.getTime() + windowMs
+      );
+      throw new ForbiddenError(
+        "Too many recipient lookups, try again later",
+        { retryAt: retryAt.toISOString() },
+        "RECIPIENT_LOOKUP_LIMITED"
+      );
+    }
+  }
+
+  /**
+   * Finds the user a recipient string points to. Emails and phone numbers
+   * only match users who verified them, so registering someone else's email
+   * or number can't capture their payments. An email no verified user has
+   * resolves to a null user, and is paid through a claim link.
+   *
+   * @throws NotFoundError if no user matches a phone number or payTag
+   * @throws BadRequestError if the recipient is the sender
+   */
+  private async findRecipient(
+    senderId: string | Types.ObjectId,
+    recipient: string
+  ): Promise<{
+    user: UserDocument | null;
+    type: RecipientType;
+    email?: string;
+  }> {
+    const value = recipient?.trim() || "";
+    const type = this.getRecipientType(value);
+
+    let user: UserDocument | null = null;
+    if (type === "email") {
+      user = await User.findOne({
+        email: value,
+        emailVerified: true,
+      }).collation({ locale: "en", strength: 2 });
+    } else if (type === "phone") {
+      const digits = value.replace(/\D/g, "");
+      user = await User.findOne({
+        phone: { $in: [value, digits, `+${digits}`] },
+        phoneVerified: true,
+      });
+    } else {
+      const tag = this.normalizePayTag(value);
+      user = PAY_TAG_PATTERN.test(tag)
+        ? await User.findOne({ payTag: tag })
+        : null;
+    }
+
+    if (!user && type === "email") {
+      return { user: null, type, email: value.toLowerCase() };
+    }
+
+    if (!user) {
+      throw new NotFoundError(
+        "No user found for this recipient",
+        { recipient: value, type },
+        "RECIPIENT_NOT_FOUND"
+      );
+    }
+
+    if (user._id.toString() === senderId.toString()) {
+      throw new BadRequestError(
+        "You can't send to yourself",
+        undefined,
+        "RECIPIENT_SELF"
+      );
+    }
+
+    return { user, type };
+  }
+
+  private getRecipientType(value: string): RecipientType {
+    if (!value) {
+      throw new ValidationError(
+        "Recipient is required",
+        undefined,
+        "RECIPIENT_REQUIRED"
+      );
+    }
+    if (value.startsWith("@")) return "payTag";
+    if (EMAIL_PATTERN.test(value)) return "email";
+    if (PHONE_PATTERN.test(value) && /\d{7}/.test(value.replace(/\D/g, "")))
+      return "phone";
+    return "payTag";
+  }
+
+  private normalizePayTag(payTag: string) {
+    return (payTag || "").trim().replace(/^@/, "").toLowerCase();
+  }
+}
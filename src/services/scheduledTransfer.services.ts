@@ -0,0 +1,430 @@
+// ./src/services/scheduledTransfer.services.ts
+
+import { Types } from "mongoose";
+import ScheduledTransfer from "../models/scheduledTransfer.model.js";
+import User from "../models/user.model.js";
+import {
+  ScheduledTransferDocument,
+  ScheduleFrequency,
+  ScheduledTransferRun,
+  ScheduledTransferStatus,
+} from "../types/scheduledTransfer.js";
+import { TransferService } from "./transfer.services.js";
+import { WalletService } from "./userWallet.services.js";
+import {
+  BadRequestError,
+  NotFoundError,
+  ValidationError,
+} from "./error.services.js";
+import { EmailService } from "../utils/emails/index.js";
+import { assertValidAddress } from "../utils/addressValidation.js";
+import { toDecimal128 } from "../utils/money.js";
+import { escapeHtml } from "../utils/format.js";
+import paginateCollection, { Pagination } from "../utils/paginate.js";
+import { getNextOccurrence } from "../utils/schedule.js";
+
+const APP_NAME = process.env.APP_NAME || "Application";
+const APP_URL = process.env.APP_URL || "http://localhost:3000";
+const MAX_CONSECUTIVE_FAILURES =
+  Number(process.env.SCHEDULED_TRANSFER_MAX_FAILURES) || 3;
+// How long a claimed schedule is hidden from other workers
+const RUN_LOCK_MS = 5 * 60 * 1000;
+// Only the most recent runs are kept on a schedule
+const MAX_RUNS_KEPT = 100;
+
+export interface ScheduledTransferInput {
+  toUserId?: string;
+  toAddress?: string;
+  /** A decimal string is stored exactly */
+  amount: number | string;
+  symbol: string;
+  network: string;
+  description?: string;
+  frequency?: ScheduleFrequency;
+  startAt: string | Date;
+  endAt?: string | Date;
+  maxOccurrences?: number;
+}
+
+/**
+ * Service for transfers scheduled for a future time, once or on a
+ * recurrence. Due schedules are run by the scheduledTransfers job.
+ */
+export class ScheduledTransferService {
+  private transferService: TransferService;
+  private walletService: WalletService;
+
+  /**
+   * Initialize the scheduled transfer service with API credentials
+   *
+   * @param publicKey - 100Pay API public key
+   * @param secretKey - 100Pay API secret key
+   * @param baseUrl - Optional API base URL
+   */
+  constructor(publicKey: string, secretKey: string, baseUrl?: string) {
+    this.transferService = new TransferService(publicKey, secretKey, baseUrl);
+    this.walletService = new WalletService(publicKey, secretKey, baseUrl);
+  }
+
+  /**
+   * Schedules a transfer. The caller is expected to have authorized it
+   * with the transaction PIN.
+   *
+   * @param userId - MongoDB ObjectId of the sender
+   * @param input - Transfer and schedule details
+   * @returns The schedule
+   */
+  async createSchedule(
+    userId: string | Types.ObjectId,
+    input: ScheduledTransferInput
+  ) {
+    const frequency = input.frequency || "once";
+    const startAt = new Date(input.startAt);
+    const endAt = input.endAt ? new Date(input.endAt) : undefined;
+
+    if (!(Number(input.amount) > 0)) {
+      throw new ValidationError(
+        "Transfer amount must be greater than zero",
+        undefined,
+        "SCHEDULE_AMOUNT_INVALID"
+      );
+    }
+
+    if (!input.toUserId && !input.toAddress) {
+      throw new ValidationError(
+        "A recipient user or address is required",
+        undefined,
+        "SCHEDULE_RECIPIENT_REQUIRED"
+      );
+    }
+
+    if (input.toAddress) {
+      assertValidAddress(input.network, input.toAddress, input.symbol);
+    }
+
+    // Allow a little clock skew for schedules meant to start right away
+    if (isNaN(startAt.getTime()) || startAt.getTime() < Date.now() - 60000) {
+      throw new ValidationError(
+        "Schedule must start in the future",
+        undefined,
+        "SCHEDULE_START_INVALID"
+      );
+    }
+
+    if (endAt && (isNaN(endAt.getTime()) || endAt <= startAt)) {
+      throw new ValidationError(
+        "Schedule must end after it starts",
+        undefined,
+        "SCHEDULE_END_INVALID"
+      );
+    }
+
+    if (input.maxOccurrences !== undefined && input.maxOccurrences < 1) {
+      throw new ValidationError(
+        "Occurrence count must be at least 1",
+        undefined,
+        "SCHEDULE_OCCURRENCES_INVALID"
+      );
+    }
+
+    const wallet = await this.walletService.getUserWalletBySymbol(
+      userId,
+      input.symbol,
+      input.network
+    );
+    if (!wallet) {
+      throw new NotFoundError(
+        `You don't have a ${input.symbol.toUpperCase()} wallet on ${input.network}`,
+        undefined,
+        "WALLET_NOT_FOUND"
+      );
+    }
+
+    return ScheduledTransfer.create({
+      user: new Types.ObjectId(userId),
+      ...(input.toUserId && { toUserId: new Types.ObjectId(input.toUserId) }),
+      toAddress: input.toAddress,
+      amount: toDecimal128(input.amount),
+      symbol: input.symbol.toUpperCase(),
+      network: input.network,
+      description: input.description,
+      frequency,
+      startAt,
+      nextRunAt: startAt,
+      endAt,
+      maxOccurrences: frequency === "once" ? 1 : input.maxOccurrences,
+    });
+  }
+
+  /**
+   * Gets a user's scheduled transfers, newest first
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param status - Optional status filter
+   * @param pagination - Pagination options
+   */
+  async getSchedules(
+    userId: string | Types.ObjectId,
+    {
+      status,
+      pagination = {},
+    }: { status?: ScheduledTransferStatus; pagination?: Pagination }
+  ) {
+    return paginateCollection(ScheduledTransfer, pagination, {
+      filter: {
+        user: new Types.ObjectId(userId),
+        ...(status && { status }),
+      },
+    });
+  }
+
+  /**
+   * Gets a scheduled transfer of the user
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param id - ID of the schedule
+   */
+  async getSchedule(userId: string | Types.ObjectId, id: string) {
+    const schedule = await ScheduledTransfer.findOne({
+      _id: id,
+      user: new Types.ObjectId(userId),
+    });
+    if (!schedule) throw new NotFoundError("Scheduled transfer not found");
+
+    return schedule;
+  }
+
+  /**
+   * Pauses an active schedule
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param id - ID of the schedule
+   */
+  async pause(userId: string | Types.ObjectId, id: string) {
+    return this.transition(userId, id, ["active"], { status: "paused" });
+  }
+
+  /**
+   * Resumes a paused schedule. Occurrences missed while paused are skipped.
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param id - ID of the schedule
+   */
+  async resume(userId: string | Types.ObjectId, id: string) {
+    const schedule = await this.getSchedule(userId, id);
+    const now = new Date();
+
+    const nextRunAt =
+      schedule.frequency === "once"
+        ? new Date(Math.max(schedule.startAt.getTime(), now.getTime()))
+        : getNextOccurrence(schedule.startAt, schedule.frequency, now);
+
+    if (schedule.endAt && nextRunAt > schedule.endAt) {
+      throw new BadRequestError(
+        "The schedule has no occurrences left before its end date",
+        undefined,
+        "SCHEDULE_ENDED"
+      );
+    }
+
+    return this.transition(userId, id, ["paused"], {
+      status: "active",
+      nextRunAt,
+      consecutiveFailures: 0,
+    });
+  }
+
+  /**
+   * Cancels a schedule, it can't be resumed afterwards
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param id - ID of the schedule
+   */
+  async cancel(userId: string | Types.ObjectId, id: string) {
+    return this.transition(userId, id, ["active", "paused"], {
+      status: "cancelled",
+      nextRunAt: null,
+    });
+  }
+
+  /**
+   * Runs every active schedule that is due
+   *
+   * @param limit - Maximum number of schedules to run
+   * @returns Number of schedules run
+   */
+  async runDueSchedules(limit = 20) {
+    const due = await ScheduledTransfer.find({
+      status: "active",
+      nextRunAt: { $lte: new Date() },
+    })
+      .sort({ nextRunAt: 1 })
+      .limit(limit)
+      .select("_id");
+
+    let ran = 0;
+    for (const { _id } of due) {
+      if (await this.runSchedule(_id)) ran++;
+    }
+
+    return ran;
+  }
+
+  /**
+   * Claims a due schedule, sends its transfer and schedules the next run
+   *
+   * @returns false if the schedule wasn't due or another worker claimed it
+   */
+  private async runSchedule(id: Types.ObjectId) {
+    const now = new Date();
+    const schedule = await ScheduledTransfer.findOneAndUpdate(
+      {
+        _id: id,
+        status: "active",
+        nextRunAt: { $lte: now },
+        $or: [
+          { lockedUntil: { $exists: false } },
+          { lockedUntil: null },
+          { lockedUntil: { $lte: now } },
+        ],
+      },
+      { $set: { lockedUntil: new Date(now.getTime() + RUN_LOCK_MS) } },
+      { new: true }
+    );
+    if (!schedule) return false;
+
+    const run: ScheduledTransferRun = { runAt: now, status: "succeeded" };
+
+    try {
+      const result = await this.transferService.transferAssets({
+        fromUserId: schedule.user,
+        toUserId: schedule.toUserId,
+        toAddress: schedule.toAddress,
+        amount: schedule.amount.toString(),
+        symbol: schedule.symbol,
+        network: schedule.network,
+        description: schedule.description,
+        // Nobody is around to wait for an approval, so large runs fail
+        onApprovalRequired: "reject",
+      });
+
+      const receipt = result?.data?.receipt;
+      run.transactionId = (receipt?.id || receipt?._id)?.toString();
+    } catch (error) {
+      run.status = "failed";
+      run.error = error instanceof Error ? error.message : String(error);
+    }
+
+    const occurrences = schedule.occurrences + 1;
+    const consecutiveFailures =
+      run.status === "failed" ? schedule.consecutiveFailures + 1 : 0;
+    const nextRunAt = getNextOccurrence(
+      schedule.startAt,
+      schedule.frequency,
+      now
+    );
+
+    let status: ScheduledTransferStatus = "active";
+    if (run.status === "failed" && schedule.frequency === "once") {
+      status = "failed";
+    } else if (
+      !nextRunAt ||
+      (schedule.maxOccurrences && occurrences >= schedule.maxOccurrences) ||
+      (schedule.endAt && nextRunAt > schedule.endAt)
+    ) {
+      status = "completed";
+    } else if (consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+      status = "paused";
+    }
+
+    const updated = await ScheduledTransfer.findByIdAndUpdate(
+      schedule._id,
+      {
+        $set: {
+          status,
+          occurrences,
+          consecutiveFailures,
+          lastRunAt: now,
+          nextRunAt: status === "active" ? nextRunAt : null,
+        },
+        $unset: { lockedUntil: 1 },
+        $push: { runs: { $each: [run], $slice: -MAX_RUNS_KEPT } },
+      },
+      { new: true }
+    );
+
+    if (run.status === "failed") {
+      await this.notifyFailure(updated, run);
+    }
+
+    return true;
+  }
+
+  /**
+   * Emails the owner of a schedule that a run failed
+   */
+  private async notifyFailure(
+    schedule: ScheduledTransferDocument,
+    run: ScheduledTransferRun
+  ) {
+    try {
+      const user = await User.findById(schedule.user);
+      if (!user?.email) return;
+
+      const name = user.firstName || user.email.split("@")[0];
+      const recipient = escapeHtml(schedule.toAddress || "another user");
+      const outcome =
+        schedule.status === "paused"
+          ? `<p>The schedule was paused after ${schedule.consecutiveFailures} failed runs in a row. Resume it once the problem is fixed.</p>`
+          : schedule.status === "active"
+            ? `<p>The next run is on ${schedule.nextRunAt?.toUTCString()}.</p>`
+            : "";
+
+      const emailService = new EmailService();
+      await emailService.sendEmail({
+        subject: `${APP_NAME} - Scheduled transfer failed`,
+        htmlBody: emailService.generateMinimalistTemplate({
+          title: "Scheduled transfer failed",
+          content: `
+            <p>Hi ${escapeHtml(name)},</p>
+            <p>Your scheduled transfer of ${schedule.amount} ${schedule.symbol} to ${recipient} failed on ${run.runAt.toUTCString()}.</p>
+            <p>Reason: ${escapeHtml(run.error || "unknown error")}</p>
+            ${outcome}
+          `,
+          buttonText: "View scheduled transfers",
+          buttonUrl: `${APP_URL}/transfers/scheduled`,
+        }),
+        to: { email: user.email, name },
+      });
+    } catch (error) {
+      console.error("Failed to send scheduled transfer failure email:", error);
+    }
+  }
+
+  /**
+   * Updates a schedule if it is in one of the allowed statuses
+   */
+  private async transition(
+    userId: string | Types.ObjectId,
+    id: string,
+    from: ScheduledTransferStatus[],
+    update: Record<string, unknown>
+  ) {
+    const schedule = await ScheduledTransfer.findOneAndUpdate(
+      { _id: id, user: new Types.ObjectId(userId), status: { $in: from } },
+      { $set: update },
+      { new: true }
+    );
+
+    if (!schedule) {
+      const existing = await this.getSchedule(userId, id);
+      throw new BadRequestError(
+        `Scheduled transfer is ${existing.status}`,
+        undefined,
+        "SCHEDULE_STATUS_INVALID"
+      );
+    }
+
+    return schedule;
+  }
+}
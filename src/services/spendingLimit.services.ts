@@ -0,0 +1,493 @@
+// ./src/services/spendingLimit.services.ts
+
+import { Types } from "mongoose";
+import Role from "../models/role.model.js";
+import SpendingLimit from "../models/spendingLimit.model.js";
+import SpendingUsage from "../models/spendingUsage.model.js";
+import User from "../models/user.model.js";
+import {
+  SpendingLimitDocument,
+  SpendingLimitScope,
+  SpendingLimitValues,
+} from "../types/spendingLimit.js";
+import { RatesService } from "./rates.services.js";
+import {
+  ForbiddenError,
+  NotFoundError,
+  ServiceUnavailableError,
+  ValidationError,
+} from "./error.services.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PERIODS = [
+  { period: "daily", field: "dailyUsd", windowMs: DAY_MS },
+  { period: "weekly", field: "weeklyUsd", windowMs: 7 * DAY_MS },
+] as const;
+
+const LIMIT_FIELDS = [
+  "perTransactionUsd",
+  "dailyUsd",
+  "weeklyUsd",
+  "approvalThresholdUsd",
+] as const;
+// Limits that block transfers, rather than hold them for approval
+const ENFORCED_FIELDS = ["perTransactionUsd", "dailyUsd", "weeklyUsd"] as const;
+
+const envLimit = (value?: string) =>
+  value && Number(value) >= 0 ? Number(value) : null;
+
+/** Limits applied when no global, role or user limit is set */
+const DEFAULT_LIMITS: SpendingLimitValues = {
+  perTransactionUsd: envLimit(process.env.SPENDING_LIMIT_PER_TRANSACTION_USD),
+  dailyUsd: envLimit(process.env.SPENDING_LIMIT_DAILY_USD),
+  weeklyUsd: envLimit(process.env.SPENDING_LIMIT_WEEKLY_USD),
+  approvalThresholdUsd: envLimit(process.env.TRANSFER_APPROVAL_THRESHOLD_USD),
+};
+
+const roundUsd = (amount: number) => Math.round(amount * 100) / 100;
+
+export interface SpendingLimitInput {
+  scope: SpendingLimitScope;
+  /** Role name, for role limits */
+  role?: string;
+  /** User ID, for user limits */
+  userId?: string;
+  symbol?: string;
+  /** Null clears the limit so it is inherited again */
+  perTransactionUsd?: number | null;
+  dailyUsd?: number | null;
+  weeklyUsd?: number | null;
+  approvalThresholdUsd?: number | null;
+}
+
+/**
+ * Service for USD spending limits on outgoing transfers. Limits are set
+ * globally, per role and per user, optionally for a single symbol, and
+ * checked against rolling daily and weekly usage.
+ */
+export class SpendingLimitService {
+  private ratesService?: RatesService;
+
+  /**
+   * Creates or updates the limits of a scope (admin only)
+   *
+   * @param adminId - MongoDB ObjectId of the admin making the change
+   * @param input - Scope, its target and the limits to set
+   */
+  async setLimit(adminId: string | Types.ObjectId, input: SpendingLimitInput) {
+    const filter = await this.getScopeFilter(input);
+
+    const $set: Record<string, unknown> = {
+      updatedBy: new Types.ObjectId(adminId),
+    };
+    const $unset: Record<string, 1> = {};
+    for (const field of LIMIT_FIELDS) {
+      const value = input[field];
+      if (value === undefined) continue;
+      if (value === null) {
+        $unset[field] = 1;
+        continue;
+      }
+      if (!(value >= 0)) {
+        throw new ValidationError(
+          "Limits must be zero or more",
+          { field },
+          "SPENDING_LIMIT_INVALID"
+        );
+      }
+      $set[field] = value;
+    }
+
+    return SpendingLimit.findOneAndUpdate(
+      filter,
+      { $set, ...(Object.keys($unset).length && { $unset }) },
+      { new: true, upsert: true, setDefaultsOnInsert: true }
+    );
+  }
+
+  /**
+   * Removes a limit, so its scope inherits again (admin only)
+   *
+   * @param id - ID of the limit
+   */
+  async removeLimit(id: string) {
+    const limit = await SpendingLimit.findByIdAndDelete(id);
+    if (!limit) throw new NotFoundError("Spending limit not found");
+
+    return true;
+  }
+
+  /**
+   * Gets configured limits, broadest scope first (admin only)
+   *
+   * @param filters - Optional scope, user and symbol filters
+   */
+  async getLimits({
+    scope,
+    userId,
+    symbol,
+  }: {
+    scope?: SpendingLimitScope;
+    userId?: string;
+    symbol?: string;
+  } = {}) {
+    const limits = await SpendingLimit.find({
+      ...(scope && { scope }),
+      ...(userId && { user: new Types.ObjectId(userId) }),
+      ...(symbol && { symbol: symbol.toUpperCase() }),
+    });
+
+    const order: SpendingLimitScope[] = ["global", "role", "user"];
+    return limits.sort(
+      (a, b) => order.indexOf(a.scope) - order.indexOf(b.scope)
+    );
+  }
+
+  /**
+   * Resolves the limits that apply to a user. Symbol limits are only
+   * returned when a symbol is given and some scope sets them.
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param symbol - Optional symbol of the transfer
+   */
+  async getEffectiveLimits(userId: string | Types.ObjectId, symbol?: string) {
+    const user = await User.findById(userId);
+    if (!user) throw new NotFoundError("User not found");
+
+    const symbolKey = symbol?.toUpperCase();
+    const limits = await SpendingLimit.find({
+      $or: [
+        { scope: "global" },
+        { scope: "role", role: { $in: user.roles || [] } },
+        { scope: "user", user: user._id },
+      ],
+      symbol: { $in: [null, ...(symbolKey ? [symbolKey] : [])] },
+    });
+
+    const general = this.resolve(
+      limits.filter((limit) => !limit.symbol),
+      DEFAULT_LIMITS
+    );
+    const symbolLimits = symbolKey
+      ? this.resolve(limits.filter((limit) => limit.symbol === symbolKey))
+      : null;
+
+    return {
+      general,
+      symbol:
+        symbolLimits &&
+        LIMIT_FIELDS.some((field) => symbolLimits[field] !== null)
+          ? symbolLimits
+          : null,
+    };
+  }
+
+  /**
+   * Gets the USD value above which a user's transfers of a symbol need
+   * admin approval. The lower of the general and symbol thresholds applies.
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param symbol - Symbol of the transfer
+   * @returns The threshold, or null when transfers don't need approval
+   */
+  async getApprovalThreshold(userId: string | Types.ObjectId, symbol: string) {
+    const { general, symbol: symbolLimits } = await this.getEffectiveLimits(
+      userId,
+      symbol
+    );
+
+    const thresholds = [
+      general.approvalThresholdUsd,
+      symbolLimits?.approvalThresholdUsd,
+    ].filter((threshold) => threshold != null);
+
+    return thresholds.length ? Math.min(...thresholds) : null;
+  }
+
+  /**
+   * Reports the user's limits and what is left of them in each period
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param symbol - Optional symbol to include symbol limits for
+   */
+  async getMyLimits(userId: string | Types.ObjectId, symbol?: string) {
+    const { general, symbol: symbolLimits } = await this.getEffectiveLimits(
+      userId,
+      symbol
+    );
+
+    return {
+      currency: "USD",
+      ...(await this.getHeadroom(userId, general)),
+      symbol: symbolLimits
+        ? {
+            symbol: symbol.toUpperCase(),
+            ...(await this.getHeadroom(userId, symbolLimits, symbol)),
+          }
+        : null,
+    };
+  }
+
+  /**
+   * Checks a transfer against the sender's limits and holds its USD value
+   * against rolling usage while it is sent. Call commit once the transfer
+   * went through or release if it failed.
+   *
+   * @param userId - MongoDB ObjectId of the sender
+   * @param symbol - Symbol being transferred
+   * @param network - Network of the transfer
+   * @param amount - Amount being transferred
+   * @returns ID of the usage reservation, or null when no limits apply
+   */
+  async reserve(
+    userId: string | Types.ObjectId,
+    {
+      symbol,
+      network,
+      amount,
+    }: { symbol: string; network?: string; amount: number }
+  ) {
+    const { general, symbol: symbolLimits } = await this.getEffectiveLimits(
+      userId,
+      symbol
+    );
+    const applied = [
+      { limits: general, symbol: undefined as string | undefined },
+      ...(symbolLimits ? [{ limits: symbolLimits, symbol }] : []),
+    ].filter(({ limits }) =>
+      ENFORCED_FIELDS.some((field) => limits[field] !== null)
+    );
+    if (!applied.length) return null;
+
+    const usdAmount = await this.valueInUsd(symbol, amount);
+
+    for (const { limits } of applied) {
+      if (
+        limits.perTransactionUsd !== null &&
+        usdAmount > limits.perTransactionUsd
+      ) {
+        throw new ForbiddenError(
+          `Transfers are limited to ${limits.perTransactionUsd} USD each`,
+          {
+            period: "perTransaction",
+            limitUsd: limits.perTransactionUsd,
+            amountUsd: roundUsd(usdAmount),
+          },
+          "SPENDING_LIMIT_EXCEEDED"
+        );
+      }
+    }
+
+    // Record the usage first so concurrent transfers see each other
+    const usage = await SpendingUsage.create({
+      user: new Types.ObjectId(userId),
+      symbol: symbol.toUpperCase(),
+      network,
+      amount,
+      usdAmount,
+      status: "reserved",
+    });
+
+    try {
+      for (const { limits, symbol: limitSymbol } of applied) {
+        for (const { period, field, windowMs } of PERIODS) {
+          const limitUsd = limits[field];
+          if (limitUsd === null) continue;
+
+          const usedUsd = await this.getUsage(
+            userId,
+            new Date(Date.now() - windowMs),
+            limitSymbol
+          );
+          if (usedUsd > limitUsd) {
+            throw new ForbiddenError(
+              `This transfer exceeds your ${period} limit of ${limitUsd} USD${limitSymbol ? ` for ${limitSymbol.toUpperCase()}` : ""}`,
+              {
+                period,
+                limitUsd,
+                remainingUsd: roundUsd(
+                  Math.max(limitUsd - (usedUsd - usdAmount), 0)
+                ),
+                amountUsd: roundUsd(usdAmount),
+              },
+              "SPENDING_LIMIT_EXCEEDED"
+            );
+          }
+        }
+      }
+    } catch (error) {
+      await usage.deleteOne();
+      throw error;
+    }
+
+    return usage._id.toString();
+  }
+
+  /**
+   * Marks reserved usage as spent
+   *
+   * @param usageId - ID returned by reserve
+   * @param transactionId - Optional ID of the transfer
+   */
+  async commit(usageId: string | null, transactionId?: string) {
+    if (!usageId) return;
+
+    await SpendingUsage.updateOne(
+      { _id: usageId },
+      { $set: { status: "committed", transactionId } }
+    );
+  }
+
+  /**
+   * Releases reserved usage of a transfer that didn't go through
+   *
+   * @param usageId - ID returned by reserve
+   */
+  async release(usageId: string | null) {
+    if (!usageId) return;
+
+    await SpendingUsage.deleteOne({ _id: usageId, status: "reserved" });
+  }
+
+  /**
+   * Resolves each limit from the most specific scope that sets it. A user
+   * with several roles gets the most generous role limit.
+   */
+  private resolve(
+    limits: SpendingLimitDocument[],
+    defaults: SpendingLimitValues = {
+      perTransactionUsd: null,
+      dailyUsd: null,
+      weeklyUsd: null,
+      approvalThresholdUsd: null,
+    }
+  ): SpendingLimitValues {
+    const pick = (
+      scope: SpendingLimitScope,
+      field: keyof SpendingLimitValues
+    ) =>
+      limits
+        .filter((limit) => limit.scope === scope && limit[field] != null)
+        .map((limit) => limit[field]);
+
+    const values = { ...defaults };
+    for (const field of LIMIT_FIELDS) {
+      const userValues = pick("user", field);
+      const roleValues = pick("role", field);
+      const globalValues = pick("global", field);
+
+      if (userValues.length) values[field] = userValues[0];
+      else if (roleValues.length) values[field] = Math.max(...roleValues);
+      else if (globalValues.length) values[field] = globalValues[0];
+    }
+
+    return values;
+  }
+
+  /**
+   * Limits with what has been used and what remains in each period
+   */
+  private async getHeadroom(
+    userId: string | Types.ObjectId,
+    limits: SpendingLimitValues,
+    symbol?: string
+  ) {
+    const periods = await Promise.all(
+      PERIODS.map(async ({ field, windowMs }) => {
+        const limitUsd = limits[field];
+        const usedUsd = roundUsd(
+          await this.getUsage(userId, new Date(Date.now() - windowMs), symbol)
+        );
+
+        return {
+          limitUsd,
+          usedUsd,
+          remainingUsd:
+            limitUsd === null
+              ? null
+              : roundUsd(Math.max(limitUsd - usedUsd, 0)),
+        };
+      })
+    );
+
+    return {
+      perTransactionUsd: limits.perTransactionUsd,
+      daily: periods[0],
+      weekly: periods[1],
+    };
+  }
+
+  /**
+   * Total USD value of a user's transfers since a date
+   */
+  private async getUsage(
+    userId: string | Types.ObjectId,
+    since: Date,
+    symbol?: string
+  ) {
+    const [result] = await SpendingUsage.aggregate([
+      {
+        $match: {
+          user: new Types.ObjectId(userId),
+          createdAt: { $gte: since },
+          ...(symbol && { symbol: symbol.toUpperCase() }),
+        },
+      },
+      { $group: { _id: null, total: { $sum: "$usdAmount" } } },
+    ]);
+
+    return result?.total || 0;
+  }
+
+  /**
+   * Values a transfer in USD. Transfers that can't be valued are refused,
+   * since the limits couldn't be enforced.
+   */
+  private async valueInUsd(symbol: string, amount: number) {
+    try {
+      this.ratesService = this.ratesService || new RatesService();
+      const { convertedAmount } = await this.ratesService.convertCurrency({
+        fromSymbol: symbol,
+        toSymbol: "USD",
+        amount,
+      });
+      return convertedAmount;
+    } catch (error) {
+      console.error("Failed to value transfer for spending limits:", error);
+      throw new ServiceUnavailableError(
+        "Unable to check spending limits right now, please try again later",
+        undefined,
+        "SPENDING_LIMIT_VALUATION_FAILED"
+      );
+    }
+  }
+
+  /**
+   * Builds the filter that identifies the limit of a scope
+   */
+  private async getScopeFilter({
+    scope,
+    role,
+    userId,
+    symbol,
+  }: SpendingLimitInput) {
+    const filter = {
+      scope,
+      role: null as Types.ObjectId | null,
+      user: null as Types.ObjectId | null,
+      symbol: symbol ? symbol.toUpperCase() : null,
+    };
+
+    if (scope === "role") {
+      const roleDoc = role ? await Role.findOne({ name: role }) : null;
+      if (!roleDoc) throw new NotFoundError("Role not found");
+      filter.role = roleDoc._id;
+    } else if (scope === "user") {
+      const user = userId ? await User.findById(userId) : null;
+      if (!user) throw new NotFoundError("User not found");
+      filter.user = user._id;
+    }
+
+    return filter;
+  }
+}
@@ -0,0 +1,346 @@
+// ./src/services/swap.services.ts
+
+import { Types } from "mongoose";
+import { logger } from "@untools/logger";
+import Swap from "../models/swap.model.js";
+import UserWallet from "../models/userWallet.model.js";
+import { UserWalletDocument } from "../types/userWallet/index.js";
+import { WalletService } from "./userWallet.services.js";
+import { LedgerService } from "./ledger.services.js";
+import {
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+  TransferOutcomeUnknownError,
+  ValidationError,
+} from "./error.services.js";
+import paginateCollection, { Pagination } from "../utils/paginate.js";
+import {
+  AmountLike,
+  compareAmounts,
+  getDecimals,
+  parseAmount,
+  toDecimal128,
+  toNumber,
+} from "../utils/money.js";
+
+const QUOTE_TTL_SECONDS = Number(process.env.SWAP_QUOTE_TTL_SECONDS) || 30;
+const MAX_SLIPPAGE_PERCENT = Number(process.env.SWAP_MAX_SLIPPAGE_PERCENT) || 1;
+
+/**
+ * Normalizes a 100Pay conversion preview into numbers
+ */
+const parsePreview = (preview: any) => {
+  const data = preview?.data ?? preview ?? {};
+  return {
+    fromAmount: Number(data.fromAmount),
+    toAmount: Number(data.toAmount),
+    rate: Number(data.rate),
+    fee: Number(data.fee) || 0,
+  };
+};
+
+/**
+ * Stores a quoted number exactly as received, skipping values 100Pay didn't send
+ */
+const toStoredAmount = (value: number) =>
+  Number.isFinite(value) ? toDecimal128(value) : undefined;
+
+/**
+ * Service for swapping assets between a user's own wallets
+ */
+export class SwapService {
+  private walletService: WalletService;
+  private ledger: LedgerService;
+
+  /**
+   * Initialize the swap service with API credentials
+   *
+   * @param publicKey - 100Pay API public key
+   * @param secretKey - 100Pay API secret key
+   * @param baseUrl - Optional API base URL
+   */
+  constructor(publicKey: string, secretKey: string, baseUrl?: string) {
+    this.walletService = new WalletService(publicKey, secretKey, baseUrl);
+    this.ledger = new LedgerService(publicKey, secretKey, baseUrl);
+  }
+
+  /**
+   * Previews a swap and stores a quote that locks the rate for a short window
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param fromSymbol - Symbol to swap from
+   * @param toSymbol - Symbol to swap to
+   * @param amount - Amount of fromSymbol to swap
+   * @returns Swap quote
+   */
+  async previewSwap({
+    userId,
+    fromSymbol,
+    toSymbol,
+    amount,
+    fromNetwork,
+    toNetwork,
+  }: {
+    userId: string | Types.ObjectId;
+    fromSymbol: string;
+    toSymbol: string;
+    amount: number | string;
+    fromNetwork?: string;
+    toNetwork?: string;
+  }) {
+    if (!(Number(amount) > 0)) {
+      throw new ValidationError(
+        "Swap amount must be greater than zero",
+        undefined,
+        "SWAP_AMOUNT_INVALID"
+      );
+    }
+
+    if (fromSymbol.toUpperCase() === toSymbol.toUpperCase()) {
+      throw new ValidationError(
+        "Cannot swap an asset into itself",
+        undefined,
+        "SWAP_SAME_ASSET"
+      );
+    }
+
+    const fromWallet = await this.getWallet(userId, fromSymbol, fromNetwork);
+    const toWallet = await this.getWallet(userId, toSymbol, toNetwork);
+
+    const value = parseAmount(amount, getDecimals(fromWallet.decimals));
+    await this.checkBalance(fromWallet, value);
+
+    const preview = await this.walletService.getConversionPreview(
+      Number(value),
+      fromWallet.symbol,
+      toWallet.symbol,
+      fromWallet.appId
+    );
+    const quote = parsePreview(preview);
+
+    return Swap.create({
+      user: new Types.ObjectId(userId),
+      fromWallet: fromWallet._id,
+      toWallet: toWallet._id,
+      fromSymbol: fromWallet.symbol,
+      toSymbol: toWallet.symbol,
+      fromAmount: toDecimal128(value),
+      toAmount: toStoredAmount(quote.toAmount),
+      rate: toStoredAmount(quote.rate),
+      fee: toStoredAmount(quote.fee),
+      status: "quoted",
+      quoteExpiresAt: new Date(Date.now() + QUOTE_TTL_SECONDS * 1000),
+      preview,
+    });
+  }
+
+  /**
+   * Executes a previously previewed swap while its quote is still valid
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param quoteId - ID of the swap quote
+   * @returns Swap receipt
+   */
+  async executeSwap(userId: string | Types.ObjectId, quoteId: string) {
+    // Claim the quote so it can only be executed once
+    const swap = await Swap.findOneAndUpdate(
+      {
+        _id: quoteId,
+        user: new Types.ObjectId(userId),
+        status: "quoted",
+        quoteExpiresAt: { $gt: new Date() },
+      },
+      { $set: { status: "processing" } },
+      { new: true }
+    );
+
+    if (!swap) {
+      const existing = await Swap.findOne({
+        _id: quoteId,
+        user: new Types.ObjectId(userId),
+      });
+
+      if (!existing) throw new NotFoundError("Swap quote not found");
+
+      if (existing.status === "quoted") {
+        existing.status = "expired";
+        await existing.save();
+        throw new BadRequestError(
+          "Swap quote has expired, preview the swap again",
+          undefined,
+          "SWAP_QUOTE_EXPIRED"
+        );
+      }
+
+      throw new ConflictError(
+        `Swap quote is already ${existing.status}`,
+        undefined,
+        "SWAP_QUOTE_USED"
+      );
+    }
+
+    let fromWallet: UserWalletDocument;
+    let toWallet: UserWalletDocument;
+    let result: Awaited<ReturnType<WalletService["convertAssets"]>>;
+    try {
+      fromWallet = await UserWallet.findById(swap.fromWallet);
+      toWallet = await UserWallet.findById(swap.toWallet);
+
+      await this.checkBalance(fromWallet, swap.fromAmount);
+
+      // Reject the swap if the live rate moved against the user beyond the slippage limit
+      const current = parsePreview(
+        await this.walletService.getConversionPreview(
+          toNumber(swap.fromAmount),
+          swap.fromSymbol,
+          swap.toSymbol,
+          fromWallet.appId
+        )
+      );
+      const quotedToAmount = toNumber(swap.toAmount);
+      const minimumToAmount = quotedToAmount * (1 - MAX_SLIPPAGE_PERCENT / 100);
+      if (current.toAmount < minimumToAmount) {
+        throw new ConflictError(
+          "The rate changed beyond the allowed slippage, preview the swap again",
+          { quoted: quotedToAmount, current: current.toAmount },
+          "SWAP_RATE_CHANGED"
+        );
+      }
+    } catch (error) {
+      swap.status = "failed";
+      swap.failureReason =
+        error instanceof Error ? error.message : String(error);
+      await swap.save();
+      throw error;
+    }
+
+    try {
+      result = await this.walletService.convertAssets(
+        toNumber(swap.fromAmount),
+        swap.fromSymbol,
+        swap.toSymbol,
+        fromWallet.appId
+      );
+    } catch (error) {
+      // The conversion may have happened, so the swap stays processing and
+      // the ledger sync shows what the wallets actually hold
+      const message = error instanceof Error ? error.message : String(error);
+      try {
+        swap.failureReason = message;
+        await swap.save();
+      } catch (saveError) {
+        console.error("Failed to record swap error:", saveError);
+      }
+      await this.syncWallets([fromWallet, toWallet]);
+      throw new TransferOutcomeUnknownError(
+        `Swap outcome is unknown, check your balances: ${message}`
+      );
+    }
+
+    logger.info("swapResult", result);
+
+    // 100Pay converts at its live rate, so keep the quote and record what the
+    // conversion actually gave
+    const actual = parsePreview(result);
+    swap.quotedToAmount = swap.toAmount;
+    swap.quotedRate = swap.rate;
+    if (Number.isFinite(actual.toAmount)) {
+      swap.toAmount = toDecimal128(actual.toAmount);
+    }
+    if (Number.isFinite(actual.rate)) swap.rate = toDecimal128(actual.rate);
+    if (actual.fee) swap.fee = toDecimal128(actual.fee);
+
+    swap.status = "completed";
+    swap.result = result;
+    swap.transactionId = (result?.data?.id || result?.data?._id)?.toString();
+    swap.completedAt = new Date();
+
+    // The assets were converted, so failing to record it must not report the swap as failed
+    try {
+      await swap.save();
+    } catch (error) {
+      console.error("Failed to record completed swap:", error);
+    }
+
+    await this.syncWallets([fromWallet, toWallet]);
+
+    return swap;
+  }
+
+  /**
+   * Gets a user's swaps, newest first
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param pagination - Pagination options
+   */
+  async getSwaps(userId: string | Types.ObjectId, pagination: Pagination = {}) {
+    return paginateCollection(Swap, pagination, {
+      filter: { user: new Types.ObjectId(userId) },
+    });
+  }
+
+  /**
+   * Gets a wallet of the user for a symbol
+   */
+  private async getWallet(
+    userId: string | Types.ObjectId,
+    symbol: string,
+    network?: string
+  ) {
+    const wallet = await UserWallet.findOne({
+      user: new Types.ObjectId(userId),
+      symbol: symbol.toUpperCase(),
+      ...(network && { network }),
+    });
+
+    if (!wallet) {
+      throw new NotFoundError(
+        `You don't have a ${symbol.toUpperCase()} wallet`,
+        undefined,
+        "WALLET_NOT_FOUND"
+      );
+    }
+
+    return wallet;
+  }
+
+  /**
+   * Checks that a wallet's available ledger balance covers an amount
+   */
+  private async checkBalance(
+    wallet: { sourceAccountId: string; symbol: string },
+    amount: AmountLike
+  ) {
+    const balance = await this.ledger.getBalance(
+      wallet.sourceAccountId,
+      wallet.symbol
+    );
+
+    if (compareAmounts(balance.availableBalanceDecimal, amount) < 0) {
+      throw new BadRequestError(
+        `Insufficient ${wallet.symbol} balance`,
+        {
+          available: balance.availableBalanceDecimal,
+          required: String(amount),
+        },
+        "INSUFFICIENT_BALANCE"
+      );
+    }
+  }
+
+  /**
+   * Pulls the conversion into the ledger, the sync job retries if this fails
+   */
+  private async syncWallets(
+    wallets: Array<{ sourceAccountId: string; symbol: string }>
+  ) {
+    for (const wallet of wallets) {
+      try {
+        await this.ledger.syncAccount(wallet.sourceAccountId, wallet.symbol);
+      } catch (error) {
+        console.error("Failed to sync ledger after swap:", error);
+      }
+    }
+  }
+}
@@ -0,0 +1,438 @@
+// ./src/services/transactionAnnotation.services.ts
+
+import { Types } from "mongoose";
+import { ITransferHistoryItem } from "@100pay-hq/100pay.js";
+import LedgerEntry from "../models/ledgerEntry.model.js";
+import TransactionAnnotation from "../models/transactionAnnotation.model.js";
+import UserWallet from "../models/userWallet.model.js";
+import {
+  SpendingReportPeriod,
+  TRANSACTION_CATEGORIES,
+  TransactionCategory,
+} from "../types/transactionAnnotation.js";
+import { TransferService } from "./transfer.services.js";
+import { ValidationError } from "./error.services.js";
+import {
+  addAmounts,
+  FIAT_DECIMALS,
+  isZeroAmount,
+  roundAmount,
+  toNumber,
+} from "../utils/money.js";
+
+const MAX_NOTE_LENGTH = 1000;
+const MAX_TAGS = 10;
+const TAG_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+const HISTORY_PAGE_SIZE = 100;
+const REPORT_CURRENCY = "USD";
+
+const PERIOD_DAYS: Record<SpendingReportPeriod, number> = {
+  week: 7,
+  month: 30,
+  quarter: 90,
+  year: 365,
+};
+
+/**
+ * Tags are compared case-insensitively, so "#Rent " and "rent" are the same
+ */
+const normalizeTag = (tag: string) =>
+  String(tag).trim().toLowerCase().replace(/^#/, "").replace(/\s+/g, "-");
+
+/**
+ * Service for private notes, tags and categories on transactions. They are
+ * stored locally per user and merged into the 100Pay transfer history.
+ */
+export class TransactionAnnotationService {
+  private transferService: TransferService;
+
+  /**
+   * Initialize the annotation service with API credentials
+   *
+   * @param publicKey - 100Pay API public key
+   * @param secretKey - 100Pay API secret key
+   * @param baseUrl - Optional API base URL
+   */
+  constructor(publicKey: string, secretKey: string, baseUrl?: string) {
+    this.transferService = new TransferService(publicKey, secretKey, baseUrl);
+  }
+
+  /**
+   * Sets the note, tags and category of a transaction. Fields left out are
+   * kept, null clears them. An annotation left empty is removed.
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param transactionId - 100Pay transaction ID
+   * @param input - Fields to change
+   * @returns The annotation, or null if it ended up empty
+   */
+  async setAnnotation(
+    userId: string | Types.ObjectId,
+    transactionId: string,
+    input: {
+      note?: string | null;
+      tags?: string[] | null;
+      category?: string | null;
+    }
+  ) {
+    if (!transactionId?.trim()) {
+      throw new ValidationError(
+        "Transaction ID is required",
+        undefined,
+        "TRANSACTION_ID_REQUIRED"
+      );
+    }
+
+    const $set: Record<string, unknown> = {};
+    const $unset: Record<string, 1> = {};
+
+    if (input.note !== undefined) {
+      const note = input.note?.trim();
+      if (note && note.length > MAX_NOTE_LENGTH) {
+        throw new ValidationError(
+          `Notes can be at most ${MAX_NOTE_LENGTH} characters`,
+          undefined,
+          "TRANSACTION_NOTE_TOO_LONG"
+        );
+      }
+      if (note) $set.note = note;
+      else $unset.note = 1;
+    }
+
+    if (input.tags !== undefined) {
+      $set.tags = this.normalizeTags(input.tags || []);
+    }
+
+    if (input.category !== undefined) {
+      const category = this.normalizeCategory(input.category);
+      if (category) $set.category = category;
+      else $unset.category = 1;
+    }
+
+    if (!Object.keys($set).length && !Object.keys($unset).length) {
+      return this.getAnnotation(userId, transactionId.trim());
+    }
+
+    const annotation = await TransactionAnnotation.findOneAndUpdate(
+      { user: userId, transactionId: transactionId.trim() },
+      {
+        ...(Object.keys($set).length && { $set }),
+        ...(Object.keys($unset).length && { $unset }),
+      },
+      { new: true, upsert: true, runValidators: true }
+    );
+
+    if (!annotation.note && !annotation.tags?.length && !annotation.category) {
+      await TransactionAnnotation.deleteOne({ _id: annotation._id });
+      return null;
+    }
+
+    return annotation;
+  }
+
+  /**
+   * Removes the note, tags and category of a transaction
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param transactionId - 100Pay transaction ID
+   * @returns True if there was an annotation to remove
+   */
+  async removeAnnotation(
+    userId: string | Types.ObjectId,
+    transactionId: string
+  ) {
+    const result = await TransactionAnnotation.deleteOne({
+      user: userId,
+      transactionId,
+    });
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * Gets the user's annotation of a transaction
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param transactionId - 100Pay transaction ID
+   * @returns The annotation, or null if there is none
+   */
+  async getAnnotation(userId: string | Types.ObjectId, transactionId: string) {
+    return TransactionAnnotation.findOne({ user: userId, transactionId });
+  }
+
+  /**
+   * Gets the tags the user has used, most used first
+   *
+   * @param userId - MongoDB ObjectId of the user
+   */
+  async getTags(userId: string | Types.ObjectId) {
+    const tags = await TransactionAnnotation.aggregate([
+      { $match: { user: new Types.ObjectId(userId.toString()) } },
+      { $unwind: "$tags" },
+      { $group: { _id: "$tags", count: { $sum: 1 } } },
+      { $sort: { count: -1, _id: 1 } },
+    ]);
+
+    return tags.map((tag) => ({ tag: tag._id, count: tag.count }));
+  }
+
+  /**
+   * Adds the user's note, tags and category to transfer history items
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param items - Transfer history items with an id
+   * @returns The items with note, tags and category
+   */
+  async attachAnnotations<T extends { id?: string; _id?: unknown }>(
+    userId: string | Types.ObjectId,
+    items: T[]
+  ) {
+    const ids = items.map((item) => String(item.id ?? item._id));
+    const annotations = await TransactionAnnotation.find({
+      user: userId,
+      transactionId: { $in: ids },
+    });
+    const byId = new Map(
+      annotations.map((annotation) => [annotation.transactionId, annotation])
+    );
+
+    return items.map((item, index) => {
+      const annotation = byId.get(ids[index]);
+      return {
+        ...item,
+        note: annotation?.note ?? null,
+        tags: annotation?.tags ?? [],
+        category: annotation?.category ?? null,
+      };
+    });
+  }
+
+  /**
+   * Gets the transfer history limited to transactions with all of the
+   * given tags and the given category. 100Pay can't filter on them, so the
+   * history is paged through until every matching transaction is found.
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param params - Pagination, symbols, tags and category
+   * @returns History items and pagination meta, newest first
+   */
+  async getFilteredHistory(
+    userId: string | Types.ObjectId,
+    {
+      page = 1,
+      limit = 10,
+      symbols,
+      tags,
+      category,
+    }: {
+      page?: number;
+      limit?: number;
+      symbols?: string[];
+      tags?: string[];
+      category?: string;
+    }
+  ) {
+    const normalizedTags = this.normalizeTags(tags || []);
+    const normalizedCategory = this.normalizeCategory(category);
+
+    const annotations = await TransactionAnnotation.find(
+      {
+        user: userId,
+        ...(normalizedTags.length && { tags: { $all: normalizedTags } }),
+        ...(normalizedCategory && { category: normalizedCategory }),
+      },
+      { transactionId: 1 }
+    );
+    const remaining = new Set(
+      annotations.map((annotation) => annotation.transactionId)
+    );
+
+    const matches: ITransferHistoryItem[] = [];
+    for (let historyPage = 1; remaining.size; historyPage++) {
+      const history = await this.transferService.getTransferHistory(userId, {
+        page: historyPage,
+        limit: HISTORY_PAGE_SIZE,
+        ...(symbols?.length && { symbols }),
+      });
+      const data = history.data || [];
+
+      for (const item of data) {
+        if (remaining.delete(item.id)) matches.push(item);
+      }
+
+      if (!data.length || historyPage >= (history.meta?.pages || historyPage))
+        break;
+    }
+
+    matches.sort(
+      (a, b) =>
+        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    );
+
+    return {
+      data: matches.slice((page - 1) * limit, page * limit),
+      meta: {
+        total: matches.length,
+        page,
+        limit,
+        pages: Math.ceil(matches.length / limit),
+      },
+    };
+  }
+
+  /**
+   * Totals the user's outgoing transactions by category over a rolling
+   * period, valued in USD at the time of each transaction. Transactions
+   * without a category are grouped under null.
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param period - week, month, quarter or year
+   */
+  async getSpendingByCategory(
+    userId: string | Types.ObjectId,
+    period: SpendingReportPeriod
+  ) {
+    const days = PERIOD_DAYS[period];
+    if (!days) {
+      throw new ValidationError(
+        `Period must be one of ${Object.keys(PERIOD_DAYS).join(", ")}`,
+        { period },
+        "SPENDING_PERIOD_INVALID"
+      );
+    }
+
+    const to = new Date();
+    const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+
+    const wallets = await UserWallet.find({ user: userId });
+    const accountIds = wallets
+      .map((wallet) => wallet.sourceAccountId)
+      .filter(Boolean);
+
+    const groups = accountIds.length
+      ? await LedgerEntry.aggregate([
+          {
+            $match: {
+              "postings.accountId": { $in: accountIds },
+              occurredAt: { $gte: from, $lte: to },
+            },
+          },
+          { $unwind: "$postings" },
+          {
+            $match: {
+              "postings.accountId": { $in: accountIds },
+              "postings.direction": "debit",
+              "postings.status": "successful",
+            },
+          },
+          // One debit per transaction, a transfer between the user's own
+          // wallets is still spending from the sending one
+          {
+            $group: {
+              _id: "$transactionId",
+              fiatValue: { $first: "$fiatValue" },
+            },
+          },
+          {
+            $lookup: {
+              from: TransactionAnnotation.collection.name,
+              let: { transactionId: "$_id" },
+              pipeline: [
+                {
+                  $match: {
+                    user: new Types.ObjectId(userId.toString()),
+                    $expr: { $eq: ["$transactionId", "$$transactionId"] },
+                  },
+                },
+                { $project: { category: 1 } },
+              ],
+              as: "annotation",
+            },
+          },
+          {
+            $group: {
+              _id: {
+                $ifNull: [{ $arrayElemAt: ["$annotation.category", 0] }, null],
+              },
+              amount: {
+                $sum: {
+                  $cond: [
+                    { $eq: ["$fiatValue.currency", REPORT_CURRENCY] },
+                    "$fiatValue.amount",
+                    0,
+                  ],
+                },
+              },
+              transactionCount: { $sum: 1 },
+              unvaluedCount: {
+                $sum: {
+                  $cond: [
+                    { $eq: ["$fiatValue.currency", REPORT_CURRENCY] },
+                    0,
+                    1,
+                  ],
+                },
+              },
+            },
+          },
+          { $sort: { amount: -1 } },
+        ])
+      : [];
+
+    const total = addAmounts(...groups.map((group) => group.amount));
+
+    return {
+      period,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      currency: REPORT_CURRENCY,
+      total: toNumber(total),
+      totalDecimal: roundAmount(total, FIAT_DECIMALS),
+      categories: groups.map((group) => ({
+        category: group._id,
+        amount: group.amount,
+        amountDecimal: roundAmount(group.amount, FIAT_DECIMALS),
+        share: isZeroAmount(total) ? 0 : group.amount / toNumber(total),
+        transactionCount: group.transactionCount,
+        unvaluedCount: group.unvaluedCount,
+      })),
+    };
+  }
+
+  private normalizeTags(tags: string[]) {
+    const normalized = [...new Set(tags.map(normalizeTag).filter(Boolean))];
+
+    const invalid = normalized.find((tag) => !TAG_PATTERN.test(tag));
+    if (invalid) {
+      throw new ValidationError(
+        "Tags can only use letters, numbers, hyphens and underscores, up to 32 characters",
+        { tag: invalid },
+        "TRANSACTION_TAG_INVALID"
+      );
+    }
+
+    if (normalized.length > MAX_TAGS) {
+      throw new ValidationError(
+        `A transaction can have at most ${MAX_TAGS} tags`,
+        undefined,
+        "TRANSACTION_TAGS_TOO_MANY"
+      );
+    }
+
+    return normalized;
+  }
+
+  private normalizeCategory(category?: string | null) {
+    const normalized = category?.trim().toLowerCase();
+    if (!normalized) return null;
+
+    if (!TRANSACTION_CATEGORIES.includes(normalized as TransactionCategory)) {
+      throw new ValidationError(
+        `Category must be one of ${TRANSACTION_CATEGORIES.join(", ")}`,
+        { category },
+        "TRANSACTION_CATEGORY_INVALID"
+      );
+    }
+
+    return normalized as TransactionCategory;
+  }
+}
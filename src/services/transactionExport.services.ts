@@ -0,0 +1,768 @@
+// ./src/services/transactionExport.services.ts
+
+import { randomBytes, timingSafeEqual } from "crypto";
+import { Readable } from "stream";
+import mongoose, { Types } from "mongoose";
+import { ITransferHistoryItem } from "@100pay-hq/100pay.js";
+import LedgerEntry from "../models/ledgerEntry.model.js";
+import TransactionExport from "../models/transactionExport.model.js";
+import User from "../models/user.model.js";
+import UserWallet from "../models/userWallet.model.js";
+import {
+  ExportFormat,
+  ExportRow,
+  TransactionExportDocument,
+} from "../types/transactionExport.js";
+import { TransferService } from "./transfer.services.js";
+import { PriceHistoryService } from "./priceHistory.services.js";
+import {
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from "./error.services.js";
+import { EmailService } from "../utils/emails/index.js";
+import paginateCollection, { Pagination } from "../utils/paginate.js";
+import { createTextPdf, PDF_LINE_WIDTH } from "../utils/pdf.js";
+import { toPostingDirection } from "../utils/ledger/index.js";
+import {
+  addAmounts,
+  AmountLike,
+  DEFAULT_DECIMALS,
+  roundAmount,
+  toNumber,
+} from "../utils/money.js";
+
+const APP_NAME = process.env.APP_NAME || "Application";
+const APP_URL = process.env.APP_URL || "http://localhost:3000";
+const INLINE_MAX_ROWS = Number(process.env.EXPORT_INLINE_MAX_ROWS) || 500;
+const LINK_TTL_HOURS = Number(process.env.EXPORT_LINK_TTL_HOURS) || 72;
+const MAX_RANGE_DAYS = Number(process.env.EXPORT_MAX_RANGE_DAYS) || 366;
+const MAX_ATTEMPTS = 3;
+// How long a worker owns an export while building it
+const BUILD_LOCK_MS = 15 * 60 * 1000;
+const HISTORY_PAGE_SIZE = 100;
+const BUCKET_NAME = "transactionExports";
+
+const FORMATS: Record<
+  ExportFormat,
+  { contentType: string; extension: string }
+> = {
+  csv: { contentType: "text/csv; charset=utf-8", extension: "csv" },
+  jsonl: { contentType: "application/x-ndjson", extension: "jsonl" },
+  pdf: { contentType: "application/pdf", extension: "pdf" },
+};
+
+const CSV_COLUMNS: (keyof ExportRow)[] = [
+  "date",
+  "transactionId",
+  "type",
+  "status",
+  "symbol",
+  "amount",
+  "fee",
+  "from",
+  "to",
+  "description",
+  "fiatCurrency",
+  "fiatAmount",
+];
+
+/**
+ * Quotes a CSV field when needed. Text starting with a formula character is
+ * prefixed so spreadsheets don't evaluate it.
+ */
+const toCsvField = (value: unknown) => {
+  if (value === undefined || value === null) return "";
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const formatAmount = (amount: AmountLike) =>
+  roundAmount(amount, DEFAULT_DECIMALS);
+
+/**
+ * Exact decimal string of an amount from the transfer history, which may be
+ * missing or malformed
+ */
+const toExportAmount = (value: unknown) => {
+  try {
+    return roundAmount((value as AmountLike) ?? 0, DEFAULT_DECIMALS);
+  } catch {
+    return "0";
+  }
+};
+
+const getBucket = () =>
+  new mongoose.mongo.GridFSBucket(mongoose.connection.db, {
+    bucketName: BUCKET_NAME,
+  });
+
+/**
+ * Service for exporting transaction history as CSV, JSON lines or a PDF
+ * account statement. Small exports are built during the request, larger
+ * ones by the background job, which emails a download link when done.
+ */
+export class TransactionExportService {
+  private transferService: TransferService;
+  private priceHistoryService = new PriceHistoryService();
+
+  /**
+   * Initialize the export service with API credentials
+   *
+   * @param publicKey - 100Pay API public key
+   * @param secretKey - 100Pay API secret key
+   * @param baseUrl - Optional API base URL
+   */
+  constructor(publicKey: string, secretKey: string, baseUrl?: string) {
+    this.transferService = new TransferService(publicKey, secretKey, baseUrl);
+  }
+
+  /**
+   * Starts an export of the user's transactions between two dates
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param from - Start of the period, ISO date
+   * @param to - End of the period, ISO date. A date without a time covers the whole day.
+   * @param symbols - Optional symbols to limit the export to
+   * @param format - csv, jsonl or pdf
+   * @returns The export, completed if it was small enough to build right away
+   */
+  async createExport(
+    userId: string | Types.ObjectId,
+    {
+      from,
+      to,
+      symbols = [],
+      format,
+    }: { from: string; to: string; symbols?: string[]; format: ExportFormat }
+  ) {
+    if (!FORMATS[format]) {
+      throw new ValidationError(
+        "Format must be csv, jsonl or pdf",
+        undefined,
+        "EXPORT_FORMAT_INVALID"
+      );
+    }
+
+    const start = new Date(from);
+    const end = new Date(to);
+    // A plain date covers the whole day
+    if (/^\d{4}-\d{2}-\d{2}$/.test(to)) end.setUTCHours(23, 59, 59, 999);
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || start > end) {
+      throw new ValidationError(
+        "Provide a valid period where from is before to",
+        undefined,
+        "EXPORT_PERIOD_INVALID"
+      );
+    }
+    if (
+      end.getTime() - start.getTime() >
+      MAX_RANGE_DAYS * 24 * 60 * 60 * 1000
+    ) {
+      throw new ValidationError(
+        `Exports can cover at most ${MAX_RANGE_DAYS} days`,
+        undefined,
+        "EXPORT_PERIOD_TOO_LONG"
+      );
+    }
+
+    const normalizedSymbols = [
+      ...new Set(symbols.map((symbol) => symbol.toUpperCase())),
+    ];
+
+    // The history total covers all time, so this errs towards the background
+    const history = await this.transferService.getTransferHistory(userId, {
+      page: 1,
+      limit: 1,
+      ...(normalizedSymbols.length && { symbols: normalizedSymbols }),
+    });
+    const total = history.meta?.total ?? Infinity;
+
+    const record = await TransactionExport.create({
+      user: new Types.ObjectId(userId),
+      format,
+      from: start,
+      to: end,
+      symbols: normalizedSymbols,
+      background: total > INLINE_MAX_ROWS,
+      downloadToken: randomBytes(24).toString("hex"),
+    });
+
+    if (record.background) return record;
+
+    const claimed = await this.claim(record._id);
+    return claimed ? this.build(claimed) : record;
+  }
+
+  /**
+   * Gets the user's exports, newest first
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param pagination - Pagination options
+   */
+  async getExports(userId: string | Types.ObjectId, pagination: Pagination) {
+    return paginateCollection(TransactionExport, pagination, {
+      filter: { user: new Types.ObjectId(userId) },
+    });
+  }
+
+  /**
+   * Gets an export of the user
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param id - ID of the export
+   */
+  async getExport(userId: string | Types.ObjectId, id: string) {
+    const record = await TransactionExport.findOne({
+      _id: id,
+      user: new Types.ObjectId(userId),
+    });
+    if (!record) throw new NotFoundError("Export not found");
+
+    return record;
+  }
+
+  /**
+   * Download link of a completed export, null until it is ready
+   *
+   * @param id - ID of the export
+   */
+  async getDownloadUrl(id: string | Types.ObjectId) {
+    const record =
+      await TransactionExport.findById(id).select("+downloadToken");
+    if (record?.status !== "completed") return null;
+
+    return `${APP_URL}/exports/${record._id}/download?token=${record.downloadToken}`;
+  }
+
+  /**
+   * Opens a completed export for download with the token from its link
+   *
+   * @param id - ID of the export
+   * @param token - Token from the download link
+   * @returns The file stream and what to send it as
+   */
+  async openDownload(
+    id: string,
+    token: string
+  ): Promise<{
+    stream: Readable;
+    fileName: string;
+    contentType: string;
+    size?: number;
+  }> {
+    const record = Types.ObjectId.isValid(id)
+      ? await TransactionExport.findById(id).select("+downloadToken")
+      : null;
+    if (!record) throw new NotFoundError("Export not found");
+
+    const expected = Buffer.from(record.downloadToken);
+    const given = Buffer.from(token || "");
+    if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+      throw new ForbiddenError(
+        "Invalid download link",
+        undefined,
+        "EXPORT_LINK_INVALID"
+      );
+    }
+
+    if (
+      record.status === "expired" ||
+      (record.expiresAt && record.expiresAt <= new Date())
+    ) {
+      throw new ForbiddenError(
+        "Download link has expired, export the transactions again",
+        undefined,
+        "EXPORT_LINK_EXPIRED"
+      );
+    }
+    if (record.status !== "completed" || !record.fileId) {
+      throw new NotFoundError(
+        "Export is not ready yet",
+        undefined,
+        "EXPORT_NOT_READY"
+      );
+    }
+
+    return {
+      stream: getBucket().openDownloadStream(record.fileId),
+      fileName: record.fileName,
+      contentType: record.contentType,
+      size: record.size,
+    };
+  }
+
+  /**
+   * Builds pending background exports, called by the exports job
+   *
+   * @param limit - Maximum number of exports to build
+   * @returns Number of exports built
+   */
+  async processPendingExports(limit = 2) {
+    let built = 0;
+    while (built < limit) {
+      const now = new Date();
+      const record = await TransactionExport.findOneAndUpdate(
+        {
+          $or: [
+            { status: "pending" },
+            // Builds whose worker died while holding them
+            { status: "processing", lockedUntil: { $lte: now } },
+          ],
+          attempts: { $lt: MAX_ATTEMPTS },
+        },
+        {
+          $set: {
+            status: "processing",
+            lockedUntil: new Date(now.getTime() + BUILD_LOCK_MS),
+          },
+          $inc: { attempts: 1 },
+        },
+        { new: true, sort: { createdAt: 1 } }
+      );
+      if (!record) break;
+
+      await this.build(record);
+      built++;
+    }
+
+    return built;
+  }
+
+  /**
+   * Fails exports whose worker died while building them on their last
+   * attempt, which would otherwise stay processing forever
+   *
+   * @returns Number of exports failed
+   */
+  async failStuckExports() {
+    let failed = 0;
+    for (;;) {
+      const record = await TransactionExport.findOneAndUpdate(
+        {
+          status: "processing",
+          lockedUntil: { $lte: new Date() },
+          attempts: { $gte: MAX_ATTEMPTS },
+        },
+        {
+          $set: {
+            status: "failed",
+            error: "Export build didn't finish",
+          },
+          $unset: { lockedUntil: 1 },
+        },
+        { new: true }
+      );
+      if (!record) break;
+
+      if (record.background) await this.notify(record);
+      failed++;
+    }
+
+    return failed;
+  }
+
+  /**
+   * Deletes the files of exports whose download link expired
+   *
+   * @returns Number of exports expired
+   */
+  async expireOldExports() {
+    const expired = await TransactionExport.find({
+      status: "completed",
+      expiresAt: { $lte: new Date() },
+    }).limit(100);
+
+    for (const record of expired) {
+      if (record.fileId) {
+        await getBucket()
+          .delete(record.fileId)
+          .catch((error) =>
+            console.error(
+              `Failed to delete export file ${record.fileId}:`,
+              error
+            )
+          );
+      }
+      await TransactionExport.updateOne(
+        { _id: record._id },
+        { $set: { status: "expired" }, $unset: { fileId: 1 } }
+      );
+    }
+
+    return expired.length;
+  }
+
+  /**
+   * Claims an export for building right away
+   */
+  private async claim(id: Types.ObjectId) {
+    return TransactionExport.findOneAndUpdate(
+      { _id: id, status: "pending" },
+      {
+        $set: {
+          status: "processing",
+          lockedUntil: new Date(Date.now() + BUILD_LOCK_MS),
+        },
+        $inc: { attempts: 1 },
+      },
+      { new: true }
+    );
+  }
+
+  /**
+   * Builds and stores the export file, then tells background requesters
+   */
+  private async build(record: TransactionExportDocument) {
+    try {
+      const rows = await this.collectRows(record);
+      const file =
+        record.format === "pdf"
+          ? await this.renderStatement(record, rows)
+          : Buffer.from(
+              record.format === "csv"
+                ? this.renderCsv(rows)
+                : rows.map((row) => JSON.stringify(row)).join("\n") +
+                    (rows.length ? "\n" : ""),
+              "utf8"
+            );
+
+      const { contentType, extension } = FORMATS[record.format];
+      const fileName = `transactions-${record.from.toISOString().slice(0, 10)}-to-${record.to.toISOString().slice(0, 10)}.${extension}`;
+      const fileId = await this.upload(fileName, file, record);
+
+      const completed = await TransactionExport.findByIdAndUpdate(
+        record._id,
+        {
+          $set: {
+            status: "completed",
+            rowCount: rows.length,
+            fileId,
+            fileName,
+            contentType,
+            size: file.length,
+            completedAt: new Date(),
+            expiresAt: new Date(Date.now() + LINK_TTL_HOURS * 60 * 60 * 1000),
+          },
+          $unset: { lockedUntil: 1, error: 1 },
+        },
+        { new: true }
+      );
+
+      if (completed.background) await this.notify(completed);
+      return completed;
+    } catch (error) {
+      console.error(`Export ${record._id} failed:`, error);
+
+      const failed = record.attempts >= MAX_ATTEMPTS || !record.background;
+      const updated = await TransactionExport.findByIdAndUpdate(
+        record._id,
+        {
+          $set: {
+            status: failed ? "failed" : "pending",
+            error: error instanceof Error ? error.message : String(error),
+          },
+          $unset: { lockedUntil: 1 },
+        },
+        { new: true }
+      );
+
+      if (failed && updated.background) await this.notify(updated);
+      return updated;
+    }
+  }
+
+  /**
+   * Pages through the whole 100Pay history and keeps the transactions in
+   * the export period, oldest first
+   */
+  private async collectRows(
+    record: TransactionExportDocument
+  ): Promise<ExportRow[]> {
+    const items: ITransferHistoryItem[] = [];
+
+    for (let page = 1; ; page++) {
+      const history = await this.transferService.getTransferHistory(
+        record.user,
+        {
+          page,
+          limit: HISTORY_PAGE_SIZE,
+          ...(record.symbols.length && { symbols: record.symbols }),
+        }
+      );
+      const data: ITransferHistoryItem[] = history.data || [];
+
+      items.push(
+        ...data.filter((item) => {
+          const createdAt = new Date(item.createdAt);
+          return createdAt >= record.from && createdAt <= record.to;
+        })
+      );
+
+      if (!data.length || page >= (history.meta?.pages || page)) break;
+    }
+
+    const transactionIds = items.map((item) => item._id.toString());
+    const entries = await LedgerEntry.find({
+      transactionId: { $in: transactionIds },
+      "fiatValue.amount": { $exists: true },
+    }).select("transactionId fiatValue");
+    const fiatValues = new Map(
+      entries.map((entry) => [entry.transactionId, entry.fiatValue])
+    );
+
+    const rows: ExportRow[] = [];
+    for (const item of items) {
+      const transactionId = item._id.toString();
+      const createdAt = new Date(item.createdAt);
+      const symbol = item.symbol?.toUpperCase();
+      const amount = toExportAmount(item.amount);
+      let fiatValue = fiatValues.get(transactionId);
+
+      // Transactions the ledger didn't value get the USD price at the time
+      if (!fiatValue && symbol) {
+        const usdRate = await this.priceHistoryService.getUsdRateAt(
+          symbol,
+          createdAt
+        );
+        if (usdRate !== null) {
+          fiatValue = {
+            currency: "USD",
+            amount: toNumber(amount) * usdRate,
+            rate: usdRate,
+            capturedAt: createdAt,
+          };
+        }
+      }
+
+      rows.push({
+        date: createdAt.toISOString(),
+        transactionId,
+        type: item.type,
+        status: item.status,
+        symbol,
+        amount,
+        fee: toExportAmount(item.fee),
+        from: item.from,
+        to: item.to,
+        description: item.description,
+        fiatCurrency: fiatValue?.currency,
+        fiatAmount: fiatValue?.amount,
+      });
+    }
+
+    return rows.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  private renderCsv(rows: ExportRow[]) {
+    return [
+      CSV_COLUMNS.join(","),
+      ...rows.map((row) =>
+        CSV_COLUMNS.map((column) => toCsvField(row[column])).join(",")
+      ),
+    ]
+      .join("\r\n")
+      .concat("\r\n");
+  }
+
+  /**
+   * Renders a PDF account statement with opening and closing balances per
+   * symbol, taken from the ledger
+   */
+  private async renderStatement(
+    record: TransactionExportDocument,
+    rows: ExportRow[]
+  ) {
+    const user = await User.findById(record.user);
+    const wallets = await UserWallet.find({
+      user: record.user,
+      ...(record.symbols.length && { symbol: { $in: record.symbols } }),
+    });
+    const accountIds = wallets
+      .map((wallet) => wallet.sourceAccountId)
+      .filter(Boolean);
+
+    const [opening, closing] = await Promise.all([
+      this.getBalancesAt(accountIds, { $lt: record.from }),
+      this.getBalancesAt(accountIds, { $lte: record.to }),
+    ]);
+
+    const symbols = [
+      ...new Set([
+        ...wallets.map((wallet) => wallet.symbol.toUpperCase()),
+        ...rows.map((row) => row.symbol),
+      ]),
+    ].sort();
+
+    const name =
+      [user?.firstName, user?.lastName].filter(Boolean).join(" ") ||
+      user?.email;
+    const period = `${record.from.toISOString().slice(0, 10)} to ${record.to.toISOString().slice(0, 10)}`;
+    const rule = "-".repeat(PDF_LINE_WIDTH);
+
+    const lines = [
+      `${APP_NAME} - Account statement`,
+      "",
+      `Account holder: ${name || ""}`,
+      `Email:          ${user?.email || ""}`,
+      `Period:         ${period} (UTC)`,
+      `Generated:      ${new Date().toISOString()}`,
+      "",
+    ];
+
+    for (const symbol of symbols) {
+      const symbolRows = rows.filter((row) => row.symbol === symbol);
+      const sum = (type: string) =>
+        symbolRows
+          .filter(
+            (row) =>
+              toPostingDirection(row.type) === type &&
+              (row.status === "successful" || row.status === "completed")
+          )
+          .reduce((total, row) => addAmounts(total, row.amount), "0");
+      const fiatTotal = symbolRows.reduce(
+        (total, row) => total + (row.fiatAmount || 0),
+        0
+      );
+
+      lines.push(
+        rule,
+        symbol,
+        rule,
+        `Opening balance:  ${formatAmount(opening[symbol] || 0)} ${symbol}`,
+        `Money in:         ${formatAmount(sum("credit"))} ${symbol}`,
+        `Money out:        ${formatAmount(sum("debit"))} ${symbol}`,
+        `Closing balance:  ${formatAmount(closing[symbol] || 0)} ${symbol}`,
+        `Value moved:      ${fiatTotal.toFixed(2)} USD (at the time of each transaction, where known)`,
+        "",
+        [
+          "Date".padEnd(17),
+          "Type".padEnd(7),
+          "Status".padEnd(11),
+          "Amount".padStart(18),
+          "USD".padStart(12),
+          "  Description",
+        ].join(""),
+        ...(symbolRows.length
+          ? symbolRows.map((row) =>
+              [
+                row.date.slice(0, 16).replace("T", " ").padEnd(17),
+                (row.type || "").padEnd(7),
+                (row.status || "").padEnd(11),
+                formatAmount(row.amount).padStart(18),
+                (row.fiatAmount !== undefined
+                  ? row.fiatAmount.toFixed(2)
+                  : "-"
+                ).padStart(12),
+                `  ${row.description || ""}`,
+              ].join("")
+            )
+          : ["No transactions in this period"]),
+        ""
+      );
+    }
+
+    if (!symbols.length) lines.push("No wallets or transactions to report.");
+
+    return createTextPdf(lines, `${APP_NAME} account statement ${period}`);
+  }
+
+  /**
+   * Successful ledger balance of accounts per symbol as of a date
+   */
+  private async getBalancesAt(
+    accountIds: string[],
+    occurredAt: Record<string, Date>
+  ): Promise<Record<string, string>> {
+    if (!accountIds.length) return {};
+
+    const balances = await LedgerEntry.aggregate([
+      { $match: { "postings.accountId": { $in: accountIds }, occurredAt } },
+      { $unwind: "$postings" },
+      {
+        $match: {
+          "postings.accountId": { $in: accountIds },
+          "postings.status": "successful",
+        },
+      },
+      {
+        $group: {
+          _id: "$postings.symbol",
+          balance: {
+            $sum: {
+              $cond: [
+                { $eq: ["$postings.direction", "credit"] },
+                "$postings.amount",
+                { $multiply: ["$postings.amount", -1] },
+              ],
+            },
+          },
+        },
+      },
+    ]);
+
+    // Sums of Decimal128 amounts come back as Decimal128
+    return Object.fromEntries(
+      balances.map(({ _id, balance }) => [_id, formatAmount(balance)])
+    );
+  }
+
+  /**
+   * Stores an export file in GridFS
+   */
+  private upload(
+    fileName: string,
+    file: Buffer,
+    record: TransactionExportDocument
+  ) {
+    return new Promise<Types.ObjectId>((resolve, reject) => {
+      const upload = getBucket().openUploadStream(fileName, {
+        metadata: { exportId: record._id, user: record.user },
+      });
+      upload.once("error", reject);
+      upload.once("finish", () => resolve(upload.id as Types.ObjectId));
+      upload.end(file);
+    });
+  }
+
+  /**
+   * Emails the user that a background export is ready or failed
+   */
+  private async notify(record: TransactionExportDocument) {
+    try {
+      const user = await User.findById(record.user);
+      if (!user?.email) return;
+
+      const name = user.firstName || user.email.split("@")[0];
+      const period = `${record.from.toISOString().slice(0, 10)} to ${record.to.toISOString().slice(0, 10)}`;
+      const ready = record.status === "completed";
+
+      const emailService = new EmailService();
+      await emailService.sendEmail({
+        subject: `${APP_NAME} - ${ready ? "Your transaction export is ready" : "Your transaction export failed"}`,
+        htmlBody: emailService.generateMinimalistTemplate({
+          title: ready ? "Your export is ready" : "Your export failed",
+          content: ready
+            ? `
+            <p>Hi ${name},</p>
+            <p>Your ${record.format.toUpperCase()} export of transactions from ${period} is ready, with ${record.rowCount} transactions.</p>
+            <p>The download link works for ${LINK_TTL_HOURS} hours.</p>
+          `
+            : `
+            <p>Hi ${name},</p>
+            <p>We couldn't export your transactions from ${period}. Please try again later.</p>
+          `,
+          ...(ready && {
+            buttonText: "Download export",
+            buttonUrl: await this.getDownloadUrl(record._id),
+          }),
+        }),
+        to: { email: user.email, name },
+      });
+    } catch (error) {
+      console.error("Failed to send transaction export email:", error);
+    }
+  }
+}
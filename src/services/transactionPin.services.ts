@@ -0,0 +1,231 @@
+// ./src/services/transactionPin.services.ts
+
+import { genSalt, hash, compare } from "bcrypt";
+import { string } from "yup";
+import { Types } from "mongoose";
+import User from "../models/user.model.js";
+import { consumeOTP, initOTPGeneration } from "./otp.services.js";
+import {
+  BadRequestError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from "./error.services.js";
+
+const MAX_ATTEMPTS = Number(process.env.TRANSACTION_PIN_MAX_ATTEMPTS) || 5;
+const LOCK_MINUTES = Number(process.env.TRANSACTION_PIN_LOCK_MINUTES) || 30;
+
+const pinSchema = string()
+  .required("Transaction PIN is required")
+  .matches(/^\d{4,6}$/, "Transaction PIN must be 4 to 6 digits");
+
+/**
+ * Service for the hashed transaction PIN that authorizes outgoing transfers
+ */
+export class TransactionPinService {
+  /**
+   * Sets the transaction PIN of a user that doesn't have one yet
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param pin - New transaction PIN
+   */
+  async setPin(userId: string | Types.ObjectId, pin: string) {
+    const user = await this.getUser(userId);
+
+    if (user.transactionPin) {
+      throw new BadRequestError(
+        "Transaction PIN is already set, change or reset it instead",
+        undefined,
+        "TRANSACTION_PIN_ALREADY_SET"
+      );
+    }
+
+    await this.savePin(userId, pin);
+    return true;
+  }
+
+  /**
+   * Changes the transaction PIN after checking the current one
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param currentPin - Current transaction PIN
+   * @param newPin - New transaction PIN
+   */
+  async changePin(
+    userId: string | Types.ObjectId,
+    currentPin: string,
+    newPin: string
+  ) {
+    await this.verifyPin(userId, currentPin);
+    await this.savePin(userId, newPin);
+    return true;
+  }
+
+  /**
+   * Sends an OTP to the user's email to reset a forgotten transaction PIN
+   *
+   * @param userId - MongoDB ObjectId of the user
+   */
+  async requestPinReset(userId: string | Types.ObjectId) {
+    const user = await this.getUser(userId);
+    const response = await initOTPGeneration(user.email, "pin_reset");
+
+    if (!response.success) {
+      throw new BadRequestError(response.message);
+    }
+
+    return true;
+  }
+
+  /**
+   * Resets the transaction PIN with an OTP sent by requestPinReset.
+   * Also clears any lockout. Wrong OTPs count towards locking the OTP.
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param otp - OTP received by email
+   * @param newPin - New transaction PIN
+   */
+  async resetPin(userId: string | Types.ObjectId, otp: string, newPin: string) {
+    const user = await this.getUser(userId);
+
+    // Validate the new PIN first so a typo doesn't use up the OTP
+    await this.validatePin(newPin);
+    await consumeOTP(user.email, otp, "pin_reset");
+
+    await this.savePin(userId, newPin);
+    return true;
+  }
+
+  /**
+   * Checks a transaction PIN. Repeated wrong attempts lock the PIN for a while.
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param pin - Transaction PIN to check
+   * @throws ValidationError with TRANSACTION_PIN_REQUIRED if no PIN is given
+   * @throws ForbiddenError with TRANSACTION_PIN_NOT_SET if the user has no PIN
+   * @throws ForbiddenError with TRANSACTION_PIN_LOCKED while the PIN is locked
+   * @throws UnauthorizedError with TRANSACTION_PIN_INVALID if the PIN is wrong
+   */
+  async verifyPin(userId: string | Types.ObjectId, pin?: string) {
+    if (!pin) {
+      throw new ValidationError(
+        "Transaction PIN is required",
+        undefined,
+        "TRANSACTION_PIN_REQUIRED"
+      );
+    }
+
+    const user = await this.getUser(userId);
+
+    if (!user.transactionPin) {
+      throw new ForbiddenError(
+        "Set a transaction PIN before making transfers",
+        undefined,
+        "TRANSACTION_PIN_NOT_SET"
+      );
+    }
+
+    if (
+      user.transactionPinLockedUntil &&
+      user.transactionPinLockedUntil > new Date()
+    ) {
+      throw new ForbiddenError(
+        "Transaction PIN is locked after too many wrong attempts",
+        { lockedUntil: user.transactionPinLockedUntil.toISOString() },
+        "TRANSACTION_PIN_LOCKED"
+      );
+    }
+
+    const isMatch = await compare(pin, user.transactionPin);
+
+    if (isMatch) {
+      if (user.transactionPinAttempts || user.transactionPinLockedUntil) {
+        await User.updateOne(
+          { _id: user._id },
+          {
+            $set: { transactionPinAttempts: 0 },
+            $unset: { transactionPinLockedUntil: 1 },
+          }
+        );
+      }
+      return true;
+    }
+
+    const updated = await User.findOneAndUpdate(
+      { _id: user._id },
+      { $inc: { transactionPinAttempts: 1 } },
+      { new: true }
+    );
+    const attempts = updated?.transactionPinAttempts || MAX_ATTEMPTS;
+
+    if (attempts >= MAX_ATTEMPTS) {
+      const lockedUntil = new Date(Date.now() + LOCK_MINUTES * 60 * 1000);
+      await User.updateOne(
+        { _id: user._id },
+        { $set: { transactionPinAttempts: 0, transactionPinLockedUntil: lockedUntil } }
+      );
+
+      throw new ForbiddenError(
+        "Transaction PIN is locked after too many wrong attempts",
+        { lockedUntil: lockedUntil.toISOString() },
+        "TRANSACTION_PIN_LOCKED"
+      );
+    }
+
+    throw new UnauthorizedError(
+      "Invalid transaction PIN",
+      { attemptsRemaining: MAX_ATTEMPTS - attempts },
+      "TRANSACTION_PIN_INVALID"
+    );
+  }
+
+  /**
+   * Validates, hashes and stores a new PIN
+   */
+  private async savePin(userId: string | Types.ObjectId, pin: string) {
+    await this.validatePin(pin);
+
+    const salt = await genSalt(10);
+    const hashedPin = await hash(pin, salt);
+
+    await User.updateOne(
+      { _id: userId },
+      {
+        $set: {
+          transactionPin: hashedPin,
+          transactionPinAttempts: 0,
+          transactionPinUpdatedAt: new Date(),
+        },
+        $unset: { transactionPinLockedUntil: 1 },
+      }
+    );
+  }
+
+  /**
+   * Checks the format of a PIN
+   */
+  private async validatePin(pin: string) {
+    try {
+      await pinSchema.validate(pin);
+    } catch (error) {
+      throw new ValidationError(error.message, undefined, "TRANSACTION_PIN_FORMAT");
+    }
+  }
+
+  /**
+   * Loads a user together with the hashed PIN
+   */
+  private async getUser(userId: string | Types.ObjectId) {
+    if (!userId) {
+      throw new UnauthorizedError("Authentication required");
+    }
+
+    const user = await User.findById(userId).select("+transactionPin");
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    return user;
+  }
+}
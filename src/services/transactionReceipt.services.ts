@@ -0,0 +1,221 @@
+// ./src/services/transactionReceipt.services.ts
+
+import { Types } from "mongoose";
+import LedgerEntry from "../models/ledgerEntry.model.js";
+import TransferApproval from "../models/transferApproval.model.js";
+import UserWallet from "../models/userWallet.model.js";
+import { LedgerFiatValue } from "../types/ledger.js";
+import { UserWalletDocument } from "../types/userWallet/index.js";
+import { WalletService } from "./userWallet.services.js";
+import { RatesService } from "./rates.services.js";
+import { PriceHistoryService } from "./priceHistory.services.js";
+import { ForbiddenError, NotFoundError } from "./error.services.js";
+import { getExplorerUrl } from "../utils/explorer.js";
+import { checkUserIsAdmin } from "../utils/user.js";
+import { roundAmount } from "../utils/money.js";
+
+const RECEIPT_CURRENCY = "USD";
+
+/**
+ * Service for verified receipts of 100Pay transactions
+ */
+export class TransactionReceiptService {
+  private walletService: WalletService;
+  private ratesService?: RatesService;
+  private priceHistoryService?: PriceHistoryService;
+
+  /**
+   * Initialize the receipt service with API credentials
+   *
+   * @param publicKey - 100Pay API public key
+   * @param secretKey - 100Pay API secret key
+   * @param baseUrl - Optional API base URL
+   */
+  constructor(publicKey: string, secretKey: string, baseUrl?: string) {
+    this.walletService = new WalletService(publicKey, secretKey, baseUrl);
+  }
+
+  /**
+   * Gets the receipt of a transaction. Only users who own the sending or
+   * receiving wallet, and admins, can see it.
+   *
+   * @param userId - MongoDB ObjectId of the user asking for the receipt
+   * @param transactionId - 100Pay transaction ID
+   * @returns Verified receipt
+   */
+  async getReceipt(userId: string | Types.ObjectId, transactionId: string) {
+    const [verification, entry] = await Promise.all([
+      this.verify(transactionId),
+      LedgerEntry.findOne({ transactionId }),
+    ]);
+
+    const transaction = verification ?? {};
+    if (!verification && !entry) {
+      throw new NotFoundError("Transaction not found");
+    }
+
+    const from = transaction.from ?? entry?.from;
+    const to = transaction.to ?? entry?.to;
+    const symbol = (transaction.symbol ?? entry?.symbol)?.toUpperCase();
+
+    const fromWallet = await this.findWallet(from, symbol, entry, "debit");
+    const toWallet = await this.findWallet(to, symbol, entry, "credit");
+
+    const isParty = [fromWallet, toWallet].some(
+      (wallet) => wallet?.user?.toString() === userId.toString()
+    );
+    if (!isParty && !(await checkUserIsAdmin(userId.toString()))) {
+      throw new ForbiddenError(
+        "You can only view transactions you sent or received",
+        undefined,
+        "TRANSACTION_ACCESS_DENIED"
+      );
+    }
+
+    const amount = roundAmount(
+      transaction.amount ?? entry?.postings?.[0]?.amount ?? 0
+    );
+    const network =
+      transaction.network ?? fromWallet?.network ?? toWallet?.network;
+    const transactionHash =
+      transaction.transactionHash ?? transaction.txHash ?? transaction.hash;
+    const createdAt = transaction.createdAt ?? entry?.occurredAt?.toISOString();
+
+    return {
+      id: transactionId,
+      verified: Boolean(verification),
+      status: transaction.status ?? entry?.postings?.[0]?.status,
+      type: transaction.type,
+      amount,
+      symbol,
+      fee: (transaction.fee ?? entry?.fee)?.toString(),
+      description: transaction.description ?? entry?.description,
+      from,
+      to,
+      fromWallet,
+      toWallet,
+      network,
+      transactionHash,
+      explorerUrl: getExplorerUrl(network, transactionHash),
+      fiatValue:
+        entry?.fiatValue?.amount !== undefined
+          ? entry.fiatValue
+          : await this.getHistoricalFiatValue(symbol, amount, createdAt),
+      approval: entry?.approval
+        ? await TransferApproval.findById(entry.approval)
+        : null,
+      createdAt,
+      verifiedAt: verification ? new Date().toISOString() : null,
+    };
+  }
+
+  /**
+   * Values a transaction in USD and stores the value on its ledger entry,
+   * so later receipts show the value from around the time it happened
+   *
+   * @param transactionId - 100Pay transaction ID
+   * @param symbol - Symbol of the transaction
+   * @param amount - Amount of the transaction
+   * @returns The fiat value, or null if it couldn't be valued
+   */
+  async captureFiatValue(
+    transactionId: string,
+    symbol: string,
+    amount: number | string
+  ): Promise<LedgerFiatValue | null> {
+    try {
+      this.ratesService = this.ratesService || new RatesService();
+      const { convertedAmount, fromRate } =
+        await this.ratesService.convertCurrency({
+          fromSymbol: symbol,
+          toSymbol: RECEIPT_CURRENCY,
+          amount,
+        });
+
+      const fiatValue: LedgerFiatValue = {
+        currency: RECEIPT_CURRENCY,
+        amount: convertedAmount,
+        rate: fromRate,
+        capturedAt: new Date(),
+      };
+
+      // Only the first captured value is kept
+      await LedgerEntry.updateOne(
+        { transactionId, "fiatValue.amount": { $exists: false } },
+        { $set: { fiatValue } }
+      );
+
+      return fiatValue;
+    } catch (error) {
+      console.error(`Failed to value transaction ${transactionId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Values a transaction that wasn't valued when it was sent with the stored
+   * USD price at the time it happened. The value isn't saved, so a later
+   * receipt can still pick up a price recorded for that time.
+   */
+  private async getHistoricalFiatValue(
+    symbol: string | undefined,
+    amount: string,
+    createdAt: string | undefined
+  ): Promise<LedgerFiatValue | null> {
+    const at = createdAt ? new Date(createdAt) : null;
+    if (!symbol || !at || isNaN(at.getTime())) return null;
+
+    try {
+      this.priceHistoryService =
+        this.priceHistoryService || new PriceHistoryService();
+      const usdRate = await this.priceHistoryService.getUsdRateAt(symbol, at);
+      if (usdRate === null) return null;
+
+      return {
+        currency: RECEIPT_CURRENCY,
+        amount: Number(amount) * usdRate,
+        rate: usdRate,
+        capturedAt: at,
+      };
+    } catch (error) {
+      console.error(`Failed to value transaction at ${createdAt}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Verifies a transaction with 100Pay, null if it can't be verified
+   */
+  private async verify(transactionId: string): Promise<Record<string, any>> {
+    try {
+      const result = await this.walletService.verifyTransaction(transactionId);
+      return result?.data ?? result ?? null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Finds our wallet on one side of a transaction, by address or by the
+   * account of the matching ledger posting
+   */
+  private async findWallet(
+    address: string | undefined,
+    symbol: string | undefined,
+    entry: { postings?: { accountId: string; direction: string }[] } | null,
+    direction: "credit" | "debit"
+  ): Promise<UserWalletDocument | null> {
+    if (address) {
+      const wallet = await UserWallet.findOne({
+        "account.address": address,
+        ...(symbol && { symbol }),
+      });
+      if (wallet) return wallet;
+    }
+
+    const posting = entry?.postings?.find((p) => p.direction === direction);
+    if (!posting) return null;
+
+    return UserWallet.findOne({ sourceAccountId: posting.accountId });
+  }
+}
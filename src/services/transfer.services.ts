@@ -9,7 +9,22 @@ import {
 import { Types } from "mongoose";
 import UserWallet from "../models/userWallet.model.js";
 import { WalletService } from "./userWallet.services.js";
+import { LedgerService } from "./ledger.services.js";
+import { OutgoingWebhookService } from "./outgoingWebhook.services.js";
+import { TransactionReceiptService } from "./transactionReceipt.services.js";
+import { SpendingLimitService } from "./spendingLimit.services.js";
+import { TransferApprovalService } from "./transferApproval.services.js";
+import { BeneficiaryService } from "./beneficiary.services.js";
+import {
+  ApiError,
+  BadRequestError,
+  ForbiddenError,
+  NotFoundError,
+  TransferOutcomeUnknownError,
+} from "./error.services.js";
 import { UserWalletDocument } from "../types/userWallet/index.js";
+import { assertValidAddress } from "../utils/addressValidation.js";
+import { DEFAULT_DECIMALS, getDecimals, parseAmount } from "../utils/money.js";
 import { logger } from "@untools/logger";
 
 /**
@@ -18,6 +33,12 @@ import { logger } from "@untools/logger";
 export class TransferService {
   private client: Pay100;
   private walletService: WalletService;
+  private ledger: LedgerService;
+  private webhooks: OutgoingWebhookService;
+  private receipts: TransactionReceiptService;
+  private limits: SpendingLimitService;
+  private approvals: TransferApprovalService;
+  private beneficiaries: BeneficiaryService;
 
   /**
    * Initialize the transfer service with API credentials
@@ -34,6 +55,16 @@ export class TransferService {
     });
 
     this.walletService = new WalletService(publicKey, secretKey, baseUrl);
+    this.ledger = new LedgerService(publicKey, secretKey, baseUrl);
+    this.webhooks = new OutgoingWebhookService();
+    this.limits = new SpendingLimitService();
+    this.approvals = new TransferApprovalService(publicKey, secretKey, baseUrl);
+    this.beneficiaries = new BeneficiaryService();
+    this.receipts = new TransactionReceiptService(
+      publicKey,
+      secretKey,
+      baseUrl
+    );
   }
 
   /**
@@ -41,7 +72,7 @@ export class TransferService {
    *
    * @param fromUserId - MongoDB ObjectId of the sender
    * @param toUserId - MongoDB ObjectId of the recipient
-   * @param amount - Amount to transfer
+   * @param amount - Amount to transfer, a decimal string is sent exactly
    * @param symbol - Cryptocurrency symbol (e.g., "BTC", "ETH")
    * @param description - Optional transfer description
    * @returns Transfer result with transaction details
@@ -54,15 +85,90 @@ export class TransferService {
     symbol,
     network,
     description = "Asset transfer",
+    onApprovalRequired = "hold",
+    approvalId,
+    claimId,
   }: {
     fromUserId: string | Types.ObjectId;
     toUserId?: string | Types.ObjectId;
     toAddress?: string;
-    amount: number;
+    amount: number | string;
     network: string;
     symbol: string;
     description?: string;
+    /** Whether transfers above the approval threshold are held or refused */
+    onApprovalRequired?: "hold" | "reject";
+    /** Set when sending a transfer that admins approved */
+    approvalId?: string;
+    /**
+     * Set when paying a claimable transfer out of escrow or refunding it.
+     * The funding transfer already went through approvals and limits.
+     */
+    claimId?: string;
   }) {
+    // Reject malformed addresses and amounts before anything is sent to 100Pay
+    if (toAddress) assertValidAddress(network, toAddress, symbol);
+    const value = parseAmount(amount, DEFAULT_DECIMALS);
+    // Limits and approvals are measured in USD, where a float is precise enough
+    const numericAmount = Number(value);
+
+    // Addresses saved as beneficiaries keep their cooling-off period when
+    // sent to directly
+    if (toAddress && !approvalId && !claimId) {
+      await this.beneficiaries.checkAddressTransfer(fromUserId, {
+        toAddress,
+        symbol,
+        network,
+        amount: numericAmount,
+      });
+    }
+
+    // Large transfers wait for admin approval instead of being sent
+    if (!approvalId && !claimId) {
+      const threshold = await this.approvals.requiresApproval(fromUserId, {
+        symbol,
+        amount: numericAmount,
+      });
+
+      if (threshold && onApprovalRequired === "reject") {
+        throw new ForbiddenError(
+          `Transfers above ${threshold.thresholdUsd} USD need admin approval, send it as a regular transfer instead`,
+          { thresholdUsd: threshold.thresholdUsd },
+          "TRANSFER_APPROVAL_REQUIRED"
+        );
+      }
+
+      if (threshold) {
+        const approval = await this.approvals.hold(fromUserId, {
+          toUserId,
+          toAddress,
+          amount: value,
+          symbol,
+          network,
+          description,
+          ...threshold,
+        });
+
+        return {
+          status: "pending_approval",
+          message: "Transfer is waiting for admin approval",
+          data: null,
+          approval,
+        };
+      }
+    }
+
+    // Hold the amount against the sender's spending limits while it is sent
+    const usageId = claimId
+      ? null
+      : await this.limits.reserve(fromUserId, {
+          symbol,
+          network,
+          amount: numericAmount,
+        });
+    let attempted = false;
+    let sent = false;
+
     try {
       // Get sender wallet
       const fromWallet = await this.walletService.getUserWalletBySymbol(
@@ -72,11 +178,16 @@ export class TransferService {
       );
 
       if (!fromWallet) {
-        throw new Error(
-          `Sender doesn't have a ${symbol} wallet with network ${network}`
+        throw new NotFoundError(
+          `Sender doesn't have a ${symbol} wallet with network ${network}`,
+          { symbol, network },
+          "WALLET_NOT_FOUND"
         );
       }
 
+      // The wallet's decimals are the smallest amount 100Pay can move
+      const exactAmount = parseAmount(value, getDecimals(fromWallet.decimals));
+
       let walletAddress: string;
       let toWallet: UserWalletDocument;
       // Determine recipient wallet address
@@ -90,11 +201,16 @@ export class TransferService {
         // If only toUserId is provided, use the wallet for that user
         toWallet = await this.walletService.getUserWalletBySymbol(
           toUserId,
-          symbol
+          symbol,
+          network
         );
 
         if (!toWallet) {
-          throw new Error(`Recipient doesn't have a ${symbol} wallet`);
+          throw new NotFoundError(
+            `Recipient doesn't have a ${symbol} wallet with network ${network}`,
+            { symbol, network },
+            "RECIPIENT_WALLET_NOT_FOUND"
+          );
         }
 
         walletAddress = toWallet.account.address;
@@ -102,44 +218,166 @@ export class TransferService {
 
       // Check if the wallet address is valid
       if (!walletAddress) {
-        throw new Error("No valid wallet address provided");
+        throw new BadRequestError(
+          "No valid wallet address provided",
+          undefined,
+          "TRANSFER_RECIPIENT_REQUIRED"
+        );
       }
-      // // Validate the wallet address format
-      // if (!this.client.utils.isValidAddress(walletAddress, symbol)) {
-      //   throw new Error("Invalid wallet address format");
-      // }
-
       // Prepare transfer payload
       const transferData: ITransferAssetData = {
-        amount: amount.toString(),
+        amount: exactAmount,
         symbol: symbol.toUpperCase(),
         to: walletAddress,
         description,
         from: fromWallet.account.address,
-        // Add authentication if required by the SDK
-        // authType: "PIN",
-        // authValue: "1234", // In production, this should be securely provided by the user
       };
 
       // Execute transfer through 100Pay SDK
+      attempted = true;
       const transferResult =
         await this.client.transfer.executeTransfer(transferData);
+      sent = true;
 
       logger.info("transferResult", transferResult);
 
+      // The funds moved, so nothing after this may fail the transfer and
+      // lead a retry to send them again
+      try {
+        await this.recordSentTransfer({
+          transferResult,
+          fromUserId,
+          fromWallet,
+          toWallet,
+          walletAddress,
+          usageId,
+          exactAmount,
+          symbol,
+          network,
+          description,
+        });
+      } catch (error) {
+        console.error("Failed to record sent transfer:", error);
+      }
+
       return {
         ...transferResult,
         fromWallet,
-        toWallet: toAddress
-          ? { account: { address: toAddress } }
-          : await this.walletService.getUserWalletBySymbol(toUserId, symbol),
+        toWallet: toAddress ? { account: { address: toAddress } } : toWallet,
         fromUserId,
       };
     } catch (error) {
+      if (!sent) await this.limits.release(usageId);
       console.error("Transfer failed:", error);
-      throw new Error(
-        `Failed to transfer assets: ${error instanceof Error ? error.message : String(error)}`
-      );
+      // Refusals before the send keep their status and code
+      if (!attempted && error instanceof ApiError) throw error;
+      const message = `Failed to transfer assets: ${error instanceof Error ? error.message : String(error)}`;
+      throw attempted
+        ? new TransferOutcomeUnknownError(message)
+        : new Error(message);
+    }
+  }
+
+  /**
+   * Mirrors a sent transfer in the ledger, spending limits, receipt and
+   * webhooks. Each step is independent, so one failing doesn't skip the rest.
+   */
+  private async recordSentTransfer({
+    transferResult,
+    fromUserId,
+    fromWallet,
+    toWallet,
+    walletAddress,
+    usageId,
+    exactAmount,
+    symbol,
+    network,
+    description,
+  }: {
+    transferResult: Awaited<ReturnType<Pay100["transfer"]["executeTransfer"]>>;
+    fromUserId: string | Types.ObjectId;
+    fromWallet: UserWalletDocument;
+    toWallet?: UserWalletDocument;
+    walletAddress: string;
+    usageId: string | null;
+    exactAmount: string;
+    symbol: string;
+    network: string;
+    description: string;
+  }) {
+    const receipt = transferResult.data?.receipt;
+    const transactionId = (receipt?.id || receipt?._id)?.toString();
+
+    // The recipient may be one of our users even when paid by address
+    let recipientWallet = toWallet;
+    try {
+      recipientWallet =
+        recipientWallet ||
+        (await UserWallet.findOne({
+          "account.address": walletAddress,
+          symbol: symbol.toUpperCase(),
+        }));
+    } catch (error) {
+      console.error("Failed to look up recipient wallet:", error);
+    }
+
+    // Mirror the transfer in the ledger, the sync job reconciles it if this fails
+    try {
+      await this.ledger.recordTransfer({
+        receipt,
+        fromWallet,
+        toWallet: recipientWallet,
+      });
+    } catch (error) {
+      console.error("Failed to record transfer in ledger:", error);
+    }
+
+    try {
+      await this.limits.commit(usageId, transactionId);
+    } catch (error) {
+      console.error("Failed to commit spending limit usage:", error);
+    }
+
+    // Keep the fiat value at the time of the transfer for its receipt
+    if (transactionId) {
+      try {
+        await this.receipts.captureFiatValue(
+          transactionId,
+          symbol,
+          exactAmount
+        );
+      } catch (error) {
+        console.error("Failed to capture fiat value:", error);
+      }
+    }
+
+    const event = {
+      transactionId,
+      amount: exactAmount,
+      symbol: symbol.toUpperCase(),
+      network,
+      from: fromWallet.account.address,
+      to: walletAddress,
+      status: receipt?.status,
+      description,
+    };
+    try {
+      await this.webhooks.dispatch("transfer.sent", {
+        ...event,
+        userId: fromUserId.toString(),
+      });
+    } catch (error) {
+      console.error("Failed to dispatch transfer.sent webhook:", error);
+    }
+    if (recipientWallet) {
+      try {
+        await this.webhooks.dispatch("transfer.received", {
+          ...event,
+          userId: recipientWallet.user.toString(),
+        });
+      } catch (error) {
+        console.error("Failed to dispatch transfer.received webhook:", error);
+      }
     }
   }
 
@@ -198,6 +436,7 @@ export class TransferService {
       };
     } catch (error) {
       console.error("Failed to get transfer history:", error);
+      if (error instanceof ApiError) throw error;
       throw new Error(
         `Failed to get transfer history: ${error instanceof Error ? error.message : String(error)}`
       );
@@ -211,7 +450,7 @@ export class TransferService {
    * @param symbol - Cryptocurrency symbol
    * @param amount - Transfer amount
    * @param network - Network name
-   * @returns Fee calculation result
+   * @returns Fee calculation result, with the wallet's decimals for exact fee amounts
    */
   async calculateTransferFee({
     userId,
@@ -222,7 +461,7 @@ export class TransferService {
     userId: string | Types.ObjectId;
     symbol: string;
     network: string;
-    amount: number;
+    amount: number | string;
   }) {
     try {
       // Get user wallet for the symbol
@@ -233,13 +472,19 @@ export class TransferService {
       );
 
       if (!userWallet) {
-        throw new Error(`User doesn't have a ${symbol} wallet`);
+        throw new NotFoundError(
+          `User doesn't have a ${symbol} wallet with network ${network}`,
+          { symbol, network },
+          "WALLET_NOT_FOUND"
+        );
       }
 
+      const decimals = getDecimals(userWallet.decimals);
+
       // Prepare fee calculation params
       const feeParams: ITransferFeeParams = {
         symbol: symbol.toUpperCase(),
-        amount: amount.toString(),
+        amount: parseAmount(amount, decimals),
         address: userWallet.account.address,
       };
 
@@ -248,10 +493,12 @@ export class TransferService {
 
       return {
         ...feeResult,
+        data: feeResult.data && { ...feeResult.data, decimals },
         wallet: userWallet,
       };
     } catch (error) {
       console.error("Fee calculation failed:", error);
+      if (error instanceof ApiError) throw error;
       throw new Error(
         `Failed to calculate transfer fee: ${error instanceof Error ? error.message : String(error)}`
       );
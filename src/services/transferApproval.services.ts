@@ -0,0 +1,437 @@
+// ./src/services/transferApproval.services.ts
+
+import { Types } from "mongoose";
+import LedgerEntry from "../models/ledgerEntry.model.js";
+import TransferApproval from "../models/transferApproval.model.js";
+import User from "../models/user.model.js";
+import {
+  TransferApprovalDocument,
+  TransferApprovalStatus,
+} from "../types/transferApproval.js";
+import { SpendingLimitService } from "./spendingLimit.services.js";
+import { RatesService } from "./rates.services.js";
+import { TransferService } from "./transfer.services.js";
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+} from "./error.services.js";
+import { EmailService } from "../utils/emails/index.js";
+import paginateCollection, { Pagination } from "../utils/paginate.js";
+import { escapeHtml } from "../utils/format.js";
+import { toDecimal128 } from "../utils/money.js";
+
+const APP_NAME = process.env.APP_NAME || "Application";
+const APP_URL = process.env.APP_URL || "http://localhost:3000";
+const APPROVAL_TTL_HOURS =
+  Number(process.env.TRANSFER_APPROVAL_TTL_HOURS) || 24;
+const REQUIRED_APPROVALS =
+  Number(process.env.TRANSFER_APPROVAL_REQUIRED_APPROVALS) || 1;
+
+/**
+ * Service for holding large transfers until admins approve them. The admin
+ * who approves can't be the user who asked for the transfer.
+ */
+export class TransferApprovalService {
+  private limits: SpendingLimitService;
+  private ratesService?: RatesService;
+  private transferService?: TransferService;
+  private credentials: [string, string, string?];
+
+  /**
+   * Initialize the transfer approval service with API credentials
+   *
+   * @param publicKey - 100Pay API public key
+   * @param secretKey - 100Pay API secret key
+   * @param baseUrl - Optional API base URL
+   */
+  constructor(publicKey: string, secretKey: string, baseUrl?: string) {
+    this.limits = new SpendingLimitService();
+    // The transfer service is created on first use, since it holds one of these
+    this.credentials = [publicKey, secretKey, baseUrl];
+  }
+
+  /**
+   * Checks whether a transfer is above the user's approval threshold.
+   * Transfers that can't be valued need approval.
+   *
+   * @param userId - MongoDB ObjectId of the sender
+   * @param symbol - Symbol being transferred
+   * @param amount - Amount being transferred
+   * @returns The threshold and USD value, or null when no approval is needed
+   */
+  async requiresApproval(
+    userId: string | Types.ObjectId,
+    { symbol, amount }: { symbol: string; amount: number }
+  ): Promise<{ thresholdUsd: number; usdAmount: number | null } | null> {
+    const thresholdUsd = await this.limits.getApprovalThreshold(userId, symbol);
+    if (thresholdUsd === null) return null;
+
+    let usdAmount: number | null = null;
+    try {
+      this.ratesService = this.ratesService || new RatesService();
+      const { convertedAmount } = await this.ratesService.convertCurrency({
+        fromSymbol: symbol,
+        toSymbol: "USD",
+        amount,
+      });
+      usdAmount = convertedAmount;
+    } catch (error) {
+      console.error("Failed to value transfer for approval check:", error);
+    }
+
+    return usdAmount === null || usdAmount > thresholdUsd
+      ? { thresholdUsd, usdAmount }
+      : null;
+  }
+
+  /**
+   * Holds a transfer until admins approve it
+   *
+   * @param userId - MongoDB ObjectId of the sender
+   * @param transfer - Transfer details and the threshold it went over
+   */
+  async hold(
+    userId: string | Types.ObjectId,
+    transfer: {
+      toUserId?: string | Types.ObjectId;
+      toAddress?: string;
+      /** Exact decimal amount, sent as is once approved */
+      amount: string;
+      symbol: string;
+      network: string;
+      description?: string;
+      thresholdUsd: number;
+      usdAmount: number | null;
+    }
+  ) {
+    return TransferApproval.create({
+      requester: new Types.ObjectId(userId),
+      ...(transfer.toUserId && {
+        toUserId: new Types.ObjectId(transfer.toUserId),
+      }),
+      toAddress: transfer.toAddress,
+      amount: toDecimal128(transfer.amount),
+      symbol: transfer.symbol.toUpperCase(),
+      network: transfer.network,
+      description: transfer.description,
+      usdAmount: transfer.usdAmount ?? undefined,
+      thresholdUsd: transfer.thresholdUsd,
+      requiredApprovals: REQUIRED_APPROVALS,
+      expiresAt: new Date(Date.now() + APPROVAL_TTL_HOURS * 60 * 60 * 1000),
+    });
+  }
+
+  /**
+   * Gets held transfers, oldest pending first for admins working the queue
+   *
+   * @param status - Optional status filter
+   * @param requesterId - Optional requester filter
+   * @param pagination - Pagination options
+   */
+  async getApprovals({
+    status,
+    requesterId,
+    pagination = {},
+  }: {
+    status?: TransferApprovalStatus;
+    requesterId?: string | Types.ObjectId;
+    pagination?: Pagination;
+  }) {
+    await this.expireDue();
+
+    return paginateCollection(TransferApproval, pagination, {
+      filter: {
+        ...(status && { status }),
+        ...(requesterId && { requester: new Types.ObjectId(requesterId) }),
+      },
+      sort: {
+        by: "createdAt",
+        direction: status === "pending" ? "asc" : "desc",
+      },
+    });
+  }
+
+  /**
+   * Gets a held transfer. Users can only see their own, admins any.
+   *
+   * @param id - ID of the approval
+   * @param requesterId - Requester to restrict to, omitted for admins
+   */
+  async getApproval(id: string, requesterId?: string | Types.ObjectId) {
+    const approval = await TransferApproval.findOne({
+      _id: id,
+      ...(requesterId && { requester: new Types.ObjectId(requesterId) }),
+    });
+    if (!approval) throw new NotFoundError("Transfer approval not found");
+
+    return approval;
+  }
+
+  /**
+   * Records an admin's approval. Once enough admins approved, the transfer
+   * is sent and the requester is told the outcome.
+   *
+   * @param adminId - MongoDB ObjectId of the approving admin
+   * @param id - ID of the approval
+   * @param comment - Optional note kept on the trail
+   */
+  async approve(
+    adminId: string | Types.ObjectId,
+    id: string,
+    comment?: string
+  ) {
+    const approval = await this.decide(adminId, id, "approved", comment);
+
+    const approvedCount = approval.decisions.filter(
+      ({ decision }) => decision === "approved"
+    ).length;
+    if (approvedCount < approval.requiredApprovals) return approval;
+
+    // Only one approver gets to send the transfer
+    const claimed = await TransferApproval.findOneAndUpdate(
+      { _id: approval._id, status: "pending" },
+      { $set: { status: "approved" } },
+      { new: true }
+    );
+    if (!claimed) return this.getApproval(id);
+
+    return this.execute(claimed);
+  }
+
+  /**
+   * Rejects a held transfer, it is not sent
+   *
+   * @param adminId - MongoDB ObjectId of the rejecting admin
+   * @param id - ID of the approval
+   * @param reason - Optional reason, shared with the requester
+   */
+  async reject(adminId: string | Types.ObjectId, id: string, reason?: string) {
+    await this.decide(adminId, id, "rejected", reason);
+
+    const rejected = await TransferApproval.findOneAndUpdate(
+      { _id: id, status: "pending" },
+      { $set: { status: "rejected" } },
+      { new: true }
+    );
+    if (!rejected) return this.getApproval(id);
+
+    await this.notifyRequester(rejected, reason);
+    return rejected;
+  }
+
+  /**
+   * Cancels a held transfer the user no longer wants sent
+   *
+   * @param userId - MongoDB ObjectId of the requester
+   * @param id - ID of the approval
+   */
+  async cancel(userId: string | Types.ObjectId, id: string) {
+    const approval = await TransferApproval.findOneAndUpdate(
+      { _id: id, requester: new Types.ObjectId(userId), status: "pending" },
+      { $set: { status: "cancelled" } },
+      { new: true }
+    );
+
+    if (!approval) {
+      const existing = await this.getApproval(id, userId);
+      throw new BadRequestError(
+        `Transfer is already ${existing.status}`,
+        undefined,
+        "TRANSFER_APPROVAL_NOT_PENDING"
+      );
+    }
+
+    return approval;
+  }
+
+  /**
+   * Expires held transfers past their deadline and tells the requesters
+   *
+   * @returns Number of approvals expired
+   */
+  async expireDue() {
+    const due = await TransferApproval.find({
+      status: "pending",
+      expiresAt: { $lte: new Date() },
+    }).limit(100);
+
+    let expired = 0;
+    for (const approval of due) {
+      const updated = await TransferApproval.findOneAndUpdate(
+        { _id: approval._id, status: "pending" },
+        { $set: { status: "expired" } },
+        { new: true }
+      );
+      if (!updated) continue;
+
+      expired++;
+      await this.notifyRequester(updated);
+    }
+
+    return expired;
+  }
+
+  /**
+   * Adds an admin's decision to the trail of a pending approval
+   */
+  private async decide(
+    adminId: string | Types.ObjectId,
+    id: string,
+    decision: "approved" | "rejected",
+    comment?: string
+  ) {
+    const existing = await this.getApproval(id);
+    const admin = new Types.ObjectId(adminId);
+
+    if (existing.requester.equals(admin)) {
+      throw new ForbiddenError(
+        "You can't approve or reject your own transfer",
+        undefined,
+        "TRANSFER_APPROVAL_SELF"
+      );
+    }
+
+    const approval = await TransferApproval.findOneAndUpdate(
+      {
+        _id: existing._id,
+        status: "pending",
+        expiresAt: { $gt: new Date() },
+        "decisions.admin": { $ne: admin },
+      },
+      {
+        $push: {
+          decisions: { admin, decision, comment, decidedAt: new Date() },
+        },
+      },
+      { new: true }
+    );
+
+    if (!approval) {
+      if (existing.decisions.some((entry) => entry.admin.equals(admin))) {
+        throw new ConflictError(
+          "You already decided on this transfer",
+          undefined,
+          "TRANSFER_APPROVAL_ALREADY_DECIDED"
+        );
+      }
+
+      if (existing.status === "pending") await this.expireDue();
+      throw new BadRequestError(
+        existing.status === "pending"
+          ? "Transfer approval has expired"
+          : `Transfer is already ${existing.status}`,
+        undefined,
+        "TRANSFER_APPROVAL_NOT_PENDING"
+      );
+    }
+
+    return approval;
+  }
+
+  /**
+   * Sends an approved transfer and records the outcome
+   */
+  private async execute(approval: TransferApprovalDocument) {
+    this.transferService =
+      this.transferService || new TransferService(...this.credentials);
+
+    let update: Record<string, unknown>;
+    try {
+      const result = await this.transferService.transferAssets({
+        fromUserId: approval.requester,
+        toUserId: approval.toUserId,
+        toAddress: approval.toAddress,
+        amount: approval.amount.toString(),
+        symbol: approval.symbol,
+        network: approval.network,
+        description: approval.description,
+        approvalId: approval._id.toString(),
+      });
+
+      const receipt = result?.data?.receipt;
+      const transactionId = (receipt?.id || receipt?._id)?.toString();
+      update = { status: "executed", transactionId, executedAt: new Date() };
+
+      // Keep the approval trail with the transfer's ledger entry
+      if (transactionId) {
+        await LedgerEntry.updateOne(
+          { transactionId },
+          { $set: { approval: approval._id } }
+        );
+      }
+    } catch (error) {
+      console.error(`Approved transfer ${approval._id} failed:`, error);
+      update = {
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    const updated = await TransferApproval.findByIdAndUpdate(
+      approval._id,
+      { $set: update },
+      { new: true }
+    );
+
+    await this.notifyRequester(updated);
+    return updated;
+  }
+
+  /**
+   * Emails the requester the outcome of their held transfer
+   */
+  private async notifyRequester(
+    approval: TransferApprovalDocument,
+    reason?: string
+  ) {
+    try {
+      const user = await User.findById(approval.requester);
+      if (!user?.email) return;
+
+      const transfer = `${approval.amount} ${approval.symbol} to ${approval.toAddress || "another user"}`;
+      const outcomes: Partial<
+        Record<TransferApprovalStatus, { title: string; content: string }>
+      > = {
+        executed: {
+          title: "Your transfer was approved",
+          content: `<p>Your transfer of ${transfer} was approved and sent.</p>`,
+        },
+        failed: {
+          title: "Your approved transfer failed",
+          content: `<p>Your transfer of ${transfer} was approved, but sending it failed: ${escapeHtml(approval.error || "unknown error")}.</p>`,
+        },
+        rejected: {
+          title: "Your transfer was rejected",
+          content: `<p>Your transfer of ${transfer} was rejected and not sent.</p>${reason ? `<p>Reason: ${escapeHtml(reason)}</p>` : ""}`,
+        },
+        expired: {
+          title: "Your transfer approval expired",
+          content: `<p>Your transfer of ${transfer} wasn't approved in time and was not sent.</p>`,
+        },
+      };
+
+      const outcome = outcomes[approval.status];
+      if (!outcome) return;
+
+      const name = user.firstName || user.email.split("@")[0];
+      const emailService = new EmailService();
+      await emailService.sendEmail({
+        subject: `${APP_NAME} - ${outcome.title}`,
+        htmlBody: emailService.generateMinimalistTemplate({
+          title: outcome.title,
+          content: `
+            <p>Hi ${name},</p>
+            ${outcome.content}
+          `,
+          buttonText: "View transfers",
+          buttonUrl: `${APP_URL}/transfers`,
+        }),
+        to: { email: user.email, name },
+      });
+    } catch (error) {
+      console.error("Failed to send transfer approval email:", error);
+    }
+  }
+}
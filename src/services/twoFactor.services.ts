@@ -0,0 +1,422 @@
+// ./src/services/twoFactor.services.ts
+
+import crypto from "crypto";
+import { Types } from "mongoose";
+import User from "../models/user.model.js";
+import { UserDocument } from "../types/user.js";
+import { RatesService } from "./rates.services.js";
+import {
+  BadRequestError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+} from "./error.services.js";
+import {
+  buildOtpauthUri,
+  generateTotpSecret,
+  verifyTotp,
+} from "../utils/totp.js";
+import {
+  createTwoFactorChallengeToken,
+  verifyTwoFactorChallengeToken,
+} from "../utils/token.js";
+
+const APP_NAME = process.env.APP_NAME || "Application";
+const RECOVERY_CODE_COUNT = 10;
+const STEP_UP_THRESHOLD_USD =
+  Number(process.env.TWO_FACTOR_STEP_UP_THRESHOLD_USD) || 1000;
+const MAX_ATTEMPTS = Number(process.env.TWO_FACTOR_MAX_ATTEMPTS) || 5;
+const LOCK_MINUTES = Number(process.env.TWO_FACTOR_LOCK_MINUTES) || 30;
+
+const hashRecoveryCode = (code: string) =>
+  crypto
+    .createHash("sha256")
+    .update(code.replace(/[\s-]/g, "").toLowerCase())
+    .digest("hex");
+
+const generateRecoveryCode = () => {
+  const raw = crypto.randomBytes(5).toString("hex");
+  return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+};
+
+/**
+ * Service for TOTP two-factor authentication: enrollment, login challenges,
+ * recovery codes and step-up checks for high-value transfers
+ */
+export class TwoFactorService {
+  private ratesService?: RatesService;
+
+  /**
+   * Starts enrollment by generating a new secret. Enrollment only takes
+   * effect once confirmed with a code from the authenticator app.
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @returns Secret and otpauth URI to show as a QR code
+   */
+  async startEnrollment(userId: string | Types.ObjectId) {
+    const user = await this.getUser(userId);
+
+    if (user.twoFactorEnabled) {
+      throw new BadRequestError(
+        "Two-factor authentication is already enabled",
+        undefined,
+        "TWO_FACTOR_ALREADY_ENABLED"
+      );
+    }
+
+    const secret = generateTotpSecret();
+    await User.updateOne(
+      { _id: user._id },
+      { $set: { twoFactorPendingSecret: secret } }
+    );
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri({
+        secret,
+        accountName: user.email,
+        issuer: APP_NAME,
+      }),
+    };
+  }
+
+  /**
+   * Confirms enrollment with a code for the pending secret and enables two-factor
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param code - TOTP code from the authenticator app
+   * @returns One-time recovery codes, only shown this once
+   */
+  async confirmEnrollment(userId: string | Types.ObjectId, code: string) {
+    const user = await this.getUser(userId);
+
+    if (!user.twoFactorPendingSecret) {
+      throw new BadRequestError(
+        "Start two-factor enrollment first",
+        undefined,
+        "TWO_FACTOR_ENROLLMENT_NOT_STARTED"
+      );
+    }
+
+    const step = verifyTotp(user.twoFactorPendingSecret, code);
+    if (step === null) {
+      throw new UnauthorizedError(
+        "Invalid two-factor code",
+        undefined,
+        "TWO_FACTOR_CODE_INVALID"
+      );
+    }
+
+    const recoveryCodes = Array.from(
+      { length: RECOVERY_CODE_COUNT },
+      generateRecoveryCode
+    );
+
+    await User.updateOne(
+      { _id: user._id },
+      {
+        $set: {
+          twoFactorEnabled: true,
+          twoFactorSecret: user.twoFactorPendingSecret,
+          twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+          twoFactorLastUsedStep: step,
+          twoFactorEnabledAt: new Date(),
+        },
+        $unset: { twoFactorPendingSecret: 1 },
+      }
+    );
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Disables two-factor authentication
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param code - TOTP or recovery code
+   */
+  async disable(userId: string | Types.ObjectId, code: string) {
+    await this.verifyCode(userId, code, { allowRecoveryCode: true });
+
+    await User.updateOne(
+      { _id: userId },
+      {
+        $set: { twoFactorEnabled: false },
+        $unset: {
+          twoFactorSecret: 1,
+          twoFactorPendingSecret: 1,
+          twoFactorRecoveryCodes: 1,
+          twoFactorLastUsedStep: 1,
+          twoFactorEnabledAt: 1,
+        },
+      }
+    );
+
+    return true;
+  }
+
+  /**
+   * Replaces the recovery codes of a user
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param code - TOTP code
+   * @returns New recovery codes
+   */
+  async regenerateRecoveryCodes(userId: string | Types.ObjectId, code: string) {
+    await this.verifyCode(userId, code);
+
+    const recoveryCodes = Array.from(
+      { length: RECOVERY_CODE_COUNT },
+      generateRecoveryCode
+    );
+    await User.updateOne(
+      { _id: userId },
+      { $set: { twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode) } }
+    );
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Checks a TOTP code, or a recovery code when allowed. A TOTP code is
+   * only accepted once, and recovery codes are consumed when used. Repeated
+   * wrong codes lock two-factor for a while.
+   *
+   * @param userId - MongoDB ObjectId of the user
+   * @param code - Code to check
+   * @throws ForbiddenError with TWO_FACTOR_LOCKED while two-factor is locked
+   * @throws UnauthorizedError with TWO_FACTOR_CODE_INVALID if the code is wrong
+   */
+  async verifyCode(
+    userId: string | Types.ObjectId,
+    code: string,
+    { allowRecoveryCode = false }: { allowRecoveryCode?: boolean } = {}
+  ) {
+    const user = await this.getUser(userId);
+
+    if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+      throw new BadRequestError(
+        "Two-factor authentication is not enabled",
+        undefined,
+        "TWO_FACTOR_NOT_ENABLED"
+      );
+    }
+
+    if (!code) {
+      throw new UnauthorizedError(
+        "Two-factor code is required",
+        undefined,
+        "TWO_FACTOR_REQUIRED"
+      );
+    }
+
+    if (user.twoFactorLockedUntil && user.twoFactorLockedUntil > new Date()) {
+      throw new ForbiddenError(
+        "Two-factor authentication is locked after too many wrong codes",
+        { lockedUntil: user.twoFactorLockedUntil.toISOString() },
+        "TWO_FACTOR_LOCKED"
+      );
+    }
+
+    const step = verifyTotp(user.twoFactorSecret, code);
+    if (step !== null) {
+      // Only accept a step newer than the last one used, so codes can't be replayed
+      const result = await User.updateOne(
+        {
+          _id: user._id,
+          $or: [
+            { twoFactorLastUsedStep: { $exists: false } },
+            { twoFactorLastUsedStep: { $lt: step } },
+          ],
+        },
+        { $set: { twoFactorLastUsedStep: step } }
+      );
+
+      if (result.modifiedCount === 1) {
+        await this.resetAttempts(user);
+        return true;
+      }
+
+      throw new UnauthorizedError(
+        "Two-factor code has already been used, wait for a new one",
+        undefined,
+        "TWO_FACTOR_CODE_REUSED"
+      );
+    }
+
+    if (allowRecoveryCode) {
+      const result = await User.updateOne(
+        { _id: user._id, twoFactorRecoveryCodes: hashRecoveryCode(code) },
+        { $pull: { twoFactorRecoveryCodes: hashRecoveryCode(code) } }
+      );
+
+      if (result.modifiedCount === 1) {
+        await this.resetAttempts(user);
+        return true;
+      }
+    }
+
+    const updated = await User.findOneAndUpdate(
+      { _id: user._id },
+      { $inc: { twoFactorAttempts: 1 } },
+      { new: true }
+    );
+    const attempts = updated?.twoFactorAttempts || MAX_ATTEMPTS;
+
+    if (attempts >= MAX_ATTEMPTS) {
+      const lockedUntil = new Date(Date.now() + LOCK_MINUTES * 60 * 1000);
+      await User.updateOne(
+        { _id: user._id },
+        {
+          $set: {
+            twoFactorAttempts: 0,
+            twoFactorLockedUntil: lockedUntil,
+          },
+        }
+      );
+
+      throw new ForbiddenError(
+        "Two-factor authentication is locked after too many wrong codes",
+        { lockedUntil: lockedUntil.toISOString() },
+        "TWO_FACTOR_LOCKED"
+      );
+    }
+
+    throw new UnauthorizedError(
+      "Invalid two-factor code",
+      { attemptsRemaining: MAX_ATTEMPTS - attempts },
+      "TWO_FACTOR_CODE_INVALID"
+    );
+  }
+
+  /**
+   * Creates the challenge a user with two-factor enabled gets after the first login step
+   *
+   * @param user - User who passed the first login step
+   * @returns Auth data with the challenge token instead of access tokens
+   */
+  createChallenge(user: UserDocument) {
+    return {
+      twoFactorRequired: true,
+      challengeToken: createTwoFactorChallengeToken({
+        id: user._id.toString(),
+      }),
+    };
+  }
+
+  /**
+   * Exchanges a challenge token and a TOTP or recovery code for the user
+   *
+   * @param challengeToken - Token returned by the first login step
+   * @param code - TOTP or recovery code
+   * @returns The authenticated user
+   */
+  async completeChallenge(challengeToken: string, code: string) {
+    let userId: string;
+    try {
+      userId = verifyTwoFactorChallengeToken(challengeToken).data.id;
+    } catch (error) {
+      throw new UnauthorizedError(
+        "Invalid or expired two-factor challenge",
+        undefined,
+        "TWO_FACTOR_CHALLENGE_INVALID"
+      );
+    }
+
+    await this.verifyCode(userId, code, { allowRecoveryCode: true });
+
+    return User.findById(userId).populate("roles");
+  }
+
+  /**
+   * Requires a fresh TOTP code for transfers worth more than the step-up threshold
+   *
+   * @param userId - MongoDB ObjectId of the sender
+   * @param symbol - Symbol being transferred
+   * @param amount - Amount being transferred
+   * @param code - TOTP code supplied with the transfer
+   */
+  async requireTransferStepUp({
+    userId,
+    symbol,
+    amount,
+    code,
+  }: {
+    userId: string | Types.ObjectId;
+    symbol: string;
+    amount: number;
+    code?: string;
+  }) {
+    if (!(await this.isAboveStepUpThreshold(symbol, amount))) return;
+
+    const user = await this.getUser(userId);
+    if (!user.twoFactorEnabled) {
+      throw new ForbiddenError(
+        `Enable two-factor authentication to transfer more than ${STEP_UP_THRESHOLD_USD} USD`,
+        { thresholdUsd: STEP_UP_THRESHOLD_USD },
+        "TWO_FACTOR_ENROLLMENT_REQUIRED"
+      );
+    }
+
+    if (!code) {
+      throw new UnauthorizedError(
+        `A two-factor code is required for transfers above ${STEP_UP_THRESHOLD_USD} USD`,
+        { thresholdUsd: STEP_UP_THRESHOLD_USD },
+        "TWO_FACTOR_REQUIRED"
+      );
+    }
+
+    await this.verifyCode(userId, code);
+  }
+
+  /**
+   * Values a transfer in USD. If it can't be valued the step-up is required.
+   */
+  private async isAboveStepUpThreshold(symbol: string, amount: number) {
+    try {
+      this.ratesService = this.ratesService || new RatesService();
+      const { convertedAmount } = await this.ratesService.convertCurrency({
+        fromSymbol: symbol,
+        toSymbol: "USD",
+        amount,
+      });
+      return convertedAmount >= STEP_UP_THRESHOLD_USD;
+    } catch (error) {
+      console.error("Failed to value transfer for two-factor step-up:", error);
+      return true;
+    }
+  }
+
+  /**
+   * Clears the wrong code count after a code is accepted
+   */
+  private async resetAttempts(user: UserDocument) {
+    if (user.twoFactorAttempts || user.twoFactorLockedUntil) {
+      await User.updateOne(
+        { _id: user._id },
+        {
+          $set: { twoFactorAttempts: 0 },
+          $unset: { twoFactorLockedUntil: 1 },
+        }
+      );
+    }
+  }
+
+  /**
+   * Loads a user together with the two-factor secrets
+   */
+  private async getUser(userId: string | Types.ObjectId) {
+    if (!userId) {
+      throw new UnauthorizedError("Authentication required");
+    }
+
+    const user = await User.findById(userId).select(
+      "+twoFactorSecret +twoFactorPendingSecret +twoFactorRecoveryCodes"
+    );
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    return user;
+  }
+}
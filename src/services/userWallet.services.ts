@@ -16,11 +16,20 @@ import UserWallet from "../models/userWallet.model.js";
 import { Filters, UserWalletFilters } from "../utils/filters/index.js";
 import paginateCollection, { Pagination } from "../utils/paginate.js";
 import { WalletBalanceUtil } from "../utils/userWallet/balance.js";
+import {
+  addDelta,
+  emptyDelta,
+  toBalanceResult,
+} from "../utils/ledger/index.js";
+import { LedgerService } from "./ledger.services.js";
+import { OutgoingWebhookService } from "./outgoingWebhook.services.js";
 import { logger } from "@untools/logger";
 
 export class WalletService {
   private client: Pay100;
   private utils: WalletBalanceUtil;
+  private ledger: LedgerService;
+  private webhooks: OutgoingWebhookService;
 
   constructor(publicKey: string, secretKey: string, baseUrl?: string) {
     this.client = new Pay100({
@@ -29,6 +38,8 @@ export class WalletService {
       baseUrl,
     });
     this.utils = new WalletBalanceUtil(this.client);
+    this.ledger = new LedgerService(publicKey, secretKey, baseUrl);
+    this.webhooks = new OutgoingWebhookService();
   }
 
   /**
@@ -101,6 +112,16 @@ export class WalletService {
         response.accounts.map((account) => this.saveWalletToDb(userId, account))
       );
 
+      for (const wallet of savedWallets) {
+        await this.webhooks.dispatch("wallet.created", {
+          userId: userId.toString(),
+          walletId: wallet._id.toString(),
+          symbol: wallet.symbol,
+          network: wallet.network,
+          address: wallet.account?.address,
+        });
+      }
+
       return savedWallets;
     } catch (error) {
       console.error("Failed to create wallets:", error);
@@ -360,7 +381,35 @@ export class WalletService {
   }
 
   /**
-   * Gets the balance of a specific wallet
+   * Converts assets between two wallets of the same owner
+   *
+   * @param amount - Amount to convert
+   * @param fromSymbol - Source currency symbol
+   * @param toSymbol - Target currency symbol
+   * @param appId - Optional application ID
+   * @returns Currency conversion result
+   */
+  async convertAssets(
+    amount: number,
+    fromSymbol: string,
+    toSymbol: string,
+    appId?: string
+  ) {
+    try {
+      return await this.client.conversion.convert({
+        amount,
+        fromSymbol,
+        toSymbol,
+        appId,
+      });
+    } catch (error) {
+      console.error("Conversion failed:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Gets the balance of a specific wallet from the local ledger
    *
    * @param userId - User's MongoDB ObjectId
    * @param symbol - Cryptocurrency symbol (e.g., "BTC")
@@ -376,14 +425,14 @@ export class WalletService {
         throw new Error(`Wallet with symbol ${symbol} not found`);
       }
 
-      return this.utils.calculateBalance([wallet.sourceAccountId], symbol);
+      return this.ledger.getBalance(wallet.sourceAccountId, symbol);
     } catch (error) {
       console.error("Failed to get wallet balance:", error);
       throw error;
     }
   }
   /**
-   * Gets the balance of a specific wallet by account ID
+   * Gets the balance of a specific wallet by account ID from the local ledger
    *
    * @param accountId - 100Pay account ID
    * @param symbol - Cryptocurrency symbol (e.g., "BTC")
@@ -394,7 +443,7 @@ export class WalletService {
     symbol: string
   ): Promise<BalanceResult> {
     try {
-      return this.utils.calculateBalance([accountId], symbol, false);
+      return await this.ledger.getBalance(accountId, symbol);
     } catch (error) {
       console.error("Failed to get wallet balance:", error);
       throw error;
@@ -421,41 +470,28 @@ export class WalletService {
         );
       }
 
-      const balances = await this.utils.calculateMultipleBalances(
+      const balances = await this.ledger.getBalances(
         wallets.map((wallet) => ({
           accountId: wallet.sourceAccountId,
           symbol: wallet.symbol,
         }))
       );
 
-      const aggregated = Object.values(balances).reduce<BalanceResult>(
-        (acc, curr) => {
-          acc.totalBalance += curr.totalBalance;
-          acc.availableBalance += curr.availableBalance;
-          acc.pendingCredits += curr.pendingCredits;
-          acc.pendingDebits += curr.pendingDebits;
-          acc.transactions.push(...(curr.transactions || []));
-          return acc;
-        },
-        {
-          totalBalance: 0,
-          availableBalance: 0,
-          pendingCredits: 0,
-          pendingDebits: 0,
-          transactions: [],
-        }
+      const aggregated = Object.values(balances).reduce(
+        (acc, curr) =>
+          addDelta(acc, {
+            totalBalance: curr.totalBalanceDecimal,
+            availableBalance: curr.availableBalanceDecimal,
+            pendingCredits: curr.pendingCreditsDecimal,
+            pendingDebits: curr.pendingDebitsDecimal,
+          }),
+        emptyDelta()
       );
 
-      return aggregated;
+      return toBalanceResult(aggregated);
     } catch (error) {
       console.error("Failed to get wallet balances:", error);
-      return {
-        totalBalance: 0,
-        availableBalance: 0,
-        pendingCredits: 0,
-        pendingDebits: 0,
-        transactions: [],
-      };
+      return toBalanceResult(emptyDelta());
     }
   }
   /**
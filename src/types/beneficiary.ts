@@ -0,0 +1,33 @@
+import { Document, Model, Types } from "mongoose";
+
+export type BeneficiaryType = "internal" | "external";
+
+export type BeneficiaryStatus = "pending" | "active";
+
+/**
+ * Saved transfer recipient in a user's address book
+ */
+export interface Beneficiary {
+  user: Types.ObjectId;
+  label: string;
+  type: BeneficiaryType;
+  /** Recipient of internal beneficiaries */
+  recipientUser?: Types.ObjectId;
+  /** Address of external beneficiaries */
+  address?: string;
+  symbol: string;
+  network: string;
+  favourite: boolean;
+  /** External beneficiaries stay pending until confirmed with an OTP */
+  status: BeneficiaryStatus;
+  confirmedAt?: Date;
+  /** Large transfers to the beneficiary are blocked until this time */
+  coolingOffUntil?: Date;
+  lastUsedAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface BeneficiaryDocument extends Beneficiary, Document {}
+
+export interface BeneficiaryModel extends Model<BeneficiaryDocument> {}
@@ -0,0 +1,47 @@
+import { Document, Model, Types } from "mongoose";
+
+/**
+ * reconciling: a transfer into, out of or back from escrow has an unknown
+ * outcome. failed: reconciled as never funded.
+ */
+export type ClaimableTransferStatus =
+  "funding" | "pending" | "claimed" | "refunded" | "reconciling" | "failed";
+
+/** Transfer of a reconciling claim whose outcome isn't known */
+export type ClaimableTransferReconcileStep = "funding" | "payout" | "refund";
+
+/**
+ * A transfer to an email with no account behind it. The funds wait in the
+ * platform escrow wallet until the owner of the email registers and claims
+ * them, or go back to the sender when the claim expires.
+ */
+export interface ClaimableTransfer {
+  sender: Types.ObjectId;
+  /** Lowercased email the claim link was sent to */
+  email: string;
+  amount: Types.Decimal128;
+  symbol: string;
+  network: string;
+  description?: string;
+  status: ClaimableTransferStatus;
+  /** Secret in the claim link */
+  claimToken: string;
+  expiresAt: Date;
+  /** Transaction that moved the funds into escrow */
+  fundingTransactionId?: string;
+  /** Transaction that paid the claim out of escrow or refunded it */
+  transactionId?: string;
+  claimedBy?: Types.ObjectId;
+  claimedAt?: Date;
+  refundedAt?: Date;
+  error?: string;
+  reconcileStep?: ClaimableTransferReconcileStep;
+  lockedUntil?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface ClaimableTransferDocument
+  extends ClaimableTransfer, Document {}
+
+export interface ClaimableTransferModel extends Model<ClaimableTransferDocument> {}
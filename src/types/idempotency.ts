@@ -0,0 +1,24 @@
+import { Document, Model, Types } from "mongoose";
+
+export type IdempotencyStatus = "processing" | "completed" | "failed";
+
+export interface IdempotencyKey {
+  key: string;
+  user: Types.ObjectId;
+  operation: string;
+  /** Hash of the request payload the key was first used with */
+  fingerprint: string;
+  status: IdempotencyStatus;
+  /** Stored response returned to replays of the request */
+  response?: unknown;
+  /** Error of a request whose outcome is unknown */
+  error?: string;
+  completedAt?: Date;
+  expiresAt: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface IdempotencyKeyDocument extends IdempotencyKey, Document {}
+
+export interface IdempotencyKeyModel extends Model<IdempotencyKeyDocument> {}
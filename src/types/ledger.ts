@@ -0,0 +1,104 @@
+import { Document, Model, Types } from "mongoose";
+
+export type PostingDirection = "credit" | "debit";
+
+export type PostingStatus = "successful" | "pending" | "failed";
+
+/**
+ * A single leg of a ledger entry against one account
+ */
+export interface LedgerPosting {
+  /** 100Pay account ID, or the external clearing account */
+  accountId: string;
+  wallet?: Types.ObjectId;
+  symbol: string;
+  direction: PostingDirection;
+  /** Stored exactly, read it with toString */
+  amount: Types.Decimal128;
+  status: PostingStatus;
+  postedAt?: Date;
+  /**
+   * False from when the posting is saved until it is added to the running
+   * balance. Older postings don't have it and count as applied.
+   */
+  applied?: boolean;
+}
+
+/**
+ * Fiat value of a transaction, captured close to when it happened
+ */
+export interface LedgerFiatValue {
+  currency: string;
+  amount: number;
+  rate: number;
+  capturedAt: Date;
+}
+
+/**
+ * A ledger entry mirrors one 100Pay transaction. Its postings always
+ * net to zero across debits and credits.
+ */
+export interface LedgerEntry {
+  transactionId: string;
+  symbol: string;
+  description?: string;
+  from?: string;
+  to?: string;
+  fee?: number;
+  source: "transfer" | "sync";
+  postings: LedgerPosting[];
+  fiatValue?: LedgerFiatValue;
+  /** Admin approval the transfer was sent under, if it needed one */
+  approval?: Types.ObjectId;
+  occurredAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Running balance of a wallet account for a symbol. Balances are stored
+ * exactly, so 18 decimal tokens don't drift.
+ */
+export interface LedgerBalance {
+  accountId: string;
+  wallet?: Types.ObjectId;
+  symbol: string;
+  totalBalance: Types.Decimal128;
+  availableBalance: Types.Decimal128;
+  pendingCredits: Types.Decimal128;
+  pendingDebits: Types.Decimal128;
+  lastSyncedAt?: Date;
+  lastTransactionAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Transaction data needed to post against the ledger
+ */
+export interface LedgerTransactionInput {
+  transactionId: string;
+  accountId: string;
+  wallet?: Types.ObjectId | string;
+  symbol: string;
+  type: string;
+  status: string;
+  amount: number | string;
+  fee?: number | string;
+  description?: string;
+  from?: string;
+  to?: string;
+  occurredAt?: Date | string;
+  source?: LedgerEntry["source"];
+}
+
+export interface LedgerEntryDocument
+  extends Omit<LedgerEntry, "postings">, Document {
+  postings: Types.DocumentArray<LedgerPosting>;
+}
+
+export interface LedgerEntryModel extends Model<LedgerEntryDocument> {}
+
+export interface LedgerBalanceDocument extends LedgerBalance, Document {}
+
+export interface LedgerBalanceModel extends Model<LedgerBalanceDocument> {}
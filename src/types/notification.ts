@@ -0,0 +1,22 @@
+import { Document, Model, Types } from "mongoose";
+
+export type NotificationType = "price_alert";
+
+/**
+ * A message shown to a user in the app
+ */
+export interface Notification {
+  user: Types.ObjectId;
+  type: NotificationType;
+  title: string;
+  body: string;
+  /** Details for the client, depending on the type */
+  data?: Record<string, unknown>;
+  readAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface NotificationDocument extends Notification, Document {}
+
+export interface NotificationModel extends Model<NotificationDocument> {}
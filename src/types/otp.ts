@@ -0,0 +1,5 @@
+/**
+ * What an OTP was issued for. A code only works for the action it was
+ * requested for.
+ */
+export type OTPPurpose = "email_verification" | "pin_reset" | "beneficiary";
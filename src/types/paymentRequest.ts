@@ -0,0 +1,37 @@
+import { Document, Model, Types } from "mongoose";
+
+/** reconciling: a payment was sent but its outcome isn't known */
+export type PaymentRequestStatus =
+  "open" | "paid" | "reconciling" | "expired" | "cancelled";
+
+/**
+ * A request for funds that anyone with the link can pay
+ */
+export interface PaymentRequest {
+  /** Short public code used in the shareable link */
+  reference: string;
+  requester: Types.ObjectId;
+  wallet: Types.ObjectId;
+  /** Address of the requester's wallet, where the payment is sent */
+  address: string;
+  symbol: string;
+  network: string;
+  amount: Types.Decimal128;
+  memo?: string;
+  status: PaymentRequestStatus;
+  expiresAt?: Date;
+  paidBy?: Types.ObjectId;
+  paidAt?: Date;
+  transactionId?: string;
+  cancelledAt?: Date;
+  /** Why a payment's outcome isn't known */
+  error?: string;
+  /** Set while a payment is being sent */
+  lockedUntil?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface PaymentRequestDocument extends PaymentRequest, Document {}
+
+export interface PaymentRequestModel extends Model<PaymentRequestDocument> {}
@@ -0,0 +1,37 @@
+import { Document, Model, Types } from "mongoose";
+
+export type PortfolioRange =
+  "day" | "week" | "month" | "quarter" | "year" | "all";
+
+export type PortfolioInterval = "hour" | "day" | "week";
+
+/**
+ * Balance and USD value of one wallet at snapshot time
+ */
+export interface PortfolioSnapshotAsset {
+  wallet: Types.ObjectId;
+  symbol: string;
+  network?: string;
+  balance: number;
+  priceUsd: number;
+  valueUsd: number;
+}
+
+/**
+ * A user's wallet balances and their USD value at a point in time
+ */
+export interface PortfolioSnapshot {
+  user: Types.ObjectId;
+  /** Start of the snapshot interval the snapshot was taken in */
+  takenAt: Date;
+  totalUsd: number;
+  assets: PortfolioSnapshotAsset[];
+  expiresAt: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface PortfolioSnapshotDocument
+  extends PortfolioSnapshot, Document {}
+
+export interface PortfolioSnapshotModel extends Model<PortfolioSnapshotDocument> {}
@@ -0,0 +1,40 @@
+import { Document, Model, Types } from "mongoose";
+
+export type PriceAlertCondition = "above" | "below" | "percent_change";
+
+export type PriceAlertChannel = "email" | "in_app";
+
+/**
+ * A user's rule to be told when a symbol's price crosses a level or moves
+ * by a percentage over 24 hours
+ */
+export interface PriceAlert {
+  user: Types.ObjectId;
+  symbol: string;
+  /** Fiat currency targetPrice is in */
+  currency: string;
+  condition: PriceAlertCondition;
+  /** Price level of above and below alerts */
+  targetPrice?: number;
+  /** Move in either direction, in percent, of percent_change alerts */
+  percentChange?: number;
+  channels: PriceAlertChannel[];
+  enabled: boolean;
+  /** Recurring alerts stay enabled after firing */
+  recurring: boolean;
+  cooldownMinutes: number;
+  /** Cleared when the alert fires, set again once the condition stops holding */
+  armed: boolean;
+  note?: string;
+  lastPrice?: number;
+  lastCheckedAt?: Date;
+  lastTriggeredAt?: Date;
+  lastTriggeredPrice?: number;
+  triggerCount: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface PriceAlertDocument extends PriceAlert, Document {}
+
+export interface PriceAlertModel extends Model<PriceAlertDocument> {}
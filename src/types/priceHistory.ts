@@ -0,0 +1,29 @@
+import { Document, Model } from "mongoose";
+
+export type PriceHistoryType = "crypto" | "fiat";
+
+export type PriceCandleInterval =
+  "fifteen_minutes" | "hour" | "four_hours" | "day" | "week";
+
+export type PriceRange = "day" | "week" | "month" | "quarter" | "year";
+
+/**
+ * USD price of a crypto symbol or fiat currency at a point in time. Every
+ * symbol sampled in one run shares the same recordedAt.
+ */
+export interface PriceHistory {
+  symbol: string;
+  type: PriceHistoryType;
+  /** USD value of one unit */
+  usdRate: number;
+  recordedAt: Date;
+  /** Rates provider the price came from */
+  provider?: string;
+  /** Prices are removed after PRICE_HISTORY_RETENTION_DAYS */
+  expiresAt?: Date;
+  createdAt?: Date;
+}
+
+export interface PriceHistoryDocument extends PriceHistory, Document {}
+
+export interface PriceHistoryModel extends Model<PriceHistoryDocument> {}
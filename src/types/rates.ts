@@ -23,9 +23,48 @@ export interface FiatPrice {
   last_updated: string;
 }
 
+/**
+ * USD rate of one side of a conversion and where it came from
+ */
+export interface ConversionRate {
+  symbol: string;
+  type: "crypto" | "fiat";
+  /** USD value of one unit */
+  usdRate: number;
+  marginApplied: boolean;
+  /** When the price source last updated the rate */
+  lastUpdated?: string;
+  /** Rates provider of the price list, null for USD itself */
+  provider?: string | null;
+  fetchedAt?: string;
+}
+
 export interface SimpleConversionResult {
   convertedAmount: number;
+  /** Converted amount computed exactly and rounded to the target's decimals */
+  convertedAmountDecimal: string;
+  /** USD rate of the source currency */
   fromRate: number;
+  /** USD rate of the target currency */
   toRate: number;
+  /** Units of the target currency per unit of the source currency */
+  rate?: number;
   intermediateUSDAmount: number;
+  marginApplied?: boolean;
+  rates?: ConversionRate[];
+  pricesFetchedAt?: string;
+  pricesAgeSeconds?: number;
+  stale?: boolean;
+}
+
+/**
+ * How old a price list served from the cache is
+ */
+export interface RatesMeta {
+  fetchedAt: string;
+  ageSeconds: number;
+  /** True if the prices are past the cache TTL, e.g. during an outage */
+  stale: boolean;
+  /** Name of the rates provider the prices came from */
+  provider: string;
 }
@@ -0,0 +1,2 @@
+/** How a transfer recipient was identified */
+export type RecipientType = "email" | "phone" | "payTag";
@@ -0,0 +1,50 @@
+import { Document, Model, Types } from "mongoose";
+
+export type ScheduleFrequency = "once" | "daily" | "weekly" | "monthly";
+
+export type ScheduledTransferStatus =
+  "active" | "paused" | "completed" | "cancelled" | "failed";
+
+/**
+ * Result of one run of a scheduled transfer
+ */
+export interface ScheduledTransferRun {
+  runAt: Date;
+  status: "succeeded" | "failed";
+  transactionId?: string;
+  error?: string;
+}
+
+/**
+ * A transfer to send at a future time, once or on a recurrence
+ */
+export interface ScheduledTransfer {
+  user: Types.ObjectId;
+  toUserId?: Types.ObjectId;
+  toAddress?: string;
+  amount: Types.Decimal128;
+  symbol: string;
+  network: string;
+  description?: string;
+  frequency: ScheduleFrequency;
+  startAt: Date;
+  nextRunAt?: Date;
+  /** No runs after this time */
+  endAt?: Date;
+  /** No runs after this many */
+  maxOccurrences?: number;
+  occurrences: number;
+  consecutiveFailures: number;
+  status: ScheduledTransferStatus;
+  runs: ScheduledTransferRun[];
+  lastRunAt?: Date;
+  /** Set while a worker runs the schedule */
+  lockedUntil?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface ScheduledTransferDocument
+  extends ScheduledTransfer, Document {}
+
+export interface ScheduledTransferModel extends Model<ScheduledTransferDocument> {}
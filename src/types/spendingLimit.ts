@@ -0,0 +1,56 @@
+import { Document, Model, Types } from "mongoose";
+
+export type SpendingLimitScope = "global" | "role" | "user";
+
+export type SpendingUsageStatus = "reserved" | "committed";
+
+/**
+ * USD limits on outgoing transfers. Unset amounts inherit from the next
+ * broader scope: user, then role, then global, then the env defaults.
+ */
+export interface SpendingLimit {
+  scope: SpendingLimitScope;
+  role?: Types.ObjectId;
+  user?: Types.ObjectId;
+  /** Limits only transfers of this symbol when set */
+  symbol?: string;
+  perTransactionUsd?: number;
+  dailyUsd?: number;
+  weeklyUsd?: number;
+  /** Transfers above this value wait for admin approval */
+  approvalThresholdUsd?: number;
+  updatedBy?: Types.ObjectId;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface SpendingLimitDocument extends SpendingLimit, Document {}
+
+export interface SpendingLimitModel extends Model<SpendingLimitDocument> {}
+
+/**
+ * USD value of an outgoing transfer, counted against rolling limits.
+ * Reserved while the transfer is sent, committed once it went through.
+ */
+export interface SpendingUsage {
+  user: Types.ObjectId;
+  symbol: string;
+  network?: string;
+  amount: number;
+  usdAmount: number;
+  status: SpendingUsageStatus;
+  transactionId?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface SpendingUsageDocument extends SpendingUsage, Document {}
+
+export interface SpendingUsageModel extends Model<SpendingUsageDocument> {}
+
+export interface SpendingLimitValues {
+  perTransactionUsd: number | null;
+  dailyUsd: number | null;
+  weeklyUsd: number | null;
+  approvalThresholdUsd: number | null;
+}
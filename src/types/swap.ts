@@ -0,0 +1,33 @@
+import { Document, Model, Types } from "mongoose";
+
+export type SwapStatus =
+  "quoted" | "processing" | "completed" | "failed" | "expired";
+
+export interface Swap {
+  user: Types.ObjectId;
+  fromWallet: Types.ObjectId;
+  toWallet: Types.ObjectId;
+  fromSymbol: string;
+  toSymbol: string;
+  fromAmount: Types.Decimal128;
+  toAmount: Types.Decimal128;
+  rate: Types.Decimal128;
+  fee: Types.Decimal128;
+  /** Quoted amount and rate, kept once the swap records what it actually got */
+  quotedToAmount?: Types.Decimal128;
+  quotedRate?: Types.Decimal128;
+  status: SwapStatus;
+  /** The previewed rate is honoured until this time */
+  quoteExpiresAt: Date;
+  preview?: unknown;
+  result?: unknown;
+  transactionId?: string;
+  failureReason?: string;
+  completedAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface SwapDocument extends Swap, Document {}
+
+export interface SwapModel extends Model<SwapDocument> {}
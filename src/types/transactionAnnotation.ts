@@ -0,0 +1,42 @@
+import { Document, Model, Types } from "mongoose";
+
+export const TRANSACTION_CATEGORIES = [
+  "food",
+  "shopping",
+  "transport",
+  "bills",
+  "entertainment",
+  "travel",
+  "health",
+  "education",
+  "family",
+  "gifts",
+  "business",
+  "investment",
+  "savings",
+  "fees",
+  "other",
+] as const;
+
+export type TransactionCategory = (typeof TRANSACTION_CATEGORIES)[number];
+
+export type SpendingReportPeriod = "week" | "month" | "quarter" | "year";
+
+/**
+ * A user's private note, tags and category on a 100Pay transaction.
+ * Each party to a transaction keeps their own.
+ */
+export interface TransactionAnnotation {
+  user: Types.ObjectId;
+  transactionId: string;
+  note?: string;
+  tags: string[];
+  category?: TransactionCategory;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface TransactionAnnotationDocument
+  extends TransactionAnnotation, Document {}
+
+export interface TransactionAnnotationModel extends Model<TransactionAnnotationDocument> {}
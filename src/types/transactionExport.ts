@@ -0,0 +1,60 @@
+import { Document, Model, Types } from "mongoose";
+
+export type ExportFormat = "csv" | "jsonl" | "pdf";
+
+export type ExportStatus =
+  "pending" | "processing" | "completed" | "failed" | "expired";
+
+/**
+ * An export of a user's transaction history, stored in GridFS until its
+ * download link expires
+ */
+export interface TransactionExport {
+  user: Types.ObjectId;
+  format: ExportFormat;
+  from: Date;
+  to: Date;
+  symbols: string[];
+  status: ExportStatus;
+  /** Exports too large to build during the request run in the background */
+  background: boolean;
+  rowCount?: number;
+  fileId?: Types.ObjectId;
+  fileName?: string;
+  contentType?: string;
+  size?: number;
+  /** Secret in the download link */
+  downloadToken: string;
+  expiresAt?: Date;
+  attempts: number;
+  error?: string;
+  lockedUntil?: Date;
+  completedAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface TransactionExportDocument
+  extends TransactionExport, Document {}
+
+export interface TransactionExportModel extends Model<TransactionExportDocument> {}
+
+/**
+ * One transaction as it appears in an export
+ */
+export interface ExportRow {
+  date: string;
+  transactionId: string;
+  type: string;
+  status: string;
+  symbol: string;
+  /** Exact decimal string */
+  amount: string;
+  /** Exact decimal string */
+  fee: string;
+  from?: string;
+  to?: string;
+  description?: string;
+  fiatCurrency?: string;
+  fiatAmount?: number;
+}
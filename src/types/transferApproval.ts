@@ -0,0 +1,52 @@
+import { Document, Model, Types } from "mongoose";
+
+export type TransferApprovalStatus =
+  | "pending"
+  | "approved"
+  | "rejected"
+  | "expired"
+  | "cancelled"
+  | "executed"
+  | "failed";
+
+export type ApprovalDecision = "approved" | "rejected";
+
+/**
+ * An admin's decision on a held transfer
+ */
+export interface TransferApprovalDecision {
+  admin: Types.ObjectId;
+  decision: ApprovalDecision;
+  comment?: string;
+  decidedAt: Date;
+}
+
+/**
+ * A transfer above the approval threshold, held until enough admins
+ * approve it. Keeps the trail of decisions and the resulting transaction.
+ */
+export interface TransferApproval {
+  requester: Types.ObjectId;
+  toUserId?: Types.ObjectId;
+  toAddress?: string;
+  amount: Types.Decimal128;
+  symbol: string;
+  network: string;
+  description?: string;
+  /** USD value when the transfer was requested, null if it couldn't be valued */
+  usdAmount?: number;
+  thresholdUsd: number;
+  status: TransferApprovalStatus;
+  requiredApprovals: number;
+  decisions: TransferApprovalDecision[];
+  expiresAt: Date;
+  transactionId?: string;
+  executedAt?: Date;
+  error?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface TransferApprovalDocument extends TransferApproval, Document {}
+
+export interface TransferApprovalModel extends Model<TransferApprovalDocument> {}
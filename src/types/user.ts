@@ -26,6 +26,8 @@ export interface User {
   firstName: string;
   lastName: string;
   email: string;
+  /** Unique lowercase handle others can send to */
+  payTag?: string;
   picture?: string;
   count?: number;
   password?: string;
@@ -33,6 +35,20 @@ export interface User {
   phone?: string;
   phoneVerified?: boolean;
   roles?: Types.ObjectId[];
+  transactionPin?: string;
+  transactionPinAttempts?: number;
+  transactionPinLockedUntil?: Date;
+  transactionPinUpdatedAt?: Date;
+  twoFactorEnabled?: boolean;
+  twoFactorSecret?: string;
+  twoFactorPendingSecret?: string;
+  twoFactorRecoveryCodes?: string[];
+  twoFactorLastUsedStep?: number;
+  twoFactorEnabledAt?: Date;
+  twoFactorAttempts?: number;
+  twoFactorLockedUntil?: Date;
+  recipientLookups?: number;
+  recipientLookupWindowStart?: Date;
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -50,6 +66,7 @@ export type RegisterUserInput = {
   lastName: string;
   email: string;
   phone?: string;
+  payTag?: string;
   password: string;
 };
 
@@ -12,6 +12,11 @@ export interface BalanceResult {
   pendingCredits: number;
   /** Total of pending debits */
   pendingDebits: number;
+  /** Exact balances as decimal strings, the number fields are rounded from them */
+  totalBalanceDecimal: string;
+  availableBalanceDecimal: string;
+  pendingCreditsDecimal: string;
+  pendingDebitsDecimal: string;
   /** All transactions processed */
   transactions?: ITransferHistoryItem[];
 }
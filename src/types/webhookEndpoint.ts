@@ -0,0 +1,65 @@
+import { Document, Model, Types } from "mongoose";
+
+export const WEBHOOK_EVENT_TYPES = [
+  "wallet.created",
+  "transfer.sent",
+  "transfer.received",
+  "user.verified",
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+/**
+ * URL an API key owner registered to receive events on
+ */
+export interface WebhookEndpoint {
+  owner: Types.ObjectId;
+  url: string;
+  /** Secret deliveries are signed with, only returned when the endpoint is created */
+  secret: string;
+  events: WebhookEventType[];
+  description?: string;
+  active: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Outcome of a single attempt to deliver an event
+ */
+export interface WebhookDeliveryAttempt {
+  attemptedAt: Date;
+  responseStatus?: number;
+  error?: string;
+  durationMs?: number;
+}
+
+/**
+ * An event queued for delivery to one endpoint
+ */
+export interface WebhookDelivery {
+  endpoint: Types.ObjectId;
+  owner: Types.ObjectId;
+  eventId: string;
+  event: WebhookEventType;
+  payload: Record<string, any>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  attemptLog: WebhookDeliveryAttempt[];
+  nextAttemptAt?: Date;
+  lastAttemptAt?: Date;
+  deliveredAt?: Date;
+  lastError?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface WebhookEndpointDocument extends WebhookEndpoint, Document {}
+
+export interface WebhookEndpointModel extends Model<WebhookEndpointDocument> {}
+
+export interface WebhookDeliveryDocument extends WebhookDelivery, Document {}
+
+export interface WebhookDeliveryModel extends Model<WebhookDeliveryDocument> {}
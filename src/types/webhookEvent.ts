@@ -0,0 +1,24 @@
+import { Document, Model } from "mongoose";
+
+export type WebhookEventStatus =
+  "received" | "processed" | "ignored" | "failed";
+
+/**
+ * Inbound webhook event received from 100Pay
+ */
+export interface WebhookEvent {
+  eventId: string;
+  provider: string;
+  type: string;
+  payload: Record<string, any>;
+  status: WebhookEventStatus;
+  attempts: number;
+  error?: string;
+  processedAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface WebhookEventDocument extends WebhookEvent, Document {}
+
+export interface WebhookEventModel extends Model<WebhookEventDocument> {}
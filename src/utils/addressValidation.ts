@@ -0,0 +1,407 @@
+// ./src/utils/addressValidation.ts
+
+import { createHash } from "crypto";
+import { ValidationError } from "../services/error.services.js";
+import { getNetworkInfo, NetworkFamily } from "./networks.js";
+
+export type AddressValidationCode =
+  "ADDRESS_REQUIRED" | "ADDRESS_INVALID_FORMAT" | "ADDRESS_INVALID_CHECKSUM";
+
+export interface AddressValidationResult {
+  valid: boolean;
+  /** False when the network is unknown and the address wasn't checked */
+  supported: boolean;
+  family: NetworkFamily | null;
+  code?: AddressValidationCode;
+  message?: string;
+  /** Canonical form of a valid address, e.g. EIP-55 checksummed for EVM */
+  normalizedAddress?: string;
+}
+
+const MASK_64 = (1n << 64n) - 1n;
+const KECCAK_ROUND_CONSTANTS = [
+  0x0000000000000001n,
+  0x0000000000008082n,
+  0x800000000000808an,
+  0x8000000080008000n,
+  0x000000000000808bn,
+  0x0000000080000001n,
+  0x8000000080008081n,
+  0x8000000000008009n,
+  0x000000000000008an,
+  0x0000000000000088n,
+  0x0000000080008009n,
+  0x000000008000000an,
+  0x000000008000808bn,
+  0x800000000000008bn,
+  0x8000000000008089n,
+  0x8000000000008003n,
+  0x8000000000008002n,
+  0x8000000000000080n,
+  0x000000000000800an,
+  0x800000008000000an,
+  0x8000000080008081n,
+  0x8000000000008080n,
+  0x0000000080000001n,
+  0x8000000080008008n,
+];
+const KECCAK_ROTATIONS = [
+  1, 3, 6, 10, 15, 21, 28, 36, 45, 55, 2, 14, 27, 41, 56, 8, 25, 43, 62, 18, 39,
+  61, 20, 44,
+];
+const KECCAK_PI_LANES = [
+  10, 7, 11, 17, 18, 3, 5, 16, 8, 21, 24, 4, 15, 23, 19, 13, 12, 2, 20, 14, 22,
+  9, 6, 1,
+];
+
+const rotl64 = (value: bigint, shift: number) =>
+  ((value << BigInt(shift)) | (value >> BigInt(64 - shift))) & MASK_64;
+
+const keccakF1600 = (state: bigint[]) => {
+  const columns: bigint[] = new Array(5);
+  for (const roundConstant of KECCAK_ROUND_CONSTANTS) {
+    for (let x = 0; x < 5; x++) {
+      columns[x] =
+        state[x] ^ state[x + 5] ^ state[x + 10] ^ state[x + 15] ^ state[x + 20];
+    }
+    for (let x = 0; x < 5; x++) {
+      const d = columns[(x + 4) % 5] ^ rotl64(columns[(x + 1) % 5], 1);
+      for (let y = 0; y < 25; y += 5) state[x + y] ^= d;
+    }
+
+    let current = state[1];
+    for (let i = 0; i < 24; i++) {
+      const lane = KECCAK_PI_LANES[i];
+      const next = state[lane];
+      state[lane] = rotl64(current, KECCAK_ROTATIONS[i]);
+      current = next;
+    }
+
+    for (let y = 0; y < 25; y += 5) {
+      const row = state.slice(y, y + 5);
+      for (let x = 0; x < 5; x++) {
+        state[x + y] =
+          row[x] ^ (~row[(x + 1) % 5] & MASK_64 & row[(x + 2) % 5]);
+      }
+    }
+
+    state[0] ^= roundConstant;
+  }
+};
+
+/**
+ * Keccak-256 as used by Ethereum, which pads differently from the SHA3-256
+ * that Node's crypto provides
+ */
+const keccak256 = (input: Buffer): Buffer => {
+  const rate = 136;
+  const padded = Buffer.alloc((Math.floor(input.length / rate) + 1) * rate);
+  input.copy(padded);
+  padded[input.length] ^= 0x01;
+  padded[padded.length - 1] ^= 0x80;
+
+  const state: bigint[] = new Array(25).fill(0n);
+  for (let offset = 0; offset < padded.length; offset += rate) {
+    for (let i = 0; i < rate / 8; i++) {
+      state[i] ^= padded.readBigUInt64LE(offset + i * 8);
+    }
+    keccakF1600(state);
+  }
+
+  const output = Buffer.alloc(32);
+  for (let i = 0; i < 4; i++) output.writeBigUInt64LE(state[i], i * 8);
+  return output;
+};
+
+const BASE58_ALPHABET =
+  "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+/**
+ * Decodes a base58 string, or returns null if it has invalid characters
+ */
+const base58Decode = (value: string): Buffer | null => {
+  const bytes: number[] = [];
+  for (const char of value) {
+    let carry = BASE58_ALPHABET.indexOf(char);
+    if (carry < 0) return null;
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  // Leading "1"s encode leading zero bytes
+  for (let i = 0; i < value.length && value[i] === "1"; i++) bytes.push(0);
+  return Buffer.from(bytes.reverse());
+};
+
+const sha256 = (data: Buffer) => createHash("sha256").update(data).digest();
+
+/**
+ * Decodes a base58check string into its payload, or returns null if the
+ * encoding or checksum is wrong
+ */
+const base58CheckDecode = (
+  value: string
+): { payload: Buffer; checksumValid: boolean } | null => {
+  const decoded = base58Decode(value);
+  if (!decoded || decoded.length < 5) return null;
+
+  const payload = decoded.subarray(0, -4);
+  const checksum = sha256(sha256(payload)).subarray(0, 4);
+  return { payload, checksumValid: checksum.equals(decoded.subarray(-4)) };
+};
+
+const BECH32_CHARSET = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
+const BECH32_GENERATOR = [
+  0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3,
+];
+const BECH32_CONSTANT = 1;
+const BECH32M_CONSTANT = 0x2bc830a3;
+
+const bech32Polymod = (values: number[]) => {
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    for (let i = 0; i < 5; i++) {
+      if ((top >>> i) & 1) checksum ^= BECH32_GENERATOR[i];
+    }
+  }
+  return checksum >>> 0;
+};
+
+/**
+ * Decodes a segwit address (BIP-173 and BIP-350) for the given prefix
+ *
+ * @returns The result code, or null when valid
+ */
+const checkSegwitAddress = (
+  address: string,
+  hrp: string
+): AddressValidationCode | null => {
+  if (address !== address.toLowerCase() && address !== address.toUpperCase()) {
+    return "ADDRESS_INVALID_FORMAT";
+  }
+
+  const lower = address.toLowerCase();
+  const separator = lower.lastIndexOf("1");
+  if (lower.slice(0, separator) !== hrp || lower.length > 90) {
+    return "ADDRESS_INVALID_FORMAT";
+  }
+
+  const data: number[] = [];
+  for (const char of lower.slice(separator + 1)) {
+    const value = BECH32_CHARSET.indexOf(char);
+    if (value < 0) return "ADDRESS_INVALID_FORMAT";
+    data.push(value);
+  }
+  if (data.length < 7) return "ADDRESS_INVALID_FORMAT";
+
+  const version = data[0];
+  const expanded = [
+    ...[...hrp].map((char) => char.charCodeAt(0) >> 5),
+    0,
+    ...[...hrp].map((char) => char.charCodeAt(0) & 31),
+    ...data,
+  ];
+  const constant = version === 0 ? BECH32_CONSTANT : BECH32M_CONSTANT;
+  if (version > 16) return "ADDRESS_INVALID_FORMAT";
+  if (bech32Polymod(expanded) !== constant) return "ADDRESS_INVALID_CHECKSUM";
+
+  // Convert the 5-bit groups of the witness program back to bytes
+  let accumulator = 0;
+  let bits = 0;
+  const program: number[] = [];
+  for (const value of data.slice(1, -6)) {
+    accumulator = (accumulator << 5) | value;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      program.push((accumulator >> bits) & 0xff);
+    }
+  }
+  if (bits >= 5 || (accumulator & ((1 << bits) - 1)) !== 0) {
+    return "ADDRESS_INVALID_FORMAT";
+  }
+
+  if (program.length < 2 || program.length > 40) {
+    return "ADDRESS_INVALID_FORMAT";
+  }
+  if (version === 0 && program.length !== 20 && program.length !== 32) {
+    return "ADDRESS_INVALID_FORMAT";
+  }
+
+  return null;
+};
+
+/**
+ * Checks a base58check address against the version bytes allowed for it
+ *
+ * @returns The result code, or null when valid
+ */
+const checkBase58Address = (
+  address: string,
+  versions: number[]
+): AddressValidationCode | null => {
+  const decoded = base58CheckDecode(address);
+  if (
+    !decoded ||
+    decoded.payload.length !== 21 ||
+    !versions.includes(decoded.payload[0])
+  ) {
+    return "ADDRESS_INVALID_FORMAT";
+  }
+
+  return decoded.checksumValid ? null : "ADDRESS_INVALID_CHECKSUM";
+};
+
+/**
+ * EIP-55 checksummed form of a 20-byte hex address
+ */
+const toChecksumAddress = (address: string) => {
+  const hex = address.slice(2).toLowerCase();
+  const hash = keccak256(Buffer.from(hex, "ascii")).toString("hex");
+
+  return `0x${[...hex]
+    .map((char, i) => (parseInt(hash[i], 16) >= 8 ? char.toUpperCase() : char))
+    .join("")}`;
+};
+
+const FAMILY_CHECKS: Record<
+  NetworkFamily,
+  (address: string) => {
+    code: AddressValidationCode | null;
+    normalizedAddress?: string;
+  }
+> = {
+  evm: (address) => {
+    if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+      return { code: "ADDRESS_INVALID_FORMAT" };
+    }
+
+    const checksummed = toChecksumAddress(address);
+    // All lower or upper case addresses carry no checksum
+    const hex = address.slice(2);
+    const hasChecksum = hex !== hex.toLowerCase() && hex !== hex.toUpperCase();
+    if (hasChecksum && address !== checksummed) {
+      return { code: "ADDRESS_INVALID_CHECKSUM" };
+    }
+
+    return { code: null, normalizedAddress: checksummed };
+  },
+  bitcoin: (address) => ({
+    code: /^bc1/i.test(address)
+      ? checkSegwitAddress(address, "bc")
+      : checkBase58Address(address, [0x00, 0x05]),
+    normalizedAddress: /^bc1/i.test(address) ? address.toLowerCase() : address,
+  }),
+  litecoin: (address) => ({
+    code: /^ltc1/i.test(address)
+      ? checkSegwitAddress(address, "ltc")
+      : checkBase58Address(address, [0x30, 0x32, 0x05]),
+    normalizedAddress: /^ltc1/i.test(address) ? address.toLowerCase() : address,
+  }),
+  tron: (address) => ({
+    code: address.startsWith("T")
+      ? checkBase58Address(address, [0x41])
+      : "ADDRESS_INVALID_FORMAT",
+    normalizedAddress: address,
+  }),
+  solana: (address) => ({
+    // Solana addresses are plain base58 public keys, without a checksum
+    code:
+      base58Decode(address)?.length === 32 ? null : "ADDRESS_INVALID_FORMAT",
+    normalizedAddress: address,
+  }),
+};
+
+const FAMILY_NAMES: Record<NetworkFamily, string> = {
+  evm: "EVM",
+  bitcoin: "Bitcoin",
+  litecoin: "Litecoin",
+  tron: "TRON",
+  solana: "Solana",
+};
+
+/**
+ * Checks that an address is well formed for a network, including its
+ * checksum where the format has one. Addresses on networks we don't know
+ * are reported as valid but unsupported, 100Pay still checks them.
+ *
+ * @param network - 100Pay network name, e.g. "BSC"
+ * @param address - Destination address
+ * @param symbol - Optional asset symbol, used when the network is unknown
+ */
+export const validateAddress = (
+  network: string,
+  address: string,
+  symbol?: string
+): AddressValidationResult => {
+  const info = getNetworkInfo(network) || getNetworkInfo(symbol);
+  const trimmed = address?.trim();
+
+  if (!trimmed) {
+    return {
+      valid: false,
+      supported: !!info,
+      family: info?.family ?? null,
+      code: "ADDRESS_REQUIRED",
+      message: "Address is required",
+    };
+  }
+
+  if (!info) return { valid: true, supported: false, family: null };
+
+  const { code, normalizedAddress } = FAMILY_CHECKS[info.family](trimmed);
+  if (code) {
+    const name = FAMILY_NAMES[info.family];
+    return {
+      valid: false,
+      supported: true,
+      family: info.family,
+      code,
+      message:
+        code === "ADDRESS_INVALID_CHECKSUM"
+          ? `Address checksum is invalid, check the ${name} address for typos`
+          : `Address is not a valid ${name} address`,
+    };
+  }
+
+  return {
+    valid: true,
+    supported: true,
+    family: info.family,
+    normalizedAddress,
+  };
+};
+
+/**
+ * Throws a ValidationError with the failure code if an address isn't valid
+ * for the network
+ *
+ * @param network - 100Pay network name, e.g. "BSC"
+ * @param address - Destination address
+ * @param symbol - Optional asset symbol, used when the network is unknown
+ */
+export const assertValidAddress = (
+  network: string,
+  address: string,
+  symbol?: string
+) => {
+  const result = validateAddress(network, address, symbol);
+  if (!result.valid) {
+    throw new ValidationError(
+      result.message,
+      { network, address },
+      result.code
+    );
+  }
+
+  return result;
+};
@@ -0,0 +1,126 @@
+// ./src/utils/cache.ts
+
+import { logger } from "@untools/logger";
+
+interface CacheEntry<T> {
+  value: T;
+  fetchedAt: number;
+}
+
+/**
+ * A cached value and how old it is
+ */
+export interface CachedResult<T> {
+  value: T;
+  fetchedAt: Date;
+  ageMs: number;
+  /** True if the value is past its TTL */
+  stale: boolean;
+}
+
+export interface StaleCacheOptions {
+  /** How long a value is fresh */
+  ttlMs: number;
+  /** How long past the TTL a value is served while it refreshes in the background */
+  staleWhileRevalidateMs: number;
+  /** How long past the TTL a value is served when it can't be refreshed */
+  staleIfErrorMs: number;
+}
+
+/**
+ * In-process cache with a TTL. Concurrent misses for a key share one load.
+ * Past the TTL a value is still served for a while and refreshed in the
+ * background, and it is kept as a fallback for when loading fails.
+ */
+export class StaleCache<T> {
+  private entries = new Map<string, CacheEntry<T>>();
+  private loading = new Map<string, Promise<CacheEntry<T>>>();
+
+  constructor(private readonly options: StaleCacheOptions) {}
+
+  /**
+   * Gets a value from the cache, loading it when missing or too old
+   *
+   * @param key - Cache key
+   * @param load - Loads the value
+   * @returns The value and its age
+   * @throws The load error if there is no value recent enough to fall back to
+   */
+  async get(key: string, load: () => Promise<T>): Promise<CachedResult<T>> {
+    const { ttlMs, staleWhileRevalidateMs, staleIfErrorMs } = this.options;
+    const entry = this.entries.get(key);
+    const age = entry ? Date.now() - entry.fetchedAt : Infinity;
+
+    if (age < ttlMs) return this.toResult(entry);
+
+    if (age < ttlMs + staleWhileRevalidateMs) {
+      this.refresh(key, load).catch((error) =>
+        logger.warn(`Background refresh of ${key} failed`, error)
+      );
+      return this.toResult(entry);
+    }
+
+    try {
+      return this.toResult(await this.refresh(key, load));
+    } catch (error) {
+      if (age < ttlMs + staleIfErrorMs) {
+        logger.warn(
+          `Serving ${key} from ${Math.round(age / 1000)}s ago, refresh failed`,
+          error
+        );
+        return this.toResult(entry);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Gets the cached value of a key without loading it
+   *
+   * @param key - Cache key
+   * @returns The value and its age, or null if nothing is cached
+   */
+  peek(key: string): CachedResult<T> | null {
+    const entry = this.entries.get(key);
+    return entry ? this.toResult(entry) : null;
+  }
+
+  /**
+   * Removes a key, or every key when none is given
+   *
+   * @param key - Cache key
+   */
+  invalidate(key?: string) {
+    if (key === undefined) this.entries.clear();
+    else this.entries.delete(key);
+  }
+
+  /**
+   * Loads a key, joining a load already in progress
+   */
+  private refresh(key: string, load: () => Promise<T>) {
+    const pending = this.loading.get(key);
+    if (pending) return pending;
+
+    const promise = load()
+      .then((value) => {
+        const entry = { value, fetchedAt: Date.now() };
+        this.entries.set(key, entry);
+        return entry;
+      })
+      .finally(() => this.loading.delete(key));
+
+    this.loading.set(key, promise);
+    return promise;
+  }
+
+  private toResult(entry: CacheEntry<T>): CachedResult<T> {
+    const ageMs = Date.now() - entry.fetchedAt;
+    return {
+      value: entry.value,
+      fetchedAt: new Date(entry.fetchedAt),
+      ageMs,
+      stale: ageMs >= this.options.ttlMs,
+    };
+  }
+}
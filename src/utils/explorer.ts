@@ -0,0 +1,20 @@
+// ./src/utils/explorer.ts
+
+import { getNetworkInfo } from "./networks.js";
+
+/**
+ * Builds the block explorer link of an on-chain transaction
+ *
+ * @param network - 100Pay network name, e.g. "BSC"
+ * @param transactionHash - On-chain transaction hash
+ * @returns Explorer URL, or null for unknown networks and off-chain transfers
+ */
+export const getExplorerUrl = (
+  network?: string,
+  transactionHash?: string
+): string | null => {
+  const info = getNetworkInfo(network);
+  if (!info || !transactionHash) return null;
+
+  return `${info.explorerTxUrl}${transactionHash}`;
+};
@@ -0,0 +1,48 @@
+// ./src/utils/format.ts
+
+import { getDecimals, roundAmount } from "./money.js";
+
+/**
+ * Escapes text for use in an HTML email
+ *
+ * @param text - Text that may come from a user
+ * @returns Text with HTML special characters escaped
+ */
+export const escapeHtml = (text: string): string =>
+  text.replace(
+    /[&<>"']/g,
+    (char) =>
+      ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[
+        char
+      ]
+  );
+
+/**
+ * Formats a date field for GraphQL. Dates may be strings when a result was
+ * replayed from a stored idempotent response.
+ *
+ * @param date - Date or date string
+ * @returns ISO string, or null if there's no date
+ */
+export const toISOString = (date?: Date | string | null): string | null =>
+  date ? new Date(date).toISOString() : null;
+
+/**
+ * Formats an amount for a Decimal field. A stored Decimal128 in a replayed
+ * idempotent response comes as { $numberDecimal } instead.
+ *
+ * @param value - Decimal128, its JSON form, a decimal string or a number
+ * @param decimals - Decimals to round to, e.g. a wallet's. Left as is without them.
+ * @returns Decimal string, or null if there's no value
+ */
+export const toDecimal = (
+  value,
+  decimals?: string | number | null
+): string | null => {
+  if (value === undefined || value === null || value === "") return null;
+
+  const decimal = value.$numberDecimal ?? value.toString();
+  return decimals === undefined
+    ? decimal
+    : roundAmount(decimal, getDecimals(decimals));
+};
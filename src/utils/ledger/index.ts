@@ -0,0 +1 @@
+export * from "./postingRules.js";
@@ -0,0 +1,172 @@
+// ./src/utils/ledger/postingRules.ts
+
+import {
+  LedgerPosting,
+  PostingDirection,
+  PostingStatus,
+} from "../../types/ledger.js";
+import { BalanceResult } from "../../types/userWallet/balance.js";
+import {
+  AmountLike,
+  addAmounts,
+  compareAmounts,
+  isZeroAmount,
+  subtractAmounts,
+  toDecimal128,
+  toNumber,
+} from "../money.js";
+
+/**
+ * Account that absorbs the other side of postings for addresses
+ * outside of our wallets, so every entry still balances
+ */
+export const EXTERNAL_CLEARING_ACCOUNT = "external";
+
+/**
+ * Change a posting makes to a wallet's running balances, as exact decimal
+ * strings
+ */
+export interface BalanceDelta {
+  totalBalance: string;
+  availableBalance: string;
+  pendingCredits: string;
+  pendingDebits: string;
+}
+
+export const emptyDelta = (): BalanceDelta => ({
+  totalBalance: "0",
+  availableBalance: "0",
+  pendingCredits: "0",
+  pendingDebits: "0",
+});
+
+/**
+ * Turns exact running balances into a balance result
+ */
+export const toBalanceResult = (balance: BalanceDelta): BalanceResult => ({
+  totalBalance: toNumber(balance.totalBalance),
+  availableBalance: toNumber(balance.availableBalance),
+  pendingCredits: toNumber(balance.pendingCredits),
+  pendingDebits: toNumber(balance.pendingDebits),
+  totalBalanceDecimal: balance.totalBalance,
+  availableBalanceDecimal: balance.availableBalance,
+  pendingCreditsDecimal: balance.pendingCredits,
+  pendingDebitsDecimal: balance.pendingDebits,
+  transactions: [],
+});
+
+/**
+ * Maps a 100Pay transaction status to a posting status
+ */
+export const toPostingStatus = (status: string): PostingStatus => {
+  if (status === "successful" || status === "completed") return "successful";
+  if (status === "pending") return "pending";
+  return "failed";
+};
+
+/**
+ * Maps a 100Pay transaction type to a posting direction
+ */
+export const toPostingDirection = (type: string): PostingDirection | null => {
+  if (type === "credit" || type === "debit") return type;
+  return null;
+};
+
+/**
+ * Balance rules for a single posting:
+ * - successful credits/debits move both total and available balance
+ * - pending credits/debits move the total balance and the matching pending bucket
+ * - failed postings have no effect
+ */
+export const getPostingDelta = (
+  direction: PostingDirection,
+  status: PostingStatus,
+  amount: AmountLike
+): BalanceDelta => {
+  const delta = emptyDelta();
+
+  if (status === "failed") return delta;
+
+  const value = addAmounts(amount);
+  const negated = subtractAmounts(0, amount);
+
+  if (direction === "credit") {
+    delta.totalBalance = value;
+    if (status === "successful") delta.availableBalance = value;
+    else delta.pendingCredits = value;
+  } else {
+    delta.totalBalance = negated;
+    if (status === "successful") delta.availableBalance = negated;
+    else delta.pendingDebits = value;
+  }
+
+  return delta;
+};
+
+/**
+ * Adds one delta to another, returning a new delta
+ */
+export const addDelta = (a: BalanceDelta, b: BalanceDelta): BalanceDelta => ({
+  totalBalance: addAmounts(a.totalBalance, b.totalBalance),
+  availableBalance: addAmounts(a.availableBalance, b.availableBalance),
+  pendingCredits: addAmounts(a.pendingCredits, b.pendingCredits),
+  pendingDebits: addAmounts(a.pendingDebits, b.pendingDebits),
+});
+
+/**
+ * Subtracts one delta from another, returning a new delta
+ */
+export const subtractDelta = (
+  a: BalanceDelta,
+  b: BalanceDelta
+): BalanceDelta => ({
+  totalBalance: subtractAmounts(a.totalBalance, b.totalBalance),
+  availableBalance: subtractAmounts(a.availableBalance, b.availableBalance),
+  pendingCredits: subtractAmounts(a.pendingCredits, b.pendingCredits),
+  pendingDebits: subtractAmounts(a.pendingDebits, b.pendingDebits),
+});
+
+export const isEmptyDelta = (delta: BalanceDelta): boolean =>
+  Object.values(delta).every(isZeroAmount);
+
+/**
+ * Replaces the clearing leg of an entry so that its credits and debits net to zero
+ *
+ * @param postings - Wallet postings of the entry
+ * @param symbol - Symbol of the entry
+ * @returns Postings including the balancing clearing leg, if one is needed
+ */
+export const balancePostings = (
+  postings: LedgerPosting[],
+  symbol: string
+): LedgerPosting[] => {
+  const walletPostings = postings.filter(
+    (posting) => posting.accountId !== EXTERNAL_CLEARING_ACCOUNT
+  );
+
+  const net = walletPostings
+    .filter((posting) => posting.status !== "failed")
+    .reduce(
+      (sum, posting) =>
+        posting.direction === "credit"
+          ? addAmounts(sum, posting.amount)
+          : subtractAmounts(sum, posting.amount),
+      "0"
+    );
+
+  const sign = compareAmounts(net, 0);
+  if (sign === 0) return walletPostings;
+
+  return [
+    ...walletPostings,
+    {
+      accountId: EXTERNAL_CLEARING_ACCOUNT,
+      symbol,
+      direction: sign > 0 ? "debit" : "credit",
+      amount: toDecimal128(sign > 0 ? net : subtractAmounts(0, net)),
+      status: walletPostings.some((posting) => posting.status === "pending")
+        ? "pending"
+        : "successful",
+    },
+  ];
+};
@@ -0,0 +1,289 @@
+// ./src/utils/money.ts
+
+import { Types } from "mongoose";
+import { ValidationError } from "../services/error.services.js";
+
+/** Decimals used when a wallet doesn't say, enough for any supported token */
+export const DEFAULT_DECIMALS = 18;
+export const FIAT_DECIMALS = 2;
+/** Scale of sums and differences that aren't tied to one wallet */
+const EXACT_DECIMALS = 36;
+const MAX_EXPONENT = 100;
+
+const DECIMAL_PATTERN = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+export type RoundingMode = "half_up" | "down" | "up";
+
+/** An amount as a decimal string, a number or a stored Decimal128 */
+export type AmountLike = string | number | Types.Decimal128;
+
+/**
+ * Divides two integers, rounding the quotient away from zero for "up" and
+ * for halves with "half_up"
+ */
+const divide = (
+  numerator: bigint,
+  denominator: bigint,
+  rounding: RoundingMode
+) => {
+  const negative = numerator < 0n !== denominator < 0n;
+  const n = numerator < 0n ? -numerator : numerator;
+  const d = denominator < 0n ? -denominator : denominator;
+
+  let quotient = n / d;
+  const remainder = n % d;
+  if (
+    remainder &&
+    (rounding === "up" || (rounding === "half_up" && remainder * 2n >= d))
+  ) {
+    quotient += 1n;
+  }
+
+  return negative ? -quotient : quotient;
+};
+
+/**
+ * Parses a wallet's decimals, which 100Pay sends as a string
+ *
+ * @param decimals - Decimals of the wallet or token
+ * @returns The decimals, or DEFAULT_DECIMALS if missing or invalid
+ */
+export const getDecimals = (decimals?: string | number | null): number => {
+  const value = Number(decimals);
+  return Number.isInteger(value) && value >= 0 && value <= EXACT_DECIMALS
+    ? value
+    : DEFAULT_DECIMALS;
+};
+
+/**
+ * Scales an amount to integer base units, e.g. wei for 18 decimals, without
+ * going through floating point
+ *
+ * @param value - Decimal amount
+ * @param decimals - Decimals of the base unit
+ * @param rounding - How to round digits past the decimals
+ * @throws ValidationError if the value isn't a decimal number
+ */
+export const toBaseUnits = (
+  value: AmountLike,
+  decimals: number,
+  rounding: RoundingMode = "half_up"
+): bigint => {
+  const match = DECIMAL_PATTERN.exec(String(value ?? "").trim());
+  if (
+    !match ||
+    (!match[2] && !match[3]) ||
+    Math.abs(Number(match[4] || 0)) > MAX_EXPONENT
+  ) {
+    throw new ValidationError(
+      "Amount must be a decimal number",
+      { amount: String(value) },
+      "AMOUNT_INVALID"
+    );
+  }
+
+  const [, sign, whole = "", fraction = "", exponent = "0"] = match;
+  const digits = BigInt(`${whole}${fraction}` || "0");
+  // value = digits * 10^-(fraction digits - exponent)
+  const shift = decimals - (fraction.length - Number(exponent));
+
+  const units =
+    shift >= 0
+      ? digits * 10n ** BigInt(shift)
+      : divide(digits, 10n ** BigInt(-shift), rounding);
+
+  return sign === "-" ? -units : units;
+};
+
+/**
+ * Turns integer base units back into a plain decimal string without
+ * trailing zeros
+ *
+ * @param units - Amount in base units
+ * @param decimals - Decimals of the base unit
+ */
+export const fromBaseUnits = (units: bigint, decimals: number): string => {
+  const negative = units < 0n;
+  const digits = (negative ? -units : units)
+    .toString()
+    .padStart(decimals + 1, "0");
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, "");
+
+  return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`;
+};
+
+/**
+ * Rounds an amount to a number of decimals
+ *
+ * @param value - Decimal amount
+ * @param decimals - Decimals to keep, all significant ones by default
+ * @param rounding - How to round digits past the decimals
+ * @returns Plain decimal string
+ */
+export const roundAmount = (
+  value: AmountLike,
+  decimals: number = EXACT_DECIMALS,
+  rounding: RoundingMode = "half_up"
+): string => fromBaseUnits(toBaseUnits(value, decimals, rounding), decimals);
+
+/**
+ * Parses an amount a user asked to move. Unlike roundAmount it refuses
+ * amounts that need rounding, so nothing is silently sent short.
+ *
+ * @param value - Amount from the request
+ * @param decimals - Decimals of the wallet
+ * @returns Plain decimal string
+ * @throws ValidationError if the amount is invalid, not positive or has more decimals than the wallet
+ */
+export const parseAmount = (value: AmountLike, decimals: number): string => {
+  const units = toBaseUnits(value, decimals, "down");
+
+  if (units <= 0n) {
+    throw new ValidationError(
+      "Amount must be greater than zero",
+      { amount: String(value) },
+      "AMOUNT_NOT_POSITIVE"
+    );
+  }
+
+  if (toBaseUnits(value, decimals, "up") !== units) {
+    throw new ValidationError(
+      `Amount can have at most ${decimals} decimal places`,
+      { amount: String(value), decimals },
+      "AMOUNT_PRECISION_EXCEEDED"
+    );
+  }
+
+  return fromBaseUnits(units, decimals);
+};
+
+/**
+ * Adds amounts exactly
+ *
+ * @returns Plain decimal string
+ */
+export const addAmounts = (...values: AmountLike[]): string =>
+  fromBaseUnits(
+    values.reduce<bigint>(
+      (sum, value) => sum + toBaseUnits(value, EXACT_DECIMALS),
+      0n
+    ),
+    EXACT_DECIMALS
+  );
+
+/**
+ * Subtracts one amount from another exactly
+ *
+ * @returns Plain decimal string
+ */
+export const subtractAmounts = (a: AmountLike, b: AmountLike): string =>
+  fromBaseUnits(
+    toBaseUnits(a, EXACT_DECIMALS) - toBaseUnits(b, EXACT_DECIMALS),
+    EXACT_DECIMALS
+  );
+
+/**
+ * Compares two amounts exactly
+ *
+ * @returns -1, 0 or 1 as a is less than, equal to or greater than b
+ */
+export const compareAmounts = (a: AmountLike, b: AmountLike): number => {
+  const difference =
+    toBaseUnits(a, EXACT_DECIMALS) - toBaseUnits(b, EXACT_DECIMALS);
+  return difference === 0n ? 0 : difference < 0n ? -1 : 1;
+};
+
+export const isZeroAmount = (value: AmountLike): boolean =>
+  toBaseUnits(value, EXACT_DECIMALS) === 0n;
+
+/**
+ * Converts an amount between currencies through their USD rates, rounding
+ * only once at the end
+ *
+ * @param amount - Amount in the source currency
+ * @param fromRate - USD value of one source unit
+ * @param toRate - USD value of one target unit
+ * @param decimals - Decimals of the target currency
+ * @returns Plain decimal string
+ */
+export const convertAmount = (
+  amount: AmountLike,
+  fromRate: AmountLike,
+  toRate: AmountLike,
+  decimals: number,
+  rounding: RoundingMode = "half_up"
+): string => {
+  const to = toBaseUnits(toRate, EXACT_DECIMALS);
+  if (to === 0n) {
+    throw new ValidationError(
+      "Rate must not be zero",
+      { toRate: String(toRate) },
+      "RATE_INVALID"
+    );
+  }
+
+  // (amount * fromRate / toRate) * 10^decimals, with every input at the exact scale
+  const numerator =
+    toBaseUnits(amount, EXACT_DECIMALS) *
+    toBaseUnits(fromRate, EXACT_DECIMALS) *
+    10n ** BigInt(decimals);
+  const denominator = to * 10n ** BigInt(EXACT_DECIMALS);
+
+  return fromBaseUnits(divide(numerator, denominator, rounding), decimals);
+};
+
+/**
+ * Formats an amount for people, with thousands separators
+ *
+ * @param value - Decimal amount
+ * @param decimals - Decimals to round to
+ * @param minimumFractionDigits - Decimals always shown, padded with zeros
+ */
+export const formatAmount = (
+  value: AmountLike,
+  decimals: number,
+  minimumFractionDigits = 0
+): string => {
+  const [whole, fraction = ""] = roundAmount(value, decimals).split(".");
+  const padded = fraction.padEnd(
+    Math.min(minimumFractionDigits, decimals),
+    "0"
+  );
+
+  return `${whole.replace(/\B(?=(\d{3})+(?!\d))/g, ",")}${padded ? `.${padded}` : ""}`;
+};
+
+/**
+ * Picks the Decimal amount of a request over its deprecated Float amount
+ *
+ * @param amountDecimal - Exact amount, from a Decimal field
+ * @param amount - Amount from the deprecated Float field
+ * @throws ValidationError if neither was given
+ */
+export const requireAmount = (
+  amountDecimal?: string | null,
+  amount?: number | null
+): string | number => {
+  const value = amountDecimal ?? amount;
+  if (value === undefined || value === null) {
+    throw new ValidationError(
+      "amountDecimal is required",
+      undefined,
+      "AMOUNT_REQUIRED"
+    );
+  }
+  return value;
+};
+
+/**
+ * Stores an amount exactly in MongoDB
+ */
+export const toDecimal128 = (value: AmountLike): Types.Decimal128 =>
+  Types.Decimal128.fromString(roundAmount(value, DEFAULT_DECIMALS));
+
+/**
+ * Reads an amount as a float, for the deprecated Float fields
+ */
+export const toNumber = (value: AmountLike | null | undefined): number =>
+  value === null || value === undefined ? 0 : Number(String(value));
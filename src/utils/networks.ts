@@ -0,0 +1,104 @@
+// ./src/utils/networks.ts
+
+export type NetworkFamily = "evm" | "bitcoin" | "litecoin" | "tron" | "solana";
+
+export interface NetworkInfo {
+  family: NetworkFamily;
+  /** EIP-155 chain ID of EVM networks */
+  chainId?: number;
+  /** Symbol of the network's native asset */
+  nativeSymbol: string;
+  /** Transaction URL prefix of a public block explorer */
+  explorerTxUrl: string;
+}
+
+const ETHEREUM: NetworkInfo = {
+  family: "evm",
+  chainId: 1,
+  nativeSymbol: "ETH",
+  explorerTxUrl: "https://etherscan.io/tx/",
+};
+const BITCOIN: NetworkInfo = {
+  family: "bitcoin",
+  nativeSymbol: "BTC",
+  explorerTxUrl: "https://mempool.space/tx/",
+};
+const TRON: NetworkInfo = {
+  family: "tron",
+  nativeSymbol: "TRX",
+  explorerTxUrl: "https://tronscan.org/#/transaction/",
+};
+const LITECOIN: NetworkInfo = {
+  family: "litecoin",
+  nativeSymbol: "LTC",
+  explorerTxUrl: "https://blockchair.com/litecoin/transaction/",
+};
+const SOLANA: NetworkInfo = {
+  family: "solana",
+  nativeSymbol: "SOL",
+  explorerTxUrl: "https://solscan.io/tx/",
+};
+
+/**
+ * Networks we know details of, keyed by 100Pay network name
+ */
+const NETWORKS: Record<string, NetworkInfo> = {
+  ETHEREUM,
+  ETH: ETHEREUM,
+  ERC20: ETHEREUM,
+  BSC: {
+    family: "evm",
+    chainId: 56,
+    nativeSymbol: "BNB",
+    explorerTxUrl: "https://bscscan.com/tx/",
+  },
+  POLYGON: {
+    family: "evm",
+    chainId: 137,
+    nativeSymbol: "POL",
+    explorerTxUrl: "https://polygonscan.com/tx/",
+  },
+  ARBITRUM: {
+    family: "evm",
+    chainId: 42161,
+    nativeSymbol: "ETH",
+    explorerTxUrl: "https://arbiscan.io/tx/",
+  },
+  OPTIMISM: {
+    family: "evm",
+    chainId: 10,
+    nativeSymbol: "ETH",
+    explorerTxUrl: "https://optimistic.etherscan.io/tx/",
+  },
+  BASE: {
+    family: "evm",
+    chainId: 8453,
+    nativeSymbol: "ETH",
+    explorerTxUrl: "https://basescan.org/tx/",
+  },
+  AVALANCHE: {
+    family: "evm",
+    chainId: 43114,
+    nativeSymbol: "AVAX",
+    explorerTxUrl: "https://snowtrace.io/tx/",
+  },
+  TRON,
+  TRC20: TRON,
+  BITCOIN,
+  BTC: BITCOIN,
+  LITECOIN,
+  LTC: LITECOIN,
+  SOLANA,
+  SOL: SOLANA,
+};
+
+/**
+ * Gets what we know about a network
+ *
+ * @param network - 100Pay network name, e.g. "BSC"
+ * @returns Network details, or null for unknown networks
+ */
+export const getNetworkInfo = (network?: string): NetworkInfo | null => {
+  if (!network) return null;
+  return NETWORKS[network.toUpperCase()] ?? null;
+};
@@ -0,0 +1,59 @@
+// ./src/utils/paymentUri.ts
+
+import { getNetworkInfo } from "./networks.js";
+import { DEFAULT_DECIMALS, roundAmount, toBaseUnits } from "./money.js";
+
+/**
+ * Builds a payment URI that wallet apps can open from a QR code:
+ * - BIP-21 style for Bitcoin, Litecoin and Tron
+ * - Solana Pay for Solana
+ * - EIP-681 for EVM networks
+ * On EVM networks and Solana the amount is only included for the native
+ * asset, since tokens need their contract address.
+ *
+ * @returns The URI, or null if the network is unknown
+ */
+export const buildPaymentUri = ({
+  network,
+  symbol,
+  address,
+  amount,
+  memo,
+  label,
+}: {
+  network: string;
+  symbol: string;
+  address: string;
+  amount: number | string;
+  memo?: string;
+  label?: string;
+}): string | null => {
+  const info = getNetworkInfo(network);
+  if (!info || !address) return null;
+
+  const isNative = symbol.toUpperCase() === info.nativeSymbol;
+  // Plain decimal notation, amounts like 1e-7 aren't understood by wallets
+  const plainAmount = roundAmount(amount, DEFAULT_DECIMALS, "down");
+  const params = new URLSearchParams();
+
+  switch (info.family) {
+    case "evm": {
+      if (isNative) {
+        params.set("value", toBaseUnits(plainAmount, 18).toString());
+      }
+      const query = params.toString();
+      return `ethereum:${address}@${info.chainId}${query ? `?${query}` : ""}`;
+    }
+    case "solana":
+      // SPL tokens need their mint address, so only SOL gets an amount
+      if (isNative) params.set("amount", plainAmount);
+      if (label) params.set("label", label);
+      if (memo) params.set("message", memo);
+      return `solana:${address}?${params.toString()}`;
+    default:
+      params.set("amount", plainAmount);
+      if (label) params.set("label", label);
+      if (memo) params.set("message", memo);
+      return `${info.family}:${address}?${params.toString()}`;
+  }
+};
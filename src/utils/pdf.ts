@@ -0,0 +1,92 @@
+// ./src/utils/pdf.ts
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+const FONT_SIZE = 9;
+const LINE_HEIGHT = 11;
+// Courier glyphs are 0.6em wide
+export const PDF_LINE_WIDTH = Math.floor(
+  (PAGE_WIDTH - 2 * MARGIN) / (FONT_SIZE * 0.6)
+);
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - 2 * MARGIN) / LINE_HEIGHT) - 2;
+
+/**
+ * Escapes text for a PDF string literal. The standard fonts only cover
+ * Latin-1, so anything else is replaced.
+ */
+const escapePdfText = (text: string) =>
+  text
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, "?")
+    .replace(/[\\()]/g, (char) => `\\${char}`);
+
+/**
+ * Builds a plain text PDF in a monospaced font, so columns padded with
+ * spaces line up. Lines are cut at PDF_LINE_WIDTH and pages are numbered.
+ *
+ * @param lines - Lines of text, "\f" starts a new page
+ * @param title - Document title
+ * @returns The PDF file
+ */
+export const createTextPdf = (lines: string[], title: string): Buffer => {
+  const pages: string[][] = [[]];
+  for (const line of lines) {
+    const current = pages[pages.length - 1];
+    if (line === "\f") {
+      if (current.length) pages.push([]);
+      continue;
+    }
+    if (current.length >= LINES_PER_PAGE) pages.push([]);
+    pages[pages.length - 1].push(line.slice(0, PDF_LINE_WIDTH));
+  }
+
+  // 1: catalog, 2: page tree, 3: font, 4: info, then a page and its content per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, index) => 5 + index * 2);
+
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`;
+  objects[3] =
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>";
+  objects[4] = `<< /Title (${escapePdfText(title)}) /Producer (${escapePdfText(process.env.APP_NAME || "Application")}) >>`;
+
+  pages.forEach((pageLines, index) => {
+    const footer = `Page ${index + 1} of ${pages.length}`;
+    const content = [
+      "BT",
+      `/F1 ${FONT_SIZE} Tf`,
+      `${LINE_HEIGHT} TL`,
+      `${MARGIN} ${PAGE_HEIGHT - MARGIN} Td`,
+      ...pageLines.map((line) => `(${escapePdfText(line)}) Tj T*`),
+      "ET",
+      "BT",
+      `/F1 ${FONT_SIZE} Tf`,
+      `${PAGE_WIDTH - MARGIN - footer.length * FONT_SIZE * 0.6} ${MARGIN / 2} Td`,
+      `(${footer}) Tj`,
+      "ET",
+    ].join("\n");
+
+    const pageId = pageIds[index];
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] =
+      `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`;
+  });
+
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(pdf, "latin1");
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(pdf, "latin1");
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 4 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, "latin1");
+};
@@ -0,0 +1,244 @@
+// ./src/utils/rates/index.ts
+
+import { readFile, stat } from "fs/promises";
+import {
+  CryptoPrice,
+  FiatPrice,
+  UpdatePriceResponse,
+  UpdateSpecificCoinResponse,
+} from "../../types/rates.js";
+
+/**
+ * A source of crypto and fiat prices, all in USD
+ */
+export interface RatesProvider {
+  readonly name: string;
+  getAllPrices(): Promise<CryptoPrice[]>;
+  getPrice(symbol: string, currency?: string): Promise<CryptoPrice>;
+  getAllFiatPrices(): Promise<FiatPrice[]>;
+  getFiatPrice(symbol: string, targetCurrency?: string): Promise<FiatPrice>;
+  /** Only providers that keep their own prices can refresh them */
+  triggerPriceUpdate?(): Promise<UpdatePriceResponse>;
+  updateCoinPrice?(coin: string): Promise<UpdateSpecificCoinResponse>;
+}
+
+/**
+ * The cryptocurrency price API, authenticated with an x-api-key header
+ */
+export class HttpRatesProvider implements RatesProvider {
+  /**
+   * @param name - Name of the provider in logs
+   * @param baseUrl - The base URL of the API
+   * @param apiKey - The API key required for authentication
+   */
+  constructor(
+    readonly name: string,
+    private readonly baseUrl: string,
+    private readonly apiKey: string
+  ) {
+    if (!apiKey) {
+      throw new Error("API key is required for RatesService");
+    }
+  }
+
+  async getAllPrices() {
+    return this.request<CryptoPrice[]>("GET", "/api/prices");
+  }
+
+  async getPrice(symbol: string, currency?: string) {
+    return this.request<CryptoPrice>(
+      "GET",
+      `/api/price/${symbol}`,
+      currency && { currency }
+    );
+  }
+
+  async getAllFiatPrices() {
+    return this.request<FiatPrice[]>("GET", "/api/fiat-prices");
+  }
+
+  async getFiatPrice(symbol: string, targetCurrency?: string) {
+    return this.request<FiatPrice>(
+      "GET",
+      `/api/fiat-price/${symbol}`,
+      targetCurrency && { currency: targetCurrency }
+    );
+  }
+
+  async triggerPriceUpdate() {
+    return this.request<UpdatePriceResponse>("POST", "/api/update-prices");
+  }
+
+  async updateCoinPrice(coin: string) {
+    return this.request<UpdateSpecificCoinResponse>(
+      "POST",
+      `/api/update-price/${coin}`
+    );
+  }
+
+  /**
+   * Sends a request to the API
+   *
+   * @param method - The HTTP method to use
+   * @param path - Path of the endpoint
+   * @param query - Optional query parameters
+   * @returns The JSON response if successful
+   * @throws Error with appropriate message if the request fails
+   */
+  private async request<T>(
+    method: string,
+    path: string,
+    query?: Record<string, string> | "" | undefined
+  ): Promise<T> {
+    const url = new URL(`${this.baseUrl}${path}`);
+    Object.entries(query || {}).forEach(([key, value]) =>
+      url.searchParams.append(key, value)
+    );
+
+    const response = await fetch(url.toString(), {
+      method,
+      headers: {
+        "x-api-key": `${this.apiKey}`,
+        "Content-Type": "application/json",
+      },
+    });
+
+    if (!response.ok) {
+      // Try to parse error response as JSON
+      const errorData = await response.json().catch(() => null);
+      const errorMessage = errorData
+        ? JSON.stringify(errorData)
+        : `HTTP error ${response.status}`;
+
+      // Handle specific error codes
+      if (response.status === 401) {
+        throw new Error("API Error: Unauthorized. Please check your API key.");
+      } else if (response.status === 403) {
+        throw new Error(
+          "API Error: Forbidden. Your API key might not have sufficient permissions."
+        );
+      } else {
+        throw new Error(`API Error: ${errorMessage}`);
+      }
+    }
+
+    return (await response.json()) as T;
+  }
+}
+
+/**
+ * Prices from a local JSON file, for development and tests. The file has
+ * the shape { "prices": [{ "symbol", "price" }], "fiatPrices":
+ * [{ "symbol", "rate_to_usd" }] } and is read again when it changes.
+ */
+export class StaticRatesProvider implements RatesProvider {
+  readonly name = "static";
+  private loaded?: {
+    mtimeMs: number;
+    prices: CryptoPrice[];
+    fiatPrices: FiatPrice[];
+  };
+
+  /**
+   * @param filePath - Path of the JSON file
+   */
+  constructor(private readonly filePath: string) {}
+
+  async getAllPrices() {
+    return (await this.load()).prices;
+  }
+
+  async getPrice(symbol: string, currency?: string) {
+    const price = (await this.load()).prices.find(
+      (item) => item.symbol.toUpperCase() === symbol.toUpperCase()
+    );
+    if (!price) throw new Error(`API Error: Price not found for ${symbol}`);
+    if (!currency || currency.toUpperCase() === "USD") return price;
+
+    const { rate_to_usd } = await this.getFiatPrice(currency);
+    return {
+      ...price,
+      price: price.price / rate_to_usd,
+      updated_price: price.updated_price / rate_to_usd,
+      currency: currency.toUpperCase(),
+    };
+  }
+
+  async getAllFiatPrices() {
+    return (await this.load()).fiatPrices;
+  }
+
+  async getFiatPrice(symbol: string, targetCurrency?: string) {
+    const { fiatPrices } = await this.load();
+    const find = (code: string) =>
+      code.toUpperCase() === "USD"
+        ? 1
+        : fiatPrices.find(
+            (item) => item.symbol.toUpperCase() === code.toUpperCase()
+          )?.rate_to_usd;
+
+    const rate = find(symbol);
+    const target = targetCurrency ? find(targetCurrency) : 1;
+    if (!rate || !target) {
+      throw new Error(
+        `API Error: Fiat price not found for ${!rate ? symbol : targetCurrency}`
+      );
+    }
+
+    return {
+      symbol: symbol.toUpperCase(),
+      rate_to_usd: rate / target,
+      last_updated: new Date(this.loaded.mtimeMs).toISOString(),
+    };
+  }
+
+  private async load() {
+    const { mtimeMs } = await stat(this.filePath);
+    if (this.loaded?.mtimeMs === mtimeMs) return this.loaded;
+
+    const file = JSON.parse(await readFile(this.filePath, "utf8"));
+    const lastUpdated = new Date(mtimeMs).toISOString();
+
+    this.loaded = {
+      mtimeMs,
+      prices: (file.prices || []).map((item) => ({
+        margin: 0,
+        updated_price: item.price,
+        last_updated: lastUpdated,
+        ...item,
+      })),
+      fiatPrices: (file.fiatPrices || []).map((item) => ({
+        last_updated: lastUpdated,
+        ...item,
+      })),
+    };
+    return this.loaded;
+  }
+}
+
+/**
+ * Creates the providers named in RATES_PROVIDERS, in failover order
+ */
+export const createRatesProviders = (): RatesProvider[] => {
+  const names = (process.env.RATES_PROVIDERS || "http")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  return names.map((name) => {
+    switch (name) {
+      case "http":
+        return new HttpRatesProvider(
+          "http",
+          process.env.RATES_API || "",
+          process.env.RATES_API_KEY || ""
+        );
+      case "static":
+        return new StaticRatesProvider(
+          process.env.RATES_STATIC_FILE || "rates.json"
+        );
+      default:
+        throw new Error(`Unknown rates provider: ${name}`);
+    }
+  });
+};
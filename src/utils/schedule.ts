@@ -0,0 +1,70 @@
+// ./src/utils/schedule.ts
+
+import { ScheduleFrequency } from "../types/scheduledTransfer.js";
+
+/**
+ * Gets the nth occurrence of a schedule. Occurrences are counted from the
+ * start so monthly schedules keep their day of month, falling back to the
+ * last day of shorter months.
+ *
+ * @param startAt - First occurrence
+ * @param frequency - Recurrence of the schedule
+ * @param index - Occurrence to get, 0 is the start
+ */
+export const getOccurrence = (
+  startAt: Date,
+  frequency: ScheduleFrequency,
+  index: number
+): Date => {
+  const date = new Date(startAt);
+
+  switch (frequency) {
+    case "daily":
+      date.setUTCDate(date.getUTCDate() + index);
+      return date;
+    case "weekly":
+      date.setUTCDate(date.getUTCDate() + index * 7);
+      return date;
+    case "monthly": {
+      const day = date.getUTCDate();
+      date.setUTCDate(1);
+      date.setUTCMonth(date.getUTCMonth() + index);
+      const daysInMonth = new Date(
+        Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)
+      ).getUTCDate();
+      date.setUTCDate(Math.min(day, daysInMonth));
+      return date;
+    }
+    default:
+      return index === 0 ? date : null;
+  }
+};
+
+/**
+ * Gets the first occurrence of a schedule after a point in time
+ *
+ * @returns The occurrence, or null if a one-off schedule has no more
+ */
+export const getNextOccurrence = (
+  startAt: Date,
+  frequency: ScheduleFrequency,
+  after: Date
+): Date | null => {
+  if (frequency === "once") {
+    return startAt > after ? new Date(startAt) : null;
+  }
+
+  // Estimate the index, then step forward to the first occurrence after `after`
+  const periodMs = { daily: 1, weekly: 7, monthly: 31 }[frequency] * 86400000;
+  let index = Math.max(
+    Math.floor((after.getTime() - startAt.getTime()) / periodMs) - 1,
+    0
+  );
+  let occurrence = getOccurrence(startAt, frequency, index);
+  while (occurrence <= after) {
+    index++;
+    occurrence = getOccurrence(startAt, frequency, index);
+  }
+
+  return occurrence;
+};
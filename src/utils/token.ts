@@ -10,6 +10,8 @@ const ACCESS_TOKEN_SECRET =
   process.env.ACCESS_TOKEN_SECRET || "youraccesstokensecret";
 const REFRESH_TOKEN_SECRET =
   process.env.REFRESH_TOKEN_SECRET || "yourrefreshtokensecret";
+const TWO_FACTOR_CHALLENGE_SECRET =
+  process.env.TWO_FACTOR_CHALLENGE_SECRET || "yourtwofactorchallengesecret";
 
 // Create access token
 const createAccessToken = (
@@ -41,6 +43,25 @@ const verifyRefreshToken = (token: string) => {
   return verify(token, REFRESH_TOKEN_SECRET) as JwtPayload;
 };
 
+// Create a short-lived token for the second step of a two-factor login
+const createTwoFactorChallengeToken = (
+  data: { id: Types.ObjectId | string },
+  dur: SignOptions["expiresIn"] = "5m"
+) => {
+  return sign({ data, purpose: "two-factor" }, TWO_FACTOR_CHALLENGE_SECRET, {
+    expiresIn: dur,
+  });
+};
+
+// Verify two-factor challenge token
+const verifyTwoFactorChallengeToken = (token: string) => {
+  const decoded = verify(token, TWO_FACTOR_CHALLENGE_SECRET) as JwtPayload;
+  if (decoded.purpose !== "two-factor") {
+    throw new Error("Invalid two-factor challenge token");
+  }
+  return decoded;
+};
+
 const generateApiKey = (): string => {
   return crypto.randomBytes(32).toString("hex");
 };
@@ -63,6 +84,8 @@ export {
   createRefreshToken,
   verifyAccessToken,
   verifyRefreshToken,
+  createTwoFactorChallengeToken,
+  verifyTwoFactorChallengeToken,
   generateApiKey,
   generateResetToken,
   accessTokenData,
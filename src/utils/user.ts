@@ -1,5 +1,6 @@
 import Role from "../models/role.model.js";
 import User from "../models/user.model.js";
+import { UnauthorizedError } from "../services/error.services.js";
 
 const checkUser = async (userId: string) => {
   if (!userId) {
@@ -25,4 +26,20 @@ const checkUserIsAdmin = async (userId: string) => {
   return true;
 };
 
-export { checkUser, checkUserIsAdmin };
+/**
+ * Checks that the user of a GraphQL request is an admin
+ *
+ * @param context - GraphQL context with the authenticated user
+ * @returns ID of the admin
+ */
+const requireAdmin = async (context): Promise<string> => {
+  const userId = context?.user?.data?.id;
+  if (!userId) throw new Error("User not found");
+
+  const userIsAdmin = await checkUserIsAdmin(userId);
+  if (!userIsAdmin) throw new UnauthorizedError("User is not an admin");
+
+  return userId;
+};
+
+export { checkUser, checkUserIsAdmin, requireAdmin };
@@ -6,6 +6,14 @@ import {
   ITransferHistoryParams,
 } from "@100pay-hq/100pay.js";
 import { BalanceResult } from "../../types/userWallet/balance.js";
+import {
+  addDelta,
+  emptyDelta,
+  getPostingDelta,
+  toBalanceResult,
+  toPostingDirection,
+  toPostingStatus,
+} from "../ledger/index.js";
 
 /**
  * Utility class for wallet balance calculation and related operations
@@ -157,13 +165,7 @@ export class WalletBalanceUtil {
             error
           );
           // Don't fail the entire batch if one fails
-          balances[accountId] = {
-            totalBalance: 0,
-            availableBalance: 0,
-            pendingCredits: 0,
-            pendingDebits: 0,
-            transactions: [],
-          };
+          balances[accountId] = toBalanceResult(emptyDelta());
         }
       })
     );
@@ -172,30 +174,8 @@ export class WalletBalanceUtil {
   }
 
   /**
-   * Maps API status to our status format
-   */
-  private mapTransactionStatus(
-    status: string
-  ): "successful" | "pending" | "failed" {
-    if (status === "completed") return "successful";
-    if (status === "pending") return "pending";
-    return "failed";
-  }
-
-  /**
-   * Maps API transaction type to credit/debit format
-   */
-  private mapTransactionType(
-    type: string,
-    from: string,
-    to: string
-  ): "credit" | "debit" {
-    // You might need to adjust this logic based on how your system determines credit vs debit
-    return type === "credit" ? "credit" : "debit";
-  }
-
-  /**
-   * Process transactions and calculate balances
+   * Process transactions and calculate balances using the ledger posting
+   * rules. Amounts are summed exactly from the strings 100Pay returns.
    *
    * @param transactions - Array of transactions to process
    * @returns Balance calculation result
@@ -204,41 +184,20 @@ export class WalletBalanceUtil {
     transactions: ITransferHistoryItem[],
     returnTransactions = false
   ): BalanceResult {
-    let totalBalance = 0;
-    let availableBalance = 0;
-    let pendingCredits = 0;
-    let pendingDebits = 0;
+    let balance = emptyDelta();
 
     for (const tx of transactions) {
-      const amount = parseFloat(tx.amount);
-
-      // Skip failed transactions
-      if (tx.status === "failed") continue;
-
-      if (tx.type === "credit") {
-        if (tx.status === "successful") {
-          totalBalance += amount;
-          availableBalance += amount;
-        } else if (tx.status === "pending") {
-          totalBalance += amount;
-          pendingCredits += amount;
-        }
-      } else if (tx.type === "debit") {
-        if (tx.status === "successful") {
-          totalBalance -= amount;
-          availableBalance -= amount;
-        } else if (tx.status === "pending") {
-          totalBalance -= amount;
-          pendingDebits += amount;
-        }
-      }
+      const direction = toPostingDirection(tx.type);
+      if (!direction) continue;
+
+      balance = addDelta(
+        balance,
+        getPostingDelta(direction, toPostingStatus(tx.status), tx.amount)
+      );
     }
 
     return {
-      totalBalance,
-      availableBalance,
-      pendingCredits,
-      pendingDebits,
+      ...toBalanceResult(balance),
       transactions: returnTransactions ? transactions : [],
     };
   }
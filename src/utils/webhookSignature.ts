@@ -0,0 +1,36 @@
+// ./src/utils/webhookSignature.ts
+
+import crypto from "crypto";
+
+/**
+ * Signs a raw webhook body with HMAC-SHA256
+ *
+ * @returns Hex encoded signature
+ */
+export const signWebhookPayload = (
+  rawBody: Buffer | string,
+  secret: string
+): string => {
+  return crypto.createHmac("sha256", secret).update(rawBody).digest("hex");
+};
+
+/**
+ * Checks an HMAC-SHA256 signature of a raw webhook body in constant time
+ *
+ * @param signature - Hex signature, optionally prefixed with "sha256="
+ */
+export const verifyWebhookSignature = (
+  rawBody: Buffer | string,
+  signature: string | undefined,
+  secret: string
+): boolean => {
+  if (!signature || !secret) return false;
+
+  const expected = signWebhookPayload(rawBody, secret);
+  const received = signature.replace(/^sha256=/, "").trim();
+
+  return (
+    expected.length === received.length &&
+    crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(received))
+  );
+};